@@ -5,6 +5,8 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Dashboard from "@/pages/dashboard";
 import Settings from "@/pages/settings";
+import Analytics from "@/pages/analytics";
+import Activity from "@/pages/activity";
 import Subscription from "@/pages/subscription";
 import Support from "@/pages/support";
 import WebhookOps from "@/pages/webhook-ops";
@@ -16,6 +18,8 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
+      <Route path="/analytics" component={Analytics} />
+      <Route path="/activity" component={Activity} />
       <Route path="/settings" component={Settings} />
       <Route path="/subscription" component={Subscription} />
       <Route path="/support" component={Support} />
@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, Download, Loader2, Tag, X } from "lucide-react";
+import type { BulkOrderAction, BulkOrderSelection } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+
+type BulkActionRun = {
+  id: string;
+  action: BulkOrderAction;
+  status: "queued" | "running" | "completed" | "failed";
+  totalCount: number;
+  processedCount: number;
+  succeededCount: number;
+  skippedCount: number;
+  failedCount: number;
+  errorMessage: string | null;
+};
+
+const ACTION_LABELS: Record<BulkOrderAction, { label: string; pastTense: string }> = {
+  dismiss: { label: "Dismiss", pastTense: "dismissed" },
+  resolve: { label: "Resolve", pastTense: "resolved" },
+  retag: { label: "Re-tag", pastTense: "re-tagged" },
+};
+
+function isActive(run: BulkActionRun | null | undefined) {
+  return run?.status === "queued" || run?.status === "running";
+}
+
+function summarize(run: BulkActionRun) {
+  const parts = [`${run.succeededCount} ${ACTION_LABELS[run.action].pastTense}`];
+  if (run.skippedCount) parts.push(`${run.skippedCount} no longer flagged`);
+  if (run.failedCount) parts.push(`${run.failedCount} failed`);
+  return parts.join(", ");
+}
+
+/**
+ * Bulk action bar for the flagged orders table. Small selections complete in
+ * the request; larger ones run as a queued job whose progress is polled here.
+ */
+export function BulkActionBar({
+  selection,
+  selectedCount,
+  onClear,
+}: {
+  selection: BulkOrderSelection;
+  selectedCount: number;
+  onClear: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [runId, setRunId] = useState<string | null>(null);
+  const finishedRun = useRef<string | null>(null);
+
+  const { data: run } = useQuery<BulkActionRun>({
+    queryKey: ["/api/orders/bulk", runId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/orders/bulk/${runId}`);
+      return response.json();
+    },
+    enabled: Boolean(runId),
+    refetchInterval: (query) =>
+      isActive(query.state.data as BulkActionRun | undefined) ? 2000 : false,
+  });
+
+  useEffect(() => {
+    if (!run || isActive(run) || finishedRun.current === run.id) return;
+    finishedRun.current = run.id;
+    queryClient.invalidateQueries({ queryKey: ["/api/orders/flagged"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    toast({
+      title: run.status === "completed" ? "Bulk action finished" : "Bulk action stopped",
+      description: run.errorMessage ? `${summarize(run)}. ${run.errorMessage}` : summarize(run),
+      variant: run.status === "failed" ? "destructive" : undefined,
+    });
+    setRunId(null);
+    onClear();
+  }, [onClear, queryClient, run, toast]);
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: BulkOrderAction) => {
+      const response = await apiRequest("POST", "/api/orders/bulk", { action, ...selection });
+      return (await response.json()) as BulkActionRun;
+    },
+    onSuccess: (started) => {
+      queryClient.setQueryData(["/api/orders/bulk", started.id], started);
+      setRunId(started.id);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Bulk action failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/orders/bulk/export", selection);
+      return response.blob();
+    },
+    onSuccess: (blob) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "flagged-orders.csv";
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const busy = actionMutation.isPending || isActive(run);
+
+  return (
+    <Card className="mb-4" data-testid="bar-bulk-actions">
+      <CardContent className="flex flex-col gap-3 p-4">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <span className="text-sm font-medium" data-testid="text-bulk-selected-count">
+            {selectedCount} {selectedCount === 1 ? "order" : "orders"} selected
+          </span>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={busy}
+              onClick={() => actionMutation.mutate("dismiss")}
+              data-testid="button-bulk-dismiss"
+            >
+              <X className="h-4 w-4 mr-1" />
+              {ACTION_LABELS.dismiss.label}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={busy}
+              onClick={() => actionMutation.mutate("resolve")}
+              data-testid="button-bulk-resolve"
+            >
+              <CheckCircle2 className="h-4 w-4 mr-1" />
+              {ACTION_LABELS.resolve.label}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={busy}
+              onClick={() => actionMutation.mutate("retag")}
+              data-testid="button-bulk-retag"
+            >
+              <Tag className="h-4 w-4 mr-1" />
+              {ACTION_LABELS.retag.label}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={exportMutation.isPending}
+              onClick={() => exportMutation.mutate()}
+              data-testid="button-bulk-export"
+            >
+              {exportMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-1" />
+              )}
+              Export CSV
+            </Button>
+            <Button size="sm" variant="ghost" disabled={busy} onClick={onClear} data-testid="button-bulk-clear">
+              Clear
+            </Button>
+          </div>
+        </div>
+        {run && isActive(run) && (
+          <div className="space-y-1" data-testid="progress-bulk-action">
+            <Progress value={run.totalCount ? (run.processedCount / run.totalCount) * 100 : 0} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              {ACTION_LABELS[run.action].label}: {run.processedCount} of {run.totalCount} orders processed
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import type { DetectionExclusion, DetectionExclusionInput, ExclusionType } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const EXCLUSION_TYPE_FIELDS: Record<ExclusionType, { label: string; placeholder: string }> = {
+  email: { label: "Email", placeholder: "buyer@wholesale.com" },
+  phone: { label: "Phone", placeholder: "+1 555 123 4567" },
+  customerId: { label: "Customer ID", placeholder: "Shopify customer ID" },
+  customerTag: { label: "Customer tag", placeholder: "wholesale" },
+  addressKey: { label: "Address", placeholder: "123 Main St (or US|123 Main St)" },
+  sku: { label: "SKU", placeholder: "SUBSCRIPTION-MONTHLY" },
+};
+
+/**
+ * Per-shop exclusion list. Orders matching any entry are stored but never
+ * checked for duplicates; each skip is recorded in the audit log.
+ */
+export function ExclusionsCard() {
+  const { toast } = useToast();
+  const [type, setType] = useState<ExclusionType>("email");
+  const [value, setValue] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data, isLoading } = useQuery<{ exclusions: DetectionExclusion[] }>({
+    queryKey: ["/api/exclusions"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (input: DetectionExclusionInput) => {
+      const response = await apiRequest("POST", "/api/exclusions", input);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/exclusions"] });
+      setValue("");
+      setNote("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not add exclusion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/exclusions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/exclusions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not remove exclusion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAdd = () => {
+    if (!value.trim()) return;
+    createMutation.mutate({ type, value, note: note || null });
+  };
+
+  const exclusions = data?.exclusions ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-section-header">Exclusions</CardTitle>
+        <CardDescription>
+          Orders from these customers, addresses or products are never flagged. Use this for wholesale accounts, staff test orders and subscriptions.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-[10rem_1fr_1fr_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(next) => setType(next as ExclusionType)}>
+              <SelectTrigger data-testid="select-exclusion-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(EXCLUSION_TYPE_FIELDS).map(([id, field]) => (
+                  <SelectItem key={id} value={id}>
+                    {field.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="exclusion-value">Value</Label>
+            <Input
+              id="exclusion-value"
+              value={value}
+              placeholder={EXCLUSION_TYPE_FIELDS[type].placeholder}
+              onChange={(event) => setValue(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  event.preventDefault();
+                  handleAdd();
+                }
+              }}
+              data-testid="input-exclusion-value"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="exclusion-note">Note (optional)</Label>
+            <Input
+              id="exclusion-note"
+              value={note}
+              placeholder="Why is this excluded?"
+              onChange={(event) => setNote(event.target.value)}
+              data-testid="input-exclusion-note"
+            />
+          </div>
+          <Button
+            type="button"
+            onClick={handleAdd}
+            disabled={!value.trim() || createMutation.isPending}
+            data-testid="button-add-exclusion"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : exclusions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No exclusions yet.</p>
+        ) : (
+          <ul className="divide-y rounded-md border" data-testid="list-exclusions">
+            {exclusions.map((exclusion) => (
+              <li key={exclusion.id} className="flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">{EXCLUSION_TYPE_FIELDS[exclusion.type]?.label ?? exclusion.type}</Badge>
+                    <span className="truncate font-mono text-sm">{exclusion.value}</span>
+                  </div>
+                  {exclusion.note && (
+                    <p className="truncate text-xs text-muted-foreground">{exclusion.note}</p>
+                  )}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(exclusion.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label="Remove exclusion"
+                  data-testid={`button-remove-exclusion-${exclusion.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
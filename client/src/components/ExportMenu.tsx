@@ -0,0 +1,97 @@
+import { Fragment } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Download, Loader2 } from "lucide-react";
+import type { ExportFormat } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  buildAuditLogExportQuery,
+  buildFlaggedOrdersExportQuery,
+  type FlaggedOrdersView,
+} from "@/lib/flaggedOrdersView";
+
+type ExportTarget = "orders" | "auditLog";
+
+const EXPORT_TARGETS: Record<ExportTarget, { label: string; filename: string }> = {
+  orders: { label: "Flagged orders", filename: "flagged-orders" },
+  auditLog: { label: "Audit history", filename: "audit-log" },
+};
+
+/**
+ * Download every order in the current view, or the audit history for its
+ * date range, as CSV or NDJSON.
+ */
+export function ExportMenu({ view }: { view: FlaggedOrdersView }) {
+  const { toast } = useToast();
+
+  const exportMutation = useMutation({
+    mutationFn: async ({ target, format }: { target: ExportTarget; format: ExportFormat }) => {
+      const url =
+        target === "orders"
+          ? `/api/orders/flagged/export?${buildFlaggedOrdersExportQuery(view, format)}`
+          : `/api/audit-logs/export?${buildAuditLogExportQuery(view, format)}`;
+      const response = await apiRequest("GET", url);
+      return { blob: await response.blob(), filename: `${EXPORT_TARGETS[target].filename}.${format}` };
+    },
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={exportMutation.isPending}
+          data-testid="button-flagged-orders-export"
+        >
+          {exportMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-1" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(EXPORT_TARGETS) as ExportTarget[]).map((target, index) => (
+          <Fragment key={target}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{EXPORT_TARGETS[target].label}</DropdownMenuLabel>
+            <DropdownMenuItem
+              onSelect={() => exportMutation.mutate({ target, format: "csv" })}
+              data-testid={`menuitem-export-${target}-csv`}
+            >
+              CSV
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onSelect={() => exportMutation.mutate({ target, format: "ndjson" })}
+              data-testid={`menuitem-export-${target}-ndjson`}
+            >
+              NDJSON
+            </DropdownMenuItem>
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Search, X } from "lucide-react";
+import type { FlaggedOrderSortField, FlaggedOrderStatus } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ExportMenu } from "@/components/ExportMenu";
+import {
+  DEFAULT_FLAGGED_ORDERS_VIEW,
+  hasActiveFlaggedOrderFilters,
+  type FlaggedOrdersView,
+} from "@/lib/flaggedOrdersView";
+
+const STATUS_LABELS: Record<FlaggedOrderStatus, string> = {
+  open: "Open",
+  resolved: "Resolved",
+  all: "All",
+};
+
+const SORT_LABELS: Record<FlaggedOrderSortField, string> = {
+  flaggedAt: "Date flagged",
+  confidence: "Confidence",
+  total: "Order total",
+};
+
+// Typed fields are applied after a pause so each keystroke is not a request
+const TEXT_FIELDS = ["search", "matchReason", "currency", "minConfidence", "maxConfidence"] as const;
+const TEXT_DEBOUNCE_MS = 400;
+
+/**
+ * Filter, search and sort controls for the flagged orders table.
+ */
+export function FlaggedOrdersFilters({
+  view,
+  onChange,
+}: {
+  view: FlaggedOrdersView;
+  onChange: (view: FlaggedOrdersView) => void;
+}) {
+  const [draft, setDraft] = useState(view);
+
+  useEffect(() => {
+    setDraft(view);
+  }, [view]);
+
+  useEffect(() => {
+    if (TEXT_FIELDS.every((field) => draft[field] === view[field])) return;
+    const timer = setTimeout(() => onChange(draft), TEXT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [draft, onChange, view]);
+
+  const setText = (field: (typeof TEXT_FIELDS)[number], value: string) =>
+    setDraft((current) => ({ ...current, [field]: value }));
+  const apply = (changes: Partial<FlaggedOrdersView>) => onChange({ ...draft, ...changes });
+
+  return (
+    <Card className="mb-4" data-testid="card-flagged-order-filters">
+      <CardContent className="space-y-3 p-4">
+        <div className="flex flex-col gap-3 sm:flex-row">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={draft.search}
+              onChange={(e) => setText("search", e.target.value)}
+              placeholder="Search order number, customer or email"
+              className="pl-9"
+              aria-label="Search flagged orders"
+              data-testid="input-flagged-orders-search"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Select value={view.sort} onValueChange={(sort) => apply({ sort: sort as FlaggedOrderSortField })}>
+              <SelectTrigger className="w-[150px]" aria-label="Sort by" data-testid="select-flagged-orders-sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_LABELS).map(([sort, label]) => (
+                  <SelectItem key={sort} value={sort}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => apply({ direction: view.direction === "desc" ? "asc" : "desc" })}
+              aria-label={view.direction === "desc" ? "Sorted descending" : "Sorted ascending"}
+              data-testid="button-flagged-orders-direction"
+            >
+              {view.direction === "desc" ? (
+                <ArrowDownWideNarrow className="h-4 w-4" />
+              ) : (
+                <ArrowUpNarrowWide className="h-4 w-4" />
+              )}
+            </Button>
+            <ExportMenu view={view} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4 xl:grid-cols-8">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Status</Label>
+            <Select value={view.status} onValueChange={(status) => apply({ status: status as FlaggedOrderStatus })}>
+              <SelectTrigger data-testid="select-flagged-orders-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(STATUS_LABELS).map(([status, label]) => (
+                  <SelectItem key={status} value={status}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Source</Label>
+            <Select
+              value={view.flagSource || "any"}
+              onValueChange={(source) =>
+                apply({ flagSource: source === "any" ? "" : (source as "live" | "historical") })
+              }
+            >
+              <SelectTrigger data-testid="select-flagged-orders-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any source</SelectItem>
+                <SelectItem value="live">Live</SelectItem>
+                <SelectItem value="historical">Historical scan</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="flagged-orders-min-confidence" className="text-xs text-muted-foreground">
+              Min confidence
+            </Label>
+            <Input
+              id="flagged-orders-min-confidence"
+              type="number"
+              min={0}
+              max={100}
+              value={draft.minConfidence}
+              onChange={(e) => setText("minConfidence", e.target.value)}
+              placeholder="0"
+              data-testid="input-flagged-orders-min-confidence"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="flagged-orders-max-confidence" className="text-xs text-muted-foreground">
+              Max confidence
+            </Label>
+            <Input
+              id="flagged-orders-max-confidence"
+              type="number"
+              min={0}
+              max={100}
+              value={draft.maxConfidence}
+              onChange={(e) => setText("maxConfidence", e.target.value)}
+              placeholder="100"
+              data-testid="input-flagged-orders-max-confidence"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="flagged-orders-match-reason" className="text-xs text-muted-foreground">
+              Match reason
+            </Label>
+            <Input
+              id="flagged-orders-match-reason"
+              value={draft.matchReason}
+              onChange={(e) => setText("matchReason", e.target.value)}
+              placeholder="e.g. email"
+              data-testid="input-flagged-orders-match-reason"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="flagged-orders-currency" className="text-xs text-muted-foreground">
+              Currency
+            </Label>
+            <Input
+              id="flagged-orders-currency"
+              value={draft.currency}
+              maxLength={3}
+              onChange={(e) => setText("currency", e.target.value.toUpperCase())}
+              placeholder="USD"
+              data-testid="input-flagged-orders-currency"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="flagged-orders-from" className="text-xs text-muted-foreground">
+              Flagged from
+            </Label>
+            <Input
+              id="flagged-orders-from"
+              type="date"
+              value={view.flaggedFrom}
+              onChange={(e) => apply({ flaggedFrom: e.target.value })}
+              data-testid="input-flagged-orders-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="flagged-orders-to" className="text-xs text-muted-foreground">
+              Flagged to
+            </Label>
+            <Input
+              id="flagged-orders-to"
+              type="date"
+              value={view.flaggedTo}
+              onChange={(e) => apply({ flaggedTo: e.target.value })}
+              data-testid="input-flagged-orders-to"
+            />
+          </div>
+        </div>
+
+        {hasActiveFlaggedOrderFilters(view) && (
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange({ ...DEFAULT_FLAGGED_ORDERS_VIEW, sort: view.sort, direction: view.direction })}
+              data-testid="button-flagged-orders-clear-filters"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear filters
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
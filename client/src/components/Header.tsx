@@ -13,6 +13,12 @@ export function Header() {
             <Button variant={location === "/" ? "secondary" : "ghost"} asChild data-testid="link-dashboard" className="justify-start">
                 <a href={`/${search}`} className="text-sm font-medium">Dashboard</a>
             </Button>
+            <Button variant={location === "/analytics" ? "secondary" : "ghost"} asChild data-testid="link-analytics" className="justify-start">
+                <a href={`/analytics${search}`} className="text-sm font-medium">Analytics</a>
+            </Button>
+            <Button variant={location === "/activity" ? "secondary" : "ghost"} asChild data-testid="link-activity" className="justify-start">
+                <a href={`/activity${search}`} className="text-sm font-medium">Activity</a>
+            </Button>
             <Button variant={location === "/settings" ? "secondary" : "ghost"} asChild data-testid="link-settings" className="justify-start">
                 <a href={`/settings${search}`} className="text-sm font-medium">Settings</a>
             </Button>
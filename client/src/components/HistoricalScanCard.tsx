@@ -11,7 +11,7 @@ type HistoricalScan = {
   status: "queued" | "running" | "completed" | "failed";
   ordersFetched: number;
   matchesFound: number;
-  candidateCapExceeded: boolean;
+  fetchMode: "paged" | "bulk" | null;
   errorMessage: string | null;
 };
 
@@ -69,7 +69,13 @@ export function HistoricalScanCard() {
   if (scan?.status === "queued" || scan?.status === "running") {
     icon = <Loader2 className="h-5 w-5 animate-spin text-primary" />;
     title = "Scanning your recent orders…";
-    description = "This read-only check runs in the background. You can keep using the app.";
+    description =
+      scan.fetchMode === "bulk"
+        ? "Shopify is exporting your recent orders for this read-only check. Large stores can take a while. You can keep using the app."
+        : "This read-only check runs in the background. You can keep using the app.";
+    if (scan.ordersFetched > 0) {
+      description += ` ${scan.ordersFetched} orders checked so far.`;
+    }
     action = null;
   } else if (scan?.status === "completed") {
     icon = <CheckCircle2 className="h-5 w-5 text-green-600" />;
@@ -84,9 +90,7 @@ export function HistoricalScanCard() {
       scan.matchesFound > 0
         ? " A group may contain multiple flagged orders."
         : "";
-    description = scan.candidateCapExceeded
-      ? `${resultSummary}.${groupExplanation} High-volume periods were partially checked. Review the results below while live monitoring continues.`
-      : `${resultSummary}.${groupExplanation} The results are shown below. Future new orders continue to be checked normally.`;
+    description = `${resultSummary}.${groupExplanation} The results are shown below. Future new orders continue to be checked normally.`;
     action = null;
   } else if (scan?.status === "failed") {
     icon = <AlertTriangle className="h-5 w-5 text-amber-600" />;
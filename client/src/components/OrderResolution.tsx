@@ -0,0 +1,301 @@
+import { useState, type ReactNode } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  RESOLUTION_NOTE_MAX_LENGTH,
+  type AuditLog,
+  type AuditLogAction,
+  type AuditLogActor,
+  type Order,
+  type ResolutionOutcome,
+  type StaffMember,
+} from "@shared/schema";
+import { buildActivitySearch, DEFAULT_ACTIVITY_VIEW } from "@/lib/activityView";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+
+export const RESOLUTION_OUTCOME_LABELS: Record<ResolutionOutcome, { label: string; description: string }> = {
+  confirmed_duplicate: {
+    label: "Confirmed duplicate",
+    description: "A real duplicate that was cancelled or refunded",
+  },
+  false_positive: {
+    label: "False positive",
+    description: "The orders are unrelated",
+  },
+  merged_manually: {
+    label: "Merged manually",
+    description: "A duplicate that was combined into one shipment",
+  },
+  customer_intended: {
+    label: "Customer intended",
+    description: "The customer meant to place both orders",
+  },
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditLogAction, string> = {
+  flagged: "Flagged",
+  tagged: "Tagged in Shopify",
+  reviewed: "Reviewed",
+  dismissed: "Dismissed",
+  resolved: "Resolved",
+  excluded: "Skipped by exclusion rule",
+  reevaluated: "Re-evaluated after edit",
+  exported: "Exported",
+  settings_updated: "Settings changed",
+  scan_started: "Recent-order scan started",
+  fulfillment_held: "Fulfillment held",
+  fulfillment_released: "Fulfillment hold released",
+};
+
+export const AUDIT_ACTOR_LABELS: Record<AuditLogActor, string> = {
+  dashboard: "Dashboard",
+  shopify: "Shopify",
+  system: "Duplicate Guard",
+};
+
+const RESOLVED_BY_LABELS: Record<string, string> = {
+  manual_dashboard: "from the dashboard",
+  shopify_tag_removed: "tag removed in Shopify",
+  shopify_cancelled: "order cancelled in Shopify",
+  shopify_refunded: "order refunded in Shopify",
+  auto_merged: "orders merged",
+};
+
+export function formatStaffMember(staff: StaffMember): string {
+  return staff.name ?? staff.email ?? `Staff member ${staff.userId}`;
+}
+
+// "matchThreshold" -> "match threshold"
+function formatSettingName(field: string): string {
+  return field.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+}
+
+function describeEvent(event: AuditLog): string | null {
+  const details = event.details ?? {};
+  const parts: string[] = [];
+  if (details.outcome && details.outcome in RESOLUTION_OUTCOME_LABELS) {
+    parts.push(RESOLUTION_OUTCOME_LABELS[details.outcome as ResolutionOutcome].label);
+  }
+  if (details.resolvedBy && RESOLVED_BY_LABELS[details.resolvedBy]) {
+    parts.push(RESOLVED_BY_LABELS[details.resolvedBy]);
+  }
+  if (event.action === "reevaluated") {
+    parts.push(details.isFlagged ? `still flagged (${details.matchConfidence}%)` : "no longer a duplicate");
+  }
+  if (details.bulkActionRunId) {
+    parts.push("bulk action");
+  }
+  if (event.action === "settings_updated" && details.changes) {
+    parts.push(Object.keys(details.changes).map(formatSettingName).join(", "));
+  }
+  if (
+    (event.action === "fulfillment_held" || event.action === "fulfillment_released") &&
+    Array.isArray(details.fulfillmentOrderIds)
+  ) {
+    const count = details.fulfillmentOrderIds.length;
+    parts.push(count === 1 ? "1 fulfillment order" : `${count} fulfillment orders`);
+  }
+  if (event.action === "scan_started" && details.windowDays) {
+    parts.push(`last ${details.windowDays} days`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+/**
+ * Audit events as a vertical timeline, in the order given. `renderOrder`
+ * adds a line naming the order when events span several orders.
+ */
+export function AuditTimeline<T extends AuditLog>({
+  events,
+  renderOrder,
+}: {
+  events: T[];
+  renderOrder?: (event: T) => ReactNode;
+}) {
+  return (
+    <ol className="space-y-3 border-l pl-4" data-testid="list-audit-timeline">
+      {events.map((event) => {
+        const description = describeEvent(event);
+        return (
+          <li key={event.id} className="relative" data-testid={`row-audit-event-${event.id}`}>
+            <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-primary" />
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <span className="text-sm font-medium">
+                {AUDIT_ACTION_LABELS[event.action] ?? event.action}
+                <span className="ml-2 text-xs font-normal text-muted-foreground">
+                  by{" "}
+                  {event.performedBy
+                    ? formatStaffMember(event.performedBy)
+                    : AUDIT_ACTOR_LABELS[event.actor] ?? event.actor}
+                </span>
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {format(new Date(event.performedAt), "MMM d, yyyy h:mm a")}
+              </span>
+            </div>
+            {renderOrder?.(event)}
+            {description && <div className="text-xs text-muted-foreground">{description}</div>}
+            {event.details?.note && (
+              <p className="mt-1 whitespace-pre-wrap rounded-md bg-muted/50 p-2 text-xs">{event.details.note}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+/**
+ * Audit trail for one order, newest first.
+ */
+export function OrderHistory({ orderId }: { orderId: string }) {
+  const { data, isLoading } = useQuery<{ events: AuditLog[] }>({
+    queryKey: ["/api/orders", orderId, "history"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  const events = data?.events ?? [];
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-no-order-history">
+        No review activity yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2" data-testid="list-order-history">
+      <AuditTimeline events={events} />
+      <a
+        href={`/activity${buildActivitySearch(window.location.search, { ...DEFAULT_ACTIVITY_VIEW, orderId })}`}
+        className="inline-block text-xs text-primary hover:underline"
+        data-testid="link-order-activity"
+      >
+        Open in activity log
+      </a>
+    </div>
+  );
+}
+
+/**
+ * Resolve a flagged order with an outcome and optional note.
+ */
+export function ResolveOrderDialog({
+  order,
+  open,
+  onOpenChange,
+  onResolved,
+}: {
+  order: Order;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onResolved: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [outcome, setOutcome] = useState<ResolutionOutcome | null>(null);
+  const [note, setNote] = useState("");
+
+  const resolveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/orders/${order.id}/resolve`, {
+        outcome,
+        note: note.trim() || undefined,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders/flagged"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", order.id, "history"] });
+      toast({
+        title: "Order resolved",
+        description: `Order #${order.orderNumber} was marked as ${RESOLUTION_OUTCOME_LABELS[outcome!].label.toLowerCase()}.`,
+      });
+      onOpenChange(false);
+      onResolved();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error resolving order",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-resolve-order">
+        <DialogHeader>
+          <DialogTitle>Resolve Order #{order.orderNumber}</DialogTitle>
+          <DialogDescription>
+            Record what this flag turned out to be. Outcomes are used to tune duplicate detection.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={outcome ?? ""}
+          onValueChange={(value) => setOutcome(value as ResolutionOutcome)}
+          className="space-y-2"
+        >
+          {Object.entries(RESOLUTION_OUTCOME_LABELS).map(([value, { label, description }]) => (
+            <Label
+              key={value}
+              htmlFor={`resolution-${value}`}
+              className="flex cursor-pointer items-start gap-3 rounded-md border p-3 font-normal"
+            >
+              <RadioGroupItem id={`resolution-${value}`} value={value} className="mt-0.5" data-testid={`radio-resolution-${value}`} />
+              <span>
+                <span className="block text-sm font-medium">{label}</span>
+                <span className="block text-xs text-muted-foreground">{description}</span>
+              </span>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div className="space-y-2">
+          <Label htmlFor="resolution-note">Note (optional)</Label>
+          <Textarea
+            id="resolution-note"
+            value={note}
+            maxLength={RESOLUTION_NOTE_MAX_LENGTH}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Customer confirmed the second order was a mistake"
+            data-testid="input-resolution-note"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={resolveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => resolveMutation.mutate()}
+            disabled={!outcome || resolveMutation.isPending}
+            data-testid="button-confirm-resolve"
+          >
+            {resolveMutation.isPending ? "Resolving..." : "Resolve Order"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
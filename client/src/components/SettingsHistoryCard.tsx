@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { GitCompare, RotateCcw } from "lucide-react";
+import type {
+  DetectionSettingsChanges,
+  DetectionSettingsSnapshot,
+  DetectionSettingsVersion,
+  SettingsVersionDiff,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatStaffMember } from "@/components/OrderResolution";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const SETTING_LABELS: Record<keyof DetectionSettingsSnapshot, string> = {
+  timeWindowHours: "Time window (hours)",
+  matchEmail: "Match email",
+  matchPhone: "Match phone",
+  matchAddress: "Match address",
+  matchSku: "Match SKU",
+  enableNotifications: "Notifications",
+  notificationEmail: "Notification email",
+  slackWebhookUrl: "Slack webhook",
+  notificationThreshold: "Notification threshold",
+  flagThreshold: "Flag threshold",
+  totalPriceTolerancePercent: "Order total tolerance (%)",
+  ruleWeights: "Rule weights",
+  reviewTag: "Review tag",
+  highConfidenceTag: "High-confidence tag",
+  lowConfidenceTag: "Low-confidence tag",
+  highConfidenceTagThreshold: "High-confidence tag threshold",
+  originalOrderTag: "Original order tag",
+  holdFulfillment: "Hold fulfillment",
+  fulfillmentHoldThreshold: "Fulfillment hold threshold",
+  writeMatchMetafield: "Match metafield",
+  appendMatchNote: "Match order note",
+};
+
+function formatSettingValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "On" : "Off";
+  if (typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, weight]) => `${key} ${weight}`)
+      .join(", ");
+  }
+  return String(value);
+}
+
+function ChangeList({ changes }: { changes: DetectionSettingsChanges }) {
+  const entries = Object.entries(changes) as Array<
+    [keyof DetectionSettingsSnapshot, { from: unknown; to: unknown }]
+  >;
+  if (entries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No differences.</p>;
+  }
+  return (
+    <ul className="space-y-1 text-xs">
+      {entries.map(([field, change]) => (
+        <li key={field}>
+          <span className="font-medium">{SETTING_LABELS[field] ?? field}</span>:{" "}
+          <span className="text-muted-foreground line-through">{formatSettingValue(change.from)}</span>
+          {" → "}
+          <span>{formatSettingValue(change.to)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function VersionComparison({ from, to }: { from: number; to: number }) {
+  const { data, isLoading } = useQuery<SettingsVersionDiff>({
+    queryKey: [`/api/settings/versions/diff?from=${from}&to=${to}`],
+  });
+
+  if (isLoading) return <Skeleton className="h-10 w-full" />;
+  return (
+    <div className="rounded-md bg-muted/50 p-2" data-testid={`comparison-settings-version-${to}`}>
+      <p className="mb-1 text-xs text-muted-foreground">
+        Restoring version {to} would change:
+      </p>
+      <ChangeList changes={data?.changes ?? {}} />
+    </div>
+  );
+}
+
+function describeVersion(version: DetectionSettingsVersion): string {
+  if (version.source === "initial") return "Settings before the first recorded change";
+  if (version.source === "restore") return `Restored version ${version.restoredFromVersion}`;
+  return "Updated";
+}
+
+/**
+ * Every saved change to the detection settings, with the option to compare
+ * an earlier version with the current one and restore it.
+ */
+export function SettingsHistoryCard() {
+  const { toast } = useToast();
+  const [comparing, setComparing] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState<DetectionSettingsVersion | null>(null);
+
+  const { data, isLoading } = useQuery<{ versions: DetectionSettingsVersion[] }>({
+    queryKey: ["/api/settings/versions"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `/api/settings/versions/${version}/restore`);
+      return response.json();
+    },
+    onSuccess: (_settings, version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/versions"] });
+      setComparing(null);
+      setRestoring(null);
+      toast({
+        title: "Settings restored",
+        description: `Detection settings were restored to version ${version}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not restore settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const versions = data?.versions ?? [];
+  const current = versions[0]?.version;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-section-header">Change History</CardTitle>
+        <CardDescription>
+          Each saved change is kept as a version. Restoring a version saves its settings as a new version, so it can be undone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-settings-history">
+            No changes have been saved yet.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border" data-testid="list-settings-versions">
+            {versions.map((version) => (
+              <li key={version.id} className="space-y-2 p-3" data-testid={`row-settings-version-${version.version}`}>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={version.version === current ? "default" : "secondary"}>
+                      Version {version.version}
+                      {version.version === current && " · current"}
+                    </Badge>
+                    <span className="text-sm">{describeVersion(version)}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(version.createdAt), "MMM d, yyyy h:mm a")}
+                      {version.changedBy && ` · ${formatStaffMember(version.changedBy)}`}
+                    </span>
+                  </div>
+                  {version.version !== current && (
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setComparing(comparing === version.version ? null : version.version)}
+                        data-testid={`button-compare-settings-version-${version.version}`}
+                      >
+                        <GitCompare className="h-4 w-4 mr-1" />
+                        Compare
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRestoring(version)}
+                        disabled={restoreMutation.isPending}
+                        data-testid={`button-restore-settings-version-${version.version}`}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {version.source !== "initial" && <ChangeList changes={version.changes} />}
+                {comparing === version.version && current !== undefined && (
+                  <VersionComparison from={current} to={version.version} />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <AlertDialog open={restoring !== null} onOpenChange={(open) => !open && setRestoring(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {restoring?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The detection settings will be replaced with the ones saved in this version. New orders are checked with them straight away.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoreMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoring && restoreMutation.mutate(restoring.version)}
+              disabled={restoreMutation.isPending}
+              data-testid="button-confirm-restore-settings"
+            >
+              {restoreMutation.isPending ? "Restoring..." : "Restore"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
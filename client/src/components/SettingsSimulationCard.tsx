@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FlaskConical } from "lucide-react";
+import {
+  SETTINGS_SIMULATION_MAX_ORDERS,
+  type SettingsSimulationResult,
+  type UpdateDetectionSettings,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const PERIOD_OPTIONS = [7, 30, 60, 90];
+
+/**
+ * What-if preview for the unsaved detection settings. Replays stored orders
+ * with the saved and the draft settings and lists the flags that would change.
+ */
+export function SettingsSimulationCard({ getDraft }: { getDraft: () => UpdateDetectionSettings }) {
+  const { toast } = useToast();
+  const [days, setDays] = useState(30);
+
+  const simulateMutation = useMutation({
+    mutationFn: async (): Promise<SettingsSimulationResult> => {
+      const response = await apiRequest("POST", "/api/settings/simulate", {
+        settings: getDraft(),
+        days,
+      });
+      return response.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not preview settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const result = simulateMutation.data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-section-header">Preview Changes</CardTitle>
+        <CardDescription>
+          Replay recent orders with the settings above before saving. Nothing is flagged or tagged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40" data-testid="select-simulation-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  Last {option} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => simulateMutation.mutate()}
+            disabled={simulateMutation.isPending}
+            data-testid="button-simulate-settings"
+          >
+            <FlaskConical className="h-4 w-4 mr-2" />
+            {simulateMutation.isPending ? "Replaying..." : "Preview impact"}
+          </Button>
+        </div>
+
+        {result && (
+          <div className="space-y-3" data-testid="simulation-result">
+            <p className="text-sm">
+              Replayed {result.ordersReplayed} orders from the last {result.days} days:{" "}
+              <span className="font-medium">{result.currentFlagged}</span> flagged with your saved settings,{" "}
+              <span className="font-medium">{result.draftFlagged}</span> with these settings.
+            </p>
+            {result.truncated && (
+              <p className="text-xs text-muted-foreground">
+                Only the most recent {SETTINGS_SIMULATION_MAX_ORDERS.toLocaleString()} orders were replayed.
+              </p>
+            )}
+            {result.changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-simulation-changes">
+                No orders would change.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Match</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.changes.map((change) => {
+                    const match = change.draft ?? change.current;
+                    return (
+                      <TableRow key={change.orderId} data-testid={`row-simulation-${change.orderId}`}>
+                        <TableCell>
+                          <div className="font-medium">#{change.orderNumber}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {format(new Date(change.createdAt), "MMM d, h:mm a")} · {change.currency} {change.totalPrice}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div>{change.customerName || "—"}</div>
+                          <div className="text-xs text-muted-foreground">{change.customerEmail}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={change.change === "flagged" ? "destructive" : "secondary"}>
+                            {change.change === "flagged" ? "Newly flagged" : "No longer flagged"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {match && (
+                            <>
+                              <div>
+                                {match.confidence}% vs #{match.duplicateOfOrderNumber}
+                              </div>
+                              <div className="text-muted-foreground">{match.matchReason}</div>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { auditLogsQuerySchema } from "@shared/schema";
+import {
+  buildActivitySearch,
+  buildAuditLogsApiQuery,
+  DEFAULT_ACTIVITY_VIEW,
+  hasActiveActivityFilters,
+  parseActivityView,
+} from "./activityView";
+
+describe("activityView helpers", () => {
+  it("parses the filters from the URL and ignores malformed values", () => {
+    const view = parseActivityView(
+      "?shop=test-shop.myshopify.com&action=dismissed&actor=robot&orderId=%20order-1%20&from=2026-05-01&to=yesterday"
+    );
+
+    expect(view).toEqual({
+      ...DEFAULT_ACTIVITY_VIEW,
+      action: "dismissed",
+      orderId: "order-1",
+      from: "2026-05-01",
+    });
+    expect(hasActiveActivityFilters(view)).toBe(true);
+    expect(hasActiveActivityFilters(DEFAULT_ACTIVITY_VIEW)).toBe(false);
+  });
+
+  it("writes only set filters and keeps embedded app params", () => {
+    const search = buildActivitySearch("?shop=test-shop.myshopify.com&host=abc&action=resolved", {
+      ...DEFAULT_ACTIVITY_VIEW,
+      actor: "shopify",
+      orderId: "order-1",
+    });
+
+    expect(search).toBe("?shop=test-shop.myshopify.com&host=abc&actor=shopify&orderId=order-1");
+  });
+
+  it("builds an API query the server schema accepts", () => {
+    const query = buildAuditLogsApiQuery(
+      { action: "resolved", actor: "dashboard", orderId: "order-1", from: "2026-05-01", to: "2026-05-31" },
+      25,
+      "cursor-1"
+    );
+
+    const parsed = auditLogsQuerySchema.parse(Object.fromEntries(new URLSearchParams(query)));
+    expect(parsed).toMatchObject({
+      action: "resolved",
+      actor: "dashboard",
+      orderId: "order-1",
+      limit: 25,
+      cursor: "cursor-1",
+    });
+    expect(parsed.from).toEqual(new Date("2026-05-01T00:00:00"));
+    expect(parsed.to).toEqual(new Date("2026-05-31T23:59:59.999"));
+  });
+});
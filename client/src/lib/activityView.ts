@@ -0,0 +1,86 @@
+import {
+  AUDIT_LOG_ACTIONS,
+  AUDIT_LOG_ACTORS,
+  type AuditLogAction,
+  type AuditLogActor,
+} from "@shared/schema";
+
+// Filters for the activity timeline, persisted in the page URL so the history
+// of one order can be linked to directly.
+export type ActivityView = {
+  action: "" | AuditLogAction;
+  actor: "" | AuditLogActor;
+  orderId: string;
+  from: string; // yyyy-MM-dd, local day
+  to: string; // yyyy-MM-dd, local day (inclusive)
+};
+
+export const DEFAULT_ACTIVITY_VIEW: ActivityView = {
+  action: "",
+  actor: "",
+  orderId: "",
+  from: "",
+  to: "",
+};
+
+const VIEW_KEYS = Object.keys(DEFAULT_ACTIVITY_VIEW) as Array<keyof ActivityView>;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function pick<T extends string>(value: string | null, allowed: readonly T[]): T | "" {
+  return allowed.includes(value as T) ? (value as T) : "";
+}
+
+function matching(value: string | null, pattern: RegExp): string {
+  return value !== null && pattern.test(value) ? value : "";
+}
+
+/**
+ * Read the timeline filters from a location search string, dropping unknown
+ * or malformed values.
+ */
+export function parseActivityView(search: string): ActivityView {
+  const params = new URLSearchParams(search);
+  return {
+    action: pick(params.get("action"), AUDIT_LOG_ACTIONS),
+    actor: pick(params.get("actor"), AUDIT_LOG_ACTORS),
+    orderId: params.get("orderId")?.trim() ?? "",
+    from: matching(params.get("from"), DATE_PATTERN),
+    to: matching(params.get("to"), DATE_PATTERN),
+  };
+}
+
+/**
+ * Write the filters into a location search string, keeping unrelated params
+ * (such as the embedded app's shop and host) and omitting empty values.
+ */
+export function buildActivitySearch(currentSearch: string, view: ActivityView): string {
+  const params = new URLSearchParams(currentSearch);
+  for (const key of VIEW_KEYS) {
+    const value = view[key].trim();
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+  }
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+export function hasActiveActivityFilters(view: ActivityView): boolean {
+  return VIEW_KEYS.some((key) => view[key].trim() !== "");
+}
+
+/**
+ * Query string for GET /api/audit-logs. Date bounds cover whole local days.
+ */
+export function buildAuditLogsApiQuery(view: ActivityView, limit: number, cursor?: string): string {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (view.action) params.set("action", view.action);
+  if (view.actor) params.set("actor", view.actor);
+  if (view.orderId.trim()) params.set("orderId", view.orderId.trim());
+  if (DATE_PATTERN.test(view.from)) params.set("from", new Date(`${view.from}T00:00:00`).toISOString());
+  if (DATE_PATTERN.test(view.to)) params.set("to", new Date(`${view.to}T23:59:59.999`).toISOString());
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
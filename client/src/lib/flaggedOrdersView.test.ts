@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  auditLogExportQuerySchema,
+  flaggedOrdersExportQuerySchema,
+  flaggedOrdersQuerySchema,
+} from "@shared/schema";
+import {
+  buildAuditLogExportQuery,
+  buildFlaggedOrdersApiQuery,
+  buildFlaggedOrdersExportQuery,
+  buildFlaggedOrdersSearch,
+  DEFAULT_FLAGGED_ORDERS_VIEW,
+  hasActiveFlaggedOrderFilters,
+  parseFlaggedOrdersView,
+  toFlaggedOrderFilter,
+} from "./flaggedOrdersView";
+
+describe("flaggedOrdersView helpers", () => {
+  it("parses the view from the URL and ignores malformed values", () => {
+    const view = parseFlaggedOrdersView(
+      "?shop=test-shop.myshopify.com&status=resolved&minConfidence=150&maxConfidence=90&currency=usd&sort=bogus&search=%20jane%20"
+    );
+
+    expect(view).toEqual({
+      ...DEFAULT_FLAGGED_ORDERS_VIEW,
+      status: "resolved",
+      maxConfidence: "90",
+      currency: "USD",
+      search: "jane",
+    });
+  });
+
+  it("writes only non-default values and keeps embedded app params", () => {
+    const search = buildFlaggedOrdersSearch("?shop=test-shop.myshopify.com&host=abc&search=old", {
+      ...DEFAULT_FLAGGED_ORDERS_VIEW,
+      flagSource: "historical",
+      sort: "total",
+    });
+
+    expect(search).toBe("?shop=test-shop.myshopify.com&host=abc&flagSource=historical&sort=total");
+    expect(parseFlaggedOrdersView(search)).toEqual({
+      ...DEFAULT_FLAGGED_ORDERS_VIEW,
+      flagSource: "historical",
+      sort: "total",
+    });
+  });
+
+  it("treats sorting alone as no active filter", () => {
+    expect(hasActiveFlaggedOrderFilters({ ...DEFAULT_FLAGGED_ORDERS_VIEW, sort: "confidence" })).toBe(false);
+    expect(hasActiveFlaggedOrderFilters({ ...DEFAULT_FLAGGED_ORDERS_VIEW, status: "all" })).toBe(true);
+    expect(hasActiveFlaggedOrderFilters({ ...DEFAULT_FLAGGED_ORDERS_VIEW, search: "1001" })).toBe(true);
+  });
+
+  it("covers whole local days in the date range filter", () => {
+    const filter = toFlaggedOrderFilter({
+      ...DEFAULT_FLAGGED_ORDERS_VIEW,
+      flaggedFrom: "2026-05-01",
+      flaggedTo: "2026-05-03",
+      minConfidence: "70",
+    });
+
+    expect(filter).toEqual({
+      flaggedFrom: new Date("2026-05-01T00:00:00"),
+      flaggedTo: new Date("2026-05-03T23:59:59.999"),
+      minConfidence: 70,
+    });
+  });
+
+  it("builds an API query the server schema accepts", () => {
+    const query = buildFlaggedOrdersApiQuery(
+      { ...DEFAULT_FLAGGED_ORDERS_VIEW, currency: "EUR", flaggedFrom: "2026-05-01", direction: "asc" },
+      50,
+      "abc"
+    );
+    const parsed = flaggedOrdersQuerySchema.parse(
+      Object.fromEntries(new URLSearchParams(query).entries())
+    );
+
+    expect(parsed).toMatchObject({
+      status: "open",
+      sort: "flaggedAt",
+      direction: "asc",
+      limit: 50,
+      currency: "EUR",
+      cursor: "abc",
+      flaggedFrom: new Date("2026-05-01T00:00:00"),
+    });
+  });
+
+  it("builds export queries without pagination", () => {
+    const view = {
+      ...DEFAULT_FLAGGED_ORDERS_VIEW,
+      status: "all" as const,
+      flaggedFrom: "2026-05-01",
+      flaggedTo: "2026-05-03",
+    };
+
+    const orders = flaggedOrdersExportQuerySchema.parse(
+      Object.fromEntries(new URLSearchParams(buildFlaggedOrdersExportQuery(view, "ndjson")).entries())
+    );
+    const auditLogs = auditLogExportQuerySchema.parse(
+      Object.fromEntries(new URLSearchParams(buildAuditLogExportQuery(view, "csv")).entries())
+    );
+
+    expect(orders).toMatchObject({ status: "all", format: "ndjson", flaggedFrom: new Date("2026-05-01T00:00:00") });
+    expect(orders).not.toHaveProperty("limit");
+    expect(auditLogs).toEqual({
+      format: "csv",
+      from: new Date("2026-05-01T00:00:00"),
+      to: new Date("2026-05-03T23:59:59.999"),
+    });
+  });
+});
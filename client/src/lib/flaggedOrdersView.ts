@@ -0,0 +1,164 @@
+import {
+  FLAGGED_ORDER_SORT_FIELDS,
+  FLAGGED_ORDER_STATUSES,
+  type ExportFormat,
+  type FlaggedOrderFilter,
+  type FlaggedOrderSortField,
+  type FlaggedOrderStatus,
+} from "@shared/schema";
+
+// Filters and sort for the flagged orders table, kept as the raw strings the
+// inputs edit and persisted in the page URL so views can be shared.
+export type FlaggedOrdersView = {
+  status: FlaggedOrderStatus;
+  flagSource: "" | "live" | "historical";
+  minConfidence: string;
+  maxConfidence: string;
+  matchReason: string;
+  flaggedFrom: string; // yyyy-MM-dd, local day
+  flaggedTo: string; // yyyy-MM-dd, local day (inclusive)
+  currency: string;
+  search: string;
+  sort: FlaggedOrderSortField;
+  direction: "asc" | "desc";
+};
+
+export const DEFAULT_FLAGGED_ORDERS_VIEW: FlaggedOrdersView = {
+  status: "open",
+  flagSource: "",
+  minConfidence: "",
+  maxConfidence: "",
+  matchReason: "",
+  flaggedFrom: "",
+  flaggedTo: "",
+  currency: "",
+  search: "",
+  sort: "flaggedAt",
+  direction: "desc",
+};
+
+const VIEW_KEYS = Object.keys(DEFAULT_FLAGGED_ORDERS_VIEW) as Array<keyof FlaggedOrdersView>;
+const FILTER_KEYS = VIEW_KEYS.filter(
+  (key) => key !== "status" && key !== "sort" && key !== "direction"
+);
+const CONFIDENCE_PATTERN = /^(100|[1-9]?\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Za-z]{3}$/;
+
+function pick<T extends string>(value: string | null, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+function matching(value: string | null, pattern: RegExp): string {
+  return value !== null && pattern.test(value) ? value : "";
+}
+
+/**
+ * Read the table view from a location search string. Unknown or malformed
+ * values fall back to their defaults rather than producing a failing request.
+ */
+export function parseFlaggedOrdersView(search: string): FlaggedOrdersView {
+  const params = new URLSearchParams(search);
+  return {
+    status: pick(params.get("status"), FLAGGED_ORDER_STATUSES, "open"),
+    flagSource: pick(params.get("flagSource"), ["", "live", "historical"] as const, ""),
+    minConfidence: matching(params.get("minConfidence"), CONFIDENCE_PATTERN),
+    maxConfidence: matching(params.get("maxConfidence"), CONFIDENCE_PATTERN),
+    matchReason: params.get("matchReason")?.trim() ?? "",
+    flaggedFrom: matching(params.get("flaggedFrom"), DATE_PATTERN),
+    flaggedTo: matching(params.get("flaggedTo"), DATE_PATTERN),
+    currency: matching(params.get("currency"), CURRENCY_PATTERN).toUpperCase(),
+    search: params.get("search")?.trim() ?? "",
+    sort: pick(params.get("sort"), FLAGGED_ORDER_SORT_FIELDS, "flaggedAt"),
+    direction: pick(params.get("direction"), ["asc", "desc"] as const, "desc"),
+  };
+}
+
+/**
+ * Write the view into a location search string, keeping unrelated params
+ * (such as the embedded app's shop and host) and omitting default values.
+ */
+export function buildFlaggedOrdersSearch(currentSearch: string, view: FlaggedOrdersView): string {
+  const params = new URLSearchParams(currentSearch);
+  for (const key of VIEW_KEYS) {
+    const value = view[key].trim();
+    if (value && value !== DEFAULT_FLAGGED_ORDERS_VIEW[key]) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+  }
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+export function hasActiveFlaggedOrderFilters(view: FlaggedOrdersView): boolean {
+  return view.status !== "open" || FILTER_KEYS.some((key) => view[key].trim() !== "");
+}
+
+/**
+ * The view's filters in the shape the API validates. Date bounds cover whole
+ * local days.
+ */
+export function toFlaggedOrderFilter(view: FlaggedOrdersView): FlaggedOrderFilter {
+  const filter: FlaggedOrderFilter = {};
+  if (view.flagSource) filter.flagSource = view.flagSource;
+  if (CONFIDENCE_PATTERN.test(view.minConfidence)) filter.minConfidence = Number(view.minConfidence);
+  if (CONFIDENCE_PATTERN.test(view.maxConfidence)) filter.maxConfidence = Number(view.maxConfidence);
+  if (view.matchReason.trim()) filter.matchReason = view.matchReason.trim();
+  if (DATE_PATTERN.test(view.flaggedFrom)) filter.flaggedFrom = new Date(`${view.flaggedFrom}T00:00:00`);
+  if (DATE_PATTERN.test(view.flaggedTo)) filter.flaggedTo = new Date(`${view.flaggedTo}T23:59:59.999`);
+  if (CURRENCY_PATTERN.test(view.currency)) filter.currency = view.currency.toUpperCase();
+  if (view.search.trim()) filter.search = view.search.trim();
+  return filter;
+}
+
+function setFilterParams(params: URLSearchParams, view: FlaggedOrdersView) {
+  Object.entries(toFlaggedOrderFilter(view)).forEach(([key, value]) => {
+    params.set(key, value instanceof Date ? value.toISOString() : String(value));
+  });
+}
+
+/**
+ * Query string for GET /api/orders/flagged.
+ */
+export function buildFlaggedOrdersApiQuery(
+  view: FlaggedOrdersView,
+  limit: number,
+  cursor?: string
+): string {
+  const params = new URLSearchParams({
+    status: view.status,
+    sort: view.sort,
+    direction: view.direction,
+    limit: String(limit),
+  });
+  setFilterParams(params, view);
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
+
+/**
+ * Query string for GET /api/orders/flagged/export: every order in the view.
+ */
+export function buildFlaggedOrdersExportQuery(view: FlaggedOrdersView, format: ExportFormat): string {
+  const params = new URLSearchParams({
+    status: view.status,
+    sort: view.sort,
+    direction: view.direction,
+    format,
+  });
+  setFilterParams(params, view);
+  return params.toString();
+}
+
+/**
+ * Query string for GET /api/audit-logs/export, covering the view's date range.
+ */
+export function buildAuditLogExportQuery(view: FlaggedOrdersView, format: ExportFormat): string {
+  const { flaggedFrom, flaggedTo } = toFlaggedOrderFilter(view);
+  const params = new URLSearchParams({ format });
+  if (flaggedFrom) params.set("from", flaggedFrom.toISOString());
+  if (flaggedTo) params.set("to", flaggedTo.toISOString());
+  return params.toString();
+}
@@ -0,0 +1,248 @@
+import { useCallback, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import type { AuditLogAction, AuditLogActor, AuditLogEntry, AuditLogsPage } from "@shared/schema";
+import { Header } from "@/components/Header";
+import { AUDIT_ACTION_LABELS, AUDIT_ACTOR_LABELS, AuditTimeline } from "@/components/OrderResolution";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  buildActivitySearch,
+  buildAuditLogsApiQuery,
+  DEFAULT_ACTIVITY_VIEW,
+  hasActiveActivityFilters,
+  parseActivityView,
+  type ActivityView,
+} from "@/lib/activityView";
+import { apiRequest } from "@/lib/queryClient";
+
+const ACTIVITY_PAGE_SIZE = 50;
+
+function ActivityFilters({
+  view,
+  onChange,
+  orderNumber,
+}: {
+  view: ActivityView;
+  onChange: (view: ActivityView) => void;
+  orderNumber: string | null;
+}) {
+  const apply = (changes: Partial<ActivityView>) => onChange({ ...view, ...changes });
+
+  return (
+    <Card className="mb-4" data-testid="card-activity-filters">
+      <CardContent className="space-y-3 p-4">
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Action</Label>
+            <Select
+              value={view.action || "any"}
+              onValueChange={(action) => apply({ action: action === "any" ? "" : (action as AuditLogAction) })}
+            >
+              <SelectTrigger data-testid="select-activity-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any action</SelectItem>
+                {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+                  <SelectItem key={action} value={action}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Performed by</Label>
+            <Select
+              value={view.actor || "any"}
+              onValueChange={(actor) => apply({ actor: actor === "any" ? "" : (actor as AuditLogActor) })}
+            >
+              <SelectTrigger data-testid="select-activity-actor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Anyone</SelectItem>
+                {Object.entries(AUDIT_ACTOR_LABELS).map(([actor, label]) => (
+                  <SelectItem key={actor} value={actor}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-from" className="text-xs text-muted-foreground">
+              From
+            </Label>
+            <Input
+              id="activity-from"
+              type="date"
+              value={view.from}
+              max={view.to || undefined}
+              onChange={(e) => apply({ from: e.target.value })}
+              data-testid="input-activity-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-to" className="text-xs text-muted-foreground">
+              To
+            </Label>
+            <Input
+              id="activity-to"
+              type="date"
+              value={view.to}
+              min={view.from || undefined}
+              onChange={(e) => apply({ to: e.target.value })}
+              data-testid="input-activity-to"
+            />
+          </div>
+        </div>
+
+        {hasActiveActivityFilters(view) && (
+          <div className="flex flex-wrap items-center gap-2">
+            {view.orderId && (
+              <Badge variant="secondary" className="gap-1" data-testid="badge-activity-order">
+                Order {orderNumber ? `#${orderNumber}` : view.orderId}
+                <button
+                  type="button"
+                  onClick={() => apply({ orderId: "" })}
+                  aria-label="Show all orders"
+                  data-testid="button-activity-clear-order"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(DEFAULT_ACTIVITY_VIEW)}
+              data-testid="button-activity-clear-filters"
+            >
+              Clear filters
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Activity() {
+  const [view, setView] = useState<ActivityView>(() => parseActivityView(window.location.search));
+  // Cursors of the pages before the current one; the last entry loads it
+  const [pageCursors, setPageCursors] = useState<string[]>([]);
+  const currentCursor = pageCursors[pageCursors.length - 1];
+
+  const auditLogsQuery = buildAuditLogsApiQuery(view, ACTIVITY_PAGE_SIZE, currentCursor);
+  const { data, isLoading } = useQuery<AuditLogsPage>({
+    queryKey: ["/api/audit-logs", auditLogsQuery],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/audit-logs?${auditLogsQuery}`);
+      return await response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const changeView = useCallback((next: ActivityView) => {
+    setView(next);
+    setPageCursors([]);
+    window.history.replaceState(
+      window.history.state,
+      "",
+      `${window.location.pathname}${buildActivitySearch(window.location.search, next)}`
+    );
+  }, []);
+
+  const entries = data?.entries ?? [];
+  const orderNumber = view.orderId
+    ? entries.find((entry) => entry.orderNumber)?.orderNumber ?? null
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 sm:px-6 py-6 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Activity</h2>
+          <p className="text-muted-foreground">
+            Every flag, dismissal and resolution, who performed it and when.
+          </p>
+        </div>
+
+        <ActivityFilters view={view} onChange={changeView} orderNumber={orderNumber} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{orderNumber ? `Order #${orderNumber}` : "Timeline"}</CardTitle>
+            <CardDescription>Newest first</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <Skeleton className="h-64 w-full" />
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-activity">
+                {hasActiveActivityFilters(view) ? "No activity matches these filters." : "No activity yet."}
+              </p>
+            ) : (
+              <AuditTimeline<AuditLogEntry>
+                events={entries}
+                renderOrder={
+                  view.orderId
+                    ? undefined
+                    : (entry) =>
+                        entry.orderId && (
+                          <button
+                            type="button"
+                            className="text-xs text-primary hover:underline"
+                            onClick={() => changeView({ ...view, orderId: entry.orderId! })}
+                            data-testid={`button-activity-order-${entry.id}`}
+                          >
+                            Order #{entry.orderNumber ?? entry.orderId}
+                          </button>
+                        )
+                }
+              />
+            )}
+
+            {(pageCursors.length > 0 || data?.nextCursor) && (
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={pageCursors.length === 0}
+                  onClick={() => setPageCursors((cursors) => cursors.slice(0, -1))}
+                  data-testid="button-activity-previous"
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Newer
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!data?.nextCursor}
+                  onClick={() => {
+                    const nextCursor = data?.nextCursor;
+                    if (nextCursor) setPageCursors((cursors) => cursors.concat(nextCursor));
+                  }}
+                  data-testid="button-activity-next"
+                >
+                  Older
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
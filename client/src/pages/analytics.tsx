@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import type { DetectionAccuracyReport, DetectionRuleId } from "@shared/schema";
+import { Header } from "@/components/Header";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const PERIOD_OPTIONS = [30, 90, 180, 365];
+
+const SIGNAL_LABELS: Record<DetectionRuleId, string> = {
+  email: "Email match",
+  phone: "Phone match",
+  addressExact: "Full address match",
+  addressPartial: "Partial address match",
+  name: "Name match",
+  sku: "SKU match",
+  totalPrice: "Order total match",
+  basket: "Same basket",
+  basketMismatch: "Different basket",
+};
+
+const falsePositiveChartConfig = {
+  falsePositiveRate: { label: "False positive rate", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const CHART_COLORS = [1, 2, 3, 4, 5].map((index) => `hsl(var(--chart-${index}))`);
+
+// One bar per currency: totals in different currencies are never added up
+function buildValueSavedChartConfig(currencies: string[]): ChartConfig {
+  const config: ChartConfig = {};
+  currencies.forEach((currency, index) => {
+    config[currency] = { label: currency, color: CHART_COLORS[index % CHART_COLORS.length] };
+  });
+  return config;
+}
+
+function formatValueSaved(totals: DetectionAccuracyReport["totalValueSaved"]): string {
+  return totals.length === 0
+    ? "0.00"
+    : totals.map((total) => `${total.currency} ${total.value.toFixed(2)}`).join(" · ");
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+function SummaryCard({ title, value, description }: { title: string; value: string; description: string }) {
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="text-sm text-muted-foreground">{title}</div>
+        <div className="text-2xl font-bold">{value}</div>
+        <div className="text-xs text-muted-foreground">{description}</div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ThresholdCard({ report }: { report: DetectionAccuracyReport }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Flag Threshold</CardTitle>
+        <CardDescription>
+          Precision is the share of flags at or above a threshold that were real duplicates. Recall is the share of
+          confirmed duplicates that threshold would still have caught.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report.suggestedThreshold === null ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-suggested-threshold">
+            Resolve at least {report.minimumLabeledForSuggestion} flagged orders with an outcome to get a suggested
+            threshold ({report.totals.labeled} so far).
+          </p>
+        ) : (
+          <p className="text-sm" data-testid="text-suggested-threshold">
+            Suggested threshold: <span className="font-semibold">{report.suggestedThreshold}%</span>
+            {report.suggestedThreshold === report.currentThreshold
+              ? " — matches your current setting."
+              : ` (currently ${report.currentThreshold}%). You can change it in Settings.`}
+          </p>
+        )}
+        {report.thresholds.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Threshold</TableHead>
+                <TableHead className="text-right">Flagged</TableHead>
+                <TableHead className="text-right">Precision</TableHead>
+                <TableHead className="text-right">Recall</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.thresholds.map((row) => (
+                <TableRow key={row.threshold} data-testid={`row-threshold-${row.threshold}`}>
+                  <TableCell>
+                    {row.threshold}%
+                    {row.threshold === report.currentThreshold && (
+                      <Badge variant="outline" className="ml-2">Current</Badge>
+                    )}
+                    {row.threshold === report.suggestedThreshold && (
+                      <Badge className="ml-2">Suggested</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{row.flagged}</TableCell>
+                  <TableCell className="text-right">{formatRate(row.precision)}</TableCell>
+                  <TableCell className="text-right">{formatRate(row.recall)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Analytics() {
+  const [days, setDays] = useState(90);
+
+  const { data: report, isLoading } = useQuery<DetectionAccuracyReport>({
+    queryKey: [`/api/analytics/accuracy?days=${days}`],
+    placeholderData: keepPreviousData,
+  });
+
+  const confidenceData = (report?.byConfidence ?? []).map((bucket) => ({
+    bucket: `${bucket.minConfidence}–${bucket.maxConfidence}%`,
+    falsePositiveRate: bucket.falsePositiveRate === null ? 0 : Math.round(bucket.falsePositiveRate * 100),
+    labeled: bucket.labeled,
+  }));
+  const valueSavedCurrencies = (report?.totalValueSaved ?? []).map((total) => total.currency);
+  const valueSavedChartConfig = buildValueSavedChartConfig(valueSavedCurrencies);
+  const valueSavedData = (report?.valueSaved ?? []).map((week) => ({
+    week: format(parseISO(week.weekStart), "MMM d"),
+    ...week.values,
+  }));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 sm:px-6 py-6 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold tracking-tight">Detection Accuracy</h2>
+            <p className="text-sm text-muted-foreground">
+              Based on the outcomes recorded when resolving flagged orders.
+            </p>
+          </div>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40" data-testid="select-analytics-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  Last {option} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading || !report ? (
+          <Skeleton className="h-96 w-full" />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              <SummaryCard title="Labeled orders" value={String(report.totals.labeled)} description="Resolved with an outcome" />
+              <SummaryCard title="Confirmed duplicates" value={String(report.totals.confirmed)} description="Confirmed or merged manually" />
+              <SummaryCard
+                title="False positive rate"
+                value={formatRate(report.totals.falsePositiveRate)}
+                description="False positives and intended orders"
+              />
+              <SummaryCard
+                title="Value saved"
+                value={formatValueSaved(report.totalValueSaved)}
+                description="Total of confirmed duplicates"
+              />
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>False Positives by Confidence</CardTitle>
+                  <CardDescription>Share of labeled flags in each confidence band that were not duplicates.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={falsePositiveChartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={confidenceData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="bucket" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} domain={[0, 100]} unit="%" width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="falsePositiveRate" fill="var(--color-falsePositiveRate)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Value Saved Over Time</CardTitle>
+                  <CardDescription>Weekly total of orders resolved as confirmed duplicates, per currency.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={valueSavedChartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={valueSavedData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="week" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={50} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      {valueSavedCurrencies.map((currency) => (
+                        <Bar key={currency} dataKey={currency} fill={`var(--color-${currency})`} radius={4} />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>False Positives by Signal</CardTitle>
+                <CardDescription>How often flags that relied on each signal turned out to be wrong.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.bySignal.length === 0 ? (
+                  <p className="text-sm text-muted-foreground" data-testid="text-no-signal-data">
+                    No labeled orders in this period yet.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Signal</TableHead>
+                        <TableHead className="text-right">Labeled</TableHead>
+                        <TableHead className="text-right">Confirmed</TableHead>
+                        <TableHead className="text-right">False positives</TableHead>
+                        <TableHead className="text-right">False positive rate</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.bySignal.map((signal) => (
+                        <TableRow key={signal.ruleId} data-testid={`row-signal-${signal.ruleId}`}>
+                          <TableCell>{SIGNAL_LABELS[signal.ruleId]}</TableCell>
+                          <TableCell className="text-right">{signal.labeled}</TableCell>
+                          <TableCell className="text-right">{signal.confirmed}</TableCell>
+                          <TableCell className="text-right">{signal.falsePositives}</TableCell>
+                          <TableCell className="text-right">{formatRate(signal.falsePositiveRate)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <ThresholdCard report={report} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
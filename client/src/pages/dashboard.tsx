@@ -1,25 +1,42 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { useToast } from "@/hooks/use-toast";
 import { AlertCircle, TrendingUp, TrendingDown, DollarSign, Clock, Flag, Package, MapPin, Mail, Phone, Calendar, X, Menu, ChevronLeft, ChevronRight, CheckCircle2 } from "lucide-react";
-import type { Order, DashboardStats } from "@shared/schema";
+import type { Order, DashboardStats, OrderMatchWithOrder, BulkOrderSelection, FlaggedOrderFilter, FlaggedOrdersPage, OrderComparison, OrderComparisonFieldStatus, OrderComparisonLineItem, FulfillmentHoldStatus } from "@shared/schema";
 import { format } from "date-fns";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { apiRequest } from "@/lib/queryClient";
 import { Link, useLocation } from "wouter";
 import { Header } from "@/components/Header";
 import { QuotaWarningBanner } from "@/components/QuotaWarningBanner";
 import { HistoricalScanCard } from "@/components/HistoricalScanCard";
+import { BulkActionBar } from "@/components/BulkActionBar";
+import { FlaggedOrdersFilters } from "@/components/FlaggedOrdersFilters";
+import {
+  formatStaffMember,
+  OrderHistory,
+  ResolveOrderDialog,
+  RESOLUTION_OUTCOME_LABELS,
+} from "@/components/OrderResolution";
 import { ReviewPromptBanner } from "@/components/ReviewPromptBanner";
 import { OnboardingChecklist, isOnboardingFullyHealthy, type OnboardingStatus } from "@/components/OnboardingChecklist";
+import {
+  buildFlaggedOrdersApiQuery,
+  buildFlaggedOrdersSearch,
+  hasActiveFlaggedOrderFilters,
+  parseFlaggedOrdersView,
+  toFlaggedOrderFilter,
+  type FlaggedOrdersView,
+} from "@/lib/flaggedOrdersView";
 
 const FLAGGED_ORDERS_PAGE_SIZE = 50;
 
@@ -74,6 +91,24 @@ function ConfidenceBadge({ confidence }: { confidence: number }) {
   return <Badge variant="secondary" className="whitespace-nowrap" data-testid="badge-confidence-low">Low ({confidence}%)</Badge>;
 }
 
+const FULFILLMENT_HOLD_LABELS: Record<FulfillmentHoldStatus, string> = {
+  held: "On hold",
+  released: "Hold released",
+  failed: "Hold failed",
+};
+
+function FulfillmentHoldBadge({ status }: { status: FulfillmentHoldStatus }) {
+  return (
+    <Badge
+      variant={status === "held" ? "default" : status === "failed" ? "destructive" : "outline"}
+      className="whitespace-nowrap"
+      data-testid={`badge-fulfillment-hold-${status}`}
+    >
+      {FULFILLMENT_HOLD_LABELS[status]}
+    </Badge>
+  );
+}
+
 function MonitoringActiveBanner({
   status,
   stats,
@@ -142,10 +177,193 @@ function EmptyState({ ordersChecked }: { ordersChecked?: number }) {
   );
 }
 
+function OrderMatchesList({ orderId }: { orderId: string }) {
+  const { data, isLoading } = useQuery<{ matches: OrderMatchWithOrder[] }>({
+    queryKey: ['/api/orders', orderId, 'matches'],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  const matches = data?.matches ?? [];
+  if (matches.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-no-order-matches">
+        No matching orders recorded.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2" data-testid="list-order-matches">
+      {matches.map((match) => (
+        <div
+          key={match.id}
+          className="flex items-start justify-between gap-3 rounded-md bg-muted/50 p-3"
+          data-testid={`row-order-match-${match.matchedOrderId}`}
+        >
+          <div className="overflow-hidden">
+            <div className="text-sm font-medium">
+              #{match.matchedOrder.orderNumber}
+              {match.rank === 1 && (
+                <Badge variant="outline" className="ml-2 text-xs">Linked</Badge>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground truncate">
+              {match.matchedOrder.customerName || 'Unknown'} · {format(new Date(match.matchedOrder.createdAt), 'MMM d, yyyy h:mm a')}
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">{match.matchReason}</div>
+          </div>
+          <ConfidenceBadge confidence={match.confidence} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const COMPARISON_STATUS_STYLES: Record<OrderComparisonFieldStatus, { label: string; className: string }> = {
+  match: { label: "Match", className: "bg-chart-1/10" },
+  similar: { label: "Similar", className: "bg-chart-4/10" },
+  different: { label: "Different", className: "bg-destructive/10" },
+  missing: { label: "Missing", className: "" },
+};
+
+const LINE_ITEM_STATUS_LABELS: Record<OrderComparisonLineItem["status"], string> = {
+  match: "Match",
+  quantity: "Quantity differs",
+  flaggedOnly: "Only in this order",
+  originalOnly: "Only in linked order",
+};
+
+function SignalBadges({ ruleIds, signals }: { ruleIds: string[]; signals: OrderComparison["signals"] }) {
+  return (
+    <>
+      {signals
+        .filter((signal) => ruleIds.includes(signal.ruleId))
+        .map((signal) => (
+          <Badge
+            key={signal.ruleId}
+            variant="outline"
+            className={`ml-1 text-[10px] ${signal.score < 0 ? 'text-destructive' : ''}`}
+          >
+            {signal.score > 0 ? '+' : ''}{signal.score} {signal.reason}
+          </Badge>
+        ))}
+    </>
+  );
+}
+
+function OrderComparisonPanel({ orderId }: { orderId: string }) {
+  const { data: comparison, isLoading, isError } = useQuery<OrderComparison>({
+    queryKey: ['/api/orders', orderId, 'comparison'],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (isError || !comparison) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-comparison-unavailable">
+        The linked order is not available for comparison.
+      </p>
+    );
+  }
+
+  const { order, duplicateOf } = comparison;
+
+  return (
+    <div className="space-y-4" data-testid="panel-order-comparison">
+      <div className="overflow-hidden rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[30%]">Field</TableHead>
+              <TableHead>This order (#{order.orderNumber})</TableHead>
+              <TableHead>Linked order (#{duplicateOf.orderNumber})</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {comparison.fields.map((field) => {
+              const style = COMPARISON_STATUS_STYLES[field.status];
+              return (
+                <TableRow
+                  key={field.field}
+                  className={style.className}
+                  data-testid={`row-comparison-${field.field}`}
+                >
+                  <TableCell className="py-2 text-xs">
+                    <div className="font-medium">{field.label}</div>
+                    <div className="text-muted-foreground">{style.label}</div>
+                    <SignalBadges ruleIds={field.signals} signals={comparison.signals} />
+                  </TableCell>
+                  <TableCell className="py-2 text-sm break-all">{field.flaggedValue ?? '-'}</TableCell>
+                  <TableCell className="py-2 text-sm break-all">{field.originalValue ?? '-'}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div>
+        <div className="mb-2 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">Line items</span>
+          {comparison.basketSimilarity !== null && (
+            <span>· {Math.round(comparison.basketSimilarity * 100)}% basket overlap</span>
+          )}
+          <SignalBadges ruleIds={comparison.lineItemSignals} signals={comparison.signals} />
+        </div>
+        {comparison.lineItems.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No line items recorded.</p>
+        ) : (
+          <div className="overflow-hidden rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">This order</TableHead>
+                  <TableHead className="text-right">Linked order</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.lineItems.map((item) => (
+                  <TableRow
+                    key={item.key}
+                    className={item.status === "match" ? "bg-chart-1/10" : "bg-destructive/10"}
+                    data-testid={`row-comparison-line-item-${item.key}`}
+                  >
+                    <TableCell className="py-2 text-sm">
+                      <div>{item.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {item.sku ? `${item.sku} · ` : ''}{LINE_ITEM_STATUS_LABELS[item.status]}
+                      </div>
+                    </TableCell>
+                    <TableCell className="py-2 text-right text-sm">{item.flaggedQuantity || '-'}</TableCell>
+                    <TableCell className="py-2 text-right text-sm">{item.originalQuantity || '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      {order.matchConfidence != null && order.matchConfidence !== comparison.confidence && (
+        <p className="text-xs text-muted-foreground" data-testid="text-comparison-rescored">
+          With the current detection settings this pair scores {comparison.confidence}% (flagged at {order.matchConfidence}%).
+        </p>
+      )}
+    </div>
+  );
+}
+
 function OrderDetailsModal({ order, isOpen, onClose }: { order: Order; isOpen: boolean; onClose: () => void }) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const [showDismissDialog, setShowDismissDialog] = useState(false);
+  const [showResolveDialog, setShowResolveDialog] = useState(false);
   const [isDismissing, setIsDismissing] = useState(false);
 
   const dismissMutation = useMutation({
@@ -157,6 +375,7 @@ function OrderDetailsModal({ order, isOpen, onClose }: { order: Order; isOpen: b
       // Invalidate queries to refresh the list
       queryClient.invalidateQueries({ queryKey: ['/api/orders/flagged'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders', order.id, 'history'] });
 
       toast({
         title: "Order dismissed",
@@ -213,9 +432,51 @@ function OrderDetailsModal({ order, isOpen, onClose }: { order: Order; isOpen: b
                     {order.flaggedAt ? format(new Date(order.flaggedAt), 'MMM d, yyyy h:mm a') : '-'}
                   </span>
                 </div>
+                {order.fulfillmentHoldStatus && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Fulfillment</span>
+                    <FulfillmentHoldBadge status={order.fulfillmentHoldStatus} />
+                  </div>
+                )}
+                {order.resolvedByStaff && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Resolved By</span>
+                    <span className="text-sm font-medium" data-testid="text-resolved-by-staff">
+                      {formatStaffMember(order.resolvedByStaff)}
+                    </span>
+                  </div>
+                )}
+                {order.resolutionOutcome && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Outcome</span>
+                    <span className="text-sm font-medium" data-testid="text-resolution-outcome">
+                      {RESOLUTION_OUTCOME_LABELS[order.resolutionOutcome].label}
+                    </span>
+                  </div>
+                )}
+                {order.resolutionNote && (
+                  <p className="text-sm whitespace-pre-wrap" data-testid="text-resolution-note">{order.resolutionNote}</p>
+                )}
               </div>
             </div>
 
+            {order.duplicateOfOrderId && (
+              <div>
+                <h3 className="text-sm font-semibold mb-3">Comparison with Linked Order</h3>
+                <OrderComparisonPanel orderId={order.id} />
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-sm font-semibold mb-3">Matching Orders</h3>
+              <OrderMatchesList orderId={order.id} />
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold mb-3">History</h3>
+              <OrderHistory orderId={order.id} />
+            </div>
+
             <div>
               <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
                 <Package className="h-4 w-4" />
@@ -295,15 +556,28 @@ function OrderDetailsModal({ order, isOpen, onClose }: { order: Order; isOpen: b
               <Button variant="outline" className="flex-1" onClick={onClose} data-testid="button-close-details">
                 Close
               </Button>
-              <Button
-                variant="destructive"
-                className="flex-1"
-                onClick={() => setShowDismissDialog(true)}
-                data-testid="button-dismiss-order"
-              >
-                <X className="h-4 w-4 mr-2" />
-                Dismiss Order
-              </Button>
+              {order.isFlagged && (
+                <>
+                  <Button
+                    variant="destructive"
+                    className="flex-1"
+                    onClick={() => setShowDismissDialog(true)}
+                    data-testid="button-dismiss-order"
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Dismiss Order
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => setShowResolveDialog(true)}
+                    data-testid="button-resolve-order"
+                  >
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                    Resolve Order
+                  </Button>
+                </>
+              )}
               <Button variant="default" className="flex-1" asChild data-testid="button-view-in-shopify">
                 <a
                   href={`https://${order.shopDomain || 'admin.shopify.com'}/admin/orders/${order.shopifyOrderId}`}
@@ -318,12 +592,19 @@ function OrderDetailsModal({ order, isOpen, onClose }: { order: Order; isOpen: b
         </DialogContent>
       </Dialog>
 
+      <ResolveOrderDialog
+        order={order}
+        open={showResolveDialog}
+        onOpenChange={setShowResolveDialog}
+        onResolved={onClose}
+      />
+
       <AlertDialog open={showDismissDialog} onOpenChange={setShowDismissDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Dismiss Order?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will remove the "Merge_Review_Candidate" tag from this order in Shopify and remove it from the flagged orders list.
+              This will remove the review tags from this order in Shopify and remove it from the flagged orders list.
               The order will still be kept in the database for historical tracking.
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -388,22 +669,26 @@ function MobileOrderCard({ order, onClick }: { order: Order; onClick: () => void
 function FlaggedOrdersPagination({
   total,
   limit,
-  offset,
+  pageIndex,
+  pageSize,
+  hasNext,
   onPrevious,
   onNext,
 }: {
   total: number;
   limit: number;
-  offset: number;
+  pageIndex: number;
+  pageSize: number;
+  hasNext: boolean;
   onPrevious: () => void;
   onNext: () => void;
 }) {
-  const start = total === 0 ? 0 : offset + 1;
-  const end = Math.min(offset + limit, total);
-  const canPrevious = offset > 0;
-  const canNext = offset + limit < total;
+  const offset = pageIndex * limit;
+  const start = pageSize === 0 ? 0 : offset + 1;
+  const end = offset + pageSize;
+  const canPrevious = pageIndex > 0;
 
-  if (total <= limit && offset === 0) {
+  if (!hasNext && !canPrevious) {
     return null;
   }
 
@@ -428,7 +713,7 @@ function FlaggedOrdersPagination({
           type="button"
           variant="outline"
           size="icon"
-          disabled={!canNext}
+          disabled={!hasNext}
           onClick={onNext}
           aria-label="Next page"
           data-testid="button-flagged-orders-next"
@@ -444,21 +729,88 @@ function FlaggedOrdersTable({
   orders,
   total,
   limit,
-  offset,
+  pageIndex,
+  hasNextPage,
+  selectable,
+  filter,
+  isFiltered,
   onPreviousPage,
   onNextPage,
 }: {
   orders: Order[];
   total: number;
   limit: number;
-  offset: number;
+  pageIndex: number;
+  hasNextPage: boolean;
+  selectable: boolean;
+  filter: FlaggedOrderFilter;
+  isFiltered: boolean;
   onPreviousPage: () => void;
   onNextPage: () => void;
 }) {
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [allFlaggedSelected, setAllFlaggedSelected] = useState(false);
+
+  const pageIds = orders.map((order) => order.id);
+  const pageChecked = pageIds.length > 0 && pageIds.every((id) => checkedIds.includes(id));
+  const selectedCount = allFlaggedSelected ? total : checkedIds.length;
+  const bulkSelection: BulkOrderSelection = allFlaggedSelected
+    ? { filter }
+    : { orderIds: checkedIds };
+
+  const clearSelection = useCallback(() => {
+    setCheckedIds([]);
+    setAllFlaggedSelected(false);
+  }, []);
+
+  // A selection made under other filters no longer matches what is shown
+  const filterKey = JSON.stringify(filter);
+  useEffect(() => {
+    clearSelection();
+  }, [clearSelection, filterKey, selectable]);
+
+  const toggleOrder = (orderId: string, checked: boolean) => {
+    setAllFlaggedSelected(false);
+    setCheckedIds((ids) =>
+      checked ? Array.from(new Set(ids.concat(orderId))) : ids.filter((id) => id !== orderId)
+    );
+  };
+
+  const togglePage = (checked: boolean) => {
+    setAllFlaggedSelected(false);
+    setCheckedIds((ids) =>
+      checked
+        ? Array.from(new Set(ids.concat(pageIds)))
+        : ids.filter((id) => !pageIds.includes(id))
+    );
+  };
 
   return (
     <>
+      {selectable && selectedCount > 0 && (
+        <div className="hidden md:block">
+          <BulkActionBar
+            selection={bulkSelection}
+            selectedCount={selectedCount}
+            onClear={clearSelection}
+          />
+          {pageChecked && !allFlaggedSelected && total > pageIds.length && (
+            <p className="mb-4 text-sm text-muted-foreground">
+              All {pageIds.length} orders on this page are selected.{" "}
+              <button
+                type="button"
+                className="font-medium text-primary hover:underline"
+                onClick={() => setAllFlaggedSelected(true)}
+                data-testid="button-select-all-flagged"
+              >
+                Select all {total} {isFiltered ? "matching" : "flagged"} orders
+              </button>
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Desktop Table View */}
       <Card className="hidden md:block">
         <CardHeader>
@@ -468,6 +820,16 @@ function FlaggedOrdersTable({
           <Table>
             <TableHeader>
               <TableRow>
+                {selectable && (
+                  <TableHead className="w-[40px]">
+                    <Checkbox
+                      checked={allFlaggedSelected || pageChecked}
+                      onCheckedChange={(checked) => togglePage(checked === true)}
+                      aria-label="Select all orders on this page"
+                      data-testid="checkbox-select-page"
+                    />
+                  </TableHead>
+                )}
                 <TableHead className="w-[140px]">Order Number</TableHead>
                 <TableHead>Customer</TableHead>
                 <TableHead>Match Reason</TableHead>
@@ -477,6 +839,13 @@ function FlaggedOrdersTable({
               </TableRow>
             </TableHeader>
             <TableBody>
+              {orders.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={selectable ? 7 : 6} className="py-10 text-center text-sm text-muted-foreground" data-testid="text-no-matching-orders">
+                    No orders match these filters.
+                  </TableCell>
+                </TableRow>
+              )}
               {orders.map((order) => (
                 <TableRow
                   key={order.id}
@@ -484,6 +853,16 @@ function FlaggedOrdersTable({
                   onClick={() => setSelectedOrder(order)}
                   data-testid={`row-order-${order.id}`}
                 >
+                  {selectable && (
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        checked={allFlaggedSelected || checkedIds.includes(order.id)}
+                        onCheckedChange={(checked) => toggleOrder(order.id, checked === true)}
+                        aria-label={`Select order #${order.orderNumber}`}
+                        data-testid={`checkbox-order-${order.id}`}
+                      />
+                    </TableCell>
+                  )}
                   <TableCell className="font-semibold" data-testid={`text-order-number-${order.id}`}>
                     #{order.orderNumber}
                   </TableCell>
@@ -515,6 +894,16 @@ function FlaggedOrdersTable({
                   </TableCell>
                   <TableCell className="text-sm text-muted-foreground" data-testid={`text-flagged-date-${order.id}`}>
                     {order.flaggedAt ? format(new Date(order.flaggedAt), 'MMM d, yyyy') : '-'}
+                    {!order.isFlagged && (
+                      <Badge variant="outline" className="ml-2" data-testid={`badge-resolved-${order.id}`}>
+                        Resolved
+                      </Badge>
+                    )}
+                    {order.isFlagged && order.fulfillmentHoldStatus === "held" && (
+                      <span className="ml-2">
+                        <FulfillmentHoldBadge status="held" />
+                      </span>
+                    )}
                   </TableCell>
                   <TableCell className="text-right">
                     <Button
@@ -539,6 +928,9 @@ function FlaggedOrdersTable({
       {/* Mobile List View */}
       <div className="md:hidden space-y-3">
         <h3 className="text-lg font-semibold mb-2 px-1">Flagged Orders</h3>
+        {orders.length === 0 && (
+          <p className="px-1 text-sm text-muted-foreground">No orders match these filters.</p>
+        )}
         {orders.map((order) => (
           <MobileOrderCard
             key={order.id}
@@ -551,7 +943,9 @@ function FlaggedOrdersTable({
       <FlaggedOrdersPagination
         total={total}
         limit={limit}
-        offset={offset}
+        pageIndex={pageIndex}
+        pageSize={orders.length}
+        hasNext={hasNextPage}
         onPrevious={onPreviousPage}
         onNext={onNextPage}
       />
@@ -567,16 +961,13 @@ function FlaggedOrdersTable({
   );
 }
 
-type FlaggedOrdersResponse = {
-  orders: Order[];
-  total: number;
-  limit: number;
-  offset: number;
-};
-
 export default function Dashboard() {
-  const [flaggedOrdersPage, setFlaggedOrdersPage] = useState(0);
-  const flaggedOrdersOffset = flaggedOrdersPage * FLAGGED_ORDERS_PAGE_SIZE;
+  const [view, setView] = useState<FlaggedOrdersView>(() =>
+    parseFlaggedOrdersView(window.location.search)
+  );
+  // Cursors of the pages before the current one; the last entry loads it
+  const [pageCursors, setPageCursors] = useState<string[]>([]);
+  const currentCursor = pageCursors[pageCursors.length - 1];
 
   const { data: stats, isLoading: statsLoading } = useQuery<DashboardStats>({
     queryKey: ['/api/dashboard/stats'],
@@ -588,33 +979,42 @@ export default function Dashboard() {
     refetchInterval: 30000,
   });
 
-  const { data: flaggedOrdersData, isLoading: ordersLoading } = useQuery<FlaggedOrdersResponse>({
-    queryKey: ['/api/orders/flagged', flaggedOrdersPage],
+  const flaggedOrdersQuery = buildFlaggedOrdersApiQuery(view, FLAGGED_ORDERS_PAGE_SIZE, currentCursor);
+  const { data: flaggedOrdersData, isLoading: ordersLoading } = useQuery<FlaggedOrdersPage>({
+    queryKey: ['/api/orders/flagged', flaggedOrdersQuery],
     queryFn: async () => {
-      const response = await apiRequest(
-        "GET",
-        `/api/orders/flagged?limit=${FLAGGED_ORDERS_PAGE_SIZE}&offset=${flaggedOrdersOffset}`
-      );
+      const response = await apiRequest("GET", `/api/orders/flagged?${flaggedOrdersQuery}`);
       return await response.json();
     },
+    placeholderData: keepPreviousData,
     refetchInterval: 30000,
   });
 
   const orders = flaggedOrdersData?.orders ?? [];
   const totalFlaggedOrders = flaggedOrdersData?.total ?? 0;
   const currentLimit = flaggedOrdersData?.limit ?? FLAGGED_ORDERS_PAGE_SIZE;
-  const currentOffset = flaggedOrdersData?.offset ?? flaggedOrdersOffset;
+  const isFiltered = hasActiveFlaggedOrderFilters(view);
+
+  const changeView = useCallback((next: FlaggedOrdersView) => {
+    setView(next);
+    setPageCursors([]);
+    window.history.replaceState(
+      window.history.state,
+      "",
+      `${window.location.pathname}${buildFlaggedOrdersSearch(window.location.search, next)}`
+    );
+  }, []);
 
   useEffect(() => {
     if (
       flaggedOrdersData &&
       flaggedOrdersData.total > 0 &&
       flaggedOrdersData.orders.length === 0 &&
-      flaggedOrdersPage > 0
+      pageCursors.length > 0
     ) {
-      setFlaggedOrdersPage((page) => Math.max(page - 1, 0));
+      setPageCursors((cursors) => cursors.slice(0, -1));
     }
-  }, [flaggedOrdersData, flaggedOrdersPage]);
+  }, [flaggedOrdersData, pageCursors.length]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -634,17 +1034,25 @@ export default function Dashboard() {
                   <Skeleton className="h-64 w-full" />
                 </CardContent>
               </Card>
-            ) : orders && orders.length > 0 ? (
-              <FlaggedOrdersTable
-                orders={orders}
-                total={totalFlaggedOrders}
-                limit={currentLimit}
-                offset={currentOffset}
-                onPreviousPage={() =>
-                  setFlaggedOrdersPage((page) => Math.max(page - 1, 0))
-                }
-                onNextPage={() => setFlaggedOrdersPage((page) => page + 1)}
-              />
+            ) : orders.length > 0 || isFiltered ? (
+              <>
+                <FlaggedOrdersFilters view={view} onChange={changeView} />
+                <FlaggedOrdersTable
+                  orders={orders}
+                  total={totalFlaggedOrders}
+                  limit={currentLimit}
+                  pageIndex={pageCursors.length}
+                  hasNextPage={Boolean(flaggedOrdersData?.nextCursor)}
+                  selectable={view.status === "open"}
+                  filter={toFlaggedOrderFilter(view)}
+                  isFiltered={isFiltered}
+                  onPreviousPage={() => setPageCursors((cursors) => cursors.slice(0, -1))}
+                  onNextPage={() => {
+                    const nextCursor = flaggedOrdersData?.nextCursor;
+                    if (nextCursor) setPageCursors((cursors) => cursors.concat(nextCursor));
+                  }}
+                />
+              </>
             ) : (
               <EmptyState ordersChecked={onboardingStatus?.totalOrdersProcessed} />
             )}
@@ -12,17 +12,40 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { Flag, Bell, Save, Zap } from "lucide-react";
+import { Flag, Bell, FileText, PackageX, Save, Tag, Zap } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import type { DetectionSettings, UpdateDetectionSettings } from "@shared/schema";
-import { updateDetectionSettingsSchema } from "@shared/schema";
+import type { DetectionRuleId, DetectionSettings, UpdateDetectionSettings } from "@shared/schema";
+import {
+  DEFAULT_DETECTION_RULE_WEIGHTS,
+  DEFAULT_FLAG_THRESHOLD,
+  DEFAULT_FULFILLMENT_HOLD_THRESHOLD,
+  DEFAULT_HIGH_CONFIDENCE_TAG_THRESHOLD,
+  DEFAULT_REVIEW_TAG,
+  DEFAULT_TOTAL_PRICE_TOLERANCE_PERCENT,
+  updateDetectionSettingsSchema,
+} from "@shared/schema";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Header } from "@/components/Header";
+import { ExclusionsCard } from "@/components/ExclusionsCard";
+import { SettingsSimulationCard } from "@/components/SettingsSimulationCard";
+import { SettingsHistoryCard } from "@/components/SettingsHistoryCard";
 import { InfoTooltip } from "@/components/InfoTooltip";
 import { WelcomeBanner } from "@/components/WelcomeBanner";
 
+const RULE_WEIGHT_FIELDS: Array<{ id: DetectionRuleId; label: string; description: string; penalty?: boolean }> = [
+  { id: "email", label: "Email match", description: "Same email address, ignoring case, Gmail dots and +tags" },
+  { id: "phone", label: "Phone match", description: "Same normalized phone number" },
+  { id: "addressExact", label: "Full address match", description: "Street, city and zip all match" },
+  { id: "addressPartial", label: "Partial address match", description: "Street plus city or zip match" },
+  { id: "name", label: "Name match", description: "Supporting evidence, always checked. Near-identical names (typos, \"Jon\" vs \"John\") earn partial credit" },
+  { id: "sku", label: "SKU match", description: "Any SKU seen in the earlier order" },
+  { id: "totalPrice", label: "Order total match", description: "Same total in the same currency, within the tolerance below (0 = off)" },
+  { id: "basket", label: "Same basket", description: "Identical products in identical quantities (0 = off)" },
+  { id: "basketMismatch", label: "Different basket", description: "Subtracted when the two baskets share almost nothing, so repeat customers buying something new score lower (0 = off)", penalty: true },
+];
+
 export default function Settings() {
   const { toast } = useToast();
 
@@ -49,6 +72,18 @@ export default function Settings() {
       notificationEmail: "",
       slackWebhookUrl: "",
       notificationThreshold: 80,
+      flagThreshold: DEFAULT_FLAG_THRESHOLD,
+      totalPriceTolerancePercent: DEFAULT_TOTAL_PRICE_TOLERANCE_PERCENT,
+      ruleWeights: DEFAULT_DETECTION_RULE_WEIGHTS,
+      reviewTag: DEFAULT_REVIEW_TAG,
+      highConfidenceTag: null,
+      lowConfidenceTag: null,
+      highConfidenceTagThreshold: DEFAULT_HIGH_CONFIDENCE_TAG_THRESHOLD,
+      originalOrderTag: null,
+      holdFulfillment: false,
+      fulfillmentHoldThreshold: DEFAULT_FULFILLMENT_HOLD_THRESHOLD,
+      writeMatchMetafield: false,
+      appendMatchNote: false,
     },
   });
 
@@ -64,6 +99,18 @@ export default function Settings() {
         notificationEmail: settings.notificationEmail || "",
         slackWebhookUrl: settings.slackWebhookUrl || "",
         notificationThreshold: settings.notificationThreshold,
+        flagThreshold: settings.flagThreshold,
+        totalPriceTolerancePercent: settings.totalPriceTolerancePercent,
+        ruleWeights: { ...DEFAULT_DETECTION_RULE_WEIGHTS, ...(settings.ruleWeights ?? {}) },
+        reviewTag: settings.reviewTag,
+        highConfidenceTag: settings.highConfidenceTag,
+        lowConfidenceTag: settings.lowConfidenceTag,
+        highConfidenceTagThreshold: settings.highConfidenceTagThreshold,
+        originalOrderTag: settings.originalOrderTag,
+        holdFulfillment: settings.holdFulfillment,
+        fulfillmentHoldThreshold: settings.fulfillmentHoldThreshold,
+        writeMatchMetafield: settings.writeMatchMetafield,
+        appendMatchNote: settings.appendMatchNote,
       });
     }
   }, [settings, form]);
@@ -74,6 +121,7 @@ export default function Settings() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/versions'] });
       toast({
         title: "Settings saved",
         description: "Your detection settings have been updated successfully.",
@@ -88,6 +136,9 @@ export default function Settings() {
     },
   });
 
+  const weights = { ...DEFAULT_DETECTION_RULE_WEIGHTS, ...(form.watch("ruleWeights") ?? {}) };
+  const flagThreshold = form.watch("flagThreshold") ?? DEFAULT_FLAG_THRESHOLD;
+
   const onSubmit = (data: UpdateDetectionSettings) => {
     updateMutation.mutate(data);
   };
@@ -124,9 +175,18 @@ export default function Settings() {
                 <TabsTrigger value="detection" data-testid="tab-detection-rules">
                   Detection Rules
                 </TabsTrigger>
+                <TabsTrigger value="exclusions" data-testid="tab-exclusions">
+                  Exclusions
+                </TabsTrigger>
                 <TabsTrigger value="notifications" data-testid="tab-notifications">
                   Notifications
                 </TabsTrigger>
+                <TabsTrigger value="shopify" data-testid="tab-shopify">
+                  Shopify
+                </TabsTrigger>
+                <TabsTrigger value="history" data-testid="tab-settings-history">
+                  History
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="detection" className="space-y-4">
@@ -186,12 +246,12 @@ export default function Settings() {
                             <FormLabel className="flex items-center gap-2">
                               Email Address
                               <InfoTooltip
-                                content="Strong identifier worth 50 points. Checked only when email data exists in both orders."
+                                content={`Strong identifier worth ${weights.email} points. Checked only when email data exists in both orders.`}
                                 side="bottom"
                               />
                             </FormLabel>
                             <FormDescription>
-                              Flag orders with matching email addresses (50 points)
+                              Flag orders with matching email addresses ({weights.email} points)
                             </FormDescription>
                           </div>
                           <FormControl>
@@ -214,12 +274,12 @@ export default function Settings() {
                             <FormLabel className="flex items-center gap-2">
                               Phone Number
                               <InfoTooltip
-                                content="Strong identifier worth 50 points. Phone numbers are normalized to match different formats (+1234567890 vs (123) 456-7890). Checked only when phone data exists in both orders."
+                                content={`Strong identifier worth ${weights.phone} points. Phone numbers are normalized to match different formats (+1234567890 vs (123) 456-7890). Checked only when phone data exists in both orders.`}
                                 side="bottom"
                               />
                             </FormLabel>
                             <FormDescription>
-                              Flag orders with matching phone numbers (50 points)
+                              Flag orders with matching phone numbers ({weights.phone} points)
                             </FormDescription>
                           </div>
                           <FormControl>
@@ -242,12 +302,12 @@ export default function Settings() {
                             <FormLabel className="flex items-center gap-2">
                               Shipping Address
                               <InfoTooltip
-                                content="Worth up to 50 points for full match (street + city + zip), or 25 points for partial match. Automatically skipped for orders without shipping addresses (digital products, gift cards)."
+                                content={`Worth up to ${weights.addressExact} points for full match (street + city + zip), or ${weights.addressPartial} points for partial match. Automatically skipped for orders without shipping addresses (digital products, gift cards).`}
                                 side="bottom"
                               />
                             </FormLabel>
                             <FormDescription>
-                              Flag orders shipping to the same address (50 points for full match, 25 for partial)
+                              Flag orders shipping to the same address ({weights.addressExact} points for full match, {weights.addressPartial} for partial)
                             </FormDescription>
                           </div>
                           <FormControl>
@@ -271,12 +331,12 @@ export default function Settings() {
                             <FormLabel className="flex items-center gap-2">
                               Product SKU
                               <InfoTooltip
-                                content="Worth 50 points. Checks if the new order contains any SKU seen in a prior order within the time window. Name, email, phone, or address evidence still determines whether it reaches the flagging threshold."
+                                content={`Worth ${weights.sku} points. Checks if the new order contains any SKU seen in a prior order within the time window. Name, email, phone, or address evidence still determines whether it reaches the flagging threshold.`}
                                 side="bottom"
                               />
                             </FormLabel>
                             <FormDescription>
-                              Flag orders containing duplicate SKUs (50 points)
+                              Flag orders containing duplicate SKUs ({weights.sku} points)
                             </FormDescription>
                           </div>
                           <FormControl>
@@ -296,7 +356,9 @@ export default function Settings() {
                       !form.watch("matchPhone") && (
                         <Alert variant="default" className="border-yellow-500 bg-yellow-50 dark:bg-yellow-950">
                           <AlertDescription className="text-sm">
-                            <strong>Address-only mode is conservative.</strong> Exact address + matching name reaches 70 points and will be flagged. Address without a matching name stays below the threshold.
+                            <strong>Address-only mode is conservative.</strong> Exact address + matching name reaches {weights.addressExact + weights.name} points
+                            {weights.addressExact + weights.name >= flagThreshold ? " and will be flagged." : ", below your flag threshold."} Address without a matching name
+                            {weights.addressExact >= flagThreshold ? " still reaches the threshold." : " stays below the threshold."}
                           </AlertDescription>
                         </Alert>
                       )}
@@ -304,27 +366,134 @@ export default function Settings() {
                     <div className="mt-6 p-4 bg-muted rounded-lg">
                       <p className="text-sm font-medium mb-2">How Scoring Works</p>
                       <p className="text-xs text-muted-foreground mb-3">
-                        Orders need <strong>70+ points</strong> to be flagged as duplicates. Each enabled criterion that matches adds points:
+                        Orders need <strong>{flagThreshold}+ points</strong> to be flagged as duplicates. Each enabled criterion that matches adds points:
                       </p>
                       <ul className="text-xs text-muted-foreground space-y-1 ml-4">
-                        <li>• Email match: <strong>50 points</strong></li>
-                        <li>• Phone match: <strong>50 points</strong></li>
-                        <li>• Full address match (street + city + zip): <strong>50 points</strong></li>
-                        <li>• Partial address match: <strong>25 points</strong></li>
-                        <li>• SKU match: <strong>50 points</strong></li>
-                        <li>• Name match: <strong>20 points</strong> (supporting evidence)</li>
+                        {RULE_WEIGHT_FIELDS.map((rule) => (
+                          <li key={rule.id}>• {rule.label}: <strong>{rule.penalty ? "−" : ""}{weights[rule.id]} points</strong></li>
+                        ))}
                       </ul>
                       <div className="mt-4 space-y-2 text-xs text-muted-foreground border-t border-border pt-3">
                         <p><strong>Example - Fraud Detection:</strong></p>
-                        <p>Same customer (Email 50 + Name 20) orders different products → <strong>70 pts → Flagged ✓</strong></p>
-                        <p>Same recipient (Address 50 + Name 20) ships to the same place: <strong>70 pts, Flagged</strong></p>
+                        <p>Same customer (Email {weights.email} + Name {weights.name}) orders different products → <strong>{weights.email + weights.name} pts</strong></p>
+                        <p>Same recipient (Address {weights.addressExact} + Name {weights.name}) ships to the same place: <strong>{weights.addressExact + weights.name} pts</strong></p>
                         <p className="mt-2"><strong>Example - Limit Purchase by SKU:</strong></p>
-                        <p>Enable <em>only</em> SKU matching. Same customer re-orders same SKU → <strong>70 pts (SKU 50 + Name 20) → Flagged ✓</strong></p>
+                        <p>Enable <em>only</em> SKU matching. Same customer re-orders same SKU → <strong>{weights.sku + weights.name} pts (SKU {weights.sku} + Name {weights.name})</strong></p>
                         <p className="italic mt-2">💡 Tip: Name is always checked as supporting evidence. Combine Email + SKU for strongest fraud detection.</p>
                       </div>
                     </div>
                   </CardContent>
                 </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-section-header">Scoring Weights</CardTitle>
+                    <CardDescription>
+                      Tune how many points each signal contributes and the score needed to flag an order.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <FormField
+                      control={form.control}
+                      name="flagThreshold"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="flex items-center gap-2">
+                            Flag Threshold: {field.value ?? DEFAULT_FLAG_THRESHOLD} points
+                            <InfoTooltip
+                              content="Orders scoring at or above this threshold are flagged and tagged in Shopify. Default: 70."
+                              side="bottom"
+                            />
+                          </FormLabel>
+                          <FormControl>
+                            <Slider
+                              min={10}
+                              max={100}
+                              step={5}
+                              value={[field.value ?? DEFAULT_FLAG_THRESHOLD]}
+                              onValueChange={([value]) => field.onChange(value)}
+                              data-testid="slider-flag-threshold"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    {RULE_WEIGHT_FIELDS.map((rule) => (
+                      <FormField
+                        key={rule.id}
+                        control={form.control}
+                        name={`ruleWeights.${rule.id}`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>
+                              {rule.label}: {rule.penalty ? "−" : ""}{field.value ?? DEFAULT_DETECTION_RULE_WEIGHTS[rule.id]} points
+                            </FormLabel>
+                            <FormControl>
+                              <Slider
+                                min={0}
+                                max={100}
+                                step={5}
+                                value={[field.value ?? DEFAULT_DETECTION_RULE_WEIGHTS[rule.id]]}
+                                onValueChange={([value]) => field.onChange(value)}
+                                data-testid={`slider-weight-${rule.id}`}
+                              />
+                            </FormControl>
+                            <FormDescription>{rule.description}</FormDescription>
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+
+                    <FormField
+                      control={form.control}
+                      name="totalPriceTolerancePercent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="flex items-center gap-2">
+                            Order total tolerance: {field.value ?? DEFAULT_TOTAL_PRICE_TOLERANCE_PERCENT}%
+                            <InfoTooltip
+                              content="Totals this close (as a percent of the larger total) count as the same order total, e.g. to absorb shipping or discount differences. 0 requires an exact match."
+                              side="bottom"
+                            />
+                          </FormLabel>
+                          <FormControl>
+                            <Slider
+                              min={0}
+                              max={50}
+                              step={1}
+                              value={[field.value ?? DEFAULT_TOTAL_PRICE_TOLERANCE_PERCENT]}
+                              onValueChange={([value]) => field.onChange(value)}
+                              data-testid="slider-total-price-tolerance"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="flex justify-end">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          form.setValue("ruleWeights", DEFAULT_DETECTION_RULE_WEIGHTS, { shouldDirty: true });
+                          form.setValue("flagThreshold", DEFAULT_FLAG_THRESHOLD, { shouldDirty: true });
+                          form.setValue("totalPriceTolerancePercent", DEFAULT_TOTAL_PRICE_TOLERANCE_PERCENT, { shouldDirty: true });
+                        }}
+                        data-testid="button-reset-weights"
+                      >
+                        Reset to defaults
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <SettingsSimulationCard getDraft={() => form.getValues()} />
+              </TabsContent>
+
+              <TabsContent value="exclusions" className="space-y-4">
+                <ExclusionsCard />
               </TabsContent>
 
               <TabsContent value="notifications" className="space-y-4">
@@ -440,7 +609,7 @@ export default function Settings() {
                           <FormLabel className="flex items-center gap-2">
                             Confidence Threshold: {field.value}%
                             <InfoTooltip
-                              content="Notification threshold - only get alerted for high-confidence matches. Note: Orders are flagged at 70+ points, but you can set a higher threshold for notifications to reduce noise."
+                              content={`Notification threshold - only get alerted for high-confidence matches. Note: Orders are flagged at ${flagThreshold}+ points, but you can set a higher threshold for notifications to reduce noise.`}
                               side="bottom"
                             />
                           </FormLabel>
@@ -466,6 +635,255 @@ export default function Settings() {
 
                 <WebhookStatus />
               </TabsContent>
+
+              <TabsContent value="shopify" className="space-y-4">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-section-header flex items-center gap-2">
+                      <Tag className="h-4 w-4" />
+                      Shopify Tags
+                    </CardTitle>
+                    <CardDescription>
+                      Tags added in Shopify when an order is flagged, e.g. to trigger Shopify Flow. They are removed when the flag is dismissed or resolved, and removing any of them from a flagged order in Shopify resolves it. Orders flagged before a rename keep their old tags.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="reviewTag"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Review Tag</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder={DEFAULT_REVIEW_TAG}
+                              {...field}
+                              value={field.value ?? ""}
+                              data-testid="input-review-tag"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Added to every flagged order
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <FormField
+                        control={form.control}
+                        name="highConfidenceTag"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>High-Confidence Tag</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="e.g. DupGuard-High"
+                                {...field}
+                                value={field.value ?? ""}
+                                onChange={(event) => field.onChange(event.target.value || null)}
+                                data-testid="input-high-confidence-tag"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="lowConfidenceTag"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Low-Confidence Tag</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="e.g. DupGuard-Low"
+                                {...field}
+                                value={field.value ?? ""}
+                                onChange={(event) => field.onChange(event.target.value || null)}
+                                data-testid="input-low-confidence-tag"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <FormField
+                      control={form.control}
+                      name="highConfidenceTagThreshold"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            High-Confidence From: {field.value ?? DEFAULT_HIGH_CONFIDENCE_TAG_THRESHOLD}%
+                          </FormLabel>
+                          <FormControl>
+                            <Slider
+                              min={50}
+                              max={100}
+                              step={5}
+                              value={[field.value ?? DEFAULT_HIGH_CONFIDENCE_TAG_THRESHOLD]}
+                              onValueChange={([value]) => field.onChange(value)}
+                              data-testid="slider-high-confidence-tag-threshold"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Flags at or above this confidence get the high-confidence tag, the rest get the low-confidence tag. Leave a tag empty to skip it.
+                          </FormDescription>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="originalOrderTag"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Original Order Tag</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="e.g. DupGuard-Original"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(event) => field.onChange(event.target.value || null)}
+                              data-testid="input-original-order-tag"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Optional. Added to the earlier order a flagged order duplicates, and removed once no open flags point to it
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-section-header flex items-center gap-2">
+                      <PackageX className="h-4 w-4" />
+                      Fulfillment Hold
+                    </CardTitle>
+                    <CardDescription>
+                      Stop a likely duplicate from shipping until it has been reviewed. Only fulfillment orders your store fulfills itself can be held.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="holdFulfillment"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between">
+                          <div className="space-y-0.5">
+                            <FormLabel>Hold Fulfillment of Flagged Orders</FormLabel>
+                            <FormDescription>
+                              New flags place a hold in Shopify. Dismissing or resolving the flag releases it
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              data-testid="switch-hold-fulfillment"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="fulfillmentHoldThreshold"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            Hold From: {field.value ?? DEFAULT_FULFILLMENT_HOLD_THRESHOLD}% confidence
+                          </FormLabel>
+                          <FormControl>
+                            <Slider
+                              min={50}
+                              max={100}
+                              step={5}
+                              value={[field.value ?? DEFAULT_FULFILLMENT_HOLD_THRESHOLD]}
+                              onValueChange={([value]) => field.onChange(value)}
+                              disabled={!form.watch("holdFulfillment")}
+                              data-testid="slider-fulfillment-hold-threshold"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Lower-confidence flags are tagged but can still be fulfilled
+                          </FormDescription>
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-section-header flex items-center gap-2">
+                      <FileText className="h-4 w-4" />
+                      Match Details
+                    </CardTitle>
+                    <CardDescription>
+                      Show why an order was flagged inside Shopify admin. Details are removed when the flag is dismissed or resolved.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="writeMatchMetafield"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between">
+                          <div className="space-y-0.5">
+                            <FormLabel>Write Match Metafield</FormLabel>
+                            <FormDescription>
+                              Store the matched order, confidence, reason and a review link in the duplicate_guard.match metafield
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              data-testid="switch-write-match-metafield"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="appendMatchNote"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between">
+                          <div className="space-y-0.5">
+                            <FormLabel>Add Order Note</FormLabel>
+                            <FormDescription>
+                              Append a one-line summary of the match to the order note
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              data-testid="switch-append-match-note"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="history" className="space-y-4">
+                <SettingsHistoryCard />
+              </TabsContent>
             </Tabs>
 
             <div className="flex justify-end mt-6">
@@ -490,6 +908,8 @@ interface WebhookStatusResponse {
   webhooks: {
     ordersCreate: any;
     ordersUpdated: any;
+    ordersCancelled: any;
+    refundsCreate: any;
   };
 }
 
@@ -546,6 +966,12 @@ function WebhookStatus() {
             <div className="text-sm">
               <span className="font-medium">Orders Updated:</span> {status.webhooks.ordersUpdated ? '✅' : '❌'}
             </div>
+            <div className="text-sm">
+              <span className="font-medium">Orders Cancelled:</span> {status.webhooks.ordersCancelled ? '✅' : '❌'}
+            </div>
+            <div className="text-sm">
+              <span className="font-medium">Refunds Create:</span> {status.webhooks.refundsCreate ? '✅' : '❌'}
+            </div>
           </div>
         )}
       </CardContent>
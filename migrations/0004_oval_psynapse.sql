@@ -0,0 +1,2 @@
+ALTER TABLE "detection_settings" ADD COLUMN "flag_threshold" integer DEFAULT 70 NOT NULL;--> statement-breakpoint
+ALTER TABLE "detection_settings" ADD COLUMN "rule_weights" jsonb;
\ No newline at end of file
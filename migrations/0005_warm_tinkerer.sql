@@ -0,0 +1,16 @@
+CREATE TABLE "order_matches" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shop_domain" varchar NOT NULL,
+	"order_id" varchar NOT NULL,
+	"matched_order_id" varchar NOT NULL,
+	"rank" integer NOT NULL,
+	"confidence" integer NOT NULL,
+	"match_reason" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "order_matches" ADD CONSTRAINT "order_matches_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_matches" ADD CONSTRAINT "order_matches_matched_order_id_orders_id_fk" FOREIGN KEY ("matched_order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "order_matches_order_matched_idx" ON "order_matches" USING btree ("order_id","matched_order_id");--> statement-breakpoint
+CREATE INDEX "order_matches_shop_order_rank_idx" ON "order_matches" USING btree ("shop_domain","order_id","rank");--> statement-breakpoint
+CREATE INDEX "order_matches_matched_order_idx" ON "order_matches" USING btree ("matched_order_id");
\ No newline at end of file
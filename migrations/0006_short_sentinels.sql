@@ -0,0 +1,29 @@
+ALTER TABLE "orders" ADD COLUMN "customer_email_canonical" text;--> statement-breakpoint
+WITH email_source AS (
+  SELECT
+    "id",
+    split_part(lower(trim("customer_email")), '@', 1) AS local_part,
+    split_part(lower(trim("customer_email")), '@', 2) AS domain
+  FROM "orders"
+  WHERE "customer_email" IS NOT NULL
+    AND "customer_email_canonical" IS NULL
+),
+canonical_email AS (
+  SELECT
+    "id",
+    CASE
+      WHEN domain = '' THEN local_part
+      WHEN domain IN ('gmail.com', 'googlemail.com')
+        THEN replace(split_part(local_part, '+', 1), '.', '') || '@gmail.com'
+      WHEN domain IN ('outlook.com', 'hotmail.com', 'live.com', 'msn.com', 'icloud.com', 'me.com', 'mac.com', 'fastmail.com', 'protonmail.com', 'proton.me', 'pm.me')
+        AND position('+' in local_part) > 1
+        THEN split_part(local_part, '+', 1) || '@' || domain
+      ELSE local_part || '@' || domain
+    END AS canonical
+  FROM email_source
+)
+UPDATE "orders"
+SET "customer_email_canonical" = NULLIF(canonical_email.canonical, '')
+FROM canonical_email
+WHERE "orders"."id" = canonical_email."id";--> statement-breakpoint
+CREATE INDEX "orders_shop_email_canonical_created_at_idx" ON "orders" USING btree ("shop_domain","customer_email_canonical","created_at");
@@ -0,0 +1,2 @@
+ALTER TABLE "orders" ADD COLUMN "shipping_address_key" text;--> statement-breakpoint
+CREATE INDEX "orders_shop_address_key_created_at_idx" ON "orders" USING btree ("shop_domain","shipping_address_key","created_at");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "order_skus" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shop_domain" varchar NOT NULL,
+	"order_id" varchar NOT NULL,
+	"sku" text NOT NULL,
+	"order_created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "historical_scan_runs" ADD COLUMN "candidate_counts" jsonb DEFAULT '{"email":0,"phone":0,"address":0,"sku":0}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_skus" ADD CONSTRAINT "order_skus_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "order_skus_order_sku_idx" ON "order_skus" USING btree ("order_id","sku");--> statement-breakpoint
+INSERT INTO "order_skus" ("shop_domain", "order_id", "sku", "order_created_at")
+SELECT DISTINCT o."shop_domain", o."id", item->>'sku', o."created_at"
+FROM "orders" o
+CROSS JOIN LATERAL jsonb_array_elements(o."line_items") AS item
+WHERE jsonb_typeof(o."line_items") = 'array'
+  AND trim(coalesce(item->>'sku', '')) <> ''
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+CREATE INDEX "order_skus_shop_sku_created_at_idx" ON "order_skus" USING btree ("shop_domain","sku","order_created_at");--> statement-breakpoint
+ALTER TABLE "historical_scan_runs" DROP COLUMN "candidate_cap_exceeded";
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "detection_exclusions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shop_domain" varchar NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"value" text NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shopify_customer_id" varchar;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "customer_tags" jsonb;--> statement-breakpoint
+CREATE UNIQUE INDEX "detection_exclusions_shop_type_value_idx" ON "detection_exclusions" USING btree ("shop_domain","type","value");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "detection_settings" ADD COLUMN "total_price_tolerance_percent" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "bulk_action_runs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shop_domain" varchar NOT NULL,
+	"action" varchar(20) NOT NULL,
+	"status" varchar(20) DEFAULT 'queued' NOT NULL,
+	"order_ids" jsonb NOT NULL,
+	"total_count" integer DEFAULT 0 NOT NULL,
+	"processed_count" integer DEFAULT 0 NOT NULL,
+	"succeeded_count" integer DEFAULT 0 NOT NULL,
+	"skipped_count" integer DEFAULT 0 NOT NULL,
+	"failed_count" integer DEFAULT 0 NOT NULL,
+	"requested_at" timestamp DEFAULT now() NOT NULL,
+	"status_updated_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"queue_job_id" varchar,
+	"error_message" text
+);
+--> statement-breakpoint
+CREATE INDEX "bulk_action_runs_shop_requested_idx" ON "bulk_action_runs" USING btree ("shop_domain","requested_at");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "orders" ADD COLUMN "resolution_outcome" varchar(30);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "resolution_note" text;--> statement-breakpoint
+CREATE INDEX "audit_logs_order_performed_at_idx" ON "audit_logs" USING btree ("order_id","performed_at");
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "audit_logs_shop_performed_at_idx" ON "audit_logs" USING btree ("shop_domain","performed_at");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "audit_logs" ADD COLUMN "actor" varchar(20) DEFAULT 'system' NOT NULL;--> statement-breakpoint
+UPDATE "audit_logs" SET "actor" = CASE
+  WHEN "details"->>'resolvedBy' = 'manual_dashboard' OR "action" = 'exported' OR "details" ? 'bulkActionRunId' THEN 'dashboard'
+  WHEN "details"->>'resolvedBy' LIKE 'shopify_%' THEN 'shopify'
+  ELSE 'system'
+END;
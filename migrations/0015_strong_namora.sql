@@ -0,0 +1,4 @@
+ALTER TABLE "audit_logs" ALTER COLUMN "order_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD COLUMN "performed_by" jsonb;--> statement-breakpoint
+ALTER TABLE "bulk_action_runs" ADD COLUMN "requested_by" jsonb;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "resolved_by_staff" jsonb;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "detection_settings_versions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shop_domain" varchar NOT NULL,
+	"version" integer NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"settings" jsonb NOT NULL,
+	"changes" jsonb NOT NULL,
+	"changed_by" jsonb,
+	"restored_from_version" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "detection_settings_versions_shop_version_idx" ON "detection_settings_versions" USING btree ("shop_domain","version");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "detection_settings" ADD COLUMN "review_tag" text DEFAULT 'Merge_Review_Candidate' NOT NULL;--> statement-breakpoint
+ALTER TABLE "detection_settings" ADD COLUMN "high_confidence_tag" text;--> statement-breakpoint
+ALTER TABLE "detection_settings" ADD COLUMN "low_confidence_tag" text;--> statement-breakpoint
+ALTER TABLE "detection_settings" ADD COLUMN "high_confidence_tag_threshold" integer DEFAULT 90 NOT NULL;--> statement-breakpoint
+ALTER TABLE "detection_settings" ADD COLUMN "original_order_tag" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "review_tags" jsonb;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "detection_settings" ADD COLUMN "hold_fulfillment" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "detection_settings" ADD COLUMN "fulfillment_hold_threshold" integer DEFAULT 90 NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "fulfillment_hold_status" varchar(20);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "fulfillment_hold_ids" jsonb;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "detection_settings" ADD COLUMN "write_match_metafield" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "detection_settings" ADD COLUMN "append_match_note" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shopify_match_details" jsonb;
\ No newline at end of file
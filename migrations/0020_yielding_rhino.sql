@@ -0,0 +1,2 @@
+ALTER TABLE "historical_scan_runs" ADD COLUMN "fetch_mode" varchar(10);--> statement-breakpoint
+ALTER TABLE "historical_scan_runs" ADD COLUMN "bulk_operation_id" varchar;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "historical_scan_runs" ADD COLUMN "checkpoint" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "bulk_action_runs" ADD COLUMN "resolution" jsonb;
\ No newline at end of file
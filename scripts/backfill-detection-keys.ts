@@ -0,0 +1,105 @@
+#!/usr/bin/env tsx
+
+/**
+ * Backfill the persisted duplicate-detection lookup keys on existing orders.
+ *
+ * Address candidates are retrieved by `orders.shipping_address_key`, which is
+ * computed in application code (street suffix/directional abbreviation, unit
+ * extraction) and therefore cannot be populated by a SQL migration. Orders
+ * created before the column existed have no key and are invisible to address
+ * matching until this script has run.
+ *
+ * The script is idempotent: it only touches orders whose key is missing and
+ * whose shipping address normalizes to a street.
+ *
+ * Usage:
+ *   tsx scripts/backfill-detection-keys.ts --dry-run          Count affected orders only
+ *   tsx scripts/backfill-detection-keys.ts --shop=foo.myshopify.com   Backfill one shop
+ *   tsx scripts/backfill-detection-keys.ts                    Backfill all shops
+ */
+
+// Load environment variables before importing modules that depend on them.
+import "dotenv/config";
+
+import { and, asc, eq, gt, isNotNull, isNull } from "drizzle-orm";
+import { db, pool } from "../server/db";
+import { orders } from "../shared/schema";
+import { buildAddressKey } from "../server/utils/address";
+import { logger } from "../server/utils/logger";
+
+const BATCH_SIZE = 500;
+
+function parseArgs(argv: string[]) {
+  const args = argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const shopArg = args.find((a) => a.startsWith("--shop="));
+  const shop = shopArg ? shopArg.split("=")[1]?.trim() : undefined;
+  return { dryRun, shop };
+}
+
+async function main() {
+  const { dryRun, shop } = parseArgs(process.argv);
+
+  logger.info(
+    `[BackfillKeys] Starting detection key backfill${
+      shop ? ` for shop ${shop}` : ""
+    }${dryRun ? " (dry run)" : ""}`
+  );
+
+  let cursor = "";
+  let scanned = 0;
+  let updated = 0;
+
+  while (true) {
+    const conditions = [
+      isNull(orders.shippingAddressKey),
+      isNotNull(orders.shippingAddress),
+      gt(orders.id, cursor),
+    ];
+    if (shop) {
+      conditions.push(eq(orders.shopDomain, shop));
+    }
+
+    const batch = await db
+      .select({ id: orders.id, shippingAddress: orders.shippingAddress })
+      .from(orders)
+      .where(and(...conditions))
+      .orderBy(asc(orders.id))
+      .limit(BATCH_SIZE);
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    for (const row of batch) {
+      const shippingAddressKey = buildAddressKey(row.shippingAddress);
+      if (!shippingAddressKey) {
+        continue;
+      }
+      updated++;
+      if (!dryRun) {
+        await db
+          .update(orders)
+          .set({ shippingAddressKey })
+          .where(eq(orders.id, row.id));
+      }
+    }
+
+    scanned += batch.length;
+    cursor = batch[batch.length - 1].id;
+    logger.info(`[BackfillKeys] Scanned ${scanned} order(s), ${updated} keyed so far`);
+  }
+
+  logger.info(
+    `[BackfillKeys] Done. Scanned: ${scanned}, ${dryRun ? "Would update" : "Updated"}: ${updated}`
+  );
+}
+
+main()
+  .catch((error) => {
+    logger.error("[BackfillKeys] Fatal error:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await pool.end().catch(() => {});
+  });
@@ -83,17 +83,19 @@ export async function setupVite(app: Express, server: Server) {
 }
 
 (async () => {
-  const [{ default: runApp }, { queueService }, { webhookWorker }, { historicalScanWorker }, { setupGracefulShutdown }] =
+  const [{ default: runApp }, { queueService }, { webhookWorker }, { historicalScanWorker }, { bulkActionWorker }, { setupGracefulShutdown }] =
     await Promise.all([
       import("./app"),
       import("./services/queue.service"),
       import("./workers/webhook-worker"),
       import("./workers/historical-scan-worker"),
+      import("./workers/bulk-action-worker"),
       import("./shutdown"),
     ]);
   await queueService.initialize();
   await webhookWorker.start();
   await historicalScanWorker.start();
+  await bulkActionWorker.start();
 
   const server = await runApp(setupVite);
   setupGracefulShutdown(server);
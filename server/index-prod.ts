@@ -54,6 +54,7 @@ export async function serveStatic(app: Express, _server: Server) {
 import { queueService } from "./services/queue.service";
 import { webhookWorker } from "./workers/webhook-worker";
 import { historicalScanWorker } from "./workers/historical-scan-worker";
+import { bulkActionWorker } from "./workers/bulk-action-worker";
 
 (async () => {
   // Schema migrations run as a one-off step in deploy.sh (npm run db:migrate).
@@ -61,6 +62,7 @@ import { historicalScanWorker } from "./workers/historical-scan-worker";
   await queueService.initialize();
   await webhookWorker.start();
   await historicalScanWorker.start();
+  await bulkActionWorker.start();
 
   const server = await runApp(serveStatic);
   setupGracefulShutdown(server);
@@ -17,6 +17,10 @@ import { subscriptionService } from "./services/subscription.service";
 import { shopifyBillingService } from "./services/shopify-billing.service";
 import { billingReconciliationService } from "./services/billing-reconciliation.service";
 import { reviewPromptService } from "./services/review-prompt.service";
+import {
+  exclusionService,
+  InvalidExclusionError,
+} from "./services/exclusion.service";
 import {
   historicalScanService,
   HistoricalScanConflictError,
@@ -24,16 +28,50 @@ import {
 import {
   buildOrderCreateDeliveryId,
   buildOrderCreateJobKey,
+  buildOrderClosedJobKey,
+  buildOrderUpdatedJobKey,
+  getClosedShopifyOrderId,
+  type OrderClosedTopic,
 } from "./services/webhook-processor.service";
 import {
+  bulkOrderActionSchema,
+  bulkOrderSelectionSchema,
+  flaggedOrdersQuerySchema,
+  accuracyAnalyticsQuerySchema,
+  settingsSimulationSchema,
+  settingsVersionDiffQuerySchema,
+  settingsVersionsQuerySchema,
+  flaggedOrdersExportQuerySchema,
+  auditLogExportQuerySchema,
+  auditLogsQuerySchema,
+  type ExportFormat,
+  resolveOrderSchema,
+  detectionExclusionInputSchema,
   insertOrderSchema,
+  updateDetectionExclusionSchema,
   updateDetectionSettingsSchema,
+  type BulkActionRun,
+  type StaffMember,
 } from "@shared/schema";
 import { randomUUID, timingSafeEqual } from "crypto";
 import { logger } from "./utils/logger";
-import { queueService } from "./services/queue.service";
+import { queueService, QUEUES } from "./services/queue.service";
 import { pool } from "./db";
-import { shouldRemoveShopifyTag } from "./utils/order-dismissal";
+import { orderComparisonService } from "./services/order-comparison.service";
+import { accuracyAnalyticsService } from "./services/accuracy-analytics.service";
+import { settingsSimulationService } from "./services/settings-simulation.service";
+import {
+  settingsHistoryService,
+  SettingsVersionNotFoundError,
+} from "./services/settings-history.service";
+import { clearFlagInShopify } from "./services/flag-cleanup.service";
+import { EXPORT_CONTENT_TYPES, exportService } from "./services/export.service";
+import { InvalidCursorError } from "./utils/cursor";
+import { StreamClosedError, writeChunk } from "./utils/stream";
+import {
+  bulkActionService,
+  EmptyBulkSelectionError,
+} from "./services/bulk-action.service";
 
 
 /**
@@ -71,6 +109,15 @@ function validateReturnUrl(returnUrl: string): string {
   }
 }
 
+/**
+ * The staff user behind an authenticated dashboard request, or null when the
+ * session token names none (such as the development bypass).
+ */
+async function getRequestStaff(res: Response): Promise<StaffMember | null> {
+  const { shop, userId } = res.locals.shopify;
+  return userId ? storage.getStaffMember(shop, userId) : null;
+}
+
 import {
   auth,
   authCallback,
@@ -542,6 +589,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/analytics/accuracy", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const parsed = accuracyAnalyticsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid analytics period" });
+      }
+
+      const report = await accuracyAnalyticsService.getReport(shop, parsed.data.days);
+      res.json(report);
+    } catch (error) {
+      logger.error("Error fetching accuracy analytics:", error);
+      res.status(500).json({ error: "Failed to fetch accuracy analytics" });
+    }
+  });
+
   const safeHistoricalScan = (run: Awaited<ReturnType<typeof historicalScanService.getLatest>>) =>
     run
       ? {
@@ -554,7 +617,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ordersFetched: run.ordersFetched,
           ordersImported: run.ordersImported,
           matchesFound: run.matchesFound,
-          candidateCapExceeded: run.candidateCapExceeded,
+          candidateCounts: run.candidateCounts,
+          fetchMode: run.fetchMode,
           errorMessage: run.errorMessage,
         }
       : null;
@@ -573,6 +637,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { shop } = res.locals.shopify;
       const run = await historicalScanService.startOrRetry(shop);
+
+      try {
+        await storage.createAuditLog({
+          shopDomain: shop,
+          orderId: null,
+          action: "scan_started",
+          actor: "dashboard",
+          performedBy: await getRequestStaff(res),
+          details: { scanRunId: run.id, attemptCount: run.attemptCount, windowDays: run.windowDays },
+        });
+      } catch (error) {
+        logger.error("[HistoricalScanAPI] Failed to record scan start:", error);
+      }
+
       res.status(202).json(safeHistoricalScan(run));
     } catch (error) {
       if (error instanceof HistoricalScanConflictError) {
@@ -644,29 +722,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  const parsePaginationParam = (value: unknown): number | undefined => {
-    const rawValue = Array.isArray(value) ? value[0] : value;
-    if (rawValue === undefined || rawValue === "") {
-      return undefined;
-    }
-
-    const parsed = Number.parseInt(String(rawValue), 10);
-    return Number.isFinite(parsed) ? parsed : undefined;
-  };
-
   app.get("/api/orders/flagged", async (req: Request, res: Response) => {
     try {
       const { shop } = res.locals.shopify;
-      const limit = parsePaginationParam(req.query.limit);
-      const offset = parsePaginationParam(req.query.offset);
-      const result = await storage.getFlaggedOrders(shop, { limit, offset });
+      const parsed = flaggedOrdersQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid flagged orders query" });
+      }
+
+      const result = await storage.getFlaggedOrders(shop, parsed.data);
       res.json(result);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ error: error.message });
+      }
       logger.error("Error fetching flagged orders:", error);
       res.status(500).json({ error: "Failed to fetch flagged orders" });
     }
   });
 
+  app.get(
+    "/api/orders/:orderId/matches",
+    async (req: Request, res: Response) => {
+      try {
+        const { shop } = res.locals.shopify;
+        const { orderId } = req.params;
+
+        const order = await storage.getOrder(shop, orderId);
+        if (!order) {
+          return res.status(404).json({ error: "Order not found" });
+        }
+
+        const matches = await storage.getOrderMatches(shop, orderId);
+        res.json({ matches });
+      } catch (error) {
+        logger.error("Error fetching order matches:", error);
+        res.status(500).json({ error: "Failed to fetch order matches" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/orders/:orderId/comparison",
+    async (req: Request, res: Response) => {
+      try {
+        const { shop } = res.locals.shopify;
+        const { orderId } = req.params;
+
+        const order = await storage.getOrder(shop, orderId);
+        if (!order) {
+          return res.status(404).json({ error: "Order not found" });
+        }
+
+        const comparison = await orderComparisonService.getComparison(shop, order);
+        if (!comparison) {
+          return res.status(404).json({ error: "Order has no linked duplicate to compare" });
+        }
+        res.json(comparison);
+      } catch (error) {
+        logger.error("Error building order comparison:", error);
+        res.status(500).json({ error: "Failed to compare orders" });
+      }
+    }
+  );
+
   app.post(
     "/api/orders/:orderId/dismiss",
     async (req: Request, res: Response) => {
@@ -687,29 +806,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Dismiss the order (sets isFlagged: false, resolvedAt, resolvedBy)
-        const dismissedOrder = await storage.dismissOrder(shop, orderId);
+        const staff = await getRequestStaff(res);
+        const dismissedOrder = await storage.dismissOrder(shop, orderId, staff);
 
-        if (shouldRemoveShopifyTag(order.flagSource)) {
-          try {
-            await shopifyService.removeOrderTag(
-              shop,
-              accessToken,
-              order.shopifyOrderId,
-              "Merge_Review_Candidate"
-            );
-          } catch (error) {
-            logger.error(
-              "Failed to remove tag from Shopify, but order was dismissed:",
-              error
-            );
-          }
-        }
+        await clearFlagInShopify(order, accessToken, "dashboard", staff);
 
         // Log the dismissal action
         await storage.createAuditLog({
           shopDomain: shop,
           orderId: dismissedOrder.id,
           action: "dismissed",
+          actor: "dashboard",
+          performedBy: staff,
           details: {
             resolvedBy: "manual_dashboard",
             resolvedAt: dismissedOrder.resolvedAt,
@@ -731,6 +839,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  app.post(
+    "/api/orders/:orderId/resolve",
+    async (req: Request, res: Response) => {
+      try {
+        const { shop, accessToken } = res.locals.shopify;
+        const { orderId } = req.params;
+
+        const parsed = resolveOrderSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ error: "Invalid resolution" });
+        }
+
+        const order = await storage.getOrder(shop, orderId);
+        if (!order) {
+          return res.status(404).json({ error: "Order not found" });
+        }
+
+        if (!order.isFlagged) {
+          return res
+            .status(400)
+            .json({ error: "Order is not currently flagged" });
+        }
+
+        const staff = await getRequestStaff(res);
+        const resolvedOrder = await storage.resolveOrder(
+          shop,
+          orderId,
+          "manual_dashboard",
+          parsed.data,
+          staff
+        );
+
+        const { tagRemoved } = await clearFlagInShopify(order, accessToken, "dashboard", staff);
+
+        await storage.createAuditLog({
+          shopDomain: shop,
+          orderId: resolvedOrder.id,
+          action: "resolved",
+          actor: "dashboard",
+          performedBy: staff,
+          details: {
+            resolvedBy: "manual_dashboard",
+            resolvedAt: resolvedOrder.resolvedAt,
+            outcome: resolvedOrder.resolutionOutcome,
+            note: resolvedOrder.resolutionNote,
+            matchConfidence: order.matchConfidence,
+            matchReason: order.matchReason,
+            flagSource: order.flagSource,
+            tagRemoved,
+          },
+        });
+
+        res.json({ success: true, order: resolvedOrder });
+      } catch (error) {
+        logger.error("Error resolving order:", error);
+        res.status(500).json({ error: "Failed to resolve order" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/orders/:orderId/history",
+    async (req: Request, res: Response) => {
+      try {
+        const { shop } = res.locals.shopify;
+        const { orderId } = req.params;
+
+        const order = await storage.getOrder(shop, orderId);
+        if (!order) {
+          return res.status(404).json({ error: "Order not found" });
+        }
+
+        const events = await storage.getOrderAuditLogs(shop, orderId);
+        res.json({ events });
+      } catch (error) {
+        logger.error("Error fetching order history:", error);
+        res.status(500).json({ error: "Failed to fetch order history" });
+      }
+    }
+  );
+
   app.get("/api/settings", async (_req: Request, res: Response) => {
     try {
       const { shop } = res.locals.shopify;
@@ -750,18 +939,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { shop } = res.locals.shopify;
       const validatedData = updateDetectionSettingsSchema.parse(req.body);
 
-      // Check subscription if user is trying to enable notifications
-      if (validatedData.enableNotifications) {
-        const subscription = await subscriptionService.getSubscription(shop);
-        if (subscription.tier !== "paid") {
-          logger.warn(
-            `[Settings] Shop ${shop} (free tier) attempted to enable notifications. Forcing disabled.`
-          );
-          validatedData.enableNotifications = false;
-        }
-      }
-
-      const settings = await storage.updateSettings(shop, validatedData);
+      const settings = await settingsHistoryService.update(
+        shop,
+        validatedData,
+        await getRequestStaff(res)
+      );
       res.json(settings);
     } catch (error) {
       console.error("Error updating settings:", error);
@@ -769,6 +951,315 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/settings/versions", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const parsed = settingsVersionsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid settings history query" });
+      }
+
+      res.json({ versions: await settingsHistoryService.listVersions(shop, parsed.data.limit) });
+    } catch (error) {
+      logger.error("Error fetching settings history:", error);
+      res.status(500).json({ error: "Failed to fetch settings history" });
+    }
+  });
+
+  app.get("/api/settings/versions/diff", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const parsed = settingsVersionDiffQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid settings versions" });
+      }
+
+      res.json(await settingsHistoryService.diffVersions(shop, parsed.data.from, parsed.data.to));
+    } catch (error) {
+      if (error instanceof SettingsVersionNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      logger.error("Error comparing settings versions:", error);
+      res.status(500).json({ error: "Failed to compare settings versions" });
+    }
+  });
+
+  app.post(
+    "/api/settings/versions/:version/restore",
+    async (req: Request, res: Response) => {
+      try {
+        const { shop } = res.locals.shopify;
+        const version = Number(req.params.version);
+        if (!Number.isInteger(version) || version < 1) {
+          return res.status(400).json({ error: "Invalid settings version" });
+        }
+
+        const settings = await settingsHistoryService.restore(
+          shop,
+          version,
+          await getRequestStaff(res)
+        );
+        res.json(settings);
+      } catch (error) {
+        if (error instanceof SettingsVersionNotFoundError) {
+          return res.status(404).json({ error: error.message });
+        }
+        logger.error("Error restoring settings version:", error);
+        res.status(500).json({ error: "Failed to restore settings" });
+      }
+    }
+  );
+
+  app.post("/api/settings/simulate", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const parsed = settingsSimulationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid settings data" });
+      }
+
+      const result = await settingsSimulationService.simulate(
+        shop,
+        parsed.data.settings,
+        parsed.data.days
+      );
+      res.json(result);
+    } catch (error) {
+      logger.error("Error simulating settings:", error);
+      res.status(500).json({ error: "Failed to simulate settings" });
+    }
+  });
+
+  const isUniqueViolation = (error: unknown): boolean => {
+    const message = String(error).toLowerCase();
+    return message.includes("duplicate key") || message.includes("unique constraint");
+  };
+
+  const safeBulkActionRun = (run: BulkActionRun) => ({
+    id: run.id,
+    action: run.action,
+    status: run.status,
+    totalCount: run.totalCount,
+    processedCount: run.processedCount,
+    succeededCount: run.succeededCount,
+    skippedCount: run.skippedCount,
+    failedCount: run.failedCount,
+    requestedAt: run.requestedAt,
+    completedAt: run.completedAt,
+    errorMessage: run.errorMessage,
+  });
+
+  app.post("/api/orders/bulk", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const parsed = bulkOrderActionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid bulk action" });
+      }
+
+      const { action, resolution, ...selection } = parsed.data;
+      const run = await bulkActionService.start(
+        shop,
+        action,
+        selection,
+        await getRequestStaff(res),
+        resolution
+      );
+      res
+        .status(run.status === "queued" ? 202 : 200)
+        .json(safeBulkActionRun(run));
+    } catch (error) {
+      if (error instanceof EmptyBulkSelectionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error("Error starting bulk action:", error);
+      res.status(500).json({ error: "Failed to start bulk action" });
+    }
+  });
+
+  app.get("/api/orders/bulk/:runId", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const run = await bulkActionService.getRun(shop, req.params.runId);
+      if (!run) {
+        return res.status(404).json({ error: "Bulk action not found" });
+      }
+      res.json(safeBulkActionRun(run));
+    } catch (error) {
+      logger.error("Error fetching bulk action:", error);
+      res.status(500).json({ error: "Failed to fetch bulk action" });
+    }
+  });
+
+  app.post("/api/orders/bulk/export", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const parsed = bulkOrderSelectionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid order selection" });
+      }
+
+      const performedBy = await getRequestStaff(res);
+      await streamExport(res, "csv", "flagged-orders", (write) =>
+        bulkActionService.exportOrders(shop, parsed.data, write, performedBy)
+      );
+    } catch (error) {
+      logger.error("Error exporting orders:", error);
+      res.status(500).json({ error: "Failed to export orders" });
+    }
+  });
+
+  // Headers go out before the first page is read, so a failure mid-export
+  // can only abort the response
+  const streamExport = async (
+    res: Response,
+    format: ExportFormat,
+    filename: string,
+    run: (write: (chunk: string) => Promise<void>) => Promise<number>
+  ) => {
+    res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}.${format}"`);
+    try {
+      await run((chunk) => writeChunk(res, chunk));
+      res.end();
+    } catch (error) {
+      if (!res.headersSent) {
+        res.removeHeader("Content-Disposition");
+        throw error;
+      }
+      if (!(error instanceof StreamClosedError)) {
+        logger.error(`Error streaming ${filename} export:`, error);
+      }
+      res.destroy();
+    }
+  };
+
+  app.get("/api/orders/flagged/export", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const parsed = flaggedOrdersExportQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid export query" });
+      }
+
+      const { format, ...query } = parsed.data;
+      await streamExport(res, format, "flagged-orders", (write) =>
+        exportService.exportFlaggedOrders(shop, query, format, write)
+      );
+    } catch (error) {
+      logger.error("Error exporting flagged orders:", error);
+      res.status(500).json({ error: "Failed to export flagged orders" });
+    }
+  });
+
+  app.get("/api/audit-logs", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const parsed = auditLogsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid audit log query" });
+      }
+
+      const { limit, cursor, ...filter } = parsed.data;
+      res.json(await storage.getAuditLogs(shop, filter, { limit, cursor }));
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error("Error fetching audit logs:", error);
+      res.status(500).json({ error: "Failed to fetch audit logs" });
+    }
+  });
+
+  app.get("/api/audit-logs/export", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const parsed = auditLogExportQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid export query" });
+      }
+
+      const { format, ...filter } = parsed.data;
+      await streamExport(res, format, "audit-log", (write) =>
+        exportService.exportAuditLogs(shop, filter, format, write)
+      );
+    } catch (error) {
+      logger.error("Error exporting audit log:", error);
+      res.status(500).json({ error: "Failed to export audit log" });
+    }
+  });
+
+  app.get("/api/exclusions", async (_req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      res.json({ exclusions: await exclusionService.list(shop) });
+    } catch (error) {
+      logger.error("Error fetching exclusions:", error);
+      res.status(500).json({ error: "Failed to fetch exclusions" });
+    }
+  });
+
+  app.post("/api/exclusions", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const parsed = detectionExclusionInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid exclusion data" });
+      }
+
+      const exclusion = await exclusionService.create(shop, parsed.data);
+      res.status(201).json(exclusion);
+    } catch (error) {
+      if (error instanceof InvalidExclusionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "This exclusion already exists" });
+      }
+      logger.error("Error creating exclusion:", error);
+      res.status(500).json({ error: "Failed to create exclusion" });
+    }
+  });
+
+  app.patch("/api/exclusions/:id", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const parsed = updateDetectionExclusionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid exclusion data" });
+      }
+
+      const exclusion = await exclusionService.update(shop, req.params.id, parsed.data);
+      if (!exclusion) {
+        return res.status(404).json({ error: "Exclusion not found" });
+      }
+      res.json(exclusion);
+    } catch (error) {
+      if (error instanceof InvalidExclusionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "This exclusion already exists" });
+      }
+      logger.error("Error updating exclusion:", error);
+      res.status(500).json({ error: "Failed to update exclusion" });
+    }
+  });
+
+  app.delete("/api/exclusions/:id", async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.shopify;
+      const deleted = await exclusionService.remove(shop, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Exclusion not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      logger.error("Error deleting exclusion:", error);
+      res.status(500).json({ error: "Failed to delete exclusion" });
+    }
+  });
+
   // Support request endpoint
   app.post("/api/support", async (req: Request, res: Response) => {
     try {
@@ -1004,6 +1495,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const ordersUpdatedWebhook = webhooks.find(
         (wh) => wh.topic === "orders/updated"
       );
+      const ordersCancelledWebhook = webhooks.find(
+        (wh) => wh.topic === "orders/cancelled"
+      );
+      const refundsCreateWebhook = webhooks.find(
+        (wh) => wh.topic === "refunds/create"
+      );
       const appUninstalledWebhook = webhooks.find(
         (wh) => wh.topic === "app/uninstalled"
       );
@@ -1018,13 +1515,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
 
       const allRequiredWebhooks =
-        ordersCreateWebhook && ordersUpdatedWebhook && appUninstalledWebhook;
+        ordersCreateWebhook &&
+        ordersUpdatedWebhook &&
+        ordersCancelledWebhook &&
+        refundsCreateWebhook &&
+        appUninstalledWebhook;
 
       res.json({
         registered: !!allRequiredWebhooks,
         webhooks: {
           ordersCreate: ordersCreateWebhook || null,
           ordersUpdated: ordersUpdatedWebhook || null,
+          ordersCancelled: ordersCancelledWebhook || null,
+          refundsCreate: refundsCreateWebhook || null,
           appUninstalled: appUninstalledWebhook || null,
           customersDataRequest: customersDataRequestWebhook || null,
           customersRedact: customersRedactWebhook || null,
@@ -1159,6 +1662,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         `${baseUrl}/api/webhooks/shopify/orders/updated`
       );
 
+      const ordersCancelledResult =
+        await shopifyService.registerWebhookWithRetry(
+          shop,
+          accessToken,
+          "orders/cancelled",
+          `${baseUrl}/api/webhooks/shopify/orders/cancelled`
+        );
+
+      const refundsCreateResult = await shopifyService.registerWebhookWithRetry(
+        shop,
+        accessToken,
+        "refunds/create",
+        `${baseUrl}/api/webhooks/shopify/refunds/create`
+      );
+
       const appUninstalledResult =
         await shopifyService.registerWebhookWithRetry(
           shop,
@@ -1182,6 +1700,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const allSuccess =
         ordersCreateResult.success &&
         ordersUpdatedResult.success &&
+        ordersCancelledResult.success &&
+        refundsCreateResult.success &&
         appUninstalledResult.success &&
         appSubscriptionsUpdateResult.success;
 
@@ -1190,6 +1710,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         webhooks: {
           ordersCreate: ordersCreateResult,
           ordersUpdated: ordersUpdatedResult,
+          ordersCancelled: ordersCancelledResult,
+          refundsCreate: refundsCreateResult,
           appUninstalled: appUninstalledResult,
           appSubscriptionsUpdate: appSubscriptionsUpdateResult,
         },
@@ -1718,148 +2240,140 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }`
         );
 
-        // Atomically check and record webhook delivery ID to prevent TOCTOU race conditions
-        // This uses database-level atomicity: if insert succeeds, it's new; if it fails (conflict), it's duplicate
-        if (deliveryIdHeader) {
-          try {
-            const isNew = await storage.tryRecordWebhookDelivery({
-              shopDomain,
-              deliveryId: deliveryIdHeader,
-              topic: topic || "orders/updated",
-            });
-            if (!isNew) {
-              logger.info(
-                `[Webhook] ⚠️ Duplicate webhook delivery detected (ID: ${deliveryIdHeader}). Skipping processing.`
-              );
-              return res.json({
-                success: true,
-                message: "Webhook already processed",
-                duplicate: true,
-              });
-            }
-            logger.debug(
-              `[Webhook] Recorded delivery ID ${deliveryIdHeader} before processing`
-            );
-          } catch (error) {
-            logger.error("Failed to record webhook delivery ID:", error);
-            // If recording fails, we should still proceed but idempotency won't be guaranteed
-          }
-        }
-
         // Parse JSON after verification
         const shopifyOrder = JSON.parse(rawBody.toString("utf8"));
 
-        // Check if order exists in our database
-        const order = await storage.getOrderByShopifyId(
+        // Processing runs in the webhook worker so Shopify gets its reply
+        // within the response deadline. The delivery is only recorded as
+        // processed once the job succeeds, so a failed job can be retried.
+        const jobKey = buildOrderUpdatedJobKey(shopDomain, shopifyOrder.id);
+        const jobData = {
           shopDomain,
-          shopifyOrder.id.toString()
-        );
+          payload: shopifyOrder,
+          deliveryId: deliveryIdHeader.trim() || jobKey,
+        };
 
-        if (!order) {
-          logger.debug("[Webhook] Order not found in database, skipping");
-          // Record webhook delivery ID for idempotency before returning
-          if (deliveryIdHeader) {
-            try {
-              await storage.recordWebhookDelivery({
-                shopDomain,
-                deliveryId: deliveryIdHeader,
-                topic: topic || "orders/updated",
-              });
-            } catch (error) {
-              logger.error("Failed to record webhook delivery ID:", error);
-            }
-          }
-          return res.json({ success: true, message: "Order not tracked" });
+        // No singletonSeconds: an order may be edited many times in a row, and
+        // the queue's stately policy already keeps one job per order waiting
+        const jobId = await queueService.addJob(QUEUES.ORDERS_UPDATED, jobData, {
+          singletonKey: jobKey,
+        });
+
+        if (jobId) {
+          await storage.markWebhookDeliveryQueued({
+            shopDomain,
+            deliveryId: jobData.deliveryId,
+            topic: "orders/updated",
+          });
+          logger.info(
+            `[Webhook] Enqueued orders/updated job ${jobId} for order ${shopifyOrder.id}`
+          );
+          res.status(200).json({ success: true, jobId, message: "Webhook accepted for processing" });
+        } else {
+          logger.info(
+            `[Webhook] An update for order ${shopifyOrder.id} is already queued. Acknowledging delivery.`
+          );
+          res.status(200).json({
+            success: true,
+            duplicate: true,
+            message: "Webhook already queued or processing",
+          });
         }
+      } catch (error) {
+        logger.error("Error processing orders/updated webhook:", error);
+        res.status(500).json({ error: "Failed to process webhook" });
+      }
+    }
+  );
 
-        // Only process if order is currently flagged
-        if (!order.isFlagged) {
-          logger.debug("[Webhook] Order is not flagged, skipping");
-          // Record webhook delivery ID for idempotency before returning
-          if (deliveryIdHeader) {
-            try {
-              await storage.recordWebhookDelivery({
-                shopDomain,
-                deliveryId: deliveryIdHeader,
-                topic: topic || "orders/updated",
-              });
-            } catch (error) {
-              logger.error("Failed to record webhook delivery ID:", error);
-            }
-          }
-          return res.json({ success: true, message: "Order not flagged" });
+  // orders/cancelled and refunds/create share one handler: both close an order
+  // in Shopify and are resolved asynchronously by the webhook worker
+  const handleOrderClosedWebhook =
+    (defaultTopic: OrderClosedTopic) => async (req: any, res: Response) => {
+      try {
+        // With express.raw middleware, req.body is a Buffer
+        const rawBody: Buffer = req.body;
+
+        const hmacHeader = req.get("X-Shopify-Hmac-Sha256");
+        const shopHeader = req.get("X-Shopify-Shop-Domain");
+        const deliveryIdHeader =
+          req.get("X-Shopify-Delivery-Id") ||
+          req.get("X-Shopify-Webhook-Id") ||
+          "";
+
+        if (!hmacHeader) {
+          logger.warn("[Webhook] ❌ Missing HMAC header");
+          return res.status(401).json({ error: "Missing HMAC header" });
         }
 
-        // Check if "Merge_Review_Candidate" tag was removed
-        const currentTags = shopifyOrder.tags
-          ? shopifyOrder.tags.split(", ").map((t: string) => t.trim())
-          : [];
-        const hasTag = currentTags.includes("Merge_Review_Candidate");
+        if (!shopifyService.verifyWebhook(rawBody, hmacHeader)) {
+          logger.warn(`[Webhook] ❌ Invalid webhook signature.`);
+          return res.status(401).json({ error: "Invalid webhook signature" });
+        }
 
-        if (hasTag) {
-          logger.debug("[Webhook] Tag still present, no action needed");
-          // Record webhook delivery ID for idempotency before returning
-          if (deliveryIdHeader) {
-            try {
-              await storage.recordWebhookDelivery({
-                shopDomain,
-                deliveryId: deliveryIdHeader,
-                topic: topic || "orders/updated",
-              });
-            } catch (error) {
-              logger.error("Failed to record webhook delivery ID:", error);
-            }
-          }
-          return res.json({ success: true, message: "Tag still present" });
+        let shopDomain = shopHeader?.trim();
+        if (shopDomain) {
+          const sanitized = shopify.utils.sanitizeShop(shopDomain, false);
+          if (sanitized) shopDomain = sanitized;
         }
 
-        // Tag was removed - resolve the order
-        logger.info(
-          `[Webhook] Tag removed from order ${order.id}, resolving order`
-        );
+        if (!shopDomain) {
+          logger.error("[Webhook] ❌ Missing shop domain header");
+          return res.status(400).json({ error: "Missing shop domain" });
+        }
 
-        const resolvedOrder = await storage.resolveOrder(
-          shopDomain,
-          order.id,
-          "shopify_tag_removed"
-        );
+        // Parse JSON after verification
+        const payload = JSON.parse(rawBody.toString("utf8"));
+        const shopifyOrderId = getClosedShopifyOrderId(defaultTopic, payload);
+        if (!shopifyOrderId) {
+          logger.warn(`[Webhook] ${defaultTopic} payload has no order ID, skipping`);
+          return res.json({ success: true, message: "No order ID in payload" });
+        }
 
-        // Log the resolution action
-        await storage.createAuditLog({
+        const jobKey = buildOrderClosedJobKey(shopDomain, defaultTopic, payload);
+        const jobData = {
           shopDomain,
-          orderId: resolvedOrder.id,
-          action: "resolved",
-          details: {
-            resolvedBy: "shopify_tag_removed",
-            resolvedAt: resolvedOrder.resolvedAt,
-            shopifyOrderId: shopifyOrder.id,
-          },
+          payload,
+          deliveryId: deliveryIdHeader.trim() || jobKey,
+          webhookTopic: defaultTopic,
+        };
+
+        const jobId = await queueService.addJob(QUEUES.ORDERS_CLOSED, jobData, {
+          singletonKey: jobKey,
+          singletonSeconds: 15 * 60,
         });
 
-        // Ensure delivery ID is recorded for idempotency (if header was present)
-        // Note: If deliveryIdHeader was empty, we can't record anything, but the webhook was still processed
-        if (deliveryIdHeader) {
-          try {
-            await storage.recordWebhookDelivery({
-              shopDomain,
-              deliveryId: deliveryIdHeader,
-              topic: topic || "orders/updated",
-            });
-          } catch (error) {
-            logger.error("Failed to record webhook delivery ID:", error);
-          }
+        if (jobId) {
+          await storage.markWebhookDeliveryQueued({
+            shopDomain,
+            deliveryId: jobData.deliveryId,
+            topic: defaultTopic,
+          });
+          logger.info(
+            `[Webhook] Enqueued ${defaultTopic} job ${jobId} for order ${shopifyOrderId}`
+          );
+          res.status(200).json({ success: true, jobId, message: "Webhook accepted for processing" });
+        } else {
+          res.status(200).json({
+            success: true,
+            duplicate: true,
+            message: "Webhook already queued or processing",
+          });
         }
-
-        res.json({
-          success: true,
-          order: resolvedOrder,
-          message: "Order resolved due to tag removal",
-        });
       } catch (error) {
-        logger.error("Error processing orders/updated webhook:", error);
-        res.status(500).json({ error: "Failed to process webhook" });
+        logger.error(`[Webhook] Error processing ${defaultTopic}:`, error);
+        res.status(500).json({ error: "Internal server error" });
       }
-    }
+    };
+
+  app.post(
+    "/api/webhooks/shopify/orders/cancelled",
+    handleOrderClosedWebhook("orders/cancelled")
+  );
+
+  app.post(
+    "/api/webhooks/shopify/refunds/create",
+    handleOrderClosedWebhook("refunds/create")
   );
 
   // GDPR Compliance Webhooks - Unified endpoint for all three GDPR webhook types
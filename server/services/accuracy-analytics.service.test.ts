@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ResolutionOutcome } from "@shared/schema";
+import type { LabeledResolution } from "../storage";
+
+const mocks = vi.hoisted(() => ({
+  storage: {
+    getLabeledResolutions: vi.fn(),
+    getSettings: vi.fn(),
+  },
+}));
+
+vi.mock("../storage", () => ({ storage: mocks.storage }));
+
+import {
+  accuracyAnalyticsService,
+  buildAccuracyReport,
+  MIN_LABELED_FOR_SUGGESTION,
+} from "./accuracy-analytics.service";
+
+const now = new Date("2026-05-20T12:00:00.000Z"); // Wednesday
+
+function resolution(
+  resolutionOutcome: ResolutionOutcome,
+  matchConfidence: number,
+  matchReason = "Same email, Same name",
+  overrides: Partial<LabeledResolution> = {}
+): LabeledResolution {
+  return {
+    resolutionOutcome,
+    matchConfidence,
+    matchReason,
+    totalPrice: "40.00",
+    currency: "USD",
+    resolvedAt: new Date("2026-05-19T09:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+describe("buildAccuracyReport", () => {
+  it("computes false-positive rates per signal and confidence bucket", () => {
+    const report = buildAccuracyReport(
+      [
+        resolution("confirmed_duplicate", 95, "Same email, Same address"),
+        resolution("merged_manually", 85, "Same email, Same name"),
+        resolution("false_positive", 72, "Similar address, Same name"),
+        resolution("customer_intended", 74, "Same email, Same name"),
+      ],
+      { periodDays: 30, currentThreshold: 70, now }
+    );
+
+    expect(report.totals).toEqual({
+      labeled: 4,
+      confirmed: 2,
+      falsePositives: 2,
+      falsePositiveRate: 0.5,
+    });
+    expect(report.bySignal).toEqual([
+      { ruleId: "email", labeled: 3, confirmed: 2, falsePositives: 1, falsePositiveRate: 1 / 3 },
+      { ruleId: "addressExact", labeled: 1, confirmed: 1, falsePositives: 0, falsePositiveRate: 0 },
+      { ruleId: "addressPartial", labeled: 1, confirmed: 0, falsePositives: 1, falsePositiveRate: 1 },
+      { ruleId: "name", labeled: 3, confirmed: 1, falsePositives: 2, falsePositiveRate: 2 / 3 },
+    ]);
+    expect(report.byConfidence.find((bucket) => bucket.minConfidence === 70)).toMatchObject({
+      labeled: 2,
+      falsePositives: 2,
+      falsePositiveRate: 1,
+    });
+    expect(report.byConfidence.find((bucket) => bucket.minConfidence === 0)).toMatchObject({
+      labeled: 0,
+      falsePositiveRate: null,
+    });
+  });
+
+  it("reports precision and relative recall from the lowest labeled confidence up", () => {
+    const report = buildAccuracyReport(
+      [
+        resolution("confirmed_duplicate", 95),
+        resolution("confirmed_duplicate", 80),
+        resolution("false_positive", 72),
+      ],
+      { periodDays: 30, currentThreshold: 70, now }
+    );
+
+    expect(report.thresholds[0]).toEqual({ threshold: 70, flagged: 3, precision: 2 / 3, recall: 1 });
+    expect(report.thresholds.find((row) => row.threshold === 75)).toEqual({
+      threshold: 75,
+      flagged: 2,
+      precision: 1,
+      recall: 1,
+    });
+    expect(report.thresholds[report.thresholds.length - 1].threshold).toBe(100);
+    // Too little labeled data for a suggestion
+    expect(report.suggestedThreshold).toBeNull();
+  });
+
+  it("suggests the threshold with the best F1 once enough orders are labeled", () => {
+    const labeled = [
+      ...Array.from({ length: 12 }, () => resolution("confirmed_duplicate", 90)),
+      ...Array.from({ length: 6 }, () => resolution("false_positive", 72)),
+      ...Array.from({ length: 2 }, () => resolution("confirmed_duplicate", 78)),
+    ];
+    expect(labeled).toHaveLength(MIN_LABELED_FOR_SUGGESTION);
+
+    const report = buildAccuracyReport(labeled, { periodDays: 30, currentThreshold: 70, now });
+
+    expect(report.suggestedThreshold).toBe(75);
+  });
+
+  it("sums confirmed duplicate value per week across the whole period", () => {
+    const report = buildAccuracyReport(
+      [
+        resolution("confirmed_duplicate", 90, undefined, { totalPrice: "19.99" }),
+        resolution("confirmed_duplicate", 90, undefined, {
+          totalPrice: "10.01",
+          resolvedAt: new Date("2026-05-18T00:30:00.000Z"),
+        }),
+        resolution("confirmed_duplicate", 90, undefined, {
+          totalPrice: "5.00",
+          resolvedAt: new Date("2026-05-10T00:00:00.000Z"),
+        }),
+        resolution("merged_manually", 90, undefined, { totalPrice: "99.00" }),
+      ],
+      { periodDays: 14, currentThreshold: 70, now }
+    );
+
+    expect(report.valueSaved).toEqual([
+      { weekStart: "2026-05-04", orders: 1, values: { USD: 5 } },
+      { weekStart: "2026-05-11", orders: 0, values: {} },
+      { weekStart: "2026-05-18", orders: 2, values: { USD: 30 } },
+    ]);
+    expect(report.totalValueSaved).toEqual([{ currency: "USD", orders: 3, value: 35 }]);
+  });
+
+  it("keeps value saved in different currencies apart", () => {
+    const report = buildAccuracyReport(
+      [
+        resolution("confirmed_duplicate", 90, undefined, { totalPrice: "20.00" }),
+        resolution("confirmed_duplicate", 90, undefined, { totalPrice: "30.00", currency: "EUR" }),
+        resolution("confirmed_duplicate", 90, undefined, { totalPrice: "5000", currency: "JPY" }),
+      ],
+      { periodDays: 7, currentThreshold: 70, now }
+    );
+
+    expect(report.valueSaved[report.valueSaved.length - 1]).toEqual({
+      weekStart: "2026-05-18",
+      orders: 3,
+      values: { USD: 20, EUR: 30, JPY: 5000 },
+    });
+    expect(report.totalValueSaved).toEqual([
+      { currency: "JPY", orders: 1, value: 5000 },
+      { currency: "EUR", orders: 1, value: 30 },
+      { currency: "USD", orders: 1, value: 20 },
+    ]);
+  });
+});
+
+describe("AccuracyAnalyticsService.getReport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("loads the period's labeled resolutions and the shop's threshold", async () => {
+    mocks.storage.getLabeledResolutions.mockResolvedValue([]);
+    mocks.storage.getSettings.mockResolvedValue({ flagThreshold: 80 });
+
+    const report = await accuracyAnalyticsService.getReport("test-shop.myshopify.com", 90);
+
+    const [shop, since] = mocks.storage.getLabeledResolutions.mock.calls[0];
+    expect(shop).toBe("test-shop.myshopify.com");
+    expect(Date.now() - since.getTime()).toBeGreaterThanOrEqual(90 * 24 * 60 * 60 * 1000);
+    expect(report).toMatchObject({ periodDays: 90, currentThreshold: 80, thresholds: [] });
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  DETECTION_RULE_IDS,
+  DUPLICATE_RESOLUTION_OUTCOMES,
+  type AccuracyCounts,
+  type DetectionAccuracyReport,
+} from "@shared/schema";
+import { storage, type LabeledResolution } from "../storage";
+import { resolveFlagThreshold, ruleIdsFromMatchReason } from "./detection-rules";
+
+// Below this many labeled orders a suggested threshold would be noise
+export const MIN_LABELED_FOR_SUGGESTION = 20;
+const THRESHOLD_STEP = 5;
+const CONFIDENCE_BUCKETS: Array<[number, number]> = [
+  [0, 49],
+  [50, 59],
+  [60, 69],
+  [70, 79],
+  [80, 89],
+  [90, 100],
+];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isDuplicate(resolution: LabeledResolution): boolean {
+  return DUPLICATE_RESOLUTION_OUTCOMES.includes(resolution.resolutionOutcome);
+}
+
+function countOutcomes(resolutions: LabeledResolution[]): AccuracyCounts {
+  const confirmed = resolutions.filter(isDuplicate).length;
+  const falsePositives = resolutions.length - confirmed;
+  return {
+    labeled: resolutions.length,
+    confirmed,
+    falsePositives,
+    falsePositiveRate: resolutions.length > 0 ? falsePositives / resolutions.length : null,
+  };
+}
+
+/**
+ * Monday (UTC) of the week containing the date, as yyyy-MM-dd.
+ */
+function weekStart(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Weekly value of confirmed duplicates per currency, with empty weeks filled
+ * in so the series covers the whole period.
+ */
+function buildValueSaved(
+  resolutions: LabeledResolution[],
+  since: Date,
+  now: Date
+): DetectionAccuracyReport["valueSaved"] {
+  const weeks = new Map<string, DetectionAccuracyReport["valueSaved"][number]>();
+  for (let time = since.getTime(); time <= now.getTime(); time += 7 * DAY_MS) {
+    const key = weekStart(new Date(time));
+    weeks.set(key, { weekStart: key, orders: 0, values: {} });
+  }
+  const lastWeek = weekStart(now);
+  if (!weeks.has(lastWeek)) {
+    weeks.set(lastWeek, { weekStart: lastWeek, orders: 0, values: {} });
+  }
+
+  resolutions
+    .filter((resolution) => resolution.resolutionOutcome === "confirmed_duplicate")
+    .forEach((resolution) => {
+      const key = weekStart(resolution.resolvedAt);
+      const week = weeks.get(key) ?? { weekStart: key, orders: 0, values: {} };
+      week.orders += 1;
+      week.values[resolution.currency] =
+        (week.values[resolution.currency] ?? 0) + (Number(resolution.totalPrice) || 0);
+      weeks.set(key, week);
+    });
+
+  return Array.from(weeks.values())
+    .map((week) => {
+      const values: Record<string, number> = {};
+      Object.keys(week.values).forEach((currency) => {
+        values[currency] = roundMoney(week.values[currency]);
+      });
+      return { ...week, values };
+    })
+    .sort((first, second) => first.weekStart.localeCompare(second.weekStart));
+}
+
+/**
+ * Value of confirmed duplicates per currency, largest first.
+ */
+function buildTotalValueSaved(
+  resolutions: LabeledResolution[]
+): DetectionAccuracyReport["totalValueSaved"] {
+  const totals = new Map<string, { currency: string; orders: number; value: number }>();
+  resolutions
+    .filter((resolution) => resolution.resolutionOutcome === "confirmed_duplicate")
+    .forEach((resolution) => {
+      const total = totals.get(resolution.currency) ?? {
+        currency: resolution.currency,
+        orders: 0,
+        value: 0,
+      };
+      total.orders += 1;
+      total.value += Number(resolution.totalPrice) || 0;
+      totals.set(resolution.currency, total);
+    });
+
+  return Array.from(totals.values())
+    .map((total) => ({ ...total, value: roundMoney(total.value) }))
+    .sort((first, second) => second.value - first.value || first.currency.localeCompare(second.currency));
+}
+
+/**
+ * Precision and relative recall at each candidate threshold. Candidates start
+ * at the lowest labeled confidence: below it there is no labeled data, so
+ * every lower threshold would look identical.
+ */
+function buildThresholds(
+  resolutions: LabeledResolution[]
+): DetectionAccuracyReport["thresholds"] {
+  const scored = resolutions.filter((resolution) => resolution.matchConfidence !== null);
+  if (scored.length === 0) return [];
+
+  const lowest = Math.min(...scored.map((resolution) => resolution.matchConfidence!));
+  const totalConfirmed = scored.filter(isDuplicate).length;
+  const thresholds: DetectionAccuracyReport["thresholds"] = [];
+
+  for (
+    let threshold = Math.floor(lowest / THRESHOLD_STEP) * THRESHOLD_STEP;
+    threshold <= 100;
+    threshold += THRESHOLD_STEP
+  ) {
+    const flagged = scored.filter((resolution) => resolution.matchConfidence! >= threshold);
+    const confirmed = flagged.filter(isDuplicate).length;
+    thresholds.push({
+      threshold,
+      flagged: flagged.length,
+      precision: flagged.length > 0 ? confirmed / flagged.length : null,
+      recall: totalConfirmed > 0 ? confirmed / totalConfirmed : null,
+    });
+  }
+  return thresholds;
+}
+
+/**
+ * The threshold with the best F1 score, preferring the lower threshold on a
+ * tie so fewer duplicates are missed. Null until there is enough labeled
+ * data and at least one confirmed duplicate.
+ */
+function suggestThreshold(
+  thresholds: DetectionAccuracyReport["thresholds"],
+  labeled: number
+): number | null {
+  if (labeled < MIN_LABELED_FOR_SUGGESTION) return null;
+
+  let best: { threshold: number; f1: number } | null = null;
+  for (const { threshold, precision, recall } of thresholds) {
+    if (!precision || !recall) continue;
+    const f1 = (2 * precision * recall) / (precision + recall);
+    if (!best || f1 > best.f1) {
+      best = { threshold, f1 };
+    }
+  }
+  return best?.threshold ?? null;
+}
+
+/**
+ * Summarize labeled resolutions into false-positive rates per signal and per
+ * confidence bucket, value saved over time and a suggested threshold.
+ */
+export function buildAccuracyReport(
+  resolutions: LabeledResolution[],
+  options: { periodDays: number; currentThreshold: number; now?: Date }
+): DetectionAccuracyReport {
+  const now = options.now ?? new Date();
+  const since = new Date(now.getTime() - options.periodDays * DAY_MS);
+  const signalsByResolution = resolutions.map((resolution) =>
+    ruleIdsFromMatchReason(resolution.matchReason)
+  );
+  const thresholds = buildThresholds(resolutions);
+
+  return {
+    periodDays: options.periodDays,
+    totals: countOutcomes(resolutions),
+    bySignal: DETECTION_RULE_IDS.map((ruleId) => ({
+      ruleId,
+      ...countOutcomes(resolutions.filter((_, index) => signalsByResolution[index].includes(ruleId))),
+    })).filter((signal) => signal.labeled > 0),
+    byConfidence: CONFIDENCE_BUCKETS.map(([minConfidence, maxConfidence]) => ({
+      minConfidence,
+      maxConfidence,
+      ...countOutcomes(
+        resolutions.filter(
+          (resolution) =>
+            resolution.matchConfidence !== null &&
+            resolution.matchConfidence >= minConfidence &&
+            resolution.matchConfidence <= maxConfidence
+        )
+      ),
+    })),
+    valueSaved: buildValueSaved(resolutions, since, now),
+    totalValueSaved: buildTotalValueSaved(resolutions),
+    thresholds,
+    currentThreshold: options.currentThreshold,
+    suggestedThreshold: suggestThreshold(thresholds, resolutions.length),
+    minimumLabeledForSuggestion: MIN_LABELED_FOR_SUGGESTION,
+  };
+}
+
+export class AccuracyAnalyticsService {
+  async getReport(shopDomain: string, periodDays: number): Promise<DetectionAccuracyReport> {
+    const now = new Date();
+    const since = new Date(now.getTime() - periodDays * DAY_MS);
+    const [resolutions, settings] = await Promise.all([
+      storage.getLabeledResolutions(shopDomain, since),
+      storage.getSettings(shopDomain),
+    ]);
+
+    return buildAccuracyReport(resolutions, {
+      periodDays,
+      currentThreshold: resolveFlagThreshold(settings ?? {}),
+      now,
+    });
+  }
+}
+
+export const accuracyAnalyticsService = new AccuracyAnalyticsService();
@@ -0,0 +1,328 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  storage: {
+    getOrdersByIds: vi.fn(),
+    getFlaggedOrderIds: vi.fn(),
+    dismissOrder: vi.fn(),
+    resolveOrder: vi.fn(),
+    updateOrder: vi.fn(),
+    getSettings: vi.fn(),
+    createAuditLog: vi.fn(),
+    createAuditLogs: vi.fn(),
+    createBulkActionRun: vi.fn(),
+    getBulkActionRunById: vi.fn(),
+    updateBulkActionRun: vi.fn(),
+  },
+  shopifyService: { tagOrder: vi.fn(), removeOrderTags: vi.fn() },
+  queueService: { addJob: vi.fn() },
+  getOfflineAccessToken: vi.fn(),
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("../storage", () => ({ storage: mocks.storage }));
+vi.mock("./shopify.service", () => ({ shopifyService: mocks.shopifyService }));
+vi.mock("./queue.service", () => ({
+  queueService: mocks.queueService,
+  QUEUES: { BULK_ACTIONS: "bulk-action-processing" },
+}));
+vi.mock("../shopify-auth", () => ({
+  getOfflineAccessToken: mocks.getOfflineAccessToken,
+}));
+vi.mock("../utils/logger", () => ({ logger: mocks.logger }));
+
+import { applyBulkActionToBatch, bulkActionService } from "./bulk-action.service";
+
+const shopDomain = "test.myshopify.com";
+
+function buildOrder(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    shopDomain,
+    shopifyOrderId: `shopify-${id}`,
+    isFlagged: true,
+    flagSource: "live",
+    resolvedAt: null,
+    resolvedBy: null,
+    ...overrides,
+  };
+}
+
+describe("applyBulkActionToBatch", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.storage.dismissOrder.mockImplementation(async (_shop: string, id: string) =>
+      buildOrder(id, { isFlagged: false, resolvedBy: "manual_dashboard", resolvedAt: new Date() })
+    );
+  });
+
+  it("dismisses flagged orders, untags live ones and audits each order", async () => {
+    mocks.storage.getOrdersByIds.mockResolvedValue([
+      buildOrder("a"),
+      buildOrder("b", { flagSource: "historical" }),
+      buildOrder("c", { isFlagged: false }),
+    ]);
+
+    const outcomes = await applyBulkActionToBatch(
+      shopDomain,
+      "token",
+      "dismiss",
+      ["a", "b", "c", "missing"],
+      "run-1"
+    );
+
+    expect(outcomes).toEqual([
+      { orderId: "c", status: "skipped" },
+      { orderId: "missing", status: "skipped" },
+      { orderId: "a", status: "succeeded" },
+      { orderId: "b", status: "succeeded" },
+    ]);
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledTimes(1);
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "shopify-a",
+      ["Merge_Review_Candidate"]
+    );
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledTimes(2);
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        orderId: "b",
+        action: "dismissed",
+        details: expect.objectContaining({ tagRemoved: false, bulkActionRunId: "run-1" }),
+      })
+    );
+  });
+
+  it("keeps a dismissal when tag removal fails", async () => {
+    mocks.storage.getOrdersByIds.mockResolvedValue([buildOrder("a")]);
+    mocks.shopifyService.removeOrderTags.mockRejectedValue(new Error("429"));
+
+    const outcomes = await applyBulkActionToBatch(shopDomain, "token", "dismiss", ["a"], "run-1");
+
+    expect(outcomes).toEqual([{ orderId: "a", status: "succeeded" }]);
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ details: expect.objectContaining({ tagRemoved: false }) })
+    );
+  });
+
+  it("cleans up each order in Shopify without waiting for the rest of the batch", async () => {
+    mocks.storage.getOrdersByIds.mockResolvedValue([buildOrder("a"), buildOrder("b")]);
+    let finishB: () => void = () => {};
+    mocks.storage.dismissOrder.mockImplementation(async (_shop: string, id: string) => {
+      if (id === "b") {
+        await new Promise<void>((resolve) => {
+          finishB = resolve;
+        });
+      }
+      return buildOrder(id, { isFlagged: false, resolvedBy: "manual_dashboard" });
+    });
+
+    const running = applyBulkActionToBatch(shopDomain, "token", "dismiss", ["a", "b"], "run-1");
+    await vi.waitFor(() =>
+      expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledWith(
+        shopDomain,
+        "token",
+        "shopify-a",
+        ["Merge_Review_Candidate"]
+      )
+    );
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledTimes(1);
+
+    finishB();
+    await expect(running).resolves.toEqual([
+      { orderId: "a", status: "succeeded" },
+      { orderId: "b", status: "succeeded" },
+    ]);
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledTimes(2);
+  });
+
+  it("attributes resolutions and audit entries to the requesting staff user", async () => {
+    const staff = { userId: "42", name: "Grace Hopper", email: "grace@example.com" };
+    mocks.storage.getOrdersByIds.mockResolvedValue([buildOrder("a")]);
+    mocks.storage.resolveOrder.mockResolvedValue(
+      buildOrder("a", { isFlagged: false, resolvedBy: "manual_dashboard", resolvedAt: new Date() })
+    );
+
+    await applyBulkActionToBatch(shopDomain, "token", "resolve", ["a"], "run-1", staff);
+
+    expect(mocks.storage.resolveOrder).toHaveBeenCalledWith(
+      shopDomain,
+      "a",
+      "manual_dashboard",
+      undefined,
+      staff
+    );
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ orderId: "a", actor: "dashboard", performedBy: staff })
+    );
+  });
+
+  it("records the run's resolution outcome and note on each resolved order", async () => {
+    const resolution = { outcome: "confirmed_duplicate" as const, note: "Customer double-clicked" };
+    mocks.storage.getOrdersByIds.mockResolvedValue([buildOrder("a")]);
+    mocks.storage.resolveOrder.mockResolvedValue(
+      buildOrder("a", {
+        isFlagged: false,
+        resolvedBy: "manual_dashboard",
+        resolvedAt: new Date(),
+        resolutionOutcome: resolution.outcome,
+        resolutionNote: resolution.note,
+      })
+    );
+
+    await applyBulkActionToBatch(shopDomain, "token", "resolve", ["a"], "run-1", null, resolution);
+
+    expect(mocks.storage.resolveOrder).toHaveBeenCalledWith(
+      shopDomain,
+      "a",
+      "manual_dashboard",
+      resolution,
+      null
+    );
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "resolved",
+        details: expect.objectContaining({
+          outcome: "confirmed_duplicate",
+          note: "Customer double-clicked",
+        }),
+      })
+    );
+  });
+
+  it("counts a failed re-tag as failed without an audit entry", async () => {
+    mocks.storage.getOrdersByIds.mockResolvedValue([buildOrder("a"), buildOrder("b")]);
+    mocks.shopifyService.tagOrder
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("boom"));
+
+    const outcomes = await applyBulkActionToBatch(shopDomain, "token", "retag", ["a", "b"], "run-1");
+
+    expect(outcomes).toEqual([
+      { orderId: "a", status: "succeeded" },
+      { orderId: "b", status: "failed" },
+    ]);
+    expect(mocks.storage.dismissOrder).not.toHaveBeenCalled();
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledTimes(1);
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ orderId: "a", action: "tagged" })
+    );
+  });
+});
+
+describe("BulkActionService.start", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.getOfflineAccessToken.mockResolvedValue("token");
+    mocks.storage.createBulkActionRun.mockImplementation(async (run: object) => ({
+      id: "run-1",
+      processedCount: 0,
+      succeededCount: 0,
+      skippedCount: 0,
+      failedCount: 0,
+      startedAt: null,
+      ...run,
+    }));
+    mocks.storage.updateBulkActionRun.mockImplementation(
+      async (id: string, updates: object) => ({ id, ...updates })
+    );
+    mocks.storage.getOrdersByIds.mockResolvedValue([]);
+  });
+
+  it("runs small selections inline and records progress", async () => {
+    const run = {
+      id: "run-1",
+      shopDomain,
+      action: "resolve",
+      status: "queued",
+      orderIds: ["a", "a", "b"],
+      totalCount: 2,
+      processedCount: 0,
+      succeededCount: 0,
+      skippedCount: 0,
+      failedCount: 0,
+      startedAt: null,
+    };
+    mocks.storage.getBulkActionRunById.mockResolvedValue({ ...run, orderIds: ["a", "b"] });
+
+    await bulkActionService.start(shopDomain, "resolve", { orderIds: ["a", "a", "b"] });
+
+    expect(mocks.storage.createBulkActionRun).toHaveBeenCalledWith(
+      expect.objectContaining({ orderIds: ["a", "b"], totalCount: 2 })
+    );
+    expect(mocks.queueService.addJob).not.toHaveBeenCalled();
+    expect(mocks.storage.updateBulkActionRun).toHaveBeenCalledWith(
+      "run-1",
+      expect.objectContaining({ processedCount: 2, skippedCount: 2 })
+    );
+    expect(mocks.storage.updateBulkActionRun).toHaveBeenCalledWith(
+      "run-1",
+      expect.objectContaining({ status: "completed" })
+    );
+  });
+
+  it("queues large filter selections", async () => {
+    const orderIds = Array.from({ length: 30 }, (_, index) => `order-${index}`);
+    mocks.storage.getFlaggedOrderIds.mockResolvedValue(orderIds);
+    mocks.queueService.addJob.mockResolvedValue("job-1");
+
+    const run = await bulkActionService.start(shopDomain, "dismiss", {
+      filter: { flagSource: "historical" },
+    });
+
+    expect(mocks.storage.getFlaggedOrderIds).toHaveBeenCalledWith(
+      shopDomain,
+      { flagSource: "historical" },
+      expect.any(Number)
+    );
+    expect(mocks.queueService.addJob).toHaveBeenCalledWith(
+      "bulk-action-processing",
+      { runId: "run-1" },
+      expect.objectContaining({ singletonKey: "run-1" })
+    );
+    expect(run).toEqual(expect.objectContaining({ queueJobId: "job-1" }));
+    expect(mocks.storage.getOrdersByIds).not.toHaveBeenCalled();
+  });
+
+  it("rejects an empty selection", async () => {
+    mocks.storage.getFlaggedOrderIds.mockResolvedValue([]);
+
+    await expect(
+      bulkActionService.start(shopDomain, "dismiss", { filter: {} })
+    ).rejects.toThrow("No flagged orders match the selection");
+    expect(mocks.storage.createBulkActionRun).not.toHaveBeenCalled();
+  });
+});
+
+describe("BulkActionService.exportOrders", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("streams the selected orders in order and audits them in one insert", async () => {
+    mocks.storage.getOrdersByIds.mockImplementation(async (_shop: string, ids: string[]) =>
+      [buildOrder("b"), buildOrder("a")].filter((order) => ids.includes(order.id))
+    );
+    const chunks: string[] = [];
+
+    const exported = await bulkActionService.exportOrders(
+      shopDomain,
+      { orderIds: ["a", "b", "missing"] },
+      async (chunk) => {
+        chunks.push(chunk);
+      }
+    );
+
+    expect(exported).toBe(2);
+    const lines = chunks.join("").trim().split("\r\n");
+    expect(lines[0]).toMatch(/^Order Number,Shopify Order ID,Created At,/);
+    expect(lines.slice(1).map((line) => line.split(",")[1])).toEqual(["shopify-a", "shopify-b"]);
+    expect(mocks.storage.createAuditLog).not.toHaveBeenCalled();
+    expect(mocks.storage.createAuditLogs).toHaveBeenCalledTimes(1);
+    expect(mocks.storage.createAuditLogs).toHaveBeenCalledWith([
+      expect.objectContaining({ orderId: "a", action: "exported", details: { format: "csv", exportedCount: 2 } }),
+      expect.objectContaining({ orderId: "b", action: "exported", details: { format: "csv", exportedCount: 2 } }),
+    ]);
+  });
+});
@@ -0,0 +1,335 @@
+import {
+  BULK_SELECTION_MAX_ORDERS,
+  type BulkActionRun,
+  type BulkOrderAction,
+  type BulkOrderSelection,
+  type Order,
+  type OrderResolution,
+  type StaffMember,
+} from "@shared/schema";
+import { getOfflineAccessToken } from "../shopify-auth";
+import { storage } from "../storage";
+import { logger } from "../utils/logger";
+import { exportService } from "./export.service";
+import { clearFlagInShopify } from "./flag-cleanup.service";
+import { queueService, QUEUES } from "./queue.service";
+import { getReviewTagsForMatch, reviewTagService } from "./review-tag.service";
+
+// Selections up to this size run in the request; larger ones are queued
+const INLINE_RUN_LIMIT = 25;
+// Orders updated per batch; the orders within a batch are handled concurrently
+const BATCH_SIZE = 10;
+const JOB_EXPIRE_MINUTES = 60;
+const JOB_RETRY_LIMIT = 2;
+const JOB_RETRY_DELAY_SECONDS = 30;
+
+export class EmptyBulkSelectionError extends Error {}
+
+export interface BulkOrderOutcome {
+  orderId: string;
+  status: "succeeded" | "skipped" | "failed";
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+/**
+ * Apply a bulk action to one batch of orders. Orders that are no longer
+ * flagged are skipped. The orders in a batch are handled concurrently, each
+ * one start to finish: its database change, then its Shopify tag and
+ * fulfillment hold clean-up, then its own audit log entry, attributed to the
+ * staff user who requested the run. Resolved orders record the run's
+ * resolution outcome and note, if any.
+ */
+export async function applyBulkActionToBatch(
+  shopDomain: string,
+  accessToken: string,
+  action: BulkOrderAction,
+  orderIds: string[],
+  runId: string,
+  requestedBy: StaffMember | null = null,
+  resolution: OrderResolution | null = null
+): Promise<BulkOrderOutcome[]> {
+  const ordersById = new Map<string, Order>();
+  (await storage.getOrdersByIds(shopDomain, orderIds)).forEach((order) =>
+    ordersById.set(order.id, order)
+  );
+
+  const outcomes: BulkOrderOutcome[] = [];
+  const flagged: Order[] = [];
+  for (const orderId of orderIds) {
+    const order = ordersById.get(orderId);
+    if (!order || !order.isFlagged) {
+      outcomes.push({ orderId, status: "skipped" });
+      continue;
+    }
+    flagged.push(order);
+  }
+
+  // Orders tagged before keep their recorded tags; the rest get the shop's
+  // current tags for their confidence
+  const settings = action === "retag" ? await storage.getSettings(shopDomain) : undefined;
+
+  const applyToOrder = async (order: Order): Promise<BulkOrderOutcome["status"]> => {
+    let details: Record<string, unknown>;
+    if (action === "retag") {
+      const reviewTags =
+        order.reviewTags ?? getReviewTagsForMatch(settings, order.matchConfidence ?? 0);
+      try {
+        await reviewTagService.tagFlaggedOrder({ ...order, reviewTags }, accessToken);
+        if (!order.reviewTags) {
+          await storage.updateOrder(shopDomain, order.id, { reviewTags });
+        }
+      } catch (error) {
+        // Re-tagging only changes Shopify, so a failed call means nothing was applied
+        logger.error(
+          `[BulkAction] Shopify tag update failed for order ${order.shopifyOrderId}:`,
+          error
+        );
+        return "failed";
+      }
+      details = { tags: reviewTags.order, bulkActionRunId: runId };
+    } else {
+      let updated: Order;
+      try {
+        updated =
+          action === "dismiss"
+            ? await storage.dismissOrder(shopDomain, order.id, requestedBy)
+            : await storage.resolveOrder(
+                shopDomain,
+                order.id,
+                "manual_dashboard",
+                resolution ?? undefined,
+                requestedBy
+              );
+      } catch (error) {
+        logger.error(`[BulkAction] Failed to ${action} order ${order.id}:`, error);
+        return "failed";
+      }
+
+      // Clean up Shopify before moving on: a retried run skips orders that
+      // are no longer flagged, so it would never get back to this one
+      const { tagRemoved } = await clearFlagInShopify(
+        order,
+        accessToken,
+        "dashboard",
+        requestedBy
+      );
+      details = {
+        resolvedBy: updated.resolvedBy,
+        resolvedAt: updated.resolvedAt,
+        ...(action === "resolve"
+          ? { outcome: updated.resolutionOutcome, note: updated.resolutionNote }
+          : {}),
+        tagRemoved,
+        bulkActionRunId: runId,
+      };
+    }
+
+    try {
+      await storage.createAuditLog({
+        shopDomain,
+        orderId: order.id,
+        action:
+          action === "dismiss" ? "dismissed" : action === "resolve" ? "resolved" : "tagged",
+        actor: "dashboard",
+        performedBy: requestedBy,
+        details,
+      });
+    } catch (error) {
+      logger.error(`[BulkAction] Failed to record audit log for ${order.id}:`, error);
+    }
+    return "succeeded";
+  };
+
+  const statuses = await Promise.all(flagged.map(applyToOrder));
+  flagged.forEach((order, index) => {
+    outcomes.push({ orderId: order.id, status: statuses[index] });
+  });
+  return outcomes;
+}
+
+export class BulkActionService {
+  /**
+   * Resolve a selection to order IDs: explicit IDs are de-duplicated, a filter
+   * is applied to the shop's currently flagged orders.
+   */
+  async resolveSelection(
+    shopDomain: string,
+    selection: BulkOrderSelection
+  ): Promise<string[]> {
+    if (selection.orderIds) {
+      return Array.from(new Set(selection.orderIds));
+    }
+    return storage.getFlaggedOrderIds(
+      shopDomain,
+      selection.filter ?? {},
+      BULK_SELECTION_MAX_ORDERS
+    );
+  }
+
+  async getRun(shopDomain: string, id: string): Promise<BulkActionRun | undefined> {
+    return storage.getBulkActionRun(shopDomain, id);
+  }
+
+  /**
+   * Create a run for the selection. Small selections are executed before
+   * returning; larger ones are queued and report progress on the run.
+   */
+  async start(
+    shopDomain: string,
+    action: BulkOrderAction,
+    selection: BulkOrderSelection,
+    requestedBy: StaffMember | null = null,
+    resolution: OrderResolution | null = null
+  ): Promise<BulkActionRun> {
+    const orderIds = await this.resolveSelection(shopDomain, selection);
+    if (orderIds.length === 0) {
+      throw new EmptyBulkSelectionError("No flagged orders match the selection");
+    }
+
+    const run = await storage.createBulkActionRun({
+      shopDomain,
+      action,
+      status: "queued",
+      orderIds,
+      totalCount: orderIds.length,
+      resolution,
+      requestedBy,
+      requestedAt: new Date(),
+    });
+
+    if (orderIds.length <= INLINE_RUN_LIMIT) {
+      try {
+        await this.executeRun(run.id);
+      } catch {
+        // The failure is recorded on the run, which is returned below
+      }
+      return (await storage.getBulkActionRunById(run.id)) ?? run;
+    }
+
+    try {
+      const jobId = await queueService.addJob(
+        QUEUES.BULK_ACTIONS,
+        { runId: run.id },
+        {
+          expireInMinutes: JOB_EXPIRE_MINUTES,
+          retryLimit: JOB_RETRY_LIMIT,
+          retryDelay: JOB_RETRY_DELAY_SECONDS,
+          singletonKey: run.id,
+        }
+      );
+      if (!jobId) {
+        throw new Error("Bulk action job was not enqueued");
+      }
+      return storage.updateBulkActionRun(run.id, { queueJobId: jobId });
+    } catch (error) {
+      await storage.updateBulkActionRun(run.id, {
+        status: "failed",
+        statusUpdatedAt: new Date(),
+        completedAt: new Date(),
+        errorMessage: "The bulk action could not be queued. Please retry.",
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Process a run batch by batch, saving progress after each batch so the
+   * dashboard can poll it. A retried job resumes after the last saved batch.
+   */
+  async executeRun(runId: string): Promise<void> {
+    const run = await storage.getBulkActionRunById(runId);
+    if (!run || run.status === "completed") return;
+
+    const startedAt = new Date();
+    await storage.updateBulkActionRun(run.id, {
+      status: "running",
+      statusUpdatedAt: startedAt,
+      startedAt: run.startedAt || startedAt,
+      errorMessage: null,
+    });
+
+    let { processedCount, succeededCount, skippedCount, failedCount } = run;
+    try {
+      const accessToken = await getOfflineAccessToken(run.shopDomain);
+      if (!accessToken) throw new Error("No offline Shopify access token available");
+
+      for (const batch of chunk(run.orderIds.slice(processedCount), BATCH_SIZE)) {
+        const outcomes = await applyBulkActionToBatch(
+          run.shopDomain,
+          accessToken,
+          run.action,
+          batch,
+          run.id,
+          run.requestedBy,
+          run.resolution
+        );
+        processedCount += batch.length;
+        succeededCount += outcomes.filter((o) => o.status === "succeeded").length;
+        skippedCount += outcomes.filter((o) => o.status === "skipped").length;
+        failedCount += outcomes.filter((o) => o.status === "failed").length;
+        await storage.updateBulkActionRun(run.id, {
+          processedCount,
+          succeededCount,
+          skippedCount,
+          failedCount,
+          statusUpdatedAt: new Date(),
+        });
+      }
+
+      await storage.updateBulkActionRun(run.id, {
+        status: "completed",
+        statusUpdatedAt: new Date(),
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      logger.error(`[BulkAction] Run ${run.id} failed:`, error);
+      await storage.updateBulkActionRun(run.id, {
+        status: "failed",
+        statusUpdatedAt: new Date(),
+        completedAt: new Date(),
+        errorMessage: `The bulk action stopped after ${processedCount} of ${run.totalCount} orders.`,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Stream the selected orders as CSV, with the same columns as the flagged
+   * orders export, and record an audit entry for each order written. Returns
+   * the number of orders written.
+   */
+  async exportOrders(
+    shopDomain: string,
+    selection: BulkOrderSelection,
+    write: (chunk: string) => Promise<void>,
+    performedBy: StaffMember | null = null
+  ): Promise<number> {
+    const orderIds = await this.resolveSelection(shopDomain, selection);
+    const exportedIds = await exportService.exportOrdersByIds(shopDomain, orderIds, "csv", write);
+
+    try {
+      await storage.createAuditLogs(
+        exportedIds.map((orderId) => ({
+          shopDomain,
+          orderId,
+          action: "exported",
+          actor: "dashboard",
+          performedBy,
+          details: { format: "csv", exportedCount: exportedIds.length },
+        }))
+      );
+    } catch (error) {
+      logger.error(`[BulkAction] Failed to record export of ${exportedIds.length} order(s):`, error);
+    }
+    return exportedIds.length;
+  }
+}
+
+export const bulkActionService = new BulkActionService();
@@ -0,0 +1,267 @@
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_DETECTION_RULE_WEIGHTS, EMPTY_DETECTION_CANDIDATE_COUNTS } from "@shared/schema";
+import {
+  basketSimilarity,
+  findDuplicateMatches,
+  resolveRuleWeights,
+  ruleIdsFromMatchReason,
+  scoreMatch,
+} from "./detection-rules";
+
+const allSignals = {
+  matchEmail: true,
+  matchPhone: true,
+  matchAddress: true,
+  matchSku: true,
+};
+
+const address = { address1: "123 Main St", city: "New York", zip: "10001" };
+
+function buildOrder(overrides: Record<string, any> = {}) {
+  return {
+    customerEmail: "ada@example.com",
+    customerName: "Ada Lovelace",
+    customerPhone: "555-123-4567",
+    shippingAddress: address,
+    lineItems: [{ id: "1", sku: "SKU-1", title: "Item", quantity: 1, price: "10.00" }],
+    totalPrice: "10.00",
+    currency: "USD",
+    ...overrides,
+  };
+}
+
+describe("scoreMatch", () => {
+  it("reproduces the original weights with default settings", () => {
+    const result = scoreMatch(
+      buildOrder(),
+      buildOrder({ customerPhone: "(555) 123-4567" }),
+      { ...allSignals, matchPhone: false, matchSku: false }
+    );
+
+    expect(result.reason).toBe("Same email, Same address, Same name");
+    expect(result.evaluations.map((evaluation) => evaluation.score)).toEqual([50, 50, 20]);
+    expect(result.confidence).toBe(100);
+  });
+
+  it("scores a partial address with the partial weight", () => {
+    const result = scoreMatch(
+      buildOrder({ customerEmail: null, customerName: null }),
+      buildOrder({
+        customerEmail: null,
+        customerName: null,
+        shippingAddress: { ...address, zip: "99999" },
+      }),
+      { ...allSignals, matchPhone: false, matchSku: false }
+    );
+
+    expect(result).toMatchObject({ reason: "Similar address", confidence: 25 });
+  });
+
+  it("matches abbreviated streets and units but not conflicting units", () => {
+    const settings = { matchEmail: false, matchPhone: false, matchAddress: true, matchSku: false };
+    const longForm = buildOrder({
+      customerName: null,
+      shippingAddress: { address1: "123 Main Street Apt 4", city: "New York", zip: "10001" },
+    });
+
+    expect(
+      scoreMatch(
+        longForm,
+        buildOrder({
+          customerName: null,
+          shippingAddress: { address1: "123 Main St #4", city: "new york", zip: "10001-2222" },
+        }),
+        settings
+      )
+    ).toMatchObject({ reason: "Same address", confidence: 50 });
+    expect(
+      scoreMatch(
+        longForm,
+        buildOrder({
+          customerName: null,
+          shippingAddress: { address1: "123 Main St", address2: "Apt 5", city: "New York", zip: "10001" },
+        }),
+        settings
+      )
+    ).toMatchObject({ reason: "No significant match", confidence: 0 });
+  });
+
+  it("applies merchant weight overrides and skips zero-weight rules", () => {
+    const result = scoreMatch(buildOrder(), buildOrder(), {
+      ...allSignals,
+      ruleWeights: { email: 30, phone: 0, addressExact: 10, name: 5, sku: 15, totalPrice: 10 },
+    });
+
+    expect(result.reason).toBe(
+      "Same email, Same address, Same name, Same SKU purchased, Same order total"
+    );
+    expect(result.confidence).toBe(70);
+  });
+
+  it("matches canonicalized emails and fuzzy names with graded credit", () => {
+    const result = scoreMatch(
+      buildOrder({ customerEmail: "jane.doe+promo@gmail.com", customerName: "Jon Smith" }),
+      buildOrder({ customerEmail: "janedoe@gmail.com", customerName: "John Smith" }),
+      { matchEmail: true, matchPhone: false, matchAddress: false, matchSku: false }
+    );
+
+    expect(result.reason).toBe("Same email (normalized), Similar name");
+    expect(result.evaluations[0].score).toBe(50);
+    expect(result.evaluations[1].score).toBe(18);
+  });
+
+  it("ignores order totals in different currencies", () => {
+    const result = scoreMatch(
+      buildOrder(),
+      buildOrder({ currency: "EUR" }),
+      {
+        matchEmail: false,
+        matchPhone: false,
+        matchAddress: false,
+        matchSku: false,
+        ruleWeights: { name: 0, totalPrice: 40 },
+      }
+    );
+
+    expect(result).toMatchObject({ reason: "No significant match", confidence: 0 });
+  });
+});
+
+describe("order value and basket signals", () => {
+  const noIdentitySignals = {
+    matchEmail: true,
+    matchPhone: false,
+    matchAddress: false,
+    matchSku: false,
+  };
+  const item = (sku: string, quantity: number) => ({
+    id: sku,
+    sku,
+    title: sku,
+    quantity,
+    price: "10.00",
+  });
+
+  it("counts near-identical totals within the configured tolerance", () => {
+    const settings = {
+      ...noIdentitySignals,
+      ruleWeights: { email: 0, name: 0, totalPrice: 30 },
+    };
+
+    expect(
+      scoreMatch(buildOrder({ totalPrice: "100.00" }), buildOrder({ totalPrice: "97.00" }), {
+        ...settings,
+        totalPriceTolerancePercent: 5,
+      })
+    ).toMatchObject({ reason: "Similar order total", confidence: 30 });
+    expect(
+      scoreMatch(buildOrder({ totalPrice: "100.00" }), buildOrder({ totalPrice: "97.00" }), settings)
+    ).toMatchObject({ reason: "No significant match", confidence: 0 });
+  });
+
+  it("boosts identical baskets and penalizes unrelated ones", () => {
+    const settings = {
+      ...noIdentitySignals,
+      ruleWeights: { basket: 20, basketMismatch: 30 },
+    };
+    const basket = [item("A", 2), item("B", 1)];
+
+    expect(
+      scoreMatch(
+        buildOrder({ lineItems: basket }),
+        buildOrder({ lineItems: [item("B", 1), item("A", 2)] }),
+        settings
+      )
+    ).toMatchObject({ reason: "Same email, Same name, Same basket", confidence: 90 });
+    expect(
+      scoreMatch(
+        buildOrder({ lineItems: basket }),
+        buildOrder({ lineItems: [item("C", 3)] }),
+        settings
+      )
+    ).toMatchObject({ reason: "Same email, Same name, Different basket", confidence: 40 });
+  });
+
+  it("compares baskets as multisets", () => {
+    expect(basketSimilarity([item("A", 2)], [item("A", 2)])).toBe(1);
+    expect(basketSimilarity([item("A", 2)], [item("A", 1)])).toBe(0.5);
+    expect(basketSimilarity([item("A", 1)], [item("B", 1)])).toBe(0);
+    expect(basketSimilarity([], [item("A", 1)])).toBeNull();
+  });
+});
+
+describe("ruleIdsFromMatchReason", () => {
+  it("maps every reason a scored pair reports back to its signal", () => {
+    const result = scoreMatch(
+      buildOrder(),
+      buildOrder({ customerEmail: "ADA@example.com", customerName: "Ada Lovelase" }),
+      {
+        ...allSignals,
+        ruleWeights: { ...DEFAULT_DETECTION_RULE_WEIGHTS, totalPrice: 10, basket: 10 },
+      }
+    );
+
+    expect(ruleIdsFromMatchReason(result.reason)).toEqual(
+      result.evaluations.map((evaluation) => evaluation.ruleId)
+    );
+  });
+
+  it("ignores unknown and empty reasons", () => {
+    expect(ruleIdsFromMatchReason("No significant match")).toEqual([]);
+    expect(ruleIdsFromMatchReason(null)).toEqual([]);
+    expect(ruleIdsFromMatchReason("Similar address, Legacy reason")).toEqual(["addressPartial"]);
+  });
+});
+
+describe("resolveRuleWeights", () => {
+  it("fills missing weights from the defaults", () => {
+    expect(resolveRuleWeights(null)).toEqual(DEFAULT_DETECTION_RULE_WEIGHTS);
+    expect(resolveRuleWeights({ name: 0 })).toEqual({
+      ...DEFAULT_DETECTION_RULE_WEIGHTS,
+      name: 0,
+    });
+  });
+});
+
+describe("findDuplicateMatches", () => {
+  const newOrder = buildOrder({
+    shopifyOrderId: "new",
+    createdAt: new Date("2026-06-01T12:00:00.000Z"),
+  });
+
+  it("queries the source per enabled signal and scores candidates inside the window", async () => {
+    const recent = buildOrder({
+      id: "recent",
+      shopifyOrderId: "recent",
+      createdAt: new Date("2026-06-01T10:00:00.000Z"),
+    });
+    const stale = buildOrder({
+      id: "stale",
+      shopifyOrderId: "stale",
+      createdAt: new Date("2026-05-20T10:00:00.000Z"),
+    });
+    const source = {
+      byEmail: vi.fn().mockResolvedValue([recent, stale]),
+      byPhone: vi.fn().mockResolvedValue([]),
+      byAddressKey: vi.fn().mockResolvedValue([recent]),
+      bySkus: vi.fn().mockResolvedValue([recent, recent]),
+    };
+    const candidateCounts = { ...EMPTY_DETECTION_CANDIDATE_COUNTS };
+
+    const matches = await findDuplicateMatches(
+      newOrder as any,
+      { ...allSignals, matchPhone: false, timeWindowHours: 24 },
+      source,
+      candidateCounts
+    );
+
+    expect(source.byEmail).toHaveBeenCalledWith("ada@example.com", {
+      shopifyOrderId: "new",
+      since: new Date("2026-05-31T12:00:00.000Z"),
+      until: new Date("2026-06-01T12:00:00.000Z"),
+    });
+    expect(source.byPhone).not.toHaveBeenCalled();
+    expect(matches.map((match) => match.order.id)).toEqual(["recent"]);
+    expect(candidateCounts).toMatchObject({ email: 2, phone: 0, address: 1, sku: 1 });
+  });
+});
@@ -0,0 +1,544 @@
+import {
+  DEFAULT_DETECTION_RULE_WEIGHTS,
+  DEFAULT_FLAG_THRESHOLD,
+  DEFAULT_TOTAL_PRICE_TOLERANCE_PERCENT,
+  type DetectionCandidateCounts,
+  type DetectionRuleId,
+  type DetectionRuleWeights,
+  type DetectionSettings,
+  type InsertOrder,
+  type Order,
+} from "@shared/schema";
+import { normalizePhoneNumber } from "../utils/phone";
+import { canonicalizeEmail } from "../utils/email";
+import { nameSimilarity, NAME_SIMILARITY_THRESHOLD } from "../utils/name";
+import { buildAddressKey, normalizeAddress } from "../utils/address";
+
+/**
+ * Settings consulted while scoring a candidate pair. Weights and threshold are
+ * optional so callers holding partial settings rows fall back to defaults.
+ */
+export type MatchingSettings = Pick<
+  DetectionSettings,
+  "matchEmail" | "matchPhone" | "matchAddress" | "matchSku"
+> &
+  Partial<
+    Pick<
+      DetectionSettings,
+      "flagThreshold" | "ruleWeights" | "totalPriceTolerancePercent"
+    >
+  >;
+
+export type ScoredOrder = Pick<
+  Order,
+  | "customerEmail"
+  | "customerName"
+  | "customerPhone"
+  | "shippingAddress"
+  | "lineItems"
+  | "totalPrice"
+  | "currency"
+> &
+  Partial<Pick<Order, "customerPhoneNormalized" | "customerEmailCanonical">>;
+
+export interface RuleEvaluation {
+  ruleId: DetectionRuleId;
+  reason: string;
+  score: number;
+}
+
+/**
+ * A single scoring signal. `evaluate` returns the points earned for the pair
+ * (already weighted, negative for penalties), or null when the signal does
+ * not apply.
+ */
+export interface DetectionRule {
+  id: DetectionRuleId;
+  isEnabled(settings: MatchingSettings): boolean;
+  evaluate(
+    newOrder: Partial<ScoredOrder> | InsertOrder,
+    existingOrder: Partial<ScoredOrder>,
+    weights: DetectionRuleWeights,
+    settings: MatchingSettings
+  ): RuleEvaluation | null;
+}
+
+/**
+ * Basket similarity at or below which two orders count as different
+ * purchases and the basket-mismatch penalty applies.
+ */
+export const BASKET_MISMATCH_SIMILARITY = 0.2;
+
+export function resolveRuleWeights(
+  overrides: Partial<DetectionRuleWeights> | null | undefined
+): DetectionRuleWeights {
+  return { ...DEFAULT_DETECTION_RULE_WEIGHTS, ...(overrides ?? {}) };
+}
+
+export function resolveFlagThreshold(
+  settings: Partial<Pick<DetectionSettings, "flagThreshold">>
+): number {
+  return settings.flagThreshold ?? DEFAULT_FLAG_THRESHOLD;
+}
+
+export function extractSkus(
+  lineItems: InsertOrder["lineItems"] | Order["lineItems"]
+): string[] {
+  if (!lineItems || !Array.isArray(lineItems)) {
+    return [];
+  }
+
+  return lineItems
+    .map((item) => item.sku)
+    .filter((sku): sku is string => typeof sku === "string" && sku.trim().length > 0);
+}
+
+/**
+ * Compare two shipping addresses after structured normalization. Returns
+ * "exact" when street, city and postcode all match, "partial" when street
+ * matches alongside either city or postcode, otherwise null. Conflicting
+ * units or countries never match.
+ */
+export function compareAddresses(
+  addr1: Order["shippingAddress"] | undefined,
+  addr2: Order["shippingAddress"] | undefined
+): "exact" | "partial" | null {
+  const first = normalizeAddress(addr1);
+  const second = normalizeAddress(addr2);
+  if (!first || !second || first.street !== second.street) return null;
+
+  if (first.country && second.country && first.country !== second.country) {
+    return null;
+  }
+  if (first.unit && second.unit && first.unit !== second.unit) {
+    return null;
+  }
+
+  const cityMatch = Boolean(first.city) && first.city === second.city;
+  const postcodeMatch = Boolean(first.postcode) && first.postcode === second.postcode;
+
+  if (cityMatch && postcodeMatch) {
+    return "exact";
+  }
+
+  if (cityMatch || postcodeMatch) {
+    return "partial";
+  }
+
+  return null;
+}
+
+/**
+ * Count line-item quantities per product, keyed by SKU (or by title for items
+ * without one) so baskets compare as multisets.
+ */
+function basketQuantities(
+  lineItems: InsertOrder["lineItems"] | Order["lineItems"]
+): Map<string, number> {
+  const quantities = new Map<string, number>();
+  if (!lineItems || !Array.isArray(lineItems)) {
+    return quantities;
+  }
+
+  for (const item of lineItems) {
+    const key = item.sku?.trim() || `title:${item.title?.trim().toLowerCase() ?? ""}`;
+    if (key === "title:") continue;
+    quantities.set(key, (quantities.get(key) ?? 0) + Math.max(0, item.quantity || 0));
+  }
+  return quantities;
+}
+
+/**
+ * Weighted Jaccard similarity of two baskets: 1 when both contain the same
+ * products in the same quantities, 0 when they share nothing. Returns null
+ * when either basket is empty.
+ */
+export function basketSimilarity(
+  first: InsertOrder["lineItems"] | Order["lineItems"],
+  second: InsertOrder["lineItems"] | Order["lineItems"]
+): number | null {
+  const firstQuantities = basketQuantities(first);
+  const secondQuantities = basketQuantities(second);
+  if (firstQuantities.size === 0 || secondQuantities.size === 0) {
+    return null;
+  }
+
+  let shared = 0;
+  let total = 0;
+  const keys = new Set(
+    Array.from(firstQuantities.keys()).concat(Array.from(secondQuantities.keys()))
+  );
+  keys.forEach((key) => {
+    const firstQuantity = firstQuantities.get(key) ?? 0;
+    const secondQuantity = secondQuantities.get(key) ?? 0;
+    shared += Math.min(firstQuantity, secondQuantity);
+    total += Math.max(firstQuantity, secondQuantity);
+  });
+  return total > 0 ? shared / total : null;
+}
+
+/**
+ * Whether two totals differ by no more than `tolerancePercent` of the larger.
+ */
+export function totalsWithinTolerance(
+  first: number,
+  second: number,
+  tolerancePercent: number
+): boolean {
+  const larger = Math.max(Math.abs(first), Math.abs(second));
+  if (larger === 0) return true;
+  return (Math.abs(first - second) / larger) * 100 <= tolerancePercent;
+}
+
+function isKnownCustomerName(name: string | null | undefined): name is string {
+  const trimmed = name?.trim();
+  return Boolean(trimmed) && trimmed!.toLowerCase() !== "unknown";
+}
+
+function weighted(
+  ruleId: DetectionRuleId,
+  reason: string,
+  weights: DetectionRuleWeights,
+  weightKey: DetectionRuleId = ruleId,
+  fraction = 1
+): RuleEvaluation | null {
+  const score = Math.round(weights[weightKey] * fraction);
+  return score > 0 ? { ruleId, reason, score } : null;
+}
+
+/**
+ * Registry of scoring signals, in the order their reasons are reported.
+ */
+export const DETECTION_RULES: DetectionRule[] = [
+  {
+    id: "email",
+    isEnabled: (settings) => settings.matchEmail,
+    evaluate(newOrder, existingOrder, weights) {
+      if (!newOrder.customerEmail || !existingOrder.customerEmail) {
+        return null;
+      }
+
+      if (newOrder.customerEmail === existingOrder.customerEmail) {
+        return weighted("email", "Same email", weights);
+      }
+
+      const canonicalNew = canonicalizeEmail(newOrder.customerEmail);
+      const canonicalExisting =
+        existingOrder.customerEmailCanonical ||
+        canonicalizeEmail(existingOrder.customerEmail);
+      if (canonicalNew && canonicalNew === canonicalExisting) {
+        return weighted("email", "Same email (normalized)", weights);
+      }
+      return null;
+    },
+  },
+  {
+    id: "phone",
+    isEnabled: (settings) => settings.matchPhone,
+    evaluate(newOrder, existingOrder, weights) {
+      if (!newOrder.customerPhone || !existingOrder.customerPhone) {
+        return null;
+      }
+
+      const normalizedNew = normalizePhoneNumber(newOrder.customerPhone);
+      const normalizedExisting =
+        existingOrder.customerPhoneNormalized ||
+        normalizePhoneNumber(existingOrder.customerPhone);
+
+      if (normalizedNew && normalizedExisting && normalizedNew === normalizedExisting) {
+        return weighted("phone", "Same phone", weights);
+      }
+      return null;
+    },
+  },
+  {
+    id: "addressExact",
+    isEnabled: (settings) => settings.matchAddress,
+    evaluate(newOrder, existingOrder, weights) {
+      const addressMatch = compareAddresses(
+        newOrder.shippingAddress,
+        existingOrder.shippingAddress
+      );
+
+      if (addressMatch === "exact") {
+        return weighted("addressExact", "Same address", weights);
+      }
+      if (addressMatch === "partial") {
+        return weighted("addressPartial", "Similar address", weights);
+      }
+      return null;
+    },
+  },
+  {
+    id: "name",
+    isEnabled: () => true,
+    evaluate(newOrder, existingOrder, weights) {
+      if (
+        !isKnownCustomerName(newOrder.customerName) ||
+        !isKnownCustomerName(existingOrder.customerName)
+      ) {
+        return null;
+      }
+
+      if (
+        newOrder.customerName.trim().toLowerCase() ===
+        existingOrder.customerName.trim().toLowerCase()
+      ) {
+        return weighted("name", "Same name", weights);
+      }
+
+      // Graded credit for typos and phonetic variants ("Jon" vs "John")
+      const similarity = nameSimilarity(
+        newOrder.customerName,
+        existingOrder.customerName
+      );
+      if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+        return weighted("name", "Similar name", weights, "name", similarity);
+      }
+      return null;
+    },
+  },
+  {
+    id: "sku",
+    isEnabled: (settings) => settings.matchSku,
+    evaluate(newOrder, existingOrder, weights) {
+      const newSkus = extractSkus(newOrder.lineItems);
+      const existingSkus = extractSkus(existingOrder.lineItems);
+
+      if (newSkus.some((sku) => existingSkus.includes(sku))) {
+        return weighted("sku", "Same SKU purchased", weights);
+      }
+      return null;
+    },
+  },
+  {
+    id: "totalPrice",
+    isEnabled: () => true,
+    evaluate(newOrder, existingOrder, weights, settings) {
+      if (
+        newOrder.totalPrice == null ||
+        existingOrder.totalPrice == null ||
+        !newOrder.currency ||
+        newOrder.currency !== existingOrder.currency
+      ) {
+        return null;
+      }
+
+      const newTotal = Number(newOrder.totalPrice);
+      const existingTotal = Number(existingOrder.totalPrice);
+      if (newTotal === existingTotal) {
+        return weighted("totalPrice", "Same order total", weights);
+      }
+
+      const tolerance =
+        settings.totalPriceTolerancePercent ?? DEFAULT_TOTAL_PRICE_TOLERANCE_PERCENT;
+      if (tolerance > 0 && totalsWithinTolerance(newTotal, existingTotal, tolerance)) {
+        return weighted("totalPrice", "Similar order total", weights);
+      }
+      return null;
+    },
+  },
+  {
+    id: "basket",
+    isEnabled: () => true,
+    evaluate(newOrder, existingOrder, weights) {
+      if (basketSimilarity(newOrder.lineItems, existingOrder.lineItems) === 1) {
+        return weighted("basket", "Same basket", weights);
+      }
+      return null;
+    },
+  },
+  {
+    id: "basketMismatch",
+    isEnabled: () => true,
+    evaluate(newOrder, existingOrder, weights) {
+      const similarity = basketSimilarity(newOrder.lineItems, existingOrder.lineItems);
+      if (
+        similarity === null ||
+        similarity > BASKET_MISMATCH_SIMILARITY ||
+        weights.basketMismatch <= 0
+      ) {
+        return null;
+      }
+      // Penalty: subtracts from the confidence earned by other signals
+      return {
+        ruleId: "basketMismatch",
+        reason: "Different basket",
+        score: -weights.basketMismatch,
+      };
+    },
+  },
+];
+
+// Reason text reported by each signal. Orders store only the joined reason
+// string, so analytics map it back to signals with this table.
+const REASON_RULE_IDS: Record<string, DetectionRuleId> = {
+  "Same email": "email",
+  "Same email (normalized)": "email",
+  "Same phone": "phone",
+  "Same address": "addressExact",
+  "Similar address": "addressPartial",
+  "Same name": "name",
+  "Similar name": "name",
+  "Same SKU purchased": "sku",
+  "Same order total": "totalPrice",
+  "Similar order total": "totalPrice",
+  "Same basket": "basket",
+  "Different basket": "basketMismatch",
+};
+
+/**
+ * Signals that fired for a stored match reason, in reported order.
+ */
+export function ruleIdsFromMatchReason(
+  matchReason: string | null | undefined
+): DetectionRuleId[] {
+  if (!matchReason) return [];
+
+  const ruleIds = matchReason
+    .split(", ")
+    .map((reason) => REASON_RULE_IDS[reason.trim()])
+    .filter((ruleId): ruleId is DetectionRuleId => Boolean(ruleId));
+  return Array.from(new Set(ruleIds));
+}
+
+/**
+ * Score a candidate pair against every enabled rule.
+ */
+export function scoreMatch(
+  newOrder: Partial<ScoredOrder> | InsertOrder,
+  existingOrder: Partial<ScoredOrder>,
+  settings: MatchingSettings
+): { reason: string; confidence: number; evaluations: RuleEvaluation[] } {
+  const weights = resolveRuleWeights(settings.ruleWeights);
+  const evaluations: RuleEvaluation[] = [];
+
+  for (const rule of DETECTION_RULES) {
+    if (!rule.isEnabled(settings)) {
+      continue;
+    }
+    const evaluation = rule.evaluate(newOrder, existingOrder, weights, settings);
+    if (evaluation) {
+      evaluations.push(evaluation);
+    }
+  }
+
+  const confidence = evaluations.reduce((sum, evaluation) => sum + evaluation.score, 0);
+
+  return {
+    reason: evaluations.map((evaluation) => evaluation.reason).join(", ") || "No significant match",
+    confidence: Math.max(0, Math.min(100, confidence)),
+    evaluations,
+  };
+}
+
+export interface DuplicateMatch {
+  order: Order;
+  matchReason: string;
+  confidence: number;
+}
+
+/** Orders created in `[since, until]`, other than the order being checked. */
+export interface CandidateWindow {
+  shopifyOrderId: string;
+  since: Date;
+  until: Date;
+}
+
+/**
+ * Where candidate orders are looked up: indexed queries for live detection,
+ * in-memory indexes for the settings simulator. Lookups may return orders
+ * outside the window; they are dropped before scoring.
+ */
+export interface CandidateSource {
+  byEmail(canonicalEmail: string, window: CandidateWindow): Promise<Order[]>;
+  byPhone(normalizedPhone: string, window: CandidateWindow): Promise<Order[]>;
+  byAddressKey(addressKey: string, window: CandidateWindow): Promise<Order[]>;
+  /** May return an order once per shared SKU. */
+  bySkus(skus: string[], window: CandidateWindow): Promise<Order[]>;
+}
+
+export type CandidateMatchingSettings = MatchingSettings &
+  Pick<DetectionSettings, "timeWindowHours">;
+
+/**
+ * Find and score the duplicate candidates of an order: orders inside the time
+ * window before it sharing an email, phone, address or SKU for each enabled
+ * signal. Returns the matches at or above the flag threshold, strongest first
+ * (ties broken by the most recent order), and fills in how many candidates
+ * each lookup returned.
+ */
+export async function findDuplicateMatches(
+  order: InsertOrder | Order,
+  settings: CandidateMatchingSettings,
+  source: CandidateSource,
+  candidateCounts?: DetectionCandidateCounts
+): Promise<DuplicateMatch[]> {
+  const parsedReferenceTime = order.createdAt ? new Date(order.createdAt) : new Date();
+  const until = Number.isNaN(parsedReferenceTime.getTime()) ? new Date() : parsedReferenceTime;
+  const window: CandidateWindow = {
+    shopifyOrderId: order.shopifyOrderId,
+    since: new Date(until.getTime() - settings.timeWindowHours * 60 * 60 * 1000),
+    until,
+  };
+
+  const candidates = new Map<string, Order>();
+  const addCandidates = (candidateOrders: Order[]) => {
+    for (const candidate of candidateOrders) {
+      const candidateTime = new Date(candidate.createdAt).getTime();
+      if (
+        candidate.shopifyOrderId === window.shopifyOrderId ||
+        candidateTime < window.since.getTime() ||
+        candidateTime > window.until.getTime()
+      ) {
+        continue;
+      }
+      candidates.set(candidate.id, candidate);
+    }
+  };
+
+  const canonicalEmail = canonicalizeEmail(order.customerEmail);
+  if (settings.matchEmail && canonicalEmail) {
+    const byEmail = await source.byEmail(canonicalEmail, window);
+    if (candidateCounts) candidateCounts.email = byEmail.length;
+    addCandidates(byEmail);
+  }
+
+  const normalizedPhone = normalizePhoneNumber(order.customerPhone);
+  if (settings.matchPhone && normalizedPhone) {
+    const byPhone = await source.byPhone(normalizedPhone, window);
+    if (candidateCounts) candidateCounts.phone = byPhone.length;
+    addCandidates(byPhone);
+  }
+
+  const addressKey = buildAddressKey(order.shippingAddress);
+  if (settings.matchAddress && addressKey) {
+    const byAddress = (await source.byAddressKey(addressKey, window)).filter(
+      (candidate) => compareAddresses(order.shippingAddress, candidate.shippingAddress) !== null
+    );
+    if (candidateCounts) candidateCounts.address = byAddress.length;
+    addCandidates(byAddress);
+  }
+
+  const skus = Array.from(new Set(extractSkus(order.lineItems)));
+  if (settings.matchSku && skus.length > 0) {
+    const bySku = await source.bySkus(skus, window);
+    if (candidateCounts) {
+      candidateCounts.sku = new Set(bySku.map((candidate) => candidate.id)).size;
+    }
+    addCandidates(bySku);
+  }
+
+  const flagThreshold = resolveFlagThreshold(settings);
+  return Array.from(candidates.values())
+    .map((candidate) => {
+      const { reason, confidence } = scoreMatch(order, candidate, settings);
+      return { order: candidate, matchReason: reason, confidence };
+    })
+    .filter((match) => match.confidence >= flagThreshold)
+    .sort(
+      (first, second) =>
+        second.confidence - first.confidence ||
+        new Date(second.order.createdAt).getTime() - new Date(first.order.createdAt).getTime()
+    );
+}
@@ -16,6 +16,7 @@ import {
 function buildQueryStub(rows: any[]) {
   const stub: any = {
     from: vi.fn().mockReturnThis(),
+    innerJoin: vi.fn().mockReturnThis(),
     where: vi.fn().mockReturnThis(),
     orderBy: vi.fn().mockReturnThis(),
     limit: vi.fn().mockReturnThis(),
@@ -66,7 +67,7 @@ describe("DuplicateDetectionService.findDuplicates", () => {
     };
   }
 
-  it("uses time-window candidates when SKU matching is enabled and email/phone are unavailable", async () => {
+  it("uses SKU-key candidates when SKU matching is enabled and email/phone are unavailable", async () => {
     const settings = {
       shopDomain: "test.myshopify.com",
       timeWindowHours: 24,
@@ -123,11 +124,13 @@ describe("DuplicateDetectionService.findDuplicates", () => {
       "test.myshopify.com"
     );
 
-    expect(result).toEqual({
-      order: existingOrder,
-      matchReason: "Same name, Same SKU purchased",
-      confidence: 70,
-    });
+    expect(result).toEqual([
+      {
+        order: existingOrder,
+        matchReason: "Same name, Same SKU purchased",
+        confidence: 70,
+      },
+    ]);
   });
 
   it("does not treat two empty address objects as the same address", async () => {
@@ -147,7 +150,6 @@ describe("DuplicateDetectionService.findDuplicates", () => {
 
     mockSelect
       .mockReturnValueOnce(buildQueryStub([settings]))
-      .mockReturnValueOnce(buildQueryStub([existingOrder]))
       .mockReturnValueOnce(buildQueryStub([existingOrder]));
 
     const result = await service.findDuplicates(
@@ -168,11 +170,13 @@ describe("DuplicateDetectionService.findDuplicates", () => {
       "test.myshopify.com"
     );
 
-    expect(result).toEqual({
-      order: existingOrder,
-      matchReason: "Same email, Same name",
-      confidence: 70,
-    });
+    expect(result).toEqual([
+      {
+        order: existingOrder,
+        matchReason: "Same email, Same name",
+        confidence: 70,
+      },
+    ]);
   });
 
   it("scan profile flags different emails with the same address and sample SKU", async () => {
@@ -199,6 +203,7 @@ describe("DuplicateDetectionService.findDuplicates", () => {
     mockSelect
       .mockReturnValueOnce(buildQueryStub([storedLiveSettings]))
       .mockReturnValueOnce(buildQueryStub([]))
+      .mockReturnValueOnce(buildQueryStub([existingOrder]))
       .mockReturnValueOnce(buildQueryStub([existingOrder]));
 
     const result = await service.findDuplicates(
@@ -215,11 +220,13 @@ describe("DuplicateDetectionService.findDuplicates", () => {
       HISTORICAL_SCAN_MATCHING_PROFILE
     );
 
-    expect(result).toEqual({
-      order: existingOrder,
-      matchReason: "Same address, Same SKU purchased",
-      confidence: 100,
-    });
+    expect(result).toEqual([
+      {
+        order: existingOrder,
+        matchReason: "Same address, Same SKU purchased",
+        confidence: 100,
+      },
+    ]);
     expect(storedLiveSettings.matchSku).toBe(false);
   });
 
@@ -248,6 +255,7 @@ describe("DuplicateDetectionService.findDuplicates", () => {
     mockSelect
       .mockReturnValueOnce(buildQueryStub([storedLiveSettings]))
       .mockReturnValueOnce(buildQueryStub([]))
+      .mockReturnValueOnce(buildQueryStub([existingOrder]))
       .mockReturnValueOnce(buildQueryStub([existingOrder]));
 
     const result = await service.findDuplicates(
@@ -264,7 +272,7 @@ describe("DuplicateDetectionService.findDuplicates", () => {
       HISTORICAL_SCAN_MATCHING_PROFILE
     );
 
-    expect(result).toBeNull();
+    expect(result).toEqual([]);
   });
 
   it("scan profile flags the same email and name without an address match", async () => {
@@ -311,11 +319,13 @@ describe("DuplicateDetectionService.findDuplicates", () => {
       HISTORICAL_SCAN_MATCHING_PROFILE
     );
 
-    expect(result).toEqual({
-      order: existingOrder,
-      matchReason: "Same email, Same name",
-      confidence: 70,
-    });
+    expect(result).toEqual([
+      {
+        order: existingOrder,
+        matchReason: "Same email, Same name",
+        confidence: 70,
+      },
+    ]);
   });
 
   it("flags a warm household collision when email and name differ but address and SKU overlap", async () => {
@@ -374,7 +384,8 @@ describe("DuplicateDetectionService.findDuplicates", () => {
     mockSelect
       .mockReturnValueOnce(buildQueryStub([settings]))
       .mockReturnValueOnce(buildQueryStub([]))
-      .mockReturnValueOnce(buildQueryStub([unrelatedOrder, existingOrder]));
+      .mockReturnValueOnce(buildQueryStub([unrelatedOrder, existingOrder]))
+      .mockReturnValueOnce(buildQueryStub([existingOrder, existingOrder]));
 
     const result = await service.findDuplicates(
       {
@@ -402,11 +413,13 @@ describe("DuplicateDetectionService.findDuplicates", () => {
       "test.myshopify.com"
     );
 
-    expect(result).toEqual({
-      order: existingOrder,
-      matchReason: "Same address, Same SKU purchased",
-      confidence: 100,
-    });
+    expect(result).toEqual([
+      {
+        order: existingOrder,
+        matchReason: "Same address, Same SKU purchased",
+        confidence: 100,
+      },
+    ]);
   });
 
   it("uses address candidates when address matching is enabled and email/phone are unavailable", async () => {
@@ -465,11 +478,13 @@ describe("DuplicateDetectionService.findDuplicates", () => {
       "test.myshopify.com"
     );
 
-    expect(result).toEqual({
-      order: existingOrder,
-      matchReason: "Same address, Same name",
-      confidence: 70,
-    });
+    expect(result).toEqual([
+      {
+        order: existingOrder,
+        matchReason: "Same address, Same name",
+        confidence: 70,
+      },
+    ]);
   });
 
   it("anchors the duplicate window to an old order timestamp", async () => {
@@ -501,7 +516,7 @@ describe("DuplicateDetectionService.findDuplicates", () => {
       "test.myshopify.com"
     );
 
-    expect(result?.order.id).toBe(existingOrder.id);
+    expect(result[0]?.order.id).toBe(existingOrder.id);
   });
 
   it.each([
@@ -537,7 +552,7 @@ describe("DuplicateDetectionService.findDuplicates", () => {
       "test.myshopify.com"
     );
 
-    expect(result).toBeNull();
+    expect(result).toEqual([]);
   });
 
   it("does not use Unknown customer names to turn a SKU-only match into a flag", async () => {
@@ -563,38 +578,174 @@ describe("DuplicateDetectionService.findDuplicates", () => {
       "test.myshopify.com"
     );
 
-    expect(result).toBeNull();
+    expect(result).toEqual([]);
   });
 
-  it("reports fuzzy-candidate truncation only when more than the cap exists", async () => {
-    const candidates = Array.from({ length: 501 }, (_, index) =>
-      buildOrder({
-        id: `candidate-${index}`,
-        shopifyOrderId: String(2000 + index),
-      })
+  it("returns every candidate over the threshold ranked by confidence", async () => {
+    const settings = {
+      shopDomain: "test.myshopify.com",
+      timeWindowHours: 24,
+      matchEmail: true,
+      matchPhone: true,
+      matchAddress: false,
+      matchSku: false,
+    };
+    const emailOnlyMatch = buildOrder({
+      id: "email-only",
+      shopifyOrderId: "1000",
+      orderNumber: "#1000",
+      customerEmail: "ada@example.com",
+      createdAt: new Date(Date.now() - 60_000),
+    });
+    const emailAndPhoneMatch = buildOrder({
+      id: "email-and-phone",
+      shopifyOrderId: "1001",
+      orderNumber: "#1001",
+      customerEmail: "ada@example.com",
+      customerPhone: "555-123-4567",
+      createdAt: new Date(Date.now() - 120_000),
+    });
+    const belowThreshold = buildOrder({
+      id: "phone-only",
+      shopifyOrderId: "999",
+      orderNumber: "#999",
+      customerName: "Someone Else",
+      customerPhone: "555-123-4567",
+    });
+
+    mockSelect
+      .mockReturnValueOnce(buildQueryStub([settings]))
+      .mockReturnValueOnce(buildQueryStub([emailOnlyMatch, emailAndPhoneMatch]))
+      .mockReturnValueOnce(buildQueryStub([emailAndPhoneMatch, belowThreshold]));
+
+    const result = await service.findDuplicates(
+      {
+        ...buildOrder({ id: undefined }),
+        shopifyOrderId: "1002",
+        orderNumber: "#1002",
+        customerEmail: "ada@example.com",
+        customerPhone: "(555) 123-4567",
+      },
+      "test.myshopify.com"
+    );
+
+    expect(result.map((match) => [match.order.id, match.confidence])).toEqual([
+      ["email-and-phone", 100],
+      ["email-only", 70],
+    ]);
+  });
+
+  it("uses the shop's rule weights and flag threshold", async () => {
+    const existingOrder = buildOrder({ customerEmail: "ada@example.com" });
+    const settings = {
+      shopDomain: "test.myshopify.com",
+      timeWindowHours: 24,
+      matchEmail: true,
+      matchPhone: false,
+      matchAddress: false,
+      matchSku: false,
+      flagThreshold: 60,
+      ruleWeights: { email: 60, name: 0 },
+    };
+
+    mockSelect
+      .mockReturnValueOnce(buildQueryStub([settings]))
+      .mockReturnValueOnce(buildQueryStub([existingOrder]));
+
+    const result = await service.findDuplicates(
+      {
+        ...buildOrder({ id: undefined }),
+        shopifyOrderId: "1002",
+        orderNumber: "#1002",
+        customerEmail: "ada@example.com",
+      },
+      "test.myshopify.com"
     );
+
+    expect(result).toEqual([
+      {
+        order: existingOrder,
+        matchReason: "Same email",
+        confidence: 60,
+      },
+    ]);
+  });
+
+  it("does not flag below a raised flag threshold", async () => {
+    const existingOrder = buildOrder({ customerEmail: "ada@example.com" });
+
     mockSelect
       .mockReturnValueOnce(buildQueryStub([{
         shopDomain: "test.myshopify.com",
         timeWindowHours: 24,
-        matchEmail: false,
+        matchEmail: true,
         matchPhone: false,
         matchAddress: false,
+        matchSku: false,
+        flagThreshold: 80,
+        ruleWeights: null,
+      }]))
+      .mockReturnValueOnce(buildQueryStub([existingOrder]));
+
+    const result = await service.findDuplicates(
+      {
+        ...buildOrder({ id: undefined }),
+        shopifyOrderId: "1002",
+        orderNumber: "#1002",
+        customerEmail: "ada@example.com",
+      },
+      "test.myshopify.com"
+    );
+
+    expect(result).toEqual([]);
+  });
+
+  it("reports how many candidates each indexed lookup returned", async () => {
+    const sharedAddress = { address1: "123 Main St", city: "New York", zip: "10001" };
+    const emailCandidate = buildOrder({
+      id: "email-candidate",
+      shopifyOrderId: "2000",
+      customerEmail: "ada@example.com",
+    });
+    const addressCandidate = buildOrder({
+      id: "address-candidate",
+      shopifyOrderId: "2001",
+      shippingAddress: sharedAddress,
+    });
+    const streetOnlyCandidate = buildOrder({
+      id: "street-only-candidate",
+      shopifyOrderId: "2002",
+      shippingAddress: { address1: "123 Main Street", city: "Boston", zip: "02101" },
+    });
+    mockSelect
+      .mockReturnValueOnce(buildQueryStub([{
+        shopDomain: "test.myshopify.com",
+        timeWindowHours: 24,
+        matchEmail: true,
+        matchPhone: true,
+        matchAddress: true,
         matchSku: true,
       }]))
-      .mockReturnValueOnce(buildQueryStub(candidates));
-    const metadata = { candidateCapExceeded: false };
+      .mockReturnValueOnce(buildQueryStub([emailCandidate]))
+      .mockReturnValueOnce(buildQueryStub([addressCandidate, streetOnlyCandidate]))
+      // One row per shared SKU: the email candidate shares two
+      .mockReturnValueOnce(buildQueryStub([emailCandidate, emailCandidate, addressCandidate]));
+    const metadata = {
+      candidateCounts: { email: 0, phone: 0, address: 0, sku: 0 },
+    };
 
     await service.findDuplicates(
       {
         ...buildOrder({ id: undefined }),
         shopifyOrderId: "1002",
         orderNumber: "#1002",
+        customerEmail: "ada@example.com",
+        shippingAddress: sharedAddress,
       },
       "test.myshopify.com",
       metadata
     );
 
-    expect(metadata.candidateCapExceeded).toBe(true);
+    expect(metadata.candidateCounts).toEqual({ email: 1, phone: 0, address: 1, sku: 2 });
   });
 });
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../storage", () => ({ storage: {} }));
+
+import { findMatchingExclusion, normalizeExclusionValue } from "./exclusion.service";
+
+function buildExclusion(type: any, value: string) {
+  return {
+    id: `${type}-exclusion`,
+    shopDomain: "test.myshopify.com",
+    type,
+    value,
+    note: null,
+    createdAt: new Date(),
+  };
+}
+
+const order = {
+  shopDomain: "test.myshopify.com",
+  shopifyOrderId: "1002",
+  orderNumber: "#1002",
+  customerEmail: "Buyer+restock@gmail.com",
+  customerName: "Wholesale Buyer",
+  customerPhone: "(555) 123-4567",
+  shopifyCustomerId: "42",
+  customerTags: ["Wholesale", "Net 30"],
+  shippingAddress: { address1: "123 Main Street", city: "New York", zip: "10001", country: "US" },
+  lineItems: [{ id: "1", sku: "SUB-MONTHLY", title: "Subscription", quantity: 1, price: "10.00" }],
+  totalPrice: "10.00",
+  currency: "USD",
+  createdAt: new Date(),
+  isFlagged: false,
+};
+
+describe("normalizeExclusionValue", () => {
+  it("normalizes values the way the matching order field is compared", () => {
+    expect(normalizeExclusionValue("email", " Buyer@Gmail.com ")).toBe("buyer@gmail.com");
+    expect(normalizeExclusionValue("phone", "555-123-4567")).toBe("+15551234567");
+    expect(normalizeExclusionValue("customerId", "gid://shopify/Customer/42")).toBe("42");
+    expect(normalizeExclusionValue("customerTag", " Wholesale ")).toBe("wholesale");
+    expect(normalizeExclusionValue("addressKey", "123 Main St")).toBe("|123 main st");
+    expect(normalizeExclusionValue("addressKey", "us|123 Main Street")).toBe("US|123 main st");
+    expect(normalizeExclusionValue("email", "   ")).toBeNull();
+  });
+});
+
+describe("findMatchingExclusion", () => {
+  it.each([
+    ["email", "buyer@gmail.com"],
+    ["phone", "+15551234567"],
+    ["customerId", "42"],
+    ["customerTag", "wholesale"],
+    ["addressKey", "US|123 main st"],
+    ["addressKey", "|123 main st"],
+    ["sku", "SUB-MONTHLY"],
+  ])("matches a %s exclusion", (type, value) => {
+    const exclusion = buildExclusion(type, value);
+    expect(findMatchingExclusion(order, [exclusion])).toBe(exclusion);
+  });
+
+  it("returns null when no exclusion applies", () => {
+    expect(
+      findMatchingExclusion(order, [
+        buildExclusion("email", "other@example.com"),
+        buildExclusion("addressKey", "CA|123 main st"),
+        buildExclusion("customerTag", "staff"),
+      ])
+    ).toBeNull();
+  });
+});
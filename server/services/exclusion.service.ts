@@ -0,0 +1,149 @@
+import { storage } from "../storage";
+import type {
+  DetectionExclusion,
+  DetectionExclusionInput,
+  ExclusionType,
+  InsertOrder,
+  UpdateDetectionExclusion,
+} from "@shared/schema";
+import { buildAddressKey } from "../utils/address";
+import { canonicalizeEmail } from "../utils/email";
+import { normalizePhoneNumber } from "../utils/phone";
+import { extractSkus } from "./detection-rules";
+
+export class InvalidExclusionError extends Error {}
+
+/**
+ * Normalize a merchant-entered exclusion value into the form it is compared
+ * in. Address keys accept a street ("123 Main St") or a country-qualified
+ * street ("US|123 Main St"). Returns null when nothing comparable remains.
+ */
+export function normalizeExclusionValue(
+  type: ExclusionType,
+  value: string
+): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  switch (type) {
+    case "email":
+      return canonicalizeEmail(trimmed) || null;
+    case "phone":
+      return normalizePhoneNumber(trimmed) || null;
+    case "customerId":
+      return trimmed.replace(/^gid:\/\/shopify\/Customer\//i, "") || null;
+    case "customerTag":
+      return trimmed.toLowerCase();
+    case "addressKey": {
+      const separator = trimmed.indexOf("|");
+      return buildAddressKey(
+        separator === -1
+          ? { address1: trimmed }
+          : {
+              country: trimmed.slice(0, separator),
+              address1: trimmed.slice(separator + 1),
+            }
+      );
+    }
+    case "sku":
+      return trimmed;
+  }
+}
+
+/**
+ * Return the first exclusion that applies to the order. An address exclusion
+ * without a country ("|street") matches that street in any country.
+ */
+export function findMatchingExclusion(
+  order: InsertOrder,
+  exclusions: DetectionExclusion[]
+): DetectionExclusion | null {
+  if (exclusions.length === 0) return null;
+
+  const email = canonicalizeEmail(order.customerEmail);
+  const phone = normalizePhoneNumber(order.customerPhone);
+  const tags = new Set((order.customerTags ?? []).map((tag) => tag.trim().toLowerCase()));
+  const addressKey = buildAddressKey(order.shippingAddress);
+  const addressStreet = addressKey?.slice(addressKey.indexOf("|"));
+  const skus = new Set(extractSkus(order.lineItems).map((sku) => sku.trim()));
+
+  return (
+    exclusions.find((exclusion) => {
+      switch (exclusion.type) {
+        case "email":
+          return Boolean(email) && exclusion.value === email;
+        case "phone":
+          return Boolean(phone) && exclusion.value === phone;
+        case "customerId":
+          return Boolean(order.shopifyCustomerId) && exclusion.value === order.shopifyCustomerId;
+        case "customerTag":
+          return tags.has(exclusion.value);
+        case "addressKey":
+          return (
+            Boolean(addressKey) &&
+            (exclusion.value === addressKey || exclusion.value === addressStreet)
+          );
+        case "sku":
+          return skus.has(exclusion.value);
+        default:
+          return false;
+      }
+    }) ?? null
+  );
+}
+
+export class ExclusionService {
+  async list(shopDomain: string): Promise<DetectionExclusion[]> {
+    return storage.getExclusions(shopDomain);
+  }
+
+  async create(
+    shopDomain: string,
+    input: DetectionExclusionInput
+  ): Promise<DetectionExclusion> {
+    const value = normalizeExclusionValue(input.type, input.value);
+    if (!value) {
+      throw new InvalidExclusionError(`Invalid ${input.type} value`);
+    }
+    return storage.createExclusion({
+      shopDomain,
+      type: input.type,
+      value,
+      note: input.note || null,
+    });
+  }
+
+  async update(
+    shopDomain: string,
+    id: string,
+    updates: UpdateDetectionExclusion
+  ): Promise<DetectionExclusion | undefined> {
+    const existing = await storage.getExclusion(shopDomain, id);
+    if (!existing) return undefined;
+
+    const changes: UpdateDetectionExclusion = { ...updates };
+    if (updates.type !== undefined || updates.value !== undefined) {
+      const type = updates.type ?? existing.type;
+      const value = normalizeExclusionValue(type, updates.value ?? existing.value);
+      if (!value) {
+        throw new InvalidExclusionError(`Invalid ${type} value`);
+      }
+      changes.value = value;
+    }
+    if (updates.note !== undefined) {
+      changes.note = updates.note || null;
+    }
+    return storage.updateExclusion(shopDomain, id, changes);
+  }
+
+  async remove(shopDomain: string, id: string): Promise<boolean> {
+    return storage.deleteExclusion(shopDomain, id);
+  }
+
+  async findForOrder(order: InsertOrder): Promise<DetectionExclusion | null> {
+    const exclusions = await storage.getExclusions(order.shopDomain);
+    return findMatchingExclusion(order, exclusions);
+  }
+}
+
+export const exclusionService = new ExclusionService();
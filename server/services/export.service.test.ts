@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { flaggedOrdersExportQuerySchema, type AuditLogEntry, type Order } from "@shared/schema";
+
+const mocks = vi.hoisted(() => ({
+  storage: {
+    getFlaggedOrders: vi.fn(),
+    getOrdersByIds: vi.fn(),
+    getAuditLogs: vi.fn(),
+  },
+}));
+
+vi.mock("../storage", () => ({ storage: mocks.storage }));
+
+import {
+  AUDIT_LOG_EXPORT_COLUMNS,
+  exportService,
+  formatExportRows,
+} from "./export.service";
+
+function buildOrder(id: string, overrides: Partial<Order> = {}): Order {
+  return {
+    id,
+    orderNumber: id,
+    shopifyOrderId: `shopify-${id}`,
+    customerName: "Ada Lovelace",
+    customerEmail: "ada@example.com",
+    totalPrice: "25.00",
+    currency: "USD",
+    isFlagged: true,
+    matchConfidence: 90,
+    matchReason: "Same email, Same address",
+    flagSource: "live",
+    createdAt: new Date("2026-05-01T10:00:00.000Z"),
+    flaggedAt: new Date("2026-05-01T10:00:05.000Z"),
+    duplicateOfOrderId: null,
+    resolvedAt: null,
+    resolvedBy: null,
+    resolutionOutcome: null,
+    resolutionNote: null,
+    resolvedByStaff: null,
+    ...overrides,
+  } as Order;
+}
+
+const auditEntry = {
+  id: "log-1",
+  shopDomain: "test-shop.myshopify.com",
+  orderId: "order-1",
+  orderNumber: "1001",
+  action: "resolved",
+  actor: "dashboard",
+  performedBy: { userId: "42", name: "Grace Hopper", email: null },
+  details: { outcome: "false_positive", note: "Different, households" },
+  performedAt: new Date("2026-05-03T08:00:00.000Z"),
+} satisfies AuditLogEntry;
+
+describe("formatExportRows", () => {
+  it("writes nested details as a quoted JSON cell in CSV", () => {
+    expect(formatExportRows("csv", AUDIT_LOG_EXPORT_COLUMNS, [auditEntry])).toBe(
+      '2026-05-03T08:00:00.000Z,resolved,dashboard,"{""userId"":""42"",""name"":""Grace Hopper"",""email"":null}",1001,order-1,"{""outcome"":""false_positive"",""note"":""Different, households""}"\r\n'
+    );
+  });
+
+  it("writes one JSON object per line in NDJSON", () => {
+    const output = formatExportRows("ndjson", AUDIT_LOG_EXPORT_COLUMNS, [auditEntry, auditEntry]);
+
+    const lines = output.split("\n");
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0])).toEqual({
+      performedAt: "2026-05-03T08:00:00.000Z",
+      action: "resolved",
+      actor: "dashboard",
+      performedBy: { userId: "42", name: "Grace Hopper", email: null },
+      orderNumber: "1001",
+      orderId: "order-1",
+      details: { outcome: "false_positive", note: "Different, households" },
+    });
+  });
+});
+
+describe("ExportService.exportFlaggedOrders", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("pages through the filtered list and includes the linked order", async () => {
+    const query = flaggedOrdersExportQuerySchema.parse({ status: "all", minConfidence: "80" });
+    mocks.storage.getFlaggedOrders
+      .mockResolvedValueOnce({
+        orders: [buildOrder("2", { duplicateOfOrderId: "1" })],
+        nextCursor: "next",
+      })
+      .mockResolvedValueOnce({
+        orders: [
+          buildOrder("3", {
+            isFlagged: false,
+            resolvedAt: new Date("2026-05-04T00:00:00.000Z"),
+            resolvedBy: "manual_dashboard",
+            resolutionOutcome: "confirmed_duplicate",
+          }),
+        ],
+        nextCursor: null,
+      });
+    mocks.storage.getOrdersByIds.mockImplementation(async (_shop, ids: string[]) =>
+      ids.map((id) => buildOrder(id))
+    );
+    const chunks: string[] = [];
+
+    const exported = await exportService.exportFlaggedOrders(
+      "test-shop.myshopify.com",
+      query,
+      "ndjson",
+      async (chunk) => {
+        chunks.push(chunk);
+      }
+    );
+
+    expect(exported).toBe(2);
+    expect(mocks.storage.getFlaggedOrders).toHaveBeenNthCalledWith(
+      2,
+      "test-shop.myshopify.com",
+      expect.objectContaining({ status: "all", minConfidence: 80, cursor: "next" })
+    );
+    const rows = chunks.join("").trim().split("\n").map((line) => JSON.parse(line));
+    expect(rows[0]).toMatchObject({
+      orderNumber: "2",
+      status: "open",
+      linkedOrderNumber: "1",
+      linkedShopifyOrderId: "shopify-1",
+    });
+    expect(rows[1]).toMatchObject({
+      orderNumber: "3",
+      status: "resolved",
+      linkedOrderNumber: null,
+      resolutionOutcome: "confirmed_duplicate",
+    });
+  });
+
+  it("writes the CSV header even when nothing matches", async () => {
+    mocks.storage.getFlaggedOrders.mockResolvedValue({ orders: [], nextCursor: null });
+    mocks.storage.getOrdersByIds.mockResolvedValue([]);
+    const chunks: string[] = [];
+
+    await exportService.exportFlaggedOrders(
+      "test-shop.myshopify.com",
+      flaggedOrdersExportQuerySchema.parse({}),
+      "csv",
+      async (chunk) => {
+        chunks.push(chunk);
+      }
+    );
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatch(/^Order Number,Shopify Order ID,.*,Resolution Note\r\n$/);
+  });
+});
+
+describe("ExportService.exportOrdersByIds", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("writes the orders in the given order with their linked orders", async () => {
+    const orders = [
+      buildOrder("order-2", { duplicateOfOrderId: "order-1" }),
+      buildOrder("order-1", { isFlagged: false }),
+    ];
+    mocks.storage.getOrdersByIds.mockImplementation(async (_shop: string, ids: string[]) =>
+      orders.filter((order) => ids.includes(order.id))
+    );
+    const chunks: string[] = [];
+
+    const exportedIds = await exportService.exportOrdersByIds(
+      "test-shop.myshopify.com",
+      ["order-1", "missing", "order-2"],
+      "ndjson",
+      async (chunk) => {
+        chunks.push(chunk);
+      }
+    );
+
+    expect(exportedIds).toEqual(["order-1", "order-2"]);
+    const rows = chunks.join("").trim().split("\n").map((line) => JSON.parse(line));
+    expect(rows.map((row) => [row.orderNumber, row.status, row.linkedOrderNumber])).toEqual([
+      ["order-1", "resolved", null],
+      ["order-2", "open", "order-1"],
+    ]);
+  });
+});
+
+describe("ExportService.exportAuditLogs", () => {
+  it("follows the cursor until the last page", async () => {
+    mocks.storage.getAuditLogs
+      .mockResolvedValueOnce({ entries: [auditEntry], nextCursor: "next" })
+      .mockResolvedValueOnce({ entries: [auditEntry], nextCursor: null });
+    const chunks: string[] = [];
+
+    const exported = await exportService.exportAuditLogs(
+      "test-shop.myshopify.com",
+      { action: "resolved" },
+      "csv",
+      async (chunk) => {
+        chunks.push(chunk);
+      }
+    );
+
+    expect(exported).toBe(2);
+    expect(mocks.storage.getAuditLogs).toHaveBeenLastCalledWith(
+      "test-shop.myshopify.com",
+      { action: "resolved" },
+      expect.objectContaining({ cursor: "next" })
+    );
+    expect(chunks.join("").split("\r\n")).toHaveLength(4);
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  FLAGGED_ORDERS_MAX_LIMIT,
+  type AuditLogEntry,
+  type AuditLogFilter,
+  type ExportFormat,
+  type FlaggedOrdersQuery,
+  type Order,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { formatCsvValue, type CsvValue } from "../utils/csv";
+
+const EXPORT_PAGE_SIZE = FLAGGED_ORDERS_MAX_LIMIT;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+/**
+ * One exported field: `header` names the CSV column, `key` the NDJSON
+ * property.
+ */
+export interface ExportColumn<T> {
+  header: string;
+  key: string;
+  value: (row: T) => unknown;
+}
+
+export interface FlaggedOrderExportRow {
+  order: Order;
+  linkedOrder: Order | null;
+}
+
+export const FLAGGED_ORDER_EXPORT_COLUMNS: ExportColumn<FlaggedOrderExportRow>[] = [
+  { header: "Order Number", key: "orderNumber", value: ({ order }) => order.orderNumber },
+  { header: "Shopify Order ID", key: "shopifyOrderId", value: ({ order }) => order.shopifyOrderId },
+  { header: "Created At", key: "createdAt", value: ({ order }) => order.createdAt },
+  { header: "Customer Name", key: "customerName", value: ({ order }) => order.customerName },
+  { header: "Customer Email", key: "customerEmail", value: ({ order }) => order.customerEmail },
+  { header: "Order Total", key: "totalPrice", value: ({ order }) => order.totalPrice },
+  { header: "Currency", key: "currency", value: ({ order }) => order.currency },
+  { header: "Status", key: "status", value: ({ order }) => (order.isFlagged ? "open" : "resolved") },
+  { header: "Confidence", key: "matchConfidence", value: ({ order }) => order.matchConfidence },
+  { header: "Match Reason", key: "matchReason", value: ({ order }) => order.matchReason },
+  { header: "Flag Source", key: "flagSource", value: ({ order }) => order.flagSource },
+  { header: "Flagged At", key: "flaggedAt", value: ({ order }) => order.flaggedAt },
+  {
+    header: "Linked Order Number",
+    key: "linkedOrderNumber",
+    value: ({ linkedOrder }) => linkedOrder?.orderNumber ?? null,
+  },
+  {
+    header: "Linked Shopify Order ID",
+    key: "linkedShopifyOrderId",
+    value: ({ linkedOrder }) => linkedOrder?.shopifyOrderId ?? null,
+  },
+  { header: "Resolved At", key: "resolvedAt", value: ({ order }) => order.resolvedAt },
+  { header: "Resolved By", key: "resolvedBy", value: ({ order }) => order.resolvedBy },
+  { header: "Resolved By Staff", key: "resolvedByStaff", value: ({ order }) => order.resolvedByStaff },
+  { header: "Resolution Outcome", key: "resolutionOutcome", value: ({ order }) => order.resolutionOutcome },
+  { header: "Resolution Note", key: "resolutionNote", value: ({ order }) => order.resolutionNote },
+];
+
+export const AUDIT_LOG_EXPORT_COLUMNS: ExportColumn<AuditLogEntry>[] = [
+  { header: "Performed At", key: "performedAt", value: (entry) => entry.performedAt },
+  { header: "Action", key: "action", value: (entry) => entry.action },
+  { header: "Actor", key: "actor", value: (entry) => entry.actor },
+  { header: "Performed By", key: "performedBy", value: (entry) => entry.performedBy },
+  { header: "Order Number", key: "orderNumber", value: (entry) => entry.orderNumber },
+  { header: "Order ID", key: "orderId", value: (entry) => entry.orderId },
+  { header: "Details", key: "details", value: (entry) => entry.details },
+];
+
+function toCsvCell(value: unknown): string {
+  if (value !== null && typeof value === "object" && !(value instanceof Date)) {
+    return formatCsvValue(JSON.stringify(value));
+  }
+  return formatCsvValue(value as CsvValue);
+}
+
+/**
+ * The CSV header line, or nothing for NDJSON.
+ */
+export function formatExportHeader<T>(format: ExportFormat, columns: ExportColumn<T>[]): string {
+  if (format === "ndjson") return "";
+  return `${columns.map((column) => formatCsvValue(column.header)).join(",")}\r\n`;
+}
+
+/**
+ * Format rows as CSV lines or NDJSON objects, each terminated by a newline
+ * so pages can be concatenated.
+ */
+export function formatExportRows<T>(
+  format: ExportFormat,
+  columns: ExportColumn<T>[],
+  rows: T[]
+): string {
+  return rows
+    .map((row) => {
+      if (format === "ndjson") {
+        return `${JSON.stringify(
+          Object.fromEntries(columns.map((column) => [column.key, column.value(row) ?? null]))
+        )}\n`;
+      }
+      return `${columns.map((column) => toCsvCell(column.value(row))).join(",")}\r\n`;
+    })
+    .join("");
+}
+
+export class ExportService {
+  /**
+   * Stream flagged orders matching the list filters, one page at a time, with
+   * the order each one duplicates. Returns the number of orders written.
+   */
+  async exportFlaggedOrders(
+    shopDomain: string,
+    query: Omit<FlaggedOrdersQuery, "limit" | "cursor">,
+    format: ExportFormat,
+    write: (chunk: string) => Promise<void>
+  ): Promise<number> {
+    const header = formatExportHeader(format, FLAGGED_ORDER_EXPORT_COLUMNS);
+    if (header) await write(header);
+
+    let exported = 0;
+    let cursor: string | undefined;
+    do {
+      const page = await storage.getFlaggedOrders(shopDomain, {
+        ...query,
+        limit: EXPORT_PAGE_SIZE,
+        cursor,
+      });
+      if (page.orders.length > 0) {
+        await write(
+          formatExportRows(
+            format,
+            FLAGGED_ORDER_EXPORT_COLUMNS,
+            await this.withLinkedOrders(shopDomain, page.orders)
+          )
+        );
+      }
+      exported += page.orders.length;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    return exported;
+  }
+
+  /**
+   * Stream the given orders in the given order, with the same columns as the
+   * flagged orders export. IDs that no longer exist are left out. Returns the
+   * IDs of the orders written.
+   */
+  async exportOrdersByIds(
+    shopDomain: string,
+    orderIds: string[],
+    format: ExportFormat,
+    write: (chunk: string) => Promise<void>
+  ): Promise<string[]> {
+    const header = formatExportHeader(format, FLAGGED_ORDER_EXPORT_COLUMNS);
+    if (header) await write(header);
+
+    const exportedIds: string[] = [];
+    for (let index = 0; index < orderIds.length; index += EXPORT_PAGE_SIZE) {
+      const pageIds = orderIds.slice(index, index + EXPORT_PAGE_SIZE);
+      const ordersById = new Map(
+        (await storage.getOrdersByIds(shopDomain, pageIds)).map((order) => [order.id, order])
+      );
+      const orders = pageIds
+        .map((id) => ordersById.get(id))
+        .filter((order): order is Order => Boolean(order));
+
+      if (orders.length > 0) {
+        await write(
+          formatExportRows(
+            format,
+            FLAGGED_ORDER_EXPORT_COLUMNS,
+            await this.withLinkedOrders(shopDomain, orders)
+          )
+        );
+      }
+      exportedIds.push(...orders.map((order) => order.id));
+    }
+
+    return exportedIds;
+  }
+
+  /**
+   * Stream the shop's audit log entries matching the filter, newest first.
+   * Returns the number of entries written.
+   */
+  async exportAuditLogs(
+    shopDomain: string,
+    filter: AuditLogFilter,
+    format: ExportFormat,
+    write: (chunk: string) => Promise<void>
+  ): Promise<number> {
+    const header = formatExportHeader(format, AUDIT_LOG_EXPORT_COLUMNS);
+    if (header) await write(header);
+
+    let exported = 0;
+    let cursor: string | undefined;
+    do {
+      const page = await storage.getAuditLogs(shopDomain, filter, {
+        limit: EXPORT_PAGE_SIZE,
+        cursor,
+      });
+      if (page.entries.length > 0) {
+        await write(formatExportRows(format, AUDIT_LOG_EXPORT_COLUMNS, page.entries));
+      }
+      exported += page.entries.length;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    return exported;
+  }
+
+  // Pair each order with the order it duplicates, loaded in one query
+  private async withLinkedOrders(
+    shopDomain: string,
+    orders: Order[]
+  ): Promise<FlaggedOrderExportRow[]> {
+    const linkedIds = Array.from(
+      new Set(
+        orders
+          .map((order) => order.duplicateOfOrderId)
+          .filter((id): id is string => Boolean(id))
+      )
+    );
+    const linkedOrders = new Map(
+      (await storage.getOrdersByIds(shopDomain, linkedIds)).map((order) => [order.id, order])
+    );
+    return orders.map((order) => ({
+      order,
+      linkedOrder: order.duplicateOfOrderId
+        ? linkedOrders.get(order.duplicateOfOrderId) ?? null
+        : null,
+    }));
+  }
+}
+
+export const exportService = new ExportService();
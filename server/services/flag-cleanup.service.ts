@@ -0,0 +1,46 @@
+import type { AuditLogActor, Order, StaffMember } from "@shared/schema";
+import { logger } from "../utils/logger";
+import { fulfillmentHoldService } from "./fulfillment-hold.service";
+import { matchDetailsService } from "./match-details.service";
+import { reviewTagService } from "./review-tag.service";
+
+/**
+ * Undo what a flag changed in Shopify once it is dismissed, resolved or
+ * cleared: remove the review tags, release any fulfillment hold and clear the
+ * match details. Pass the order as it was while flagged. Each step is tried on
+ * its own and failures are only logged, since the flag itself is already
+ * closed. Returns whether review tags were removed from the order.
+ */
+export async function clearFlagInShopify(
+  order: Order,
+  accessToken: string,
+  actor: AuditLogActor,
+  performedBy: StaffMember | null = null
+): Promise<{ tagRemoved: boolean }> {
+  let tagRemoved = false;
+  try {
+    tagRemoved = await reviewTagService.untagFlaggedOrder(order, accessToken);
+  } catch (error) {
+    logger.error(`[FlagCleanup] Failed to remove Shopify tags from ${order.shopifyOrderId}:`, error);
+  }
+
+  try {
+    await fulfillmentHoldService.releaseHold(order, accessToken, actor, performedBy);
+  } catch (error) {
+    logger.error(
+      `[FlagCleanup] Failed to release fulfillment hold for ${order.shopifyOrderId}:`,
+      error
+    );
+  }
+
+  try {
+    await matchDetailsService.clearForFlag(order, accessToken);
+  } catch (error) {
+    logger.error(
+      `[FlagCleanup] Failed to clear match details from ${order.shopifyOrderId}:`,
+      error
+    );
+  }
+
+  return { tagRemoved };
+}
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  storage: { updateOrder: vi.fn(), createAuditLog: vi.fn() },
+  shopifyService: { holdFulfillmentOrders: vi.fn(), releaseFulfillmentHolds: vi.fn() },
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("../storage", () => ({ storage: mocks.storage }));
+vi.mock("./shopify.service", () => ({ shopifyService: mocks.shopifyService }));
+vi.mock("../utils/logger", () => ({ logger: mocks.logger }));
+
+import { fulfillmentHoldService, shouldHoldFulfillment } from "./fulfillment-hold.service";
+
+const shopDomain = "test.myshopify.com";
+const staff = { userId: "42", name: "Grace Hopper", email: null };
+
+function buildOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "stored-2",
+    shopDomain,
+    shopifyOrderId: "1002",
+    orderNumber: "1002",
+    matchConfidence: 95,
+    fulfillmentHoldStatus: null,
+    fulfillmentHoldIds: null,
+    ...overrides,
+  } as any;
+}
+
+const original = buildOrder({ id: "stored-1", shopifyOrderId: "1001", orderNumber: "1001" });
+
+describe("shouldHoldFulfillment", () => {
+  it("holds only when enabled and the confidence reaches the threshold", () => {
+    expect(shouldHoldFulfillment(undefined, 100)).toBe(false);
+    expect(shouldHoldFulfillment({ holdFulfillment: false, fulfillmentHoldThreshold: 50 }, 100)).toBe(false);
+    expect(shouldHoldFulfillment({ holdFulfillment: true, fulfillmentHoldThreshold: 90 }, 89.6)).toBe(true);
+    expect(shouldHoldFulfillment({ holdFulfillment: true, fulfillmentHoldThreshold: 90 }, 85)).toBe(false);
+  });
+});
+
+describe("FulfillmentHoldService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.storage.updateOrder.mockImplementation(
+      async (_shop: string, id: string, updates: object) => ({ ...buildOrder({ id }), ...updates })
+    );
+  });
+
+  it("records held fulfillment orders and audits the hold", async () => {
+    mocks.shopifyService.holdFulfillmentOrders.mockResolvedValue({ held: ["501"], failed: [] });
+
+    const result = await fulfillmentHoldService.holdFlaggedOrder(buildOrder(), original, "token");
+
+    expect(mocks.shopifyService.holdFulfillmentOrders).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1002",
+      expect.stringContaining("#1001")
+    );
+    expect(result.fulfillmentHoldStatus).toBe("held");
+    expect(result.fulfillmentHoldIds).toEqual(["501"]);
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "fulfillment_held", actor: "system" })
+    );
+  });
+
+  it("records a failed hold without throwing", async () => {
+    mocks.shopifyService.holdFulfillmentOrders.mockRejectedValue(new Error("403"));
+
+    const result = await fulfillmentHoldService.holdFlaggedOrder(buildOrder(), original, "token");
+
+    expect(result.fulfillmentHoldStatus).toBe("failed");
+    expect(mocks.storage.createAuditLog).not.toHaveBeenCalled();
+  });
+
+  it("leaves orders with nothing to hold unchanged", async () => {
+    mocks.shopifyService.holdFulfillmentOrders.mockResolvedValue({ held: [], failed: [] });
+
+    await fulfillmentHoldService.holdFlaggedOrder(buildOrder(), original, "token");
+
+    expect(mocks.storage.updateOrder).not.toHaveBeenCalled();
+  });
+
+  it("keeps fulfillment orders whose release failed on hold", async () => {
+    mocks.shopifyService.releaseFulfillmentHolds.mockResolvedValue(["502"]);
+
+    const result = await fulfillmentHoldService.releaseHold(
+      buildOrder({ fulfillmentHoldStatus: "held", fulfillmentHoldIds: ["501", "502"] }),
+      "token",
+      "dashboard",
+      staff
+    );
+
+    expect(result.fulfillmentHoldStatus).toBe("held");
+    expect(result.fulfillmentHoldIds).toEqual(["502"]);
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "fulfillment_released",
+        actor: "dashboard",
+        performedBy: staff,
+        details: { fulfillmentOrderIds: ["501"], failedFulfillmentOrderIds: ["502"] },
+      })
+    );
+  });
+
+  it("does nothing for orders that are not on hold", async () => {
+    await fulfillmentHoldService.releaseHold(buildOrder(), "token", "shopify");
+
+    expect(mocks.shopifyService.releaseFulfillmentHolds).not.toHaveBeenCalled();
+    expect(mocks.storage.updateOrder).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  DEFAULT_FULFILLMENT_HOLD_THRESHOLD,
+  type AuditLogActor,
+  type DetectionSettings,
+  type Order,
+  type StaffMember,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { logger } from "../utils/logger";
+import { shopifyService } from "./shopify.service";
+
+/**
+ * Whether a new live flag with this confidence should hold fulfillment.
+ * Holds are opt-in, so shops without settings never hold.
+ */
+export function shouldHoldFulfillment(
+  settings: Pick<DetectionSettings, "holdFulfillment" | "fulfillmentHoldThreshold"> | undefined,
+  confidence: number
+): boolean {
+  if (!settings?.holdFulfillment) {
+    return false;
+  }
+  return (
+    Math.round(confidence) >=
+    (settings.fulfillmentHoldThreshold ?? DEFAULT_FULFILLMENT_HOLD_THRESHOLD)
+  );
+}
+
+export class FulfillmentHoldService {
+  /**
+   * Hold fulfillment of a flagged order until the flag is cleared. The
+   * outcome is stored on the order; a Shopify failure is recorded as
+   * "failed" rather than thrown. Orders with nothing left to fulfill are
+   * returned unchanged.
+   */
+  async holdFlaggedOrder(order: Order, duplicateOf: Order, accessToken: string): Promise<Order> {
+    let held: string[] = [];
+    let failed: string[] = [];
+    try {
+      ({ held, failed } = await shopifyService.holdFulfillmentOrders(
+        order.shopDomain,
+        accessToken,
+        order.shopifyOrderId,
+        `Possible duplicate of order #${duplicateOf.orderNumber}, held by Duplicate Guard until reviewed`
+      ));
+      if (held.length === 0 && failed.length === 0) {
+        return order;
+      }
+    } catch (error) {
+      logger.error(`[FulfillmentHold] Failed to hold order ${order.shopifyOrderId}:`, error);
+    }
+
+    const updatedOrder = await storage.updateOrder(order.shopDomain, order.id, {
+      fulfillmentHoldStatus: held.length > 0 ? "held" : "failed",
+      fulfillmentHoldIds: held,
+    });
+
+    if (held.length > 0) {
+      await storage.createAuditLog({
+        shopDomain: order.shopDomain,
+        orderId: order.id,
+        action: "fulfillment_held",
+        actor: "system",
+        details: {
+          fulfillmentOrderIds: held,
+          failedFulfillmentOrderIds: failed,
+          matchConfidence: order.matchConfidence,
+        },
+      });
+    }
+
+    return updatedOrder;
+  }
+
+  /**
+   * Release the hold placed for a flag that was dismissed, resolved or
+   * cleared. Pass the order as it was while flagged. Fulfillment orders whose
+   * release fails stay recorded as held so a later release can retry them.
+   */
+  async releaseHold(
+    order: Order,
+    accessToken: string,
+    actor: AuditLogActor,
+    performedBy: StaffMember | null = null
+  ): Promise<Order> {
+    if (order.fulfillmentHoldStatus !== "held" || !order.fulfillmentHoldIds?.length) {
+      return order;
+    }
+
+    const failed = await shopifyService.releaseFulfillmentHolds(
+      order.shopDomain,
+      accessToken,
+      order.fulfillmentHoldIds
+    );
+    const released = order.fulfillmentHoldIds.filter((id) => !failed.includes(id));
+    if (released.length === 0) {
+      return order;
+    }
+
+    const updatedOrder = await storage.updateOrder(order.shopDomain, order.id, {
+      fulfillmentHoldStatus: failed.length > 0 ? "held" : "released",
+      fulfillmentHoldIds: failed,
+    });
+
+    await storage.createAuditLog({
+      shopDomain: order.shopDomain,
+      orderId: order.id,
+      action: "fulfillment_released",
+      actor,
+      performedBy,
+      details: { fulfillmentOrderIds: released, failedFulfillmentOrderIds: failed },
+    });
+
+    return updatedOrder;
+  }
+}
+
+export const fulfillmentHoldService = new FulfillmentHoldService();
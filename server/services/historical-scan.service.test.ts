@@ -11,7 +11,13 @@ const mocks = vi.hoisted(() => ({
     getStaleHistoricalScanRuns: vi.fn(),
   },
   queueService: { addJob: vi.fn(), isJobViable: vi.fn() },
-  shopifyService: { listOrdersCreatedSince: vi.fn() },
+  shopifyService: {
+    listOrdersCreatedSincePage: vi.fn(),
+    countOrdersCreatedSince: vi.fn(),
+    startBulkOrdersQuery: vi.fn(),
+    getBulkOperation: vi.fn(),
+    streamBulkOperationOrders: vi.fn(),
+  },
   processOrder: vi.fn(),
   getOfflineAccessToken: vi.fn(),
   logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
@@ -30,6 +36,7 @@ vi.mock("../shopify-auth", () => ({
 vi.mock("../utils/logger", () => ({ logger: mocks.logger }));
 
 import {
+  compareOrdersChronologically,
   countConnectedDuplicateGroups,
   HistoricalScanService,
 } from "./historical-scan.service";
@@ -47,11 +54,22 @@ const run = {
   ordersFetched: 0,
   ordersImported: 0,
   matchesFound: 0,
-  candidateCapExceeded: false,
+  candidateCounts: { email: 0, phone: 0, address: 0, sku: 0 },
   queueJobId: null,
   errorMessage: null,
+  fetchMode: null,
+  bulkOperationId: null,
+  checkpoint: null,
 } as const;
 
+const completedExport = {
+  id: "gid://shopify/BulkOperation/9",
+  status: "COMPLETED",
+  errorCode: null,
+  objectCount: "4",
+  url: "https://storage.example.com/export.jsonl",
+};
+
 describe("HistoricalScanService", () => {
   let service: HistoricalScanService;
 
@@ -67,16 +85,20 @@ describe("HistoricalScanService", () => {
     mocks.processOrder.mockResolvedValue({
       order: { id: "stored" },
       match: null,
-      candidateCapExceeded: false,
+      candidateCounts: { email: 1, phone: 0, address: 2, sku: 3 },
     });
     mocks.queueService.addJob.mockResolvedValue("job-1");
+    mocks.shopifyService.countOrdersCreatedSince.mockResolvedValue(120);
   });
 
   it("processes fetched orders chronologically with historical provenance", async () => {
-    mocks.shopifyService.listOrdersCreatedSince.mockResolvedValue([
-      { id: 2, created_at: "2026-06-02T00:00:00.000Z" },
-      { id: 1, created_at: "2026-06-01T00:00:00.000Z" },
-    ]);
+    mocks.shopifyService.listOrdersCreatedSincePage.mockResolvedValue({
+      orders: [
+        { id: 2, created_at: "2026-06-02T00:00:00.000Z" },
+        { id: 1, created_at: "2026-06-01T00:00:00.000Z" },
+      ],
+      nextCursor: null,
+    });
     mocks.storage.getFlaggedOrdersForScan.mockResolvedValue([
       { id: "b", duplicateOfOrderId: "a" },
       { id: "c", duplicateOfOrderId: "b" },
@@ -100,12 +122,169 @@ describe("HistoricalScanService", () => {
         ordersFetched: 2,
         ordersImported: 2,
         matchesFound: 1,
+        candidateCounts: { email: 2, phone: 0, address: 4, sku: 6 },
+      })
+    );
+  });
+
+  it("saves a checkpoint with the counters after each page", async () => {
+    mocks.shopifyService.listOrdersCreatedSincePage
+      .mockResolvedValueOnce({
+        orders: [{ id: "1", created_at: "2026-06-01T00:00:00.000Z" }],
+        nextCursor: "cursor-1",
+      })
+      .mockResolvedValueOnce({
+        orders: [{ id: "2", created_at: "2026-06-02T00:00:00.000Z" }],
+        nextCursor: null,
+      });
+
+    await service.executeRun(run.id);
+
+    expect(mocks.shopifyService.listOrdersCreatedSincePage.mock.calls.map((call) => call[4])).toEqual([
+      null,
+      "cursor-1",
+    ]);
+    expect(mocks.storage.updateHistoricalScanRun).toHaveBeenCalledWith(run.id, {
+      checkpoint: {
+        cursor: "cursor-1",
+        lastOrderCreatedAt: "2026-06-01T00:00:00.000Z",
+        lastOrderId: "1",
+      },
+      ordersFetched: 1,
+      ordersImported: 1,
+      candidateCounts: { email: 1, phone: 0, address: 2, sku: 3 },
+    });
+    expect(mocks.storage.updateHistoricalScanRun).toHaveBeenLastCalledWith(
+      run.id,
+      expect.objectContaining({ status: "completed", ordersFetched: 2, checkpoint: null })
+    );
+  });
+
+  it("resumes from the checkpoint without reprocessing orders", async () => {
+    mocks.storage.getHistoricalScanRunById.mockResolvedValue({
+      ...run,
+      status: "failed",
+      fetchMode: "paged",
+      ordersFetched: 1,
+      ordersImported: 1,
+      candidateCounts: { email: 1, phone: 0, address: 2, sku: 3 },
+      checkpoint: {
+        cursor: "cursor-1",
+        lastOrderCreatedAt: "2026-06-01T00:00:00.000Z",
+        lastOrderId: "1",
+      },
+    });
+    mocks.shopifyService.listOrdersCreatedSincePage.mockResolvedValue({
+      orders: [
+        { id: "1", created_at: "2026-06-01T00:00:00.000Z" },
+        { id: "2", created_at: "2026-06-02T00:00:00.000Z" },
+      ],
+      nextCursor: null,
+    });
+
+    await service.executeRun(run.id);
+
+    expect(mocks.shopifyService.countOrdersCreatedSince).not.toHaveBeenCalled();
+    expect(mocks.shopifyService.listOrdersCreatedSincePage).toHaveBeenCalledTimes(1);
+    expect(mocks.shopifyService.listOrdersCreatedSincePage.mock.calls[0][4]).toBe("cursor-1");
+    expect(mocks.processOrder.mock.calls.map((call) => call[0].shopifyOrderId)).toEqual(["2"]);
+    expect(mocks.storage.updateHistoricalScanRun).toHaveBeenLastCalledWith(
+      run.id,
+      expect.objectContaining({
+        status: "completed",
+        ordersFetched: 2,
+        ordersImported: 2,
+        candidateCounts: { email: 2, phone: 0, address: 4, sku: 6 },
       })
     );
   });
 
+  it("completes without fetching when the checkpoint follows the last page", async () => {
+    mocks.storage.getHistoricalScanRunById.mockResolvedValue({
+      ...run,
+      status: "running",
+      fetchMode: "paged",
+      ordersFetched: 40,
+      checkpoint: { cursor: null, lastOrderCreatedAt: "2026-06-30T00:00:00.000Z", lastOrderId: "40" },
+    });
+
+    await service.executeRun(run.id);
+
+    expect(mocks.shopifyService.listOrdersCreatedSincePage).not.toHaveBeenCalled();
+    expect(mocks.storage.updateHistoricalScanRun).toHaveBeenLastCalledWith(
+      run.id,
+      expect.objectContaining({ status: "completed", ordersFetched: 40 })
+    );
+  });
+
+  it("exports large windows with a bulk operation and processes the file in order", async () => {
+    mocks.shopifyService.countOrdersCreatedSince.mockResolvedValue(5000);
+    mocks.shopifyService.startBulkOrdersQuery.mockResolvedValue(completedExport.id);
+    mocks.shopifyService.getBulkOperation.mockResolvedValue(completedExport);
+    mocks.shopifyService.streamBulkOperationOrders.mockImplementation(
+      async (_url: string, onOrder: (order: object) => Promise<void>) => {
+        await onOrder({ id: "1", created_at: "2026-06-01T00:00:00.000Z" });
+        await onOrder({ id: "2", created_at: "2026-06-02T00:00:00.000Z" });
+        return 2;
+      }
+    );
+
+    await service.executeRun(run.id);
+
+    expect(mocks.shopifyService.listOrdersCreatedSincePage).not.toHaveBeenCalled();
+    expect(mocks.storage.updateHistoricalScanRun).toHaveBeenCalledWith(run.id, {
+      fetchMode: "bulk",
+    });
+    expect(mocks.storage.updateHistoricalScanRun).toHaveBeenCalledWith(run.id, {
+      bulkOperationId: completedExport.id,
+    });
+    expect(mocks.processOrder.mock.calls.map((call) => call[0].shopifyOrderId)).toEqual([
+      "1",
+      "2",
+    ]);
+    expect(mocks.storage.updateHistoricalScanRun).toHaveBeenLastCalledWith(
+      run.id,
+      expect.objectContaining({ status: "completed", ordersFetched: 2, ordersImported: 2 })
+    );
+  });
+
+  it("downloads the export a previous attempt started instead of starting another", async () => {
+    mocks.storage.getHistoricalScanRunById.mockResolvedValue({
+      ...run,
+      bulkOperationId: completedExport.id,
+    });
+    mocks.shopifyService.getBulkOperation.mockResolvedValue(completedExport);
+    mocks.shopifyService.streamBulkOperationOrders.mockResolvedValue(0);
+
+    await service.executeRun(run.id);
+
+    expect(mocks.shopifyService.countOrdersCreatedSince).not.toHaveBeenCalled();
+    expect(mocks.shopifyService.startBulkOrdersQuery).not.toHaveBeenCalled();
+    expect(mocks.shopifyService.streamBulkOperationOrders).toHaveBeenCalledWith(
+      completedExport.url,
+      expect.any(Function)
+    );
+  });
+
+  it("fails the run when the bulk operation fails", async () => {
+    mocks.shopifyService.countOrdersCreatedSince.mockResolvedValue(8000);
+    mocks.shopifyService.startBulkOrdersQuery.mockResolvedValue(completedExport.id);
+    mocks.shopifyService.getBulkOperation.mockResolvedValue({
+      ...completedExport,
+      status: "FAILED",
+      errorCode: "INTERNAL_SERVER_ERROR",
+      url: null,
+    });
+
+    await expect(service.executeRun(run.id)).rejects.toThrow("FAILED");
+    expect(mocks.storage.updateHistoricalScanRun).toHaveBeenLastCalledWith(
+      run.id,
+      expect.objectContaining({ status: "failed" })
+    );
+  });
+
   it("marks a failed fetch safely", async () => {
-    mocks.shopifyService.listOrdersCreatedSince.mockRejectedValue(
+    mocks.shopifyService.listOrdersCreatedSincePage.mockRejectedValue(
       new Error("raw Shopify response")
     );
 
@@ -160,3 +339,43 @@ describe("countConnectedDuplicateGroups", () => {
     ).toBe(1);
   });
 });
+
+describe("compareOrdersChronologically", () => {
+  const createdAt = "2026-06-01T10:00:00.000Z";
+
+  it("breaks created_at ties by numeric ID, whatever the ID length", () => {
+    expect(
+      compareOrdersChronologically(
+        { id: "999", created_at: createdAt },
+        { id: "1000", created_at: createdAt }
+      )
+    ).toBeLessThan(0);
+    expect(
+      compareOrdersChronologically(
+        { id: 5450000000000, created_at: createdAt },
+        { id: "10000000000000000", created_at: createdAt }
+      )
+    ).toBeLessThan(0);
+    expect(
+      compareOrdersChronologically(
+        { id: "9007199254740993", created_at: createdAt },
+        { id: "9007199254740992", created_at: createdAt }
+      )
+    ).toBeGreaterThan(0);
+    expect(
+      compareOrdersChronologically(
+        { id: "42", created_at: createdAt },
+        { id: 42, created_at: createdAt }
+      )
+    ).toBe(0);
+  });
+
+  it("orders by created_at before ID", () => {
+    expect(
+      compareOrdersChronologically(
+        { id: "1000", created_at: "2026-06-01T09:00:00.000Z" },
+        { id: "999", created_at: createdAt }
+      )
+    ).toBeLessThan(0);
+  });
+});
@@ -1,11 +1,18 @@
-import type { HistoricalScanRun, Order } from "@shared/schema";
+import {
+  DETECTION_CANDIDATE_SIGNALS,
+  EMPTY_DETECTION_CANDIDATE_COUNTS,
+  type HistoricalScanFetchMode,
+  type HistoricalScanRun,
+  type Order,
+} from "@shared/schema";
 import { getOfflineAccessToken } from "../shopify-auth";
 import { storage } from "../storage";
 import { logger } from "../utils/logger";
-import { mapShopifyOrder } from "./order-mapper.service";
+import { mapShopifyOrder, type ShopifyOrderPayload } from "./order-mapper.service";
 import { processOrder } from "./order-processing.service";
 import { queueService, QUEUES } from "./queue.service";
 import { shopifyService } from "./shopify.service";
+import type { ShopifyBulkOperation, ShopifyBulkOperationStatus } from "./shopify-order-queries";
 
 const WINDOW_DAYS = 60;
 const JOB_EXPIRE_MINUTES = 120;
@@ -16,6 +23,23 @@ const STALE_BUDGET_MS =
     JOB_RETRY_DELAY_SECONDS * JOB_RETRY_LIMIT) *
   1000;
 
+// Windows with at least this many orders are fetched with a bulk operation
+const BULK_SCAN_ORDER_THRESHOLD = parseInt(
+  process.env.HISTORICAL_SCAN_BULK_THRESHOLD || "5000",
+  10
+);
+const BULK_POLL_INTERVAL_MS = 5000;
+// Leaves time within one job attempt to process the export
+const BULK_MAX_WAIT_MS = 60 * 60 * 1000;
+// Bulk exports have no pages, so progress is saved every this many orders
+const BULK_CHECKPOINT_INTERVAL = 250;
+// Exports a retry can wait for or download instead of starting another
+const BULK_USABLE_STATUSES: ShopifyBulkOperationStatus[] = ["CREATED", "RUNNING", "COMPLETED"];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 export class HistoricalScanConflictError extends Error {
   constructor(public readonly run: HistoricalScanRun) {
     super(`Historical scan is ${run.status}`);
@@ -27,6 +51,20 @@ function isUniqueViolation(error: unknown): boolean {
   return message.includes("duplicate key") || message.includes("unique constraint");
 }
 
+// Oldest first; orders created in the same second go by ID. Shopify IDs are
+// numeric and can exceed Number.MAX_SAFE_INTEGER, so they compare as BigInts
+function compareOrdersChronologically(
+  left: Pick<ShopifyOrderPayload, "id" | "created_at">,
+  right: Pick<ShopifyOrderPayload, "id" | "created_at">
+): number {
+  const timeDiff =
+    new Date(left.created_at || 0).getTime() - new Date(right.created_at || 0).getTime();
+  if (timeDiff) return timeDiff;
+  const leftId = BigInt(left.id);
+  const rightId = BigInt(right.id);
+  return leftId === rightId ? 0 : leftId < rightId ? -1 : 1;
+}
+
 function countConnectedDuplicateGroups(flaggedOrders: Order[]): number {
   const parent: Record<string, string> = {};
   const find = (id: string): string => {
@@ -99,7 +137,7 @@ export class HistoricalScanService {
           ordersFetched: 0,
           ordersImported: 0,
           matchesFound: 0,
-          candidateCapExceeded: false,
+          candidateCounts: { ...EMPTY_DETECTION_CANDIDATE_COUNTS },
           queueJobId: null,
           errorMessage: null,
         });
@@ -142,29 +180,85 @@ export class HistoricalScanService {
       const since = new Date(
         run.requestedAt.getTime() - run.windowDays * 24 * 60 * 60 * 1000
       );
-      const shopifyOrders = await shopifyService.listOrdersCreatedSince(
-        run.shopDomain,
-        accessToken,
-        since,
-        run.requestedAt
-      );
-      shopifyOrders.sort((left, right) => {
-        const timeDiff =
-          new Date(left.created_at || 0).getTime() -
-          new Date(right.created_at || 0).getTime();
-        return timeDiff || String(left.id).localeCompare(String(right.id));
-      });
 
-      let ordersImported = 0;
-      let candidateCapExceeded = run.candidateCapExceeded;
-      for (const shopifyOrder of shopifyOrders) {
+      // A checkpoint means an earlier attempt got this far: keep its counters
+      // and skip the orders it already processed
+      const { checkpoint } = run;
+      let ordersFetched = checkpoint ? run.ordersFetched : 0;
+      let ordersImported = checkpoint ? run.ordersImported : 0;
+      const candidateCounts = checkpoint
+        ? { ...run.candidateCounts }
+        : { ...EMPTY_DETECTION_CANDIDATE_COUNTS };
+      let lastOrder: Pick<ShopifyOrderPayload, "id" | "created_at"> | null =
+        checkpoint?.lastOrderId
+          ? { id: checkpoint.lastOrderId, created_at: checkpoint.lastOrderCreatedAt }
+          : null;
+
+      const processShopifyOrder = async (shopifyOrder: ShopifyOrderPayload) => {
+        if (lastOrder && compareOrdersChronologically(shopifyOrder, lastOrder) <= 0) {
+          return;
+        }
+        ordersFetched += 1;
         const result = await processOrder(
           mapShopifyOrder(run.shopDomain, shopifyOrder),
           accessToken,
           { mode: "historical", scanRunId: run.id }
         );
         if (result.order) ordersImported += 1;
-        candidateCapExceeded ||= result.candidateCapExceeded;
+        for (const signal of DETECTION_CANDIDATE_SIGNALS) {
+          candidateCounts[signal] += result.candidateCounts[signal];
+        }
+        lastOrder = shopifyOrder;
+      };
+      const saveCheckpoint = (cursor: string | null) =>
+        storage.updateHistoricalScanRun(run.id, {
+          checkpoint: {
+            cursor,
+            lastOrderCreatedAt: lastOrder
+              ? new Date(lastOrder.created_at || 0).toISOString()
+              : null,
+            lastOrderId: lastOrder ? String(lastOrder.id) : null,
+          },
+          ordersFetched,
+          ordersImported,
+          candidateCounts: { ...candidateCounts },
+        });
+
+      const fetchMode = await this.chooseFetchMode(run, accessToken, since);
+      await storage.updateHistoricalScanRun(run.id, { fetchMode });
+
+      if (fetchMode === "bulk") {
+        const operation = await this.runBulkExport(run, accessToken, since);
+        if (operation.url) {
+          let sinceCheckpoint = 0;
+          await shopifyService.streamBulkOperationOrders(operation.url, async (shopifyOrder) => {
+            await processShopifyOrder(shopifyOrder);
+            sinceCheckpoint += 1;
+            if (sinceCheckpoint >= BULK_CHECKPOINT_INTERVAL) {
+              sinceCheckpoint = 0;
+              await saveCheckpoint(null);
+            }
+          });
+        }
+      } else {
+        // A checkpoint without a cursor was saved after the last page
+        let cursor = checkpoint ? checkpoint.cursor : null;
+        let hasMorePages = !checkpoint || checkpoint.cursor !== null;
+        while (hasMorePages) {
+          const page = await shopifyService.listOrdersCreatedSincePage(
+            run.shopDomain,
+            accessToken,
+            since,
+            run.requestedAt,
+            cursor
+          );
+          for (const shopifyOrder of page.orders.sort(compareOrdersChronologically)) {
+            await processShopifyOrder(shopifyOrder);
+          }
+          cursor = page.nextCursor;
+          hasMorePages = cursor !== null;
+          await saveCheckpoint(cursor);
+        }
       }
 
       const flaggedOrders = await storage.getFlaggedOrdersForScan(run.id);
@@ -172,10 +266,11 @@ export class HistoricalScanService {
         status: "completed",
         statusUpdatedAt: new Date(),
         completedAt: new Date(),
-        ordersFetched: shopifyOrders.length,
+        ordersFetched,
         ordersImported,
         matchesFound: countConnectedDuplicateGroups(flaggedOrders),
-        candidateCapExceeded,
+        candidateCounts,
+        checkpoint: null,
         errorMessage: null,
       });
     } catch (error) {
@@ -190,6 +285,79 @@ export class HistoricalScanService {
     }
   }
 
+  /**
+   * Bulk export when the window holds enough orders that paging through them
+   * would be slow, and always when a previous attempt already started one.
+   * A resumed scan keeps the path its checkpoint was saved on. A failed
+   * estimate falls back to paging.
+   */
+  private async chooseFetchMode(
+    run: HistoricalScanRun,
+    accessToken: string,
+    since: Date
+  ): Promise<HistoricalScanFetchMode> {
+    if (run.checkpoint && run.fetchMode) {
+      return run.fetchMode;
+    }
+    if (run.bulkOperationId) {
+      return "bulk";
+    }
+    try {
+      const orderCount = await shopifyService.countOrdersCreatedSince(
+        run.shopDomain,
+        accessToken,
+        since,
+        run.requestedAt,
+        BULK_SCAN_ORDER_THRESHOLD
+      );
+      return orderCount >= BULK_SCAN_ORDER_THRESHOLD ? "bulk" : "paged";
+    } catch (error) {
+      logger.warn(`[HistoricalScan] Could not estimate order count for run ${run.id}:`, error);
+      return "paged";
+    }
+  }
+
+  /**
+   * Wait for the run's bulk export to complete, starting one unless a previous
+   * attempt's export is still running or finished.
+   */
+  private async runBulkExport(
+    run: HistoricalScanRun,
+    accessToken: string,
+    since: Date
+  ): Promise<ShopifyBulkOperation> {
+    let operation = run.bulkOperationId
+      ? await shopifyService.getBulkOperation(run.shopDomain, accessToken, run.bulkOperationId)
+      : null;
+    if (!operation || !BULK_USABLE_STATUSES.includes(operation.status)) {
+      const operationId = await shopifyService.startBulkOrdersQuery(
+        run.shopDomain,
+        accessToken,
+        since,
+        run.requestedAt
+      );
+      await storage.updateHistoricalScanRun(run.id, { bulkOperationId: operationId });
+      operation = await shopifyService.getBulkOperation(run.shopDomain, accessToken, operationId);
+    }
+
+    const deadline = Date.now() + BULK_MAX_WAIT_MS;
+    while (operation && (operation.status === "CREATED" || operation.status === "RUNNING")) {
+      if (Date.now() > deadline) {
+        throw new Error(`Bulk operation ${operation.id} did not finish in time`);
+      }
+      await sleep(BULK_POLL_INTERVAL_MS);
+      operation = await shopifyService.getBulkOperation(run.shopDomain, accessToken, operation.id);
+    }
+    if (!operation || operation.status !== "COMPLETED") {
+      throw new Error(
+        `Bulk operation ended as ${operation?.status ?? "unknown"}${
+          operation?.errorCode ? ` (${operation.errorCode})` : ""
+        }`
+      );
+    }
+    return operation;
+  }
+
   async reconcileStaleRuns(now = new Date()): Promise<number> {
     const cutoff = new Date(now.getTime() - STALE_BUDGET_MS);
     const staleRuns = await storage.getStaleHistoricalScanRuns(cutoff);
@@ -211,4 +379,4 @@ export class HistoricalScanService {
 }
 
 export const historicalScanService = new HistoricalScanService();
-export { countConnectedDuplicateGroups };
+export { compareOrdersChronologically, countConnectedDuplicateGroups };
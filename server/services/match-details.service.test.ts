@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  storage: { updateOrder: vi.fn() },
+  shopifyService: { writeOrderMatchDetails: vi.fn(), clearOrderMatchDetails: vi.fn() },
+}));
+
+vi.mock("../storage", () => ({ storage: mocks.storage }));
+vi.mock("./shopify.service", () => ({ shopifyService: mocks.shopifyService }));
+
+import {
+  buildMatchMetafieldValue,
+  buildMatchNote,
+  matchDetailsService,
+} from "./match-details.service";
+
+const shopDomain = "test.myshopify.com";
+
+function buildOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "stored-2",
+    shopDomain,
+    shopifyOrderId: "1002",
+    orderNumber: "1002",
+    matchConfidence: 85,
+    matchReason: "Same email and shipping address",
+    flaggedAt: new Date("2026-10-01T09:30:00.000Z"),
+    shopifyMatchDetails: null,
+    ...overrides,
+  } as any;
+}
+
+const original = buildOrder({ id: "stored-1", shopifyOrderId: "1001", orderNumber: "1001" });
+
+describe("match details", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("APP_URL", "https://app.example.com");
+    mocks.storage.updateOrder.mockImplementation(
+      async (_shop: string, id: string, updates: object) => ({ ...buildOrder({ id }), ...updates })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("describes the matched order, confidence, reason and review link", () => {
+    expect(buildMatchMetafieldValue(buildOrder(), original)).toEqual({
+      duplicateOfOrderId: "1001",
+      duplicateOfOrderName: "#1001",
+      confidence: 85,
+      matchReason: "Same email and shipping address",
+      flaggedAt: "2026-10-01T09:30:00.000Z",
+      appUrl: "https://app.example.com/activity?orderId=stored-2",
+    });
+    expect(buildMatchNote(buildOrder(), original)).toBe(
+      "Duplicate Guard: possible duplicate of order #1001 (85% confidence, Same email and shipping address). Review: https://app.example.com/activity?orderId=stored-2"
+    );
+  });
+
+  it("writes only the details the shop enabled and records them", async () => {
+    mocks.shopifyService.writeOrderMatchDetails.mockResolvedValue({ metafieldId: "77", note: null });
+
+    const result = await matchDetailsService.writeForFlag(
+      buildOrder(),
+      original,
+      { writeMatchMetafield: true, appendMatchNote: false },
+      "token"
+    );
+
+    expect(mocks.shopifyService.writeOrderMatchDetails).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1002",
+      expect.objectContaining({ duplicateOfOrderId: "1001" }),
+      null
+    );
+    expect(result.shopifyMatchDetails).toEqual({ metafieldId: "77", note: null });
+  });
+
+  it("skips Shopify when both settings are off", async () => {
+    await matchDetailsService.writeForFlag(
+      buildOrder(),
+      original,
+      { writeMatchMetafield: false, appendMatchNote: false },
+      "token"
+    );
+    await matchDetailsService.writeForFlag(buildOrder(), original, undefined, "token");
+
+    expect(mocks.shopifyService.writeOrderMatchDetails).not.toHaveBeenCalled();
+    expect(mocks.storage.updateOrder).not.toHaveBeenCalled();
+  });
+
+  it("clears recorded details and leaves orders without any untouched", async () => {
+    const details = { metafieldId: "77", note: "Duplicate Guard: ..." };
+
+    await matchDetailsService.clearForFlag(buildOrder({ shopifyMatchDetails: details }), "token");
+    await matchDetailsService.clearForFlag(buildOrder(), "token");
+
+    expect(mocks.shopifyService.clearOrderMatchDetails).toHaveBeenCalledTimes(1);
+    expect(mocks.shopifyService.clearOrderMatchDetails).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1002",
+      details
+    );
+    expect(mocks.storage.updateOrder).toHaveBeenCalledWith(shopDomain, "stored-2", {
+      shopifyMatchDetails: null,
+    });
+  });
+
+  it("replaces the details written for the old match", async () => {
+    const details = { metafieldId: "77", note: "Duplicate Guard: old match" };
+    mocks.shopifyService.writeOrderMatchDetails.mockResolvedValue({
+      metafieldId: "78",
+      note: null,
+    });
+
+    const result = await matchDetailsService.rewriteForFlag(
+      buildOrder({ shopifyMatchDetails: details }),
+      original,
+      { writeMatchMetafield: true, appendMatchNote: false },
+      "token"
+    );
+
+    expect(mocks.shopifyService.clearOrderMatchDetails).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1002",
+      details
+    );
+    expect(mocks.shopifyService.writeOrderMatchDetails).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1002",
+      expect.objectContaining({ duplicateOfOrderId: "1001" }),
+      null
+    );
+    expect(result.shopifyMatchDetails).toEqual({ metafieldId: "78", note: null });
+  });
+});
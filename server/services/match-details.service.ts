@@ -0,0 +1,107 @@
+import type { DetectionSettings, Order } from "@shared/schema";
+import { storage } from "../storage";
+import { shopifyService } from "./shopify.service";
+
+function getAppUrl(shopDomain: string): string {
+  return process.env.APP_URL || `https://${shopDomain}/admin/apps/order-auditor`;
+}
+
+// The order's timeline in the app's activity log
+function getOrderLink(order: Order): string {
+  return `${getAppUrl(order.shopDomain)}/activity?orderId=${encodeURIComponent(order.id)}`;
+}
+
+/**
+ * Value of the match metafield: which order this one duplicates, how sure
+ * the match is and where to review it.
+ */
+export function buildMatchMetafieldValue(order: Order, duplicateOf: Order): Record<string, unknown> {
+  return {
+    duplicateOfOrderId: duplicateOf.shopifyOrderId,
+    duplicateOfOrderName: `#${duplicateOf.orderNumber}`,
+    confidence: order.matchConfidence,
+    matchReason: order.matchReason,
+    flaggedAt: order.flaggedAt ? new Date(order.flaggedAt).toISOString() : null,
+    appUrl: getOrderLink(order),
+  };
+}
+
+/**
+ * One-line match summary appended to the order note.
+ */
+export function buildMatchNote(order: Order, duplicateOf: Order): string {
+  return `Duplicate Guard: possible duplicate of order #${duplicateOf.orderNumber} (${order.matchConfidence}% confidence, ${order.matchReason}). Review: ${getOrderLink(order)}`;
+}
+
+export class MatchDetailsService {
+  /**
+   * Write the match details the shop enabled to a newly flagged order and
+   * record what was written on the order.
+   */
+  async writeForFlag(
+    order: Order,
+    duplicateOf: Order,
+    settings: Pick<DetectionSettings, "writeMatchMetafield" | "appendMatchNote"> | undefined,
+    accessToken: string
+  ): Promise<Order> {
+    if (!settings?.writeMatchMetafield && !settings?.appendMatchNote) {
+      return order;
+    }
+
+    const details = await shopifyService.writeOrderMatchDetails(
+      order.shopDomain,
+      accessToken,
+      order.shopifyOrderId,
+      settings.writeMatchMetafield ? buildMatchMetafieldValue(order, duplicateOf) : null,
+      settings.appendMatchNote ? buildMatchNote(order, duplicateOf) : null
+    );
+    if (!details.metafieldId && !details.note) {
+      return order;
+    }
+    return storage.updateOrder(order.shopDomain, order.id, { shopifyMatchDetails: details });
+  }
+
+  /**
+   * Replace the match details on a flagged order whose match changed: clear
+   * what was written for the old match, then write the new details the shop
+   * has enabled.
+   */
+  async rewriteForFlag(
+    order: Order,
+    duplicateOf: Order,
+    settings: Pick<DetectionSettings, "writeMatchMetafield" | "appendMatchNote"> | undefined,
+    accessToken: string
+  ): Promise<Order> {
+    let cleared = order;
+    if (order.shopifyMatchDetails) {
+      await shopifyService.clearOrderMatchDetails(
+        order.shopDomain,
+        accessToken,
+        order.shopifyOrderId,
+        order.shopifyMatchDetails
+      );
+      cleared = await storage.updateOrder(order.shopDomain, order.id, {
+        shopifyMatchDetails: null,
+      });
+    }
+    return this.writeForFlag(cleared, duplicateOf, settings, accessToken);
+  }
+
+  /**
+   * Clear the match details recorded on an order whose flag is no longer open.
+   */
+  async clearForFlag(order: Order, accessToken: string): Promise<void> {
+    if (!order.shopifyMatchDetails) {
+      return;
+    }
+    await shopifyService.clearOrderMatchDetails(
+      order.shopDomain,
+      accessToken,
+      order.shopifyOrderId,
+      order.shopifyMatchDetails
+    );
+    await storage.updateOrder(order.shopDomain, order.id, { shopifyMatchDetails: null });
+  }
+}
+
+export const matchDetailsService = new MatchDetailsService();
@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_DETECTION_RULE_WEIGHTS, type Order } from "@shared/schema";
+
+const mocks = vi.hoisted(() => ({
+  storage: {
+    getOrder: vi.fn(),
+    getSettings: vi.fn(),
+    initializeSettings: vi.fn(),
+  },
+}));
+
+vi.mock("../db", () => ({ db: {} }));
+vi.mock("../storage", () => ({ storage: mocks.storage }));
+
+import { buildOrderComparison, orderComparisonService } from "./order-comparison.service";
+
+const allSignals = {
+  matchEmail: true,
+  matchPhone: true,
+  matchAddress: true,
+  matchSku: true,
+};
+
+function buildOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    id: "order-1",
+    shopDomain: "test-shop.myshopify.com",
+    shopifyOrderId: "1001",
+    orderNumber: "1001",
+    customerEmail: "ada@example.com",
+    customerEmailCanonical: null,
+    customerName: "Ada Lovelace",
+    customerPhone: "555-123-4567",
+    customerPhoneNormalized: null,
+    shippingAddress: { address1: "123 Main Street", city: "New York", zip: "10001", country: "US" },
+    shippingAddressKey: null,
+    shopifyCustomerId: null,
+    customerTags: null,
+    totalPrice: "25.00",
+    currency: "USD",
+    createdAt: new Date("2026-05-01T10:00:00.000Z"),
+    isFlagged: false,
+    flagSource: "live",
+    flaggedByScanRunId: null,
+    flaggedAt: null,
+    duplicateOfOrderId: null,
+    matchReason: null,
+    matchConfidence: null,
+    resolvedAt: null,
+    resolvedBy: null,
+    lineItems: [
+      { id: "1", sku: "SKU-1", title: "Mug", quantity: 1, price: "10.00" },
+      { id: "2", sku: "SKU-2", title: "Tea", quantity: 1, price: "15.00" },
+    ],
+    ...overrides,
+  };
+}
+
+const original = buildOrder({ id: "order-0", shopifyOrderId: "1000", orderNumber: "1000" });
+const flagged = buildOrder({
+  isFlagged: true,
+  duplicateOfOrderId: "order-0",
+  customerEmail: "ADA@example.com",
+  customerPhone: "(555) 123-4567",
+  shippingAddress: { address1: "123 Main St", city: "Boston", zip: "10001", country: "US" },
+  totalPrice: "30.00",
+  lineItems: [
+    { id: "3", sku: "SKU-1", title: "Mug", quantity: 2, price: "10.00" },
+    { id: "4", sku: "SKU-3", title: "Spoon", quantity: 1, price: "10.00" },
+  ],
+});
+
+describe("buildOrderComparison", () => {
+  it("classifies each field and annotates the rules that scored on it", () => {
+    const comparison = buildOrderComparison(flagged, original, allSignals);
+    const fields = Object.fromEntries(comparison.fields.map((field) => [field.field, field]));
+
+    expect(fields.customerName).toMatchObject({ status: "match", signals: ["name"] });
+    expect(fields.customerEmail).toMatchObject({ status: "match", signals: ["email"] });
+    expect(fields.customerPhone).toMatchObject({ status: "similar", signals: ["phone"] });
+    expect(fields["shippingAddress.address1"]).toMatchObject({
+      status: "similar",
+      signals: ["addressPartial"],
+    });
+    expect(fields["shippingAddress.city"].status).toBe("different");
+    expect(fields["shippingAddress.zip"].status).toBe("match");
+    expect(fields["shippingAddress.address2"].status).toBe("missing");
+    expect(fields.totalPrice).toMatchObject({
+      flaggedValue: "USD 30.00",
+      originalValue: "USD 25.00",
+      status: "different",
+      signals: [],
+    });
+    expect(comparison.signals.map((signal) => signal.ruleId)).toEqual([
+      "email",
+      "phone",
+      "addressPartial",
+      "name",
+      "sku",
+    ]);
+  });
+
+  it("treats totals within the shop's tolerance as similar", () => {
+    const comparison = buildOrderComparison(flagged, original, {
+      ...allSignals,
+      totalPriceTolerancePercent: 20,
+      ruleWeights: { ...DEFAULT_DETECTION_RULE_WEIGHTS, totalPrice: 10 },
+    });
+
+    expect(comparison.fields.find((field) => field.field === "totalPrice")).toMatchObject({
+      status: "similar",
+      signals: ["totalPrice"],
+    });
+  });
+
+  it("aligns line items by SKU and reports quantity differences", () => {
+    const comparison = buildOrderComparison(flagged, original, allSignals);
+
+    expect(
+      comparison.lineItems.map(({ key, flaggedQuantity, originalQuantity, status }) => ({
+        key,
+        flaggedQuantity,
+        originalQuantity,
+        status,
+      }))
+    ).toEqual([
+      { key: "SKU-1", flaggedQuantity: 2, originalQuantity: 1, status: "quantity" },
+      { key: "SKU-3", flaggedQuantity: 1, originalQuantity: 0, status: "flaggedOnly" },
+      { key: "SKU-2", flaggedQuantity: 0, originalQuantity: 1, status: "originalOnly" },
+    ]);
+    expect(comparison.lineItemSignals).toEqual(["sku"]);
+    expect(comparison.basketSimilarity).toBeCloseTo(0.25);
+  });
+});
+
+describe("OrderComparisonService.getComparison", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.storage.getSettings.mockResolvedValue({
+      ...allSignals,
+      matchPhone: false,
+      matchSku: false,
+    });
+  });
+
+  it("returns null when the order has no linked duplicate", async () => {
+    await expect(
+      orderComparisonService.getComparison("test-shop.myshopify.com", original)
+    ).resolves.toBeNull();
+    expect(mocks.storage.getOrder).not.toHaveBeenCalled();
+  });
+
+  it("scores with the shop's settings for live findings", async () => {
+    mocks.storage.getOrder.mockResolvedValue(original);
+
+    const comparison = await orderComparisonService.getComparison(
+      "test-shop.myshopify.com",
+      flagged
+    );
+
+    expect(mocks.storage.getOrder).toHaveBeenCalledWith("test-shop.myshopify.com", "order-0");
+    expect(comparison?.duplicateOf).toBe(original);
+    expect(comparison?.signals.map((signal) => signal.ruleId)).not.toContain("phone");
+  });
+
+  it("uses the historical scan profile for historical findings", async () => {
+    mocks.storage.getOrder.mockResolvedValue(original);
+
+    const comparison = await orderComparisonService.getComparison("test-shop.myshopify.com", {
+      ...flagged,
+      flagSource: "historical",
+    });
+
+    expect(comparison?.signals.map((signal) => signal.ruleId)).toContain("phone");
+  });
+});
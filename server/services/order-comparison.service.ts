@@ -0,0 +1,261 @@
+import {
+  DEFAULT_TOTAL_PRICE_TOLERANCE_PERCENT,
+  type DetectionRuleId,
+  type Order,
+  type OrderComparison,
+  type OrderComparisonField,
+  type OrderComparisonFieldStatus,
+  type OrderComparisonLineItem,
+} from "@shared/schema";
+import { storage } from "../storage";
+import {
+  normalizeAddress,
+  type NormalizedAddress,
+  type ShippingAddress,
+} from "../utils/address";
+import { canonicalizeEmail } from "../utils/email";
+import { nameSimilarity, NAME_SIMILARITY_THRESHOLD } from "../utils/name";
+import { normalizePhoneNumber } from "../utils/phone";
+import {
+  basketSimilarity,
+  scoreMatch,
+  totalsWithinTolerance,
+  type MatchingSettings,
+} from "./detection-rules";
+import { HISTORICAL_SCAN_MATCHING_PROFILE } from "./duplicate-detection.service";
+
+const ADDRESS_SIGNALS: DetectionRuleId[] = ["addressExact", "addressPartial"];
+const LINE_ITEM_SIGNALS: DetectionRuleId[] = ["sku", "basket", "basketMismatch"];
+
+function clean(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+function sameText(first: string, second: string): boolean {
+  return first.replace(/\s+/g, " ").toLowerCase() === second.replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Status for a pair of values: "match" when equal as written, "similar" when
+ * `isSimilar` holds for the pair, "missing" when either side is empty.
+ */
+function compareValues(
+  flaggedValue: string | null,
+  originalValue: string | null,
+  isSimilar: (flagged: string, original: string) => boolean
+): OrderComparisonFieldStatus {
+  if (!flaggedValue || !originalValue) return "missing";
+  if (sameText(flaggedValue, originalValue)) return "match";
+  return isSimilar(flaggedValue, originalValue) ? "similar" : "different";
+}
+
+function addressFields(
+  order: Order,
+  duplicateOf: Order,
+  scoredSignals: Set<DetectionRuleId>
+): OrderComparisonField[] {
+  const flagged: ShippingAddress = order.shippingAddress ?? {};
+  const original: ShippingAddress = duplicateOf.shippingAddress ?? {};
+  const flaggedNormalized = normalizeAddress(order.shippingAddress);
+  const originalNormalized = normalizeAddress(duplicateOf.shippingAddress);
+  const addressSignals = ADDRESS_SIGNALS.filter((ruleId) => scoredSignals.has(ruleId));
+
+  const components: Array<{
+    key: keyof ShippingAddress;
+    label: string;
+    normalized: Array<keyof NormalizedAddress>;
+    scored: boolean;
+  }> = [
+    { key: "address1", label: "Address", normalized: ["street", "unit"], scored: true },
+    { key: "address2", label: "Address line 2", normalized: ["unit"], scored: false },
+    { key: "city", label: "City", normalized: ["city"], scored: true },
+    { key: "province", label: "Province", normalized: ["province"], scored: false },
+    { key: "zip", label: "Postcode", normalized: ["postcode"], scored: true },
+    { key: "country", label: "Country", normalized: ["country"], scored: false },
+  ];
+
+  return components.map(({ key, label, normalized, scored }) => {
+    const flaggedValue = clean(flagged[key]);
+    const originalValue = clean(original[key]);
+    return {
+      field: `shippingAddress.${key}`,
+      label,
+      group: "shippingAddress",
+      flaggedValue,
+      originalValue,
+      status: compareValues(
+        flaggedValue,
+        originalValue,
+        () =>
+          Boolean(flaggedNormalized && originalNormalized) &&
+          normalized.every((part) => flaggedNormalized![part] === originalNormalized![part])
+      ),
+      signals: scored ? addressSignals : [],
+    };
+  });
+}
+
+function compareTotals(
+  order: Order,
+  duplicateOf: Order,
+  tolerancePercent: number
+): OrderComparisonFieldStatus {
+  if (order.currency !== duplicateOf.currency) return "different";
+
+  const flaggedTotal = Number(order.totalPrice);
+  const originalTotal = Number(duplicateOf.totalPrice);
+  if (flaggedTotal === originalTotal) return "match";
+  return tolerancePercent > 0 &&
+    totalsWithinTolerance(flaggedTotal, originalTotal, tolerancePercent)
+    ? "similar"
+    : "different";
+}
+
+function lineItemKey(item: NonNullable<Order["lineItems"]>[number]): string {
+  return item.sku?.trim() || `title:${item.title?.trim().toLowerCase() ?? ""}`;
+}
+
+/**
+ * Line items of both orders aligned by SKU (or title for items without one),
+ * with quantities summed per product.
+ */
+function compareLineItems(order: Order, duplicateOf: Order): OrderComparisonLineItem[] {
+  const rows = new Map<string, OrderComparisonLineItem>();
+  const add = (items: Order["lineItems"], side: "flaggedQuantity" | "originalQuantity") => {
+    (items ?? []).forEach((item) => {
+      const key = lineItemKey(item);
+      if (key === "title:") return;
+      const row = rows.get(key) ?? {
+        key,
+        sku: clean(item.sku),
+        title: item.title,
+        flaggedQuantity: 0,
+        originalQuantity: 0,
+        status: "match",
+      };
+      row[side] += Math.max(0, item.quantity || 0);
+      rows.set(key, row);
+    });
+  };
+  add(order.lineItems, "flaggedQuantity");
+  add(duplicateOf.lineItems, "originalQuantity");
+
+  return Array.from(rows.values()).map((row) => ({
+    ...row,
+    status:
+      row.originalQuantity === 0
+        ? "flaggedOnly"
+        : row.flaggedQuantity === 0
+          ? "originalOnly"
+          : row.flaggedQuantity === row.originalQuantity
+            ? "match"
+            : "quantity",
+  }));
+}
+
+/**
+ * Compare a flagged order with the order it duplicates field by field, and
+ * re-score the pair so each field can show which rules it contributed to.
+ */
+export function buildOrderComparison(
+  order: Order,
+  duplicateOf: Order,
+  settings: MatchingSettings
+): OrderComparison {
+  const score = scoreMatch(order, duplicateOf, settings);
+  const scoredSignals = new Set(score.evaluations.map((evaluation) => evaluation.ruleId));
+  const signalsFor = (ruleIds: DetectionRuleId[]) =>
+    ruleIds.filter((ruleId) => scoredSignals.has(ruleId));
+  const tolerance =
+    settings.totalPriceTolerancePercent ?? DEFAULT_TOTAL_PRICE_TOLERANCE_PERCENT;
+
+  const customerName = [clean(order.customerName), clean(duplicateOf.customerName)] as const;
+  const customerEmail = [clean(order.customerEmail), clean(duplicateOf.customerEmail)] as const;
+  const customerPhone = [clean(order.customerPhone), clean(duplicateOf.customerPhone)] as const;
+
+  const fields: OrderComparisonField[] = [
+    {
+      field: "customerName",
+      label: "Name",
+      group: "customer",
+      flaggedValue: customerName[0],
+      originalValue: customerName[1],
+      status: compareValues(
+        ...customerName,
+        (flagged, original) => nameSimilarity(flagged, original) >= NAME_SIMILARITY_THRESHOLD
+      ),
+      signals: signalsFor(["name"]),
+    },
+    {
+      field: "customerEmail",
+      label: "Email",
+      group: "customer",
+      flaggedValue: customerEmail[0],
+      originalValue: customerEmail[1],
+      status: compareValues(
+        ...customerEmail,
+        (flagged, original) => canonicalizeEmail(flagged) === canonicalizeEmail(original)
+      ),
+      signals: signalsFor(["email"]),
+    },
+    {
+      field: "customerPhone",
+      label: "Phone",
+      group: "customer",
+      flaggedValue: customerPhone[0],
+      originalValue: customerPhone[1],
+      status: compareValues(...customerPhone, (flagged, original) => {
+        const normalized = normalizePhoneNumber(flagged);
+        return Boolean(normalized) && normalized === normalizePhoneNumber(original);
+      }),
+      signals: signalsFor(["phone"]),
+    },
+    ...addressFields(order, duplicateOf, scoredSignals),
+    {
+      field: "totalPrice",
+      label: "Order total",
+      group: "totals",
+      flaggedValue: `${order.currency} ${order.totalPrice}`,
+      originalValue: `${duplicateOf.currency} ${duplicateOf.totalPrice}`,
+      status: compareTotals(order, duplicateOf, tolerance),
+      signals: signalsFor(["totalPrice"]),
+    },
+  ];
+
+  return {
+    order,
+    duplicateOf,
+    confidence: score.confidence,
+    signals: score.evaluations,
+    fields,
+    lineItems: compareLineItems(order, duplicateOf),
+    lineItemSignals: signalsFor(LINE_ITEM_SIGNALS),
+    basketSimilarity: basketSimilarity(order.lineItems, duplicateOf.lineItems),
+  };
+}
+
+export class OrderComparisonService {
+  /**
+   * Compare an order with its linked duplicate using the shop's current
+   * settings (the historical scan profile for historical findings). Returns
+   * null when the order has no linked duplicate.
+   */
+  async getComparison(shopDomain: string, order: Order): Promise<OrderComparison | null> {
+    if (!order.duplicateOfOrderId) return null;
+
+    const duplicateOf = await storage.getOrder(shopDomain, order.duplicateOfOrderId);
+    if (!duplicateOf) return null;
+
+    const storedSettings =
+      (await storage.getSettings(shopDomain)) ?? (await storage.initializeSettings(shopDomain));
+    const settings =
+      order.flagSource === "historical"
+        ? { ...storedSettings, ...HISTORICAL_SCAN_MATCHING_PROFILE }
+        : storedSettings;
+
+    return buildOrderComparison(order, duplicateOf, settings);
+  }
+}
+
+export const orderComparisonService = new OrderComparisonService();
@@ -8,9 +8,11 @@ describe("mapShopifyOrder", () => {
       order_number: 1001,
       contact_email: "ada@example.com",
       customer: {
+        id: 555,
         first_name: "Ada",
         last_name: "Lovelace",
         phone: "+1 555 0100",
+        tags: "Wholesale, VIP ,",
       },
       shipping_address: {
         address1: "123 Main St",
@@ -37,6 +39,8 @@ describe("mapShopifyOrder", () => {
       customerEmail: "ada@example.com",
       customerName: "Ada Lovelace",
       customerPhone: "+1 555 0100",
+      shopifyCustomerId: "555",
+      customerTags: ["Wholesale", "VIP"],
       totalPrice: "0.00",
       currency: "GBP",
       isFlagged: false,
@@ -64,5 +68,7 @@ describe("mapShopifyOrder", () => {
     expect(result.customerPhone).toBe("+45 12345678");
     expect(result.orderNumber).toBe("#1002");
     expect(result.lineItems).toEqual([]);
+    expect(result.shopifyCustomerId).toBeNull();
+    expect(result.customerTags).toEqual([]);
   });
 });
@@ -13,6 +13,7 @@ export interface ShopifyOrderPayload {
     last_name?: string | null;
     email?: string | null;
     phone?: string | null;
+    tags?: string | null;
   } | null;
   billing_address?: Record<string, unknown> & { phone?: string | null };
   shipping_address?: Record<string, unknown> & {
@@ -34,6 +35,9 @@ export interface ShopifyOrderPayload {
   total_price?: string | number | null;
   currency?: string | null;
   created_at?: string | Date | null;
+  cancelled_at?: string | Date | null;
+  financial_status?: string | null;
+  tags?: string | null;
 }
 
 function parseCreatedAt(value: ShopifyOrderPayload["created_at"]): Date {
@@ -41,6 +45,14 @@ function parseCreatedAt(value: ShopifyOrderPayload["created_at"]): Date {
   return Number.isNaN(parsed.getTime()) ? new Date() : parsed;
 }
 
+// Shopify sends customer tags as a single comma-separated string
+function parseCustomerTags(tags: string | null | undefined): string[] {
+  return (tags || "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
 export function mapShopifyOrder(
   shopDomain: string,
   shopifyOrder: ShopifyOrderPayload
@@ -71,6 +83,9 @@ export function mapShopifyOrder(
       shopifyOrder.shipping_address?.phone ||
       null,
     shippingAddress: shopifyOrder.shipping_address || null,
+    shopifyCustomerId:
+      shopifyOrder.customer?.id != null ? String(shopifyOrder.customer.id) : null,
+    customerTags: parseCustomerTags(shopifyOrder.customer?.tags),
     lineItems: (shopifyOrder.line_items || []).map((item) => ({
       id: String(item.id),
       sku: item.sku ?? null,
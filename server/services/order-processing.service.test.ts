@@ -5,10 +5,21 @@ const mocks = vi.hoisted(() => ({
     getOrderByShopifyId: vi.fn(),
     createOrder: vi.fn(),
     updateOrder: vi.fn(),
+    replaceOrderMatches: vi.fn(),
     getSettings: vi.fn(),
+    createAuditLog: vi.fn(),
+    getOrder: vi.fn(),
+    getFlaggedDuplicatesOf: vi.fn(),
   },
   duplicateDetectionService: { findDuplicates: vi.fn() },
-  shopifyService: { tagOrder: vi.fn() },
+  exclusionService: { findForOrder: vi.fn() },
+  shopifyService: {
+    tagOrder: vi.fn(),
+    removeOrderTags: vi.fn(),
+    holdFulfillmentOrders: vi.fn(),
+    writeOrderMatchDetails: vi.fn(),
+    clearOrderMatchDetails: vi.fn(),
+  },
   notificationService: {
     sendNotifications: vi.fn(),
     sendQuotaExceededNotification: vi.fn(),
@@ -27,6 +38,9 @@ vi.mock("./duplicate-detection.service", () => ({
     matchSku: true,
   },
 }));
+vi.mock("./exclusion.service", () => ({
+  exclusionService: mocks.exclusionService,
+}));
 vi.mock("./shopify.service", () => ({ shopifyService: mocks.shopifyService }));
 vi.mock("./notification.service", () => ({
   notificationService: mocks.notificationService,
@@ -36,7 +50,7 @@ vi.mock("./subscription.service", () => ({
 }));
 vi.mock("../utils/logger", () => ({ logger: mocks.logger }));
 
-import { processOrder } from "./order-processing.service";
+import { processOrder, reevaluateOrder } from "./order-processing.service";
 import { HISTORICAL_SCAN_MATCHING_PROFILE } from "./duplicate-detection.service";
 
 const mappedOrder = {
@@ -82,11 +96,14 @@ describe("processOrder", () => {
     mocks.storage.createOrder.mockResolvedValue(storedOrder);
     mocks.storage.updateOrder.mockResolvedValue(storedOrder);
     mocks.storage.getSettings.mockResolvedValue({ enableNotifications: true });
-    mocks.duplicateDetectionService.findDuplicates.mockResolvedValue({
-      order: duplicate,
-      matchReason: "Same email, Same name",
-      confidence: 70,
-    });
+    mocks.exclusionService.findForOrder.mockResolvedValue(null);
+    mocks.duplicateDetectionService.findDuplicates.mockResolvedValue([
+      {
+        order: duplicate,
+        matchReason: "Same email, Same name",
+        confidence: 70,
+      },
+    ]);
     mocks.subscriptionService.checkQuota.mockResolvedValue({
       allowed: true,
       subscription: { orderLimit: 50, monthlyOrderCount: 0 },
@@ -180,6 +197,82 @@ describe("processOrder", () => {
     expect(mocks.subscriptionService.recordOrder).toHaveBeenCalledTimes(1);
   });
 
+  it("records and applies the shop's tags for the match confidence", async () => {
+    mocks.storage.getSettings.mockResolvedValue({
+      reviewTag: "DupGuard",
+      highConfidenceTag: "DupGuard-High",
+      lowConfidenceTag: "DupGuard-Low",
+      highConfidenceTagThreshold: 90,
+      originalOrderTag: null,
+    });
+    mocks.storage.createOrder.mockImplementation(async (values: object) => ({
+      ...storedOrder,
+      ...values,
+      id: storedOrder.id,
+    }));
+
+    await processOrder(mappedOrder, "token", { mode: "live" });
+
+    expect(mocks.storage.createOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        reviewTags: { order: ["DupGuard", "DupGuard-Low"], original: null },
+      })
+    );
+    expect(mocks.shopifyService.tagOrder).toHaveBeenCalledWith(
+      mappedOrder.shopDomain,
+      "token",
+      mappedOrder.shopifyOrderId,
+      ["DupGuard", "DupGuard-Low"]
+    );
+  });
+
+  it("holds fulfillment of a live flag when the shop enabled holds", async () => {
+    mocks.storage.getSettings.mockResolvedValue({
+      holdFulfillment: true,
+      fulfillmentHoldThreshold: 70,
+    });
+    mocks.storage.createOrder.mockResolvedValue({ ...storedOrder, flagSource: "live" });
+    mocks.shopifyService.holdFulfillmentOrders.mockResolvedValue({ held: ["501"], failed: [] });
+
+    await processOrder(mappedOrder, "token", { mode: "live" });
+
+    expect(mocks.shopifyService.holdFulfillmentOrders).toHaveBeenCalledWith(
+      mappedOrder.shopDomain,
+      "token",
+      mappedOrder.shopifyOrderId,
+      expect.any(String)
+    );
+    expect(mocks.storage.updateOrder).toHaveBeenCalledWith(
+      mappedOrder.shopDomain,
+      storedOrder.id,
+      { fulfillmentHoldStatus: "held", fulfillmentHoldIds: ["501"] }
+    );
+  });
+
+  it("writes the match details the shop enabled to a live flag", async () => {
+    mocks.storage.getSettings.mockResolvedValue({ appendMatchNote: true });
+    mocks.storage.createOrder.mockResolvedValue({ ...storedOrder, flagSource: "live" });
+    mocks.shopifyService.writeOrderMatchDetails.mockResolvedValue({
+      metafieldId: null,
+      note: "Duplicate Guard: ...",
+    });
+
+    await processOrder(mappedOrder, "token", { mode: "live" });
+
+    expect(mocks.shopifyService.writeOrderMatchDetails).toHaveBeenCalledWith(
+      mappedOrder.shopDomain,
+      "token",
+      mappedOrder.shopifyOrderId,
+      null,
+      expect.stringContaining("possible duplicate of order")
+    );
+    expect(mocks.storage.updateOrder).toHaveBeenCalledWith(
+      mappedOrder.shopDomain,
+      storedOrder.id,
+      { shopifyMatchDetails: { metafieldId: null, note: "Duplicate Guard: ..." } }
+    );
+  });
+
   it("does not tag a historical finding when a delayed live webhook arrives", async () => {
     mocks.storage.getOrderByShopifyId.mockResolvedValue({
       ...storedOrder,
@@ -224,4 +317,278 @@ describe("processOrder", () => {
       })
     );
   });
+
+  it("links the strongest match and records every ranked candidate", async () => {
+    const weakerDuplicate = { ...duplicate, id: "stored-0", shopifyOrderId: "1000" };
+    mocks.duplicateDetectionService.findDuplicates.mockResolvedValue([
+      { order: duplicate, matchReason: "Same email, Same phone", confidence: 100 },
+      { order: weakerDuplicate, matchReason: "Same email, Same name", confidence: 70 },
+    ]);
+
+    const result = await processOrder(mappedOrder, "token", { mode: "live" });
+
+    expect(result.matches).toHaveLength(2);
+    expect(mocks.storage.createOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        duplicateOfOrderId: duplicate.id,
+        matchConfidence: 100,
+      })
+    );
+    expect(mocks.storage.replaceOrderMatches).toHaveBeenCalledWith(
+      mappedOrder.shopDomain,
+      storedOrder.id,
+      [
+        {
+          matchedOrderId: duplicate.id,
+          rank: 1,
+          confidence: 100,
+          matchReason: "Same email, Same phone",
+        },
+        {
+          matchedOrderId: weakerDuplicate.id,
+          rank: 2,
+          confidence: 70,
+          matchReason: "Same email, Same name",
+        },
+      ]
+    );
+  });
+
+  it("leaves an excluded order unflagged and records the match it suppressed", async () => {
+    mocks.exclusionService.findForOrder.mockResolvedValue({
+      id: "exclusion-1",
+      shopDomain: mappedOrder.shopDomain,
+      type: "email",
+      value: "ada@example.com",
+      note: "Wholesale buyer",
+      createdAt: new Date(),
+    });
+
+    const result = await processOrder(mappedOrder, "token", { mode: "live" });
+
+    expect(result.match).toBeNull();
+    expect(mocks.storage.createOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ isFlagged: false, duplicateOfOrderId: null })
+    );
+    expect(mocks.storage.replaceOrderMatches).toHaveBeenCalledWith(
+      mappedOrder.shopDomain,
+      storedOrder.id,
+      []
+    );
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledWith({
+      shopDomain: mappedOrder.shopDomain,
+      orderId: storedOrder.id,
+      action: "excluded",
+      actor: "system",
+      details: {
+        exclusionId: "exclusion-1",
+        type: "email",
+        value: "ada@example.com",
+        source: "live",
+        duplicateOfOrderId: duplicate.id,
+        matchConfidence: 70,
+        matchReason: "Same email, Same name",
+      },
+    });
+    expect(mocks.shopifyService.tagOrder).not.toHaveBeenCalled();
+  });
+
+  it("records no exclusion when the excluded order matches nothing", async () => {
+    mocks.duplicateDetectionService.findDuplicates.mockResolvedValue([]);
+    mocks.exclusionService.findForOrder.mockResolvedValue({
+      id: "exclusion-1",
+      shopDomain: mappedOrder.shopDomain,
+      type: "email",
+      value: "ada@example.com",
+      note: null,
+      createdAt: new Date(),
+    });
+
+    await processOrder(mappedOrder, "token", { mode: "live" });
+
+    expect(mocks.exclusionService.findForOrder).not.toHaveBeenCalled();
+    expect(mocks.storage.createAuditLog).not.toHaveBeenCalled();
+  });
+});
+
+describe("reevaluateOrder", () => {
+  const liveOrder = {
+    ...storedOrder,
+    flagSource: "live",
+    flaggedByScanRunId: null,
+    isFlagged: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.exclusionService.findForOrder.mockResolvedValue(null);
+    mocks.storage.updateOrder.mockImplementation(
+      async (_shop: string, _id: string, updates: object) => ({
+        ...liveOrder,
+        ...updates,
+      })
+    );
+    mocks.storage.getSettings.mockResolvedValue({ enableNotifications: true });
+    mocks.subscriptionService.checkQuota.mockResolvedValue({
+      allowed: true,
+      subscription: { orderLimit: 50, monthlyOrderCount: 0 },
+    });
+    mocks.subscriptionService.recordOrder.mockResolvedValue({
+      orderLimit: 50,
+      monthlyOrderCount: 1,
+    });
+  });
+
+  it("clears a live flag and removes the tag when the match no longer holds", async () => {
+    mocks.duplicateDetectionService.findDuplicates.mockResolvedValue([]);
+
+    const result = await reevaluateOrder(liveOrder as any, "token");
+
+    expect(result.isFlagged).toBe(false);
+    expect(mocks.storage.updateOrder).toHaveBeenCalledWith(
+      liveOrder.shopDomain,
+      liveOrder.id,
+      expect.objectContaining({
+        isFlagged: false,
+        duplicateOfOrderId: null,
+        flaggedAt: null,
+      })
+    );
+    expect(mocks.storage.replaceOrderMatches).toHaveBeenCalledWith(
+      liveOrder.shopDomain,
+      liveOrder.id,
+      []
+    );
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledWith(
+      liveOrder.shopDomain,
+      "token",
+      liveOrder.shopifyOrderId,
+      ["Merge_Review_Candidate"]
+    );
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "reevaluated",
+        details: expect.objectContaining({ wasFlagged: true, isFlagged: false }),
+      })
+    );
+  });
+
+  it("flags and tags a live order that now matches", async () => {
+    mocks.duplicateDetectionService.findDuplicates.mockResolvedValue([
+      { order: duplicate, matchReason: "Same address", confidence: 60 },
+    ]);
+
+    await reevaluateOrder(
+      { ...liveOrder, isFlagged: false, flaggedAt: null, duplicateOfOrderId: null } as any,
+      "token"
+    );
+
+    expect(mocks.storage.updateOrder).toHaveBeenCalledWith(
+      liveOrder.shopDomain,
+      liveOrder.id,
+      expect.objectContaining({
+        isFlagged: true,
+        duplicateOfOrderId: duplicate.id,
+        matchConfidence: 60,
+      })
+    );
+    expect(mocks.shopifyService.tagOrder).toHaveBeenCalledTimes(1);
+    expect(mocks.subscriptionService.checkQuota).toHaveBeenCalledWith(liveOrder.shopDomain);
+    expect(mocks.subscriptionService.recordOrder).toHaveBeenCalledWith(liveOrder.shopDomain);
+    expect(mocks.notificationService.sendNotifications).toHaveBeenCalledWith(
+      liveOrder.shopDomain,
+      { enableNotifications: true },
+      expect.objectContaining({ duplicateOf: duplicate, confidence: 60 })
+    );
+  });
+
+  it("leaves a newly matching live order unflagged once the quota is used up", async () => {
+    mocks.duplicateDetectionService.findDuplicates.mockResolvedValue([
+      { order: duplicate, matchReason: "Same address", confidence: 60 },
+    ]);
+    mocks.subscriptionService.checkQuota.mockResolvedValue({
+      allowed: false,
+      subscription: { orderLimit: 50, monthlyOrderCount: 50 },
+    });
+
+    const result = await reevaluateOrder(
+      { ...liveOrder, isFlagged: false, flaggedAt: null, duplicateOfOrderId: null } as any,
+      "token"
+    );
+
+    expect(result.isFlagged).toBe(false);
+    expect(mocks.notificationService.sendQuotaExceededNotification).toHaveBeenCalled();
+    expect(mocks.shopifyService.tagOrder).not.toHaveBeenCalled();
+    expect(mocks.subscriptionService.recordOrder).not.toHaveBeenCalled();
+  });
+
+  it("swaps the tier tag and rewrites match details when the match changes", async () => {
+    mocks.storage.getSettings.mockResolvedValue({
+      reviewTag: "DupGuard",
+      highConfidenceTag: "DupGuard-High",
+      lowConfidenceTag: "DupGuard-Low",
+      highConfidenceTagThreshold: 90,
+      originalOrderTag: null,
+      writeMatchMetafield: true,
+      appendMatchNote: false,
+    });
+    mocks.duplicateDetectionService.findDuplicates.mockResolvedValue([
+      { order: duplicate, matchReason: "Same address", confidence: 60 },
+    ]);
+    mocks.shopifyService.writeOrderMatchDetails.mockResolvedValue({
+      metafieldId: "78",
+      note: null,
+    });
+    const flagged = {
+      ...liveOrder,
+      matchConfidence: 95,
+      reviewTags: { order: ["DupGuard", "DupGuard-High"], original: null },
+      shopifyMatchDetails: { metafieldId: "77", note: null },
+    };
+    mocks.storage.updateOrder.mockImplementation(
+      async (_shop: string, _id: string, updates: object) => ({ ...flagged, ...updates })
+    );
+
+    const result = await reevaluateOrder(flagged as any, "token");
+
+    expect(mocks.storage.updateOrder).toHaveBeenCalledWith(
+      liveOrder.shopDomain,
+      liveOrder.id,
+      expect.objectContaining({
+        matchConfidence: 60,
+        reviewTags: { order: ["DupGuard", "DupGuard-Low"], original: null },
+      })
+    );
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledWith(
+      liveOrder.shopDomain,
+      "token",
+      liveOrder.shopifyOrderId,
+      ["DupGuard-High"]
+    );
+    expect(mocks.shopifyService.tagOrder).toHaveBeenCalledWith(
+      liveOrder.shopDomain,
+      "token",
+      liveOrder.shopifyOrderId,
+      ["DupGuard", "DupGuard-Low"]
+    );
+    expect(mocks.shopifyService.clearOrderMatchDetails).toHaveBeenCalledWith(
+      liveOrder.shopDomain,
+      "token",
+      liveOrder.shopifyOrderId,
+      { metafieldId: "77", note: null }
+    );
+    expect(result.shopifyMatchDetails).toEqual({ metafieldId: "78", note: null });
+    expect(mocks.subscriptionService.recordOrder).not.toHaveBeenCalled();
+    expect(mocks.notificationService.sendNotifications).not.toHaveBeenCalled();
+  });
+
+  it("leaves resolved orders untouched", async () => {
+    await reevaluateOrder(
+      { ...liveOrder, resolvedAt: new Date(), resolvedBy: "manual_dashboard" } as any,
+      "token"
+    );
+
+    expect(mocks.duplicateDetectionService.findDuplicates).not.toHaveBeenCalled();
+    expect(mocks.storage.updateOrder).not.toHaveBeenCalled();
+  });
 });
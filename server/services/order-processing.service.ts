@@ -1,4 +1,11 @@
-import type { InsertOrder, Order } from "@shared/schema";
+import {
+  EMPTY_DETECTION_CANDIDATE_COUNTS,
+  type DetectionCandidateCounts,
+  type DetectionExclusion,
+  type DetectionSettings,
+  type InsertOrder,
+  type Order,
+} from "@shared/schema";
 import { storage } from "../storage";
 import { logger } from "../utils/logger";
 import {
@@ -6,11 +13,21 @@ import {
   HISTORICAL_SCAN_MATCHING_PROFILE,
   type DuplicateDetectionMetadata,
   type DuplicateMatch,
+  type MatchingProfile,
 } from "./duplicate-detection.service";
+import { exclusionService } from "./exclusion.service";
+import { clearFlagInShopify } from "./flag-cleanup.service";
+import { fulfillmentHoldService, shouldHoldFulfillment } from "./fulfillment-hold.service";
+import { matchDetailsService } from "./match-details.service";
 import { notificationService } from "./notification.service";
-import { shopifyService } from "./shopify.service";
+import { getReviewTagsForMatch, reviewTagService } from "./review-tag.service";
 import { subscriptionService } from "./subscription.service";
 
+const PERSISTED_MATCH_LIMIT = parseInt(
+  process.env.DUPLICATE_PERSISTED_MATCH_LIMIT || "10",
+  10
+);
+
 export type ProcessOrderOptions =
   | { mode: "live" }
   | { mode: "historical"; scanRunId: string };
@@ -18,8 +35,9 @@ export type ProcessOrderOptions =
 export interface ProcessOrderResult {
   order: Order | null;
   match: DuplicateMatch | null;
+  matches: DuplicateMatch[];
   skippedReason?: "quota" | "existing";
-  candidateCapExceeded: boolean;
+  candidateCounts: DetectionCandidateCounts;
 }
 
 function isUniqueViolation(error: unknown): boolean {
@@ -27,18 +45,217 @@ function isUniqueViolation(error: unknown): boolean {
   return message.includes("duplicate key") || message.includes("unique constraint");
 }
 
-async function ensureLiveTag(
-  shopDomain: string,
-  accessToken: string,
-  shopifyOrderId: string
+async function ensureLiveTag(order: Order, accessToken: string): Promise<void> {
+  try {
+    await reviewTagService.tagFlaggedOrder(order, accessToken);
+  } catch (error) {
+    logger.error(
+      `[OrderProcessing] Failed to ensure Shopify tag for ${order.shopifyOrderId}:`,
+      error
+    );
+  }
+}
+
+async function holdFulfillmentIfEnabled(
+  order: Order,
+  match: DuplicateMatch,
+  settings: DetectionSettings | undefined,
+  accessToken: string
+): Promise<Order> {
+  if (!shouldHoldFulfillment(settings, match.confidence)) {
+    return order;
+  }
+  try {
+    return await fulfillmentHoldService.holdFlaggedOrder(order, match.order, accessToken);
+  } catch (error) {
+    logger.error(
+      `[OrderProcessing] Failed to record fulfillment hold for ${order.shopifyOrderId}:`,
+      error
+    );
+    return order;
+  }
+}
+
+async function writeMatchDetails(
+  order: Order,
+  match: DuplicateMatch,
+  settings: DetectionSettings | undefined,
+  accessToken: string
+): Promise<Order> {
+  try {
+    return await matchDetailsService.writeForFlag(order, match.order, settings, accessToken);
+  } catch (error) {
+    logger.error(
+      `[OrderProcessing] Failed to write match details for ${order.shopifyOrderId}:`,
+      error
+    );
+    return order;
+  }
+}
+
+// Settings here only decide what a new flag changes in Shopify, so a failed
+// lookup falls back to the defaults rather than failing the order
+async function loadSettings(shopDomain: string): Promise<DetectionSettings | undefined> {
+  try {
+    return await storage.getSettings(shopDomain);
+  } catch (error) {
+    logger.error(`[OrderProcessing] Failed to load settings for ${shopDomain}:`, error);
+    return undefined;
+  }
+}
+
+// Whether the shop has quota left for another live flag. Once the limit is
+// reached the shop is told, since new duplicates go unflagged from here on
+async function hasLiveQuota(shopDomain: string): Promise<boolean> {
+  const quota = await subscriptionService.checkQuota(shopDomain);
+  if (quota.allowed) {
+    return true;
+  }
+  if (
+    quota.subscription.orderLimit !== -1 &&
+    quota.subscription.monthlyOrderCount >= quota.subscription.orderLimit
+  ) {
+    try {
+      await notificationService.sendQuotaExceededNotification(
+        shopDomain,
+        quota.subscription
+      );
+    } catch (error) {
+      logger.warn("[OrderProcessing] Failed to send quota notification:", error);
+    }
+  }
+  return false;
+}
+
+/**
+ * Everything a new live flag does once it is stored: tag the order, hold
+ * fulfillment and write match details in Shopify, notify the shop and count
+ * the flag against its quota. Returns the order with what was recorded.
+ */
+async function applyNewLiveFlag(
+  order: Order,
+  match: DuplicateMatch,
+  settings: DetectionSettings | undefined,
+  accessToken: string
+): Promise<Order> {
+  await ensureLiveTag(order, accessToken);
+  let flaggedOrder = await holdFulfillmentIfEnabled(order, match, settings, accessToken);
+  flaggedOrder = await writeMatchDetails(flaggedOrder, match, settings, accessToken);
+
+  try {
+    if (settings) {
+      await notificationService.sendNotifications(order.shopDomain, settings, {
+        order: flaggedOrder,
+        duplicateOf: match.order,
+        confidence: match.confidence,
+        matchReason: match.matchReason,
+      });
+    }
+  } catch (error) {
+    logger.error("[OrderProcessing] Failed to send duplicate notification:", error);
+  }
+
+  try {
+    const subscription = await subscriptionService.recordOrder(order.shopDomain);
+    if (
+      subscription.orderLimit !== -1 &&
+      subscription.monthlyOrderCount >= subscription.orderLimit
+    ) {
+      await notificationService.sendQuotaExceededNotification(
+        order.shopDomain,
+        subscription
+      );
+    }
+  } catch (error) {
+    logger.warn("[OrderProcessing] Failed to update duplicate quota:", error);
+  }
+
+  return flaggedOrder;
+}
+
+/**
+ * Bring Shopify in line with a flag whose match changed: swap the tags and
+ * rewrite the match details. Failures are logged, since the flag itself is
+ * already updated.
+ */
+async function applyChangedMatch(
+  previous: Order,
+  order: Order,
+  match: DuplicateMatch,
+  settings: DetectionSettings | undefined,
+  accessToken: string
+): Promise<Order> {
+  try {
+    await reviewTagService.retagFlaggedOrder(previous, order, accessToken);
+  } catch (error) {
+    logger.error(
+      `[OrderProcessing] Failed to update Shopify tags for ${order.shopifyOrderId}:`,
+      error
+    );
+  }
+
+  // Match details are only written for live flags
+  if (previous.flagSource === "historical") {
+    return order;
+  }
+  try {
+    return await matchDetailsService.rewriteForFlag(order, match.order, settings, accessToken);
+  } catch (error) {
+    logger.error(
+      `[OrderProcessing] Failed to rewrite match details for ${order.shopifyOrderId}:`,
+      error
+    );
+    return order;
+  }
+}
+
+interface DetectedMatches {
+  matches: DuplicateMatch[];
+  // The exclusion that kept the order from being flagged, with the strongest
+  // match it suppressed
+  suppressed: { exclusion: DetectionExclusion; match: DuplicateMatch } | null;
+}
+
+// Detection runs before the exclusions are checked, so an exclusion only
+// counts when it suppressed a real match
+async function detectMatches(
+  order: InsertOrder,
+  metadata: DuplicateDetectionMetadata | undefined,
+  matchingProfile: MatchingProfile | undefined
+): Promise<DetectedMatches> {
+  const matches = await duplicateDetectionService.findDuplicates(
+    order,
+    order.shopDomain,
+    metadata,
+    matchingProfile
+  );
+  if (matches.length === 0) {
+    return { matches, suppressed: null };
+  }
+  const exclusion = await exclusionService.findForOrder(order);
+  return exclusion
+    ? { matches: [], suppressed: { exclusion, match: matches[0] } }
+    : { matches, suppressed: null };
+}
+
+async function recordCandidateMatches(
+  order: Order,
+  matches: DuplicateMatch[]
 ): Promise<void> {
   try {
-    await shopifyService.tagOrder(shopDomain, accessToken, shopifyOrderId, [
-      "Merge_Review_Candidate",
-    ]);
+    await storage.replaceOrderMatches(
+      order.shopDomain,
+      order.id,
+      matches.slice(0, PERSISTED_MATCH_LIMIT).map((candidate, index) => ({
+        matchedOrderId: candidate.order.id,
+        rank: index + 1,
+        confidence: Math.round(candidate.confidence),
+        matchReason: candidate.matchReason,
+      }))
+    );
   } catch (error) {
     logger.error(
-      `[OrderProcessing] Failed to ensure Shopify tag for ${shopifyOrderId}:`,
+      `[OrderProcessing] Failed to record duplicate candidates for ${order.shopifyOrderId}:`,
       error
     );
   }
@@ -57,47 +274,31 @@ export async function processOrder(
   if (existing) {
     if (options.mode === "live") {
       if (existing.isFlagged && existing.flagSource === "live") {
-        await ensureLiveTag(order.shopDomain, accessToken, order.shopifyOrderId);
+        await ensureLiveTag(existing, accessToken);
       }
-      return { order: existing, match: null, skippedReason: "existing", candidateCapExceeded: false };
+      return { order: existing, match: null, matches: [], skippedReason: "existing", candidateCounts: { ...EMPTY_DETECTION_CANDIDATE_COUNTS } };
     }
 
     if (existing.isFlagged || existing.resolvedAt || existing.resolvedBy) {
-      return { order: existing, match: null, skippedReason: "existing", candidateCapExceeded: false };
+      return { order: existing, match: null, matches: [], skippedReason: "existing", candidateCounts: { ...EMPTY_DETECTION_CANDIDATE_COUNTS } };
     }
   }
 
-  if (options.mode === "live") {
-    const quota = await subscriptionService.checkQuota(order.shopDomain);
-    if (!quota.allowed) {
-      if (
-        quota.subscription.orderLimit !== -1 &&
-        quota.subscription.monthlyOrderCount >= quota.subscription.orderLimit
-      ) {
-        try {
-          await notificationService.sendQuotaExceededNotification(
-            order.shopDomain,
-            quota.subscription
-          );
-        } catch (error) {
-          logger.warn("[OrderProcessing] Failed to send quota notification:", error);
-        }
-      }
-      return { order: null, match: null, skippedReason: "quota", candidateCapExceeded: false };
-    }
+  if (options.mode === "live" && !(await hasLiveQuota(order.shopDomain))) {
+    return { order: null, match: null, matches: [], skippedReason: "quota", candidateCounts: { ...EMPTY_DETECTION_CANDIDATE_COUNTS } };
   }
 
   const detectionMetadata: DuplicateDetectionMetadata = {
-    candidateCapExceeded: false,
+    candidateCounts: { ...EMPTY_DETECTION_CANDIDATE_COUNTS },
   };
-  const match = await duplicateDetectionService.findDuplicates(
+  const { matches, suppressed } = await detectMatches(
     order,
-    order.shopDomain,
     detectionMetadata,
-    options.mode === "historical"
-      ? HISTORICAL_SCAN_MATCHING_PROFILE
-      : undefined
+    options.mode === "historical" ? HISTORICAL_SCAN_MATCHING_PROFILE : undefined
   );
+  const match = matches[0] ?? null;
+  const settings =
+    options.mode === "live" && match ? await loadSettings(order.shopDomain) : undefined;
   const persistenceValues = {
     ...order,
     isFlagged: Boolean(match),
@@ -108,6 +309,10 @@ export async function processOrder(
     matchReason: match?.matchReason ?? null,
     duplicateOfOrderId: match?.order.id ?? null,
     flaggedAt: match ? new Date() : null,
+    reviewTags:
+      options.mode === "live" && match
+        ? getReviewTagsForMatch(settings, match.confidence)
+        : null,
   };
 
   let storedOrder: Order;
@@ -143,47 +348,134 @@ export async function processOrder(
           persistenceValues
         );
       } else {
-        return { order: racedOrder, match: null, skippedReason: "existing", candidateCapExceeded: false };
+        return { order: racedOrder, match: null, matches: [], skippedReason: "existing", candidateCounts: { ...EMPTY_DETECTION_CANDIDATE_COUNTS } };
       }
     }
   }
 
-  if (options.mode === "live" && match) {
-    await ensureLiveTag(order.shopDomain, accessToken, order.shopifyOrderId);
+  await recordCandidateMatches(storedOrder, matches);
 
+  if (suppressed) {
     try {
-      const settings = await storage.getSettings(order.shopDomain);
-      if (settings) {
-        await notificationService.sendNotifications(order.shopDomain, settings, {
-          order: storedOrder,
-          duplicateOf: match.order,
-          confidence: match.confidence,
-          matchReason: match.matchReason,
-        });
-      }
+      await storage.createAuditLog({
+        shopDomain: order.shopDomain,
+        orderId: storedOrder.id,
+        action: "excluded",
+        actor: "system",
+        details: {
+          exclusionId: suppressed.exclusion.id,
+          type: suppressed.exclusion.type,
+          value: suppressed.exclusion.value,
+          source: options.mode,
+          duplicateOfOrderId: suppressed.match.order.id,
+          matchConfidence: Math.round(suppressed.match.confidence),
+          matchReason: suppressed.match.matchReason,
+        },
+      });
     } catch (error) {
-      logger.error("[OrderProcessing] Failed to send duplicate notification:", error);
+      logger.error(
+        `[OrderProcessing] Failed to record exclusion for ${order.shopifyOrderId}:`,
+        error
+      );
     }
+  }
 
-    try {
-      const subscription = await subscriptionService.recordOrder(order.shopDomain);
-      if (
-        subscription.orderLimit !== -1 &&
-        subscription.monthlyOrderCount >= subscription.orderLimit
-      ) {
-        await notificationService.sendQuotaExceededNotification(
-          order.shopDomain,
-          subscription
-        );
-      }
-    } catch (error) {
-      logger.warn("[OrderProcessing] Failed to update duplicate quota:", error);
-    }
+  if (options.mode === "live" && match) {
+    storedOrder = await applyNewLiveFlag(storedOrder, match, settings, accessToken);
   }
 
   return {
     order: storedOrder,
     match,
-    candidateCapExceeded: detectionMetadata.candidateCapExceeded,
+    matches,
+    candidateCounts: detectionMetadata.candidateCounts,
   };
 }
+
+/**
+ * Re-run detection for an already stored order after it (or the order it was
+ * matched against) changed in Shopify. Resolved orders are left alone. Flag
+ * fields and candidate matches are rewritten, and Shopify is brought in line
+ * with the new outcome: a new live flag gets the same side effects as one
+ * raised at order creation (and is left unflagged once the quota is used up),
+ * a changed match swaps the tags and match details, and a cleared flag undoes
+ * what it changed.
+ */
+export async function reevaluateOrder(
+  order: Order,
+  accessToken: string
+): Promise<Order> {
+  if (order.resolvedAt || order.resolvedBy) {
+    return order;
+  }
+
+  const { matches, suppressed } = await detectMatches(
+    order,
+    undefined,
+    order.flagSource === "historical" ? HISTORICAL_SCAN_MATCHING_PROFILE : undefined
+  );
+  const newlyFlaggedLive =
+    matches.length > 0 && !order.isFlagged && order.flagSource !== "historical";
+  const match =
+    newlyFlaggedLive && !(await hasLiveQuota(order.shopDomain)) ? null : matches[0] ?? null;
+  // Only flags the app changed in Shopify, i.e. live flags and historical
+  // flags re-tagged from the dashboard, need Shopify updated for a new match
+  const matchChanged =
+    match !== null &&
+    order.isFlagged &&
+    (order.flagSource !== "historical" || order.reviewTags !== null) &&
+    (order.duplicateOfOrderId !== match.order.id ||
+      order.matchConfidence !== Math.round(match.confidence) ||
+      order.matchReason !== match.matchReason);
+  const settings =
+    (match && newlyFlaggedLive) || matchChanged
+      ? await loadSettings(order.shopDomain)
+      : undefined;
+
+  let updatedOrder = await storage.updateOrder(order.shopDomain, order.id, {
+    isFlagged: Boolean(match),
+    matchConfidence: match ? Math.round(match.confidence) : 0,
+    matchReason: match?.matchReason ?? null,
+    duplicateOfOrderId: match?.order.id ?? null,
+    flaggedAt: match ? order.flaggedAt ?? new Date() : null,
+    reviewTags: !match
+      ? null
+      : newlyFlaggedLive || matchChanged
+        ? getReviewTagsForMatch(settings, match.confidence)
+        : order.reviewTags,
+  });
+
+  // An order left unflagged for lack of quota keeps no candidates, as at creation
+  await recordCandidateMatches(updatedOrder, match ? matches : []);
+
+  if (match && newlyFlaggedLive) {
+    updatedOrder = await applyNewLiveFlag(updatedOrder, match, settings, accessToken);
+  } else if (match && matchChanged) {
+    updatedOrder = await applyChangedMatch(order, updatedOrder, match, settings, accessToken);
+  } else if (!match && order.isFlagged) {
+    await clearFlagInShopify(order, accessToken, "system");
+  }
+
+  try {
+    await storage.createAuditLog({
+      shopDomain: order.shopDomain,
+      orderId: order.id,
+      action: "reevaluated",
+      actor: "system",
+      details: {
+        wasFlagged: order.isFlagged,
+        isFlagged: updatedOrder.isFlagged,
+        duplicateOfOrderId: updatedOrder.duplicateOfOrderId,
+        matchConfidence: updatedOrder.matchConfidence,
+        exclusionId: suppressed?.exclusion.id ?? null,
+      },
+    });
+  } catch (error) {
+    logger.error(
+      `[OrderProcessing] Failed to record re-evaluation for ${order.shopifyOrderId}:`,
+      error
+    );
+  }
+
+  return updatedOrder;
+}
@@ -0,0 +1,233 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  storage: {
+    getOrderByShopifyId: vi.fn(),
+    getOrder: vi.fn(),
+    getFlaggedDuplicatesOf: vi.fn(),
+    updateOrder: vi.fn(),
+    resolveOrder: vi.fn(),
+    createAuditLog: vi.fn(),
+  },
+  reevaluateOrder: vi.fn(),
+  shopifyService: { removeOrderTags: vi.fn() },
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("../storage", () => ({ storage: mocks.storage }));
+vi.mock("./order-processing.service", () => ({
+  reevaluateOrder: mocks.reevaluateOrder,
+}));
+vi.mock("./shopify.service", () => ({ shopifyService: mocks.shopifyService }));
+vi.mock("../utils/logger", () => ({ logger: mocks.logger }));
+
+import { orderUpdateService } from "./order-update.service";
+
+const shopDomain = "test.myshopify.com";
+
+const payload = {
+  id: 1002,
+  order_number: "1002",
+  email: "ada@example.com",
+  customer: { id: 42, first_name: "Ada", last_name: "Lovelace" },
+  shipping_address: { address1: "123 Main Street", city: "New York", zip: "10001", country: "US" },
+  line_items: [{ id: 1, sku: "SKU-1", title: "Widget", quantity: 1, price: "10.00" }],
+  total_price: "10.00",
+  currency: "USD",
+  created_at: "2026-05-01T12:00:00.000Z",
+  tags: "Merge_Review_Candidate, vip",
+};
+
+const storedOrder = {
+  id: "stored-2",
+  shopDomain,
+  shopifyOrderId: "1002",
+  orderNumber: "1002",
+  customerEmail: "ada@example.com",
+  customerName: "Ada Lovelace",
+  customerPhone: null,
+  shippingAddress: { address1: "123 Main St", city: "New York", zip: "10001", country: "US" },
+  shopifyCustomerId: "42",
+  customerTags: [],
+  lineItems: [{ id: "1", sku: "SKU-1", title: "Widget", quantity: 1, price: "10.00" }],
+  totalPrice: "10.00",
+  currency: "USD",
+  createdAt: new Date("2026-05-01T12:00:00.000Z"),
+  isFlagged: true,
+  flagSource: "live",
+  duplicateOfOrderId: "stored-1",
+  resolvedAt: null,
+  resolvedBy: null,
+};
+
+const dependent = {
+  ...storedOrder,
+  id: "stored-3",
+  shopifyOrderId: "1003",
+  duplicateOfOrderId: "stored-2",
+};
+
+describe("OrderUpdateService.handleOrderUpdated", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.storage.getOrderByShopifyId.mockResolvedValue(storedOrder);
+    mocks.storage.getOrder.mockResolvedValue(storedOrder);
+    mocks.storage.getFlaggedDuplicatesOf.mockResolvedValue([]);
+    mocks.storage.resolveOrder.mockImplementation(async (_shop: string, id: string) => ({
+      id,
+      resolvedAt: new Date(),
+    }));
+    mocks.storage.updateOrder.mockImplementation(
+      async (_shop: string, _id: string, updates: object) => ({ ...storedOrder, ...updates })
+    );
+    mocks.reevaluateOrder.mockImplementation(async (order: { id: string }) => order);
+  });
+
+  it("ignores orders that are not tracked", async () => {
+    mocks.storage.getOrderByShopifyId.mockResolvedValue(undefined);
+
+    const result = await orderUpdateService.handleOrderUpdated(shopDomain, payload, "token");
+
+    expect(result.outcome).toBe("not_tracked");
+    expect(mocks.storage.updateOrder).not.toHaveBeenCalled();
+  });
+
+  it("resolves the order and its dependents when the order is cancelled", async () => {
+    mocks.storage.getFlaggedDuplicatesOf.mockResolvedValue([dependent]);
+
+    const result = await orderUpdateService.handleOrderUpdated(
+      shopDomain,
+      { ...payload, cancelled_at: "2026-05-02T09:00:00.000Z" },
+      "token"
+    );
+
+    expect(result.outcome).toBe("closed");
+    expect(result.resolvedOrderIds).toEqual(["stored-2", "stored-3"]);
+    expect(mocks.storage.resolveOrder).toHaveBeenCalledWith(
+      shopDomain,
+      "stored-3",
+      "shopify_cancelled"
+    );
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledTimes(2);
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        orderId: "stored-3",
+        action: "resolved",
+        details: expect.objectContaining({
+          resolvedBy: "shopify_cancelled",
+          closedOrderId: "stored-2",
+        }),
+      })
+    );
+    expect(mocks.reevaluateOrder).not.toHaveBeenCalled();
+  });
+
+  it("resolves dependents of an unflagged original that was refunded", async () => {
+    mocks.storage.getOrderByShopifyId.mockResolvedValue({
+      ...storedOrder,
+      id: "stored-1",
+      isFlagged: false,
+    });
+    mocks.storage.getFlaggedDuplicatesOf.mockResolvedValue([
+      { ...dependent, duplicateOfOrderId: "stored-1", flagSource: "historical" },
+    ]);
+
+    const result = await orderUpdateService.handleOrderUpdated(
+      shopDomain,
+      { ...payload, financial_status: "refunded" },
+      "token"
+    );
+
+    expect(result.resolvedOrderIds).toEqual(["stored-3"]);
+    expect(mocks.storage.resolveOrder).toHaveBeenCalledWith(
+      shopDomain,
+      "stored-3",
+      "shopify_refunded"
+    );
+    expect(mocks.shopifyService.removeOrderTags).not.toHaveBeenCalled();
+  });
+
+  it("resolves a flagged order whose review tag was removed", async () => {
+    const result = await orderUpdateService.handleOrderUpdated(
+      shopDomain,
+      { ...payload, tags: "vip" },
+      "token"
+    );
+
+    expect(result.outcome).toBe("tag_removed");
+    expect(mocks.storage.resolveOrder).toHaveBeenCalledWith(
+      shopDomain,
+      "stored-2",
+      "shopify_tag_removed"
+    );
+    expect(mocks.shopifyService.removeOrderTags).not.toHaveBeenCalled();
+  });
+
+  it("clears the remaining review tags when one of them was removed", async () => {
+    mocks.storage.getOrderByShopifyId.mockResolvedValue({
+      ...storedOrder,
+      reviewTags: { order: ["DupGuard", "DupGuard-High"], original: null },
+    });
+
+    const result = await orderUpdateService.handleOrderUpdated(
+      shopDomain,
+      { ...payload, tags: "DupGuard, vip" },
+      "token"
+    );
+
+    expect(result.outcome).toBe("tag_removed");
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1002",
+      ["DupGuard"]
+    );
+  });
+
+  it("checks the tags recorded on the order rather than the default tag", async () => {
+    mocks.storage.getOrderByShopifyId.mockResolvedValue({
+      ...storedOrder,
+      reviewTags: { order: ["DupGuard"], original: null },
+    });
+
+    const result = await orderUpdateService.handleOrderUpdated(
+      shopDomain,
+      { ...payload, tags: "DupGuard, vip" },
+      "token"
+    );
+
+    expect(result.outcome).toBe("unchanged");
+    expect(mocks.storage.resolveOrder).not.toHaveBeenCalled();
+  });
+
+  it("skips re-detection when only cosmetic fields changed", async () => {
+    const result = await orderUpdateService.handleOrderUpdated(shopDomain, payload, "token");
+
+    expect(result.outcome).toBe("unchanged");
+    expect(mocks.storage.updateOrder).not.toHaveBeenCalled();
+  });
+
+  it("stores edits and re-runs detection for the order and its dependents", async () => {
+    mocks.storage.getFlaggedDuplicatesOf.mockResolvedValue([dependent]);
+
+    const result = await orderUpdateService.handleOrderUpdated(
+      shopDomain,
+      {
+        ...payload,
+        shipping_address: { address1: "9 Elm Road", city: "Boston", zip: "02108", country: "US" },
+      },
+      "token"
+    );
+
+    expect(result.outcome).toBe("reevaluated");
+    expect(mocks.storage.updateOrder).toHaveBeenCalledWith(
+      shopDomain,
+      "stored-2",
+      expect.objectContaining({
+        shippingAddress: expect.objectContaining({ address1: "9 Elm Road" }),
+      })
+    );
+    expect(result.reevaluatedOrderIds).toEqual(["stored-2", "stored-3"]);
+    expect(mocks.reevaluateOrder).toHaveBeenCalledWith(dependent, "token");
+  });
+});
@@ -0,0 +1,285 @@
+import type { InsertOrder, Order } from "@shared/schema";
+import { storage } from "../storage";
+import { normalizeAddress } from "../utils/address";
+import { canonicalizeEmail } from "../utils/email";
+import { logger } from "../utils/logger";
+import { normalizePhoneNumber } from "../utils/phone";
+import { mapShopifyOrder, type ShopifyOrderPayload } from "./order-mapper.service";
+import { clearFlagInShopify } from "./flag-cleanup.service";
+import { reevaluateOrder } from "./order-processing.service";
+import { getAppliedReviewTags } from "./review-tag.service";
+
+const CLOSED_FINANCIAL_STATUSES = ["refunded", "voided"];
+
+export type OrderClosedResolution = "shopify_cancelled" | "shopify_refunded";
+
+export type OrderUpdateOutcome =
+  | "not_tracked"
+  | "closed"
+  | "tag_removed"
+  | "reevaluated"
+  | "unchanged";
+
+export interface OrderUpdateResult {
+  outcome: OrderUpdateOutcome;
+  order: Order | null;
+  resolvedOrderIds: string[];
+  reevaluatedOrderIds: string[];
+}
+
+/**
+ * How a Shopify order payload closes the order, if it does: cancellation
+ * takes precedence over a refunded or voided financial status.
+ */
+export function getClosedResolution(
+  payload: ShopifyOrderPayload
+): OrderClosedResolution | null {
+  if (payload.cancelled_at) {
+    return "shopify_cancelled";
+  }
+  if (
+    CLOSED_FINANCIAL_STATUSES.includes(
+      (payload.financial_status || "").toLowerCase()
+    )
+  ) {
+    return "shopify_refunded";
+  }
+  return null;
+}
+
+// Shopify sends order tags as a single comma-separated string
+function parseOrderTags(tags: string | null | undefined): string[] {
+  return (tags || "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+function detectionFingerprint(order: InsertOrder | Order): string {
+  return JSON.stringify([
+    canonicalizeEmail(order.customerEmail),
+    normalizePhoneNumber(order.customerPhone),
+    normalizeAddress(order.shippingAddress),
+    (order.lineItems ?? [])
+      .map((item) => `${item.sku ?? item.title}:${item.quantity}`)
+      .sort(),
+    Number(order.totalPrice),
+    order.currency,
+    order.customerName,
+    order.shopifyCustomerId ?? null,
+    (order.customerTags ?? []).map((tag) => tag.toLowerCase()).sort(),
+  ]);
+}
+
+/**
+ * Whether an edit touched any field that duplicate detection compares.
+ * Fields are compared in normalized form so cosmetic payload differences
+ * (casing, phone formatting, street suffixes) do not trigger a re-run.
+ */
+export function hasDetectionRelevantChanges(
+  stored: Order,
+  mapped: InsertOrder
+): boolean {
+  return detectionFingerprint(stored) !== detectionFingerprint(mapped);
+}
+
+/**
+ * Whether the merchant removed any of the review tags the app added to a
+ * flagged order. Orders the app never tagged are not affected.
+ */
+export function isReviewTagRemoved(order: Order, payload: ShopifyOrderPayload): boolean {
+  const orderTags = parseOrderTags(payload.tags);
+  return getAppliedReviewTags(order).order.some((tag) => !orderTags.includes(tag));
+}
+
+/**
+ * Resolve a flagged order because Shopify closed one side of the match.
+ * Clears what the flag changed in Shopify and writes a "resolved" audit
+ * entry.
+ */
+export async function resolveFlaggedOrder(
+  order: Order,
+  accessToken: string,
+  resolvedBy: OrderClosedResolution,
+  details: Record<string, unknown>
+): Promise<Order> {
+  const resolvedOrder = await storage.resolveOrder(
+    order.shopDomain,
+    order.id,
+    resolvedBy
+  );
+
+  await clearFlagInShopify(order, accessToken, "shopify");
+
+  await storage.createAuditLog({
+    shopDomain: order.shopDomain,
+    orderId: resolvedOrder.id,
+    action: "resolved",
+    actor: "shopify",
+    details: {
+      resolvedBy,
+      resolvedAt: resolvedOrder.resolvedAt,
+      shopifyOrderId: order.shopifyOrderId,
+      ...details,
+    },
+  });
+
+  return resolvedOrder;
+}
+
+/**
+ * Resolve the order itself (if flagged) and every flagged order that was
+ * matched against it. Used when Shopify reports the order as closed.
+ */
+export async function resolveClosedOrder(
+  order: Order,
+  accessToken: string,
+  resolvedBy: OrderClosedResolution
+): Promise<string[]> {
+  const resolvedOrderIds: string[] = [];
+
+  if (order.isFlagged) {
+    await resolveFlaggedOrder(order, accessToken, resolvedBy, {});
+    resolvedOrderIds.push(order.id);
+  }
+
+  const dependents = await storage.getFlaggedDuplicatesOf(
+    order.shopDomain,
+    order.id
+  );
+  for (const dependent of dependents) {
+    await resolveFlaggedOrder(dependent, accessToken, resolvedBy, {
+      closedOrderId: order.id,
+      closedShopifyOrderId: order.shopifyOrderId,
+    });
+    resolvedOrderIds.push(dependent.id);
+  }
+
+  return resolvedOrderIds;
+}
+
+export class OrderUpdateService {
+  /**
+   * Bring a stored order in line with an `orders/updated` payload.
+   *
+   * - Cancelled or refunded orders resolve their own flag and the flags of
+   *   orders matched against them, without re-running detection.
+   * - Removing any of its review tags from a flagged order resolves it.
+   * - Otherwise detection-relevant edits are stored and detection is re-run
+   *   for the order and for flagged orders that point to it.
+   */
+  async handleOrderUpdated(
+    shopDomain: string,
+    payload: ShopifyOrderPayload,
+    accessToken: string
+  ): Promise<OrderUpdateResult> {
+    const order = await storage.getOrderByShopifyId(
+      shopDomain,
+      String(payload.id)
+    );
+    if (!order) {
+      return {
+        outcome: "not_tracked",
+        order: null,
+        resolvedOrderIds: [],
+        reevaluatedOrderIds: [],
+      };
+    }
+
+    const closedResolution = getClosedResolution(payload);
+    if (closedResolution) {
+      const resolvedOrderIds = await resolveClosedOrder(
+        order,
+        accessToken,
+        closedResolution
+      );
+      logger.info(
+        `[OrderUpdate] Order ${order.id} closed in Shopify, resolved ${resolvedOrderIds.length} flag(s)`
+      );
+      return {
+        outcome: "closed",
+        order: (await storage.getOrder(shopDomain, order.id)) ?? order,
+        resolvedOrderIds,
+        reevaluatedOrderIds: [],
+      };
+    }
+
+    if (order.isFlagged && isReviewTagRemoved(order, payload)) {
+      logger.info(`[OrderUpdate] Tag removed from order ${order.id}, resolving order`);
+      const resolvedOrder = await storage.resolveOrder(
+        shopDomain,
+        order.id,
+        "shopify_tag_removed"
+      );
+
+      // The merchant removed at least one tag; clear the others we added
+      const appliedTags = getAppliedReviewTags(order);
+      const orderTags = parseOrderTags(payload.tags);
+      const remainingTags = {
+        order: appliedTags.order.filter((tag) => orderTags.includes(tag)),
+        original: appliedTags.original,
+      };
+      await clearFlagInShopify({ ...order, reviewTags: remainingTags }, accessToken, "shopify");
+
+      await storage.createAuditLog({
+        shopDomain,
+        orderId: resolvedOrder.id,
+        action: "resolved",
+        actor: "shopify",
+        details: {
+          resolvedBy: "shopify_tag_removed",
+          resolvedAt: resolvedOrder.resolvedAt,
+          shopifyOrderId: order.shopifyOrderId,
+        },
+      });
+      return {
+        outcome: "tag_removed",
+        order: resolvedOrder,
+        resolvedOrderIds: [resolvedOrder.id],
+        reevaluatedOrderIds: [],
+      };
+    }
+
+    const mapped = mapShopifyOrder(shopDomain, payload);
+    if (!hasDetectionRelevantChanges(order, mapped)) {
+      return {
+        outcome: "unchanged",
+        order,
+        resolvedOrderIds: [],
+        reevaluatedOrderIds: [],
+      };
+    }
+
+    const updatedOrder = await storage.updateOrder(shopDomain, order.id, {
+      orderNumber: mapped.orderNumber,
+      customerEmail: mapped.customerEmail,
+      customerName: mapped.customerName,
+      customerPhone: mapped.customerPhone,
+      shippingAddress: mapped.shippingAddress,
+      shopifyCustomerId: mapped.shopifyCustomerId,
+      customerTags: mapped.customerTags,
+      lineItems: mapped.lineItems,
+      totalPrice: mapped.totalPrice,
+      currency: mapped.currency,
+    });
+
+    const reevaluatedOrderIds: string[] = [];
+    const reevaluated = await reevaluateOrder(updatedOrder, accessToken);
+    reevaluatedOrderIds.push(reevaluated.id);
+
+    const dependents = await storage.getFlaggedDuplicatesOf(shopDomain, order.id);
+    for (const dependent of dependents) {
+      await reevaluateOrder(dependent, accessToken);
+      reevaluatedOrderIds.push(dependent.id);
+    }
+
+    return {
+      outcome: "reevaluated",
+      order: reevaluated,
+      resolvedOrderIds: [],
+      reevaluatedOrderIds,
+    };
+  }
+}
+
+export const orderUpdateService = new OrderUpdateService();
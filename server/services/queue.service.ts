@@ -5,7 +5,10 @@ import { logger } from "../utils/logger";
 // Queue names
 export const QUEUES = {
   ORDERS_CREATE: "orders-create-processing",
+  ORDERS_UPDATED: "orders-updated-processing",
+  ORDERS_CLOSED: "orders-closed-processing",
   HISTORICAL_SCAN: "historical-scan-processing",
+  BULK_ACTIONS: "bulk-action-processing",
 } as const;
 
 const QUEUE_OPTIONS: Record<string, PgBoss.Queue> = {
@@ -13,10 +16,22 @@ const QUEUE_OPTIONS: Record<string, PgBoss.Queue> = {
     name: QUEUES.ORDERS_CREATE,
     policy: "stately",
   },
+  [QUEUES.ORDERS_UPDATED]: {
+    name: QUEUES.ORDERS_UPDATED,
+    policy: "stately",
+  },
+  [QUEUES.ORDERS_CLOSED]: {
+    name: QUEUES.ORDERS_CLOSED,
+    policy: "stately",
+  },
   [QUEUES.HISTORICAL_SCAN]: {
     name: QUEUES.HISTORICAL_SCAN,
     policy: "stately",
   },
+  [QUEUES.BULK_ACTIONS]: {
+    name: QUEUES.BULK_ACTIONS,
+    policy: "stately",
+  },
 };
 
 export class QueueService {
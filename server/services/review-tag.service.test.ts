@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  storage: { getOrder: vi.fn(), getFlaggedDuplicatesOf: vi.fn() },
+  shopifyService: { tagOrder: vi.fn(), removeOrderTags: vi.fn() },
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("../storage", () => ({ storage: mocks.storage }));
+vi.mock("./shopify.service", () => ({ shopifyService: mocks.shopifyService }));
+vi.mock("../utils/logger", () => ({ logger: mocks.logger }));
+
+import {
+  getAppliedReviewTags,
+  getReviewTagsForMatch,
+  reviewTagService,
+} from "./review-tag.service";
+
+const shopDomain = "test.myshopify.com";
+
+const tagSettings = {
+  reviewTag: "DupGuard",
+  highConfidenceTag: "DupGuard-High",
+  lowConfidenceTag: "DupGuard-Low",
+  highConfidenceTagThreshold: 90,
+  originalOrderTag: "DupGuard-Original",
+};
+
+function buildOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "stored-2",
+    shopDomain,
+    shopifyOrderId: "1002",
+    flagSource: "live",
+    duplicateOfOrderId: "stored-1",
+    reviewTags: { order: ["DupGuard", "DupGuard-High"], original: "DupGuard-Original" },
+    ...overrides,
+  } as any;
+}
+
+describe("getReviewTagsForMatch", () => {
+  it("uses the default review tag without settings", () => {
+    expect(getReviewTagsForMatch(undefined, 95)).toEqual({
+      order: ["Merge_Review_Candidate"],
+      original: null,
+    });
+  });
+
+  it("adds the tier tag for the match confidence", () => {
+    expect(getReviewTagsForMatch(tagSettings, 90).order).toEqual(["DupGuard", "DupGuard-High"]);
+    expect(getReviewTagsForMatch(tagSettings, 72).order).toEqual(["DupGuard", "DupGuard-Low"]);
+    expect(getReviewTagsForMatch({ ...tagSettings, lowConfidenceTag: null }, 72).order).toEqual([
+      "DupGuard",
+    ]);
+  });
+});
+
+describe("getAppliedReviewTags", () => {
+  it("falls back to the default tag only for untracked live flags", () => {
+    expect(getAppliedReviewTags({ reviewTags: null, flagSource: "live" }).order).toEqual([
+      "Merge_Review_Candidate",
+    ]);
+    expect(getAppliedReviewTags({ reviewTags: null, flagSource: "historical" }).order).toEqual([]);
+  });
+});
+
+describe("ReviewTagService.untagFlaggedOrder", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.storage.getOrder.mockResolvedValue({ id: "stored-1", shopifyOrderId: "1001" });
+  });
+
+  it("removes the recorded tags and the original's tag once no flags point to it", async () => {
+    mocks.storage.getFlaggedDuplicatesOf.mockResolvedValue([]);
+
+    await expect(reviewTagService.untagFlaggedOrder(buildOrder(), "token")).resolves.toBe(true);
+
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1002",
+      ["DupGuard", "DupGuard-High"]
+    );
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1001",
+      ["DupGuard-Original"]
+    );
+  });
+
+  it("keeps historical dismissals read-only in Shopify", async () => {
+    await expect(
+      reviewTagService.untagFlaggedOrder(
+        buildOrder({ flagSource: "historical", reviewTags: null }),
+        "token"
+      )
+    ).resolves.toBe(false);
+
+    expect(mocks.shopifyService.removeOrderTags).not.toHaveBeenCalled();
+    expect(mocks.storage.getOrder).not.toHaveBeenCalled();
+  });
+
+  it("preserves tag removal for live findings flagged before tags were recorded", async () => {
+    await expect(
+      reviewTagService.untagFlaggedOrder(buildOrder({ reviewTags: null }), "token")
+    ).resolves.toBe(true);
+
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1002",
+      ["Merge_Review_Candidate"]
+    );
+  });
+
+  it("keeps the original's tag while another flag points to it", async () => {
+    mocks.storage.getFlaggedDuplicatesOf.mockResolvedValue([{ id: "stored-3" }]);
+
+    await reviewTagService.untagFlaggedOrder(buildOrder(), "token");
+
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledTimes(1);
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1002",
+      ["DupGuard", "DupGuard-High"]
+    );
+  });
+});
+
+describe("ReviewTagService.retagFlaggedOrder", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.storage.getFlaggedDuplicatesOf.mockResolvedValue([]);
+    mocks.storage.getOrder.mockImplementation(async (_shop: string, id: string) => ({
+      id,
+      shopifyOrderId: id === "stored-1" ? "1001" : "1003",
+    }));
+  });
+
+  it("swaps the tier tag and leaves the original alone when only the confidence changed", async () => {
+    await reviewTagService.retagFlaggedOrder(
+      buildOrder(),
+      buildOrder({
+        reviewTags: { order: ["DupGuard", "DupGuard-Low"], original: "DupGuard-Original" },
+      }),
+      "token"
+    );
+
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledTimes(1);
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1002",
+      ["DupGuard-High"]
+    );
+    expect(mocks.shopifyService.tagOrder).toHaveBeenCalledTimes(1);
+    expect(mocks.shopifyService.tagOrder).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1002",
+      ["DupGuard", "DupGuard-Low"]
+    );
+  });
+
+  it("moves the original-order tag to the newly matched order", async () => {
+    await reviewTagService.retagFlaggedOrder(
+      buildOrder(),
+      buildOrder({ duplicateOfOrderId: "stored-3" }),
+      "token"
+    );
+
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1001",
+      ["DupGuard-Original"]
+    );
+    expect(mocks.shopifyService.tagOrder).toHaveBeenCalledWith(
+      shopDomain,
+      "token",
+      "1003",
+      ["DupGuard-Original"]
+    );
+  });
+});
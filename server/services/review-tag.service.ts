@@ -0,0 +1,191 @@
+import {
+  DEFAULT_HIGH_CONFIDENCE_TAG_THRESHOLD,
+  DEFAULT_REVIEW_TAG,
+  type DetectionSettings,
+  type Order,
+  type ShopifyReviewTags,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { logger } from "../utils/logger";
+import { shopifyService } from "./shopify.service";
+
+export type ReviewTagSettings = Pick<
+  DetectionSettings,
+  | "reviewTag"
+  | "highConfidenceTag"
+  | "lowConfidenceTag"
+  | "highConfidenceTagThreshold"
+  | "originalOrderTag"
+>;
+
+/**
+ * The tags a new flag adds in Shopify: the review tag plus the tier tag for
+ * the match confidence on the flagged order, and the original-order tag (if
+ * configured) on the order it duplicates. Shops without settings get the
+ * default review tag only.
+ */
+export function getReviewTagsForMatch(
+  settings: ReviewTagSettings | undefined,
+  confidence: number
+): ShopifyReviewTags {
+  const threshold =
+    settings?.highConfidenceTagThreshold ?? DEFAULT_HIGH_CONFIDENCE_TAG_THRESHOLD;
+  const tierTag =
+    Math.round(confidence) >= threshold
+      ? settings?.highConfidenceTag
+      : settings?.lowConfidenceTag;
+
+  const tags = [settings?.reviewTag || DEFAULT_REVIEW_TAG];
+  if (tierTag && !tags.includes(tierTag)) {
+    tags.push(tierTag);
+  }
+  return { order: tags, original: settings?.originalOrderTag || null };
+}
+
+/**
+ * The tags the app added to a flagged order. Live flags from before tags were
+ * recorded carry the default review tag; historical flags are only tagged
+ * when re-tagged from the dashboard, which records the tags.
+ */
+export function getAppliedReviewTags(
+  order: Pick<Order, "reviewTags" | "flagSource">
+): ShopifyReviewTags {
+  if (order.reviewTags) {
+    return order.reviewTags;
+  }
+  return {
+    order: order.flagSource === "historical" ? [] : [DEFAULT_REVIEW_TAG],
+    original: null,
+  };
+}
+
+export class ReviewTagService {
+  /**
+   * Tag a flagged order, and the order it duplicates when an original-order
+   * tag was recorded. A failure on the original is logged rather than thrown
+   * so it does not mask the flagged order's own tag.
+   */
+  async tagFlaggedOrder(order: Order, accessToken: string): Promise<void> {
+    const tags = getAppliedReviewTags(order);
+    if (tags.order.length > 0) {
+      await shopifyService.tagOrder(
+        order.shopDomain,
+        accessToken,
+        order.shopifyOrderId,
+        tags.order
+      );
+    }
+
+    if (tags.original && order.duplicateOfOrderId) {
+      try {
+        const original = await storage.getOrder(order.shopDomain, order.duplicateOfOrderId);
+        if (original) {
+          await shopifyService.tagOrder(
+            order.shopDomain,
+            accessToken,
+            original.shopifyOrderId,
+            [tags.original]
+          );
+        }
+      } catch (error) {
+        logger.error(
+          `[ReviewTags] Failed to tag original order of ${order.shopifyOrderId}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Remove the tags the app added for a flag that is no longer open. Pass the
+   * order as it was while flagged. The original-order tag stays while other
+   * flagged orders still point to the same original. Returns whether any tag
+   * was removed from the order itself.
+   */
+  async untagFlaggedOrder(order: Order, accessToken: string): Promise<boolean> {
+    const tags = getAppliedReviewTags(order);
+
+    if (tags.original) {
+      await this.untagOriginalOrder(order, tags.original, accessToken);
+    }
+
+    if (tags.order.length === 0) {
+      return false;
+    }
+    await shopifyService.removeOrderTags(
+      order.shopDomain,
+      accessToken,
+      order.shopifyOrderId,
+      tags.order
+    );
+    return true;
+  }
+
+  /**
+   * Bring Shopify in line with a flag whose match changed: swap the tier tag
+   * and move the original-order tag when the flag now points to another
+   * order. Pass the order as it was before and after the change.
+   */
+  async retagFlaggedOrder(
+    previous: Order,
+    order: Order,
+    accessToken: string
+  ): Promise<void> {
+    const before = getAppliedReviewTags(previous);
+    const after = getAppliedReviewTags(order);
+
+    const removed = before.order.filter((tag) => !after.order.includes(tag));
+    if (removed.length > 0) {
+      await shopifyService.removeOrderTags(
+        order.shopDomain,
+        accessToken,
+        order.shopifyOrderId,
+        removed
+      );
+    }
+
+    const originalMoved =
+      before.original !== after.original ||
+      previous.duplicateOfOrderId !== order.duplicateOfOrderId;
+    if (originalMoved && before.original) {
+      await this.untagOriginalOrder(previous, before.original, accessToken);
+    }
+    await this.tagFlaggedOrder(
+      originalMoved ? order : { ...order, reviewTags: { ...after, original: null } },
+      accessToken
+    );
+  }
+
+  // The original-order tag stays while other flagged orders still point to
+  // the same original
+  private async untagOriginalOrder(
+    order: Order,
+    tag: string,
+    accessToken: string
+  ): Promise<void> {
+    if (!order.duplicateOfOrderId) {
+      return;
+    }
+    try {
+      const [original, stillFlagged] = await Promise.all([
+        storage.getOrder(order.shopDomain, order.duplicateOfOrderId),
+        storage.getFlaggedDuplicatesOf(order.shopDomain, order.duplicateOfOrderId),
+      ]);
+      if (original && !stillFlagged.some((dependent) => dependent.id !== order.id)) {
+        await shopifyService.removeOrderTags(
+          order.shopDomain,
+          accessToken,
+          original.shopifyOrderId,
+          [tag]
+        );
+      }
+    } catch (error) {
+      logger.error(
+        `[ReviewTags] Failed to remove tag from original order of ${order.shopifyOrderId}:`,
+        error
+      );
+    }
+  }
+}
+
+export const reviewTagService = new ReviewTagService();
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { DetectionSettingsSnapshot } from "@shared/schema";
+
+const mocks = vi.hoisted(() => ({
+  storage: {
+    updateSettingsVersioned: vi.fn(),
+    getSettingsVersion: vi.fn(),
+    getSettingsVersions: vi.fn(),
+    createAuditLog: vi.fn(),
+  },
+  subscriptionService: { getSubscription: vi.fn() },
+}));
+
+vi.mock("../storage", () => ({ storage: mocks.storage }));
+vi.mock("./subscription.service", () => ({ subscriptionService: mocks.subscriptionService }));
+
+import { settingsHistoryService, SettingsVersionNotFoundError } from "./settings-history.service";
+
+const shopDomain = "test-shop.myshopify.com";
+const staff = { userId: "42", name: "Grace Hopper", email: null };
+
+const snapshot = {
+  timeWindowHours: 24,
+  matchEmail: true,
+  matchPhone: false,
+  matchAddress: true,
+  matchSku: false,
+  enableNotifications: false,
+  notificationEmail: null,
+  slackWebhookUrl: null,
+  notificationThreshold: 80,
+  flagThreshold: 70,
+  totalPriceTolerancePercent: 0,
+  ruleWeights: null,
+} satisfies DetectionSettingsSnapshot;
+
+function buildVersion(version: number, settings: Partial<DetectionSettingsSnapshot> = {}) {
+  return {
+    id: `version-${version}`,
+    shopDomain,
+    version,
+    source: "update",
+    settings: { ...snapshot, ...settings },
+    changes: {},
+    changedBy: null,
+    restoredFromVersion: null,
+    createdAt: new Date("2026-05-01T00:00:00.000Z"),
+  };
+}
+
+describe("SettingsHistoryService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.subscriptionService.getSubscription.mockResolvedValue({ tier: "paid" });
+  });
+
+  it("records a changed version in the audit log", async () => {
+    mocks.storage.updateSettingsVersioned.mockResolvedValue({
+      settings: { ...snapshot, flagThreshold: 85 },
+      version: { ...buildVersion(3), changes: { flagThreshold: { from: 70, to: 85 } } },
+    });
+
+    await settingsHistoryService.update(shopDomain, { flagThreshold: 85 }, staff);
+
+    expect(mocks.storage.updateSettingsVersioned).toHaveBeenCalledWith(
+      shopDomain,
+      { flagThreshold: 85 },
+      { source: "update", changedBy: staff, restoredFromVersion: undefined }
+    );
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledWith({
+      shopDomain,
+      orderId: null,
+      action: "settings_updated",
+      actor: "dashboard",
+      performedBy: staff,
+      details: {
+        version: 3,
+        restoredFromVersion: null,
+        changes: { flagThreshold: { from: 70, to: 85 } },
+      },
+    });
+  });
+
+  it("skips the audit entry when nothing changed", async () => {
+    mocks.storage.updateSettingsVersioned.mockResolvedValue({ settings: snapshot, version: null });
+
+    await settingsHistoryService.update(shopDomain, { flagThreshold: 70 }, staff);
+
+    expect(mocks.storage.createAuditLog).not.toHaveBeenCalled();
+  });
+
+  it("keeps notifications off on the free tier", async () => {
+    mocks.subscriptionService.getSubscription.mockResolvedValue({ tier: "free" });
+    mocks.storage.updateSettingsVersioned.mockResolvedValue({ settings: snapshot, version: null });
+
+    await settingsHistoryService.update(shopDomain, { enableNotifications: true }, null);
+
+    expect(mocks.storage.updateSettingsVersioned).toHaveBeenCalledWith(
+      shopDomain,
+      { enableNotifications: false },
+      expect.anything()
+    );
+  });
+
+  it("restores a version's settings as a new version", async () => {
+    mocks.storage.getSettingsVersion.mockResolvedValue(buildVersion(2, { flagThreshold: 60 }));
+    mocks.storage.updateSettingsVersioned.mockResolvedValue({ settings: snapshot, version: null });
+
+    await settingsHistoryService.restore(shopDomain, 2, staff);
+
+    expect(mocks.storage.updateSettingsVersioned).toHaveBeenCalledWith(
+      shopDomain,
+      expect.objectContaining({ flagThreshold: 60 }),
+      { source: "restore", changedBy: staff, restoredFromVersion: 2 }
+    );
+  });
+
+  it("rejects an unknown version", async () => {
+    mocks.storage.getSettingsVersion.mockResolvedValue(undefined);
+
+    await expect(settingsHistoryService.restore(shopDomain, 9, staff)).rejects.toBeInstanceOf(
+      SettingsVersionNotFoundError
+    );
+    expect(mocks.storage.updateSettingsVersioned).not.toHaveBeenCalled();
+  });
+
+  it("diffs two versions", async () => {
+    mocks.storage.getSettingsVersion.mockImplementation(async (_shop: string, version: number) =>
+      version === 1 ? buildVersion(1) : buildVersion(4, { flagThreshold: 90, matchSku: true })
+    );
+
+    await expect(settingsHistoryService.diffVersions(shopDomain, 1, 4)).resolves.toEqual({
+      from: 1,
+      to: 4,
+      changes: {
+        matchSku: { from: false, to: true },
+        flagThreshold: { from: 70, to: 90 },
+      },
+    });
+  });
+});
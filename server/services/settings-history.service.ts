@@ -0,0 +1,100 @@
+import type {
+  DetectionSettings,
+  DetectionSettingsVersion,
+  SettingsVersionDiff,
+  StaffMember,
+  UpdateDetectionSettings,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { logger } from "../utils/logger";
+import { diffSettingsSnapshots } from "../utils/settings-diff";
+import { subscriptionService } from "./subscription.service";
+
+export class SettingsVersionNotFoundError extends Error {}
+
+export class SettingsHistoryService {
+  /**
+   * Save a settings change as a new version and record it in the audit log.
+   * Notifications stay off for shops on the free tier.
+   */
+  async update(
+    shopDomain: string,
+    updates: UpdateDetectionSettings,
+    changedBy: StaffMember | null,
+    restoredFromVersion?: number
+  ): Promise<DetectionSettings> {
+    const allowed = { ...updates };
+    if (allowed.enableNotifications) {
+      const subscription = await subscriptionService.getSubscription(shopDomain);
+      if (subscription.tier !== "paid") {
+        logger.warn(
+          `[Settings] Shop ${shopDomain} (free tier) attempted to enable notifications. Forcing disabled.`
+        );
+        allowed.enableNotifications = false;
+      }
+    }
+
+    const { settings, version } = await storage.updateSettingsVersioned(shopDomain, allowed, {
+      source: restoredFromVersion === undefined ? "update" : "restore",
+      changedBy,
+      restoredFromVersion,
+    });
+
+    if (version) {
+      try {
+        await storage.createAuditLog({
+          shopDomain,
+          orderId: null,
+          action: "settings_updated",
+          actor: "dashboard",
+          performedBy: changedBy,
+          details: {
+            version: version.version,
+            restoredFromVersion: version.restoredFromVersion,
+            changes: version.changes,
+          },
+        });
+      } catch (error) {
+        logger.error("[Settings] Failed to record settings change:", error);
+      }
+    }
+
+    return settings;
+  }
+
+  async listVersions(shopDomain: string, limit: number): Promise<DetectionSettingsVersion[]> {
+    return storage.getSettingsVersions(shopDomain, limit);
+  }
+
+  /**
+   * Fields that differ between two versions, from the first to the second.
+   */
+  async diffVersions(shopDomain: string, from: number, to: number): Promise<SettingsVersionDiff> {
+    const [fromVersion, toVersion] = await Promise.all([
+      storage.getSettingsVersion(shopDomain, from),
+      storage.getSettingsVersion(shopDomain, to),
+    ]);
+    if (!fromVersion || !toVersion) {
+      throw new SettingsVersionNotFoundError(`Settings version ${fromVersion ? to : from} not found`);
+    }
+    return { from, to, changes: diffSettingsSnapshots(fromVersion.settings, toVersion.settings) };
+  }
+
+  /**
+   * Put back the settings recorded by a version. The restore is saved as a
+   * new version, so it can be undone the same way.
+   */
+  async restore(
+    shopDomain: string,
+    versionNumber: number,
+    changedBy: StaffMember | null
+  ): Promise<DetectionSettings> {
+    const version = await storage.getSettingsVersion(shopDomain, versionNumber);
+    if (!version) {
+      throw new SettingsVersionNotFoundError(`Settings version ${versionNumber} not found`);
+    }
+    return this.update(shopDomain, version.settings, changedBy, version.version);
+  }
+}
+
+export const settingsHistoryService = new SettingsHistoryService();
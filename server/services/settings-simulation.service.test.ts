@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { DetectionExclusion, Order } from "@shared/schema";
+
+const mocks = vi.hoisted(() => ({
+  storage: {
+    getSettings: vi.fn(),
+    initializeSettings: vi.fn(),
+    getOrdersCreatedBetween: vi.fn(),
+    getExclusions: vi.fn(),
+  },
+}));
+
+vi.mock("../storage", () => ({ storage: mocks.storage }));
+
+import {
+  compareReplays,
+  replayDetection,
+  settingsSimulationService,
+  type ReplaySettings,
+} from "./settings-simulation.service";
+
+const settings: ReplaySettings = {
+  timeWindowHours: 24,
+  matchEmail: true,
+  matchPhone: false,
+  matchAddress: true,
+  matchSku: false,
+  flagThreshold: 70,
+};
+
+function buildOrder(id: string, createdAt: string, overrides: Partial<Order> = {}): Order {
+  return {
+    id,
+    shopDomain: "test-shop.myshopify.com",
+    shopifyOrderId: `shopify-${id}`,
+    orderNumber: id,
+    customerEmail: "ada@example.com",
+    customerEmailCanonical: null,
+    customerName: "Ada Lovelace",
+    customerPhone: null,
+    customerPhoneNormalized: null,
+    shippingAddress: { address1: "123 Main Street", city: "New York", zip: "10001", country: "US" },
+    shippingAddressKey: null,
+    shopifyCustomerId: null,
+    customerTags: null,
+    totalPrice: "25.00",
+    currency: "USD",
+    createdAt: new Date(createdAt),
+    isFlagged: false,
+    flagSource: "live",
+    flaggedByScanRunId: null,
+    flaggedAt: null,
+    duplicateOfOrderId: null,
+    matchReason: null,
+    matchConfidence: null,
+    resolvedAt: null,
+    resolvedBy: null,
+    resolutionOutcome: null,
+    resolutionNote: null,
+    lineItems: [{ id: "1", sku: "SKU-1", title: "Mug", quantity: 1, price: "25.00" }],
+    ...overrides,
+  };
+}
+
+const since = new Date("2026-06-01T00:00:00.000Z");
+
+describe("replayDetection", () => {
+  it("flags an order against earlier orders inside the time window", async () => {
+    const orders = [
+      buildOrder("1", "2026-06-01T10:00:00.000Z"),
+      buildOrder("2", "2026-06-01T20:00:00.000Z"),
+      buildOrder("3", "2026-06-03T10:00:00.000Z"),
+    ];
+
+    const matches = await replayDetection(orders, [], settings, since);
+
+    expect(Array.from(matches.keys())).toEqual(["2"]);
+    expect(matches.get("2")?.order.id).toBe("1");
+  });
+
+  it("uses orders before the period only as candidates", async () => {
+    const orders = [
+      buildOrder("0", "2026-05-31T20:00:00.000Z"),
+      buildOrder("1", "2026-06-01T10:00:00.000Z"),
+    ];
+
+    const matches = await replayDetection(orders, [], settings, since);
+
+    expect(Array.from(matches.keys())).toEqual(["1"]);
+  });
+
+  it("only compares orders that share an enabled signal", async () => {
+    const orders = [
+      buildOrder("1", "2026-06-01T10:00:00.000Z", { customerPhone: "555-123-4567" }),
+      buildOrder("2", "2026-06-01T11:00:00.000Z", {
+        customerEmail: "other@example.com",
+        customerPhone: "(555) 123-4567",
+        shippingAddress: null,
+      }),
+    ];
+
+    expect((await replayDetection(orders, [], settings, since)).size).toBe(0);
+    expect(
+      (await replayDetection(orders, [], { ...settings, matchPhone: true, flagThreshold: 40 }, since))
+        .size
+    ).toBe(1);
+  });
+
+  it("skips excluded orders", async () => {
+    const orders = [
+      buildOrder("1", "2026-06-01T10:00:00.000Z"),
+      buildOrder("2", "2026-06-01T11:00:00.000Z"),
+    ];
+    const exclusion = { id: "x", type: "email", value: "ada@example.com" } as DetectionExclusion;
+
+    expect((await replayDetection(orders, [exclusion], settings, since)).size).toBe(0);
+  });
+});
+
+describe("compareReplays", () => {
+  it("lists orders flagged or unflagged by the draft, newest first", async () => {
+    const orders = [
+      buildOrder("1", "2026-06-01T10:00:00.000Z"),
+      buildOrder("2", "2026-06-01T20:00:00.000Z"),
+      buildOrder("3", "2026-06-03T10:00:00.000Z"),
+      buildOrder("4", "2026-06-04T09:00:00.000Z", { customerEmail: "grace@example.com" }),
+    ];
+
+    const result = await compareReplays(
+      orders,
+      [],
+      settings,
+      { ...settings, timeWindowHours: 48, matchAddress: false },
+      since
+    );
+
+    expect(result).toMatchObject({ ordersReplayed: 4, currentFlagged: 2, draftFlagged: 2 });
+    expect(result.changes.map(({ orderId, change }) => ({ orderId, change }))).toEqual([
+      { orderId: "4", change: "unflagged" },
+      { orderId: "3", change: "flagged" },
+    ]);
+    expect(result.changes[0]).toMatchObject({
+      current: { duplicateOfOrderNumber: "3", confidence: 70 },
+      draft: null,
+    });
+    expect(result.changes[1]).toMatchObject({
+      current: null,
+      draft: { duplicateOfOrderNumber: "2", matchReason: "Same email, Same name" },
+    });
+  });
+});
+
+describe("SettingsSimulationService.simulate", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.storage.getSettings.mockResolvedValue(settings);
+    mocks.storage.getExclusions.mockResolvedValue([]);
+  });
+
+  it("loads enough lookback for the wider of the two time windows", async () => {
+    mocks.storage.getOrdersCreatedBetween.mockResolvedValue([
+      buildOrder("2", new Date().toISOString()),
+      buildOrder("1", new Date(Date.now() - 60 * 60 * 1000).toISOString()),
+    ]);
+
+    const result = await settingsSimulationService.simulate(
+      "test-shop.myshopify.com",
+      { timeWindowHours: 72, matchAddress: false, flagThreshold: 75 },
+      7
+    );
+
+    const [, from, to] = mocks.storage.getOrdersCreatedBetween.mock.calls[0];
+    expect(to.getTime() - from.getTime()).toBeGreaterThanOrEqual((7 * 24 + 72) * 60 * 60 * 1000);
+    expect(result).toMatchObject({
+      days: 7,
+      truncated: false,
+      currentFlagged: 1,
+      draftFlagged: 0,
+      changes: [{ orderId: "2", change: "unflagged" }],
+    });
+    expect(mocks.storage.initializeSettings).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  SETTINGS_SIMULATION_MAX_ORDERS,
+  type DetectionExclusion,
+  type Order,
+  type SettingsSimulationChange,
+  type SettingsSimulationResult,
+  type UpdateDetectionSettings,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { buildAddressKey } from "../utils/address";
+import { canonicalizeEmail } from "../utils/email";
+import { normalizePhoneNumber } from "../utils/phone";
+import {
+  extractSkus,
+  findDuplicateMatches,
+  type CandidateMatchingSettings,
+  type CandidateSource,
+  type DuplicateMatch,
+} from "./detection-rules";
+import { findMatchingExclusion } from "./exclusion.service";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type ReplaySettings = CandidateMatchingSettings;
+
+function addToIndex(index: Map<string, Order[]>, key: string | null | undefined, order: Order) {
+  if (!key) return;
+  const bucket = index.get(key);
+  if (bucket) {
+    bucket.push(order);
+  } else {
+    index.set(key, [order]);
+  }
+}
+
+/**
+ * Candidate lookups against in-memory indexes of the replayed orders. The
+ * window is applied by the shared matcher, so whole buckets are returned.
+ */
+function buildReplayCandidateSource(orders: Order[]): CandidateSource {
+  const byEmail = new Map<string, Order[]>();
+  const byPhone = new Map<string, Order[]>();
+  const byAddress = new Map<string, Order[]>();
+  const bySku = new Map<string, Order[]>();
+  orders.forEach((order) => {
+    addToIndex(byEmail, canonicalizeEmail(order.customerEmail), order);
+    addToIndex(byPhone, normalizePhoneNumber(order.customerPhone), order);
+    addToIndex(byAddress, buildAddressKey(order.shippingAddress), order);
+    Array.from(new Set(extractSkus(order.lineItems))).forEach((sku) =>
+      addToIndex(bySku, sku, order)
+    );
+  });
+
+  return {
+    byEmail: async (canonicalEmail) => byEmail.get(canonicalEmail) ?? [],
+    byPhone: async (normalizedPhone) => byPhone.get(normalizedPhone) ?? [],
+    byAddressKey: async (addressKey) => byAddress.get(addressKey) ?? [],
+    bySkus: async (skus) => skus.flatMap((sku) => bySku.get(sku) ?? []),
+  };
+}
+
+/**
+ * Replay orders (oldest first) through duplicate detection in memory, using
+ * the same candidate selection and scoring as live detection. Orders created
+ * before `since` are only used as candidates. Returns the strongest match at
+ * or above the flag threshold per flagged order ID.
+ */
+export async function replayDetection(
+  orders: Order[],
+  exclusions: DetectionExclusion[],
+  settings: ReplaySettings,
+  since: Date
+): Promise<Map<string, DuplicateMatch>> {
+  const source = buildReplayCandidateSource(orders);
+  const results = new Map<string, DuplicateMatch>();
+
+  for (const order of orders) {
+    if (new Date(order.createdAt).getTime() < since.getTime()) continue;
+    if (findMatchingExclusion(order, exclusions)) continue;
+
+    const [best] = await findDuplicateMatches(order, settings, source);
+    if (best) results.set(order.id, best);
+  }
+
+  return results;
+}
+
+function summarizeMatch(match: DuplicateMatch | undefined): SettingsSimulationChange["current"] {
+  if (!match) return null;
+  return {
+    confidence: Math.round(match.confidence),
+    matchReason: match.matchReason,
+    duplicateOfOrderNumber: match.order.orderNumber,
+  };
+}
+
+/**
+ * Replay the orders with the saved and the draft settings and list the
+ * orders whose flag differs, newest first.
+ */
+export async function compareReplays(
+  orders: Order[],
+  exclusions: DetectionExclusion[],
+  currentSettings: ReplaySettings,
+  draftSettings: ReplaySettings,
+  since: Date
+): Promise<
+  Pick<SettingsSimulationResult, "ordersReplayed" | "currentFlagged" | "draftFlagged" | "changes">
+> {
+  const current = await replayDetection(orders, exclusions, currentSettings, since);
+  const draft = await replayDetection(orders, exclusions, draftSettings, since);
+  const replayed = orders.filter(
+    (order) => new Date(order.createdAt).getTime() >= since.getTime()
+  );
+
+  const changes = replayed
+    .filter((order) => current.has(order.id) !== draft.has(order.id))
+    .map<SettingsSimulationChange>((order) => ({
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      customerName: order.customerName,
+      customerEmail: order.customerEmail,
+      totalPrice: order.totalPrice,
+      currency: order.currency,
+      createdAt: new Date(order.createdAt).toISOString(),
+      change: draft.has(order.id) ? "flagged" : "unflagged",
+      current: summarizeMatch(current.get(order.id)),
+      draft: summarizeMatch(draft.get(order.id)),
+    }))
+    .reverse();
+
+  return {
+    ordersReplayed: replayed.length,
+    currentFlagged: current.size,
+    draftFlagged: draft.size,
+    changes,
+  };
+}
+
+export class SettingsSimulationService {
+  /**
+   * What-if for draft settings: replay the shop's stored orders from the last
+   * `days` days with both the saved and the draft settings. Nothing is
+   * persisted and nothing is sent to Shopify.
+   */
+  async simulate(
+    shopDomain: string,
+    draft: UpdateDetectionSettings,
+    days: number
+  ): Promise<SettingsSimulationResult> {
+    const storedSettings =
+      (await storage.getSettings(shopDomain)) ?? (await storage.initializeSettings(shopDomain));
+    const draftSettings = { ...storedSettings, ...draft };
+
+    const now = new Date();
+    const since = new Date(now.getTime() - days * DAY_MS);
+    const lookbackHours = Math.max(storedSettings.timeWindowHours, draftSettings.timeWindowHours);
+    const [newestFirst, exclusions] = await Promise.all([
+      storage.getOrdersCreatedBetween(
+        shopDomain,
+        new Date(since.getTime() - lookbackHours * HOUR_MS),
+        now,
+        SETTINGS_SIMULATION_MAX_ORDERS + 1
+      ),
+      storage.getExclusions(shopDomain),
+    ]);
+    const truncated = newestFirst.length > SETTINGS_SIMULATION_MAX_ORDERS;
+    const orders = newestFirst.slice(0, SETTINGS_SIMULATION_MAX_ORDERS).reverse();
+
+    return {
+      days,
+      truncated,
+      ...(await compareReplays(orders, exclusions, storedSettings, draftSettings, since)),
+    };
+  }
+}
+
+export const settingsSimulationService = new SettingsSimulationService();
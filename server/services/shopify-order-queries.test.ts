@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import {
+  LINE_ITEMS_LIMIT,
+  LINE_ITEMS_PAGE_SIZE,
+  MAX_QUERY_COST,
+  ORDER_LINE_ITEMS_QUERY,
+  ORDERS_PAGE_SIZE,
+  ORDERS_QUERY,
+} from "./shopify-order-queries";
+
+// Each object field costs 1; a connection costs 2 plus first × node cost,
+// and its pageInfo 1 more
+const connectionCost = (first: number, nodeCost: number) => 2 + 1 + first * nodeCost;
+// line item, originalUnitPriceSet { shopMoney }
+const lineItemCost = 1 + 2;
+// order, totalPriceSet { shopMoney }, customer { defaultEmailAddress,
+// defaultPhoneNumber }, billingAddress, shippingAddress, lineItems
+const orderCost = 1 + 2 + 3 + 1 + 1 + connectionCost(LINE_ITEMS_LIMIT, lineItemCost);
+
+describe("ORDERS_QUERY", () => {
+  it("fills a page up to Shopify's query cost limit", () => {
+    expect(ORDERS_QUERY).toContain(`lineItems(first: ${LINE_ITEMS_LIMIT})`);
+    expect(connectionCost(ORDERS_PAGE_SIZE, orderCost)).toBeLessThanOrEqual(MAX_QUERY_COST);
+    expect(connectionCost(ORDERS_PAGE_SIZE + 1, orderCost)).toBeGreaterThan(MAX_QUERY_COST);
+  });
+});
+
+describe("ORDER_LINE_ITEMS_QUERY", () => {
+  it("stays within Shopify's query cost limit", () => {
+    expect(ORDER_LINE_ITEMS_QUERY).toContain(`lineItems(first: ${LINE_ITEMS_PAGE_SIZE}`);
+    expect(1 + connectionCost(LINE_ITEMS_PAGE_SIZE, lineItemCost)).toBeLessThanOrEqual(
+      MAX_QUERY_COST
+    );
+  });
+});
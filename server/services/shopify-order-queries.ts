@@ -0,0 +1,445 @@
+import { fromShopifyGid, type ShopifyUserError } from "../utils/shopify-graphql";
+import type { ShopifyOrderPayload } from "./order-mapper.service";
+
+// Shopify rejects a query whose requested cost exceeds this many points
+export const MAX_QUERY_COST = 1000;
+
+// Query cost: every object costs 1 and a connection costs 2 plus its page
+// size times the cost of a node. A line item costs 3 (itself and
+// originalUnitPriceSet { shopMoney }); an order's own fields cost 8 (itself,
+// totalPriceSet { shopMoney }, customer with its email and phone objects and
+// the two addresses).
+const LINE_ITEM_COST = 3;
+const ORDER_FIELDS_COST = 8;
+// Connection overhead: 2, plus 1 for pageInfo
+const CONNECTION_COST = 3;
+
+// Line items fetched with an order. Orders with more are completed with
+// ORDER_LINE_ITEMS_QUERY, which pages through the rest at the larger size.
+export const LINE_ITEMS_LIMIT = 5;
+export const LINE_ITEMS_PAGE_SIZE = 250;
+
+const ORDER_COST =
+  ORDER_FIELDS_COST + CONNECTION_COST + LINE_ITEMS_LIMIT * LINE_ITEM_COST;
+
+// As many orders per page as the cost limit allows
+export const ORDERS_PAGE_SIZE = Math.floor((MAX_QUERY_COST - CONNECTION_COST) / ORDER_COST);
+
+const MAILING_ADDRESS_FIELDS = `
+  firstName
+  lastName
+  name
+  company
+  address1
+  address2
+  city
+  province
+  provinceCode
+  country
+  countryCodeV2
+  zip
+  phone
+`;
+
+const CUSTOMER_FIELDS = `
+  legacyResourceId
+  firstName
+  lastName
+  defaultEmailAddress { emailAddress }
+  defaultPhoneNumber { phoneNumber }
+  tags
+`;
+
+// Everything the order mapper reads except line items, which bulk queries
+// select as a nested connection
+const ORDER_SCALAR_FIELDS = `
+  id
+  legacyResourceId
+  name
+  email
+  phone
+  createdAt
+  cancelledAt
+  displayFinancialStatus
+  tags
+  currencyCode
+  totalPriceSet { shopMoney { amount } }
+  customer { ${CUSTOMER_FIELDS} }
+  billingAddress { ${MAILING_ADDRESS_FIELDS} }
+  shippingAddress { ${MAILING_ADDRESS_FIELDS} }
+`;
+
+const LINE_ITEM_FIELDS = `
+  id
+  sku
+  title
+  quantity
+  originalUnitPriceSet { shopMoney { amount } }
+`;
+
+const ORDER_FIELDS = `
+  ${ORDER_SCALAR_FIELDS}
+  lineItems(first: ${LINE_ITEMS_LIMIT}) {
+    nodes { ${LINE_ITEM_FIELDS} }
+    pageInfo { hasNextPage endCursor }
+  }
+`;
+
+export const ORDER_QUERY = `query Order($id: ID!) {
+  order(id: $id) { ${ORDER_FIELDS} }
+}`;
+
+export const ORDER_LINE_ITEMS_QUERY = `query OrderLineItems($id: ID!, $after: String) {
+  order(id: $id) {
+    lineItems(first: ${LINE_ITEMS_PAGE_SIZE}, after: $after) {
+      nodes { ${LINE_ITEM_FIELDS} }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+}`;
+
+export const ORDERS_QUERY = `query Orders($first: Int!, $after: String, $query: String!) {
+  orders(first: $first, after: $after, query: $query, sortKey: CREATED_AT) {
+    nodes { ${ORDER_FIELDS} }
+    pageInfo { hasNextPage endCursor }
+  }
+}`;
+
+export const ORDERS_COUNT_QUERY = `query OrdersCount($query: String!, $limit: Int) {
+  ordersCount(query: $query, limit: $limit) { count precision }
+}`;
+
+export const BULK_OPERATION_RUN_QUERY_MUTATION = `mutation BulkOperationRunQuery($query: String!) {
+  bulkOperationRunQuery(query: $query) {
+    bulkOperation { id status }
+    userErrors { field message }
+  }
+}`;
+
+export const BULK_OPERATION_QUERY = `query BulkOperation($id: ID!) {
+  node(id: $id) {
+    ... on BulkOperation { id status errorCode objectCount url }
+  }
+}`;
+
+export const CUSTOMER_QUERY = `query Customer($id: ID!) {
+  customer(id: $id) { ${CUSTOMER_FIELDS} }
+}`;
+
+export const TAGS_ADD_MUTATION = `mutation TagsAdd($id: ID!, $tags: [String!]!) {
+  tagsAdd(id: $id, tags: $tags) { userErrors { field message } }
+}`;
+
+export const TAGS_REMOVE_MUTATION = `mutation TagsRemove($id: ID!, $tags: [String!]!) {
+  tagsRemove(id: $id, tags: $tags) { userErrors { field message } }
+}`;
+
+export const ORDER_NOTE_QUERY = `query OrderNote($id: ID!) {
+  order(id: $id) { note }
+}`;
+
+export const ORDER_UPDATE_MUTATION = `mutation OrderUpdate($input: OrderInput!) {
+  orderUpdate(input: $input) {
+    order { id }
+    userErrors { field message }
+  }
+}`;
+
+export const METAFIELDS_SET_MUTATION = `mutation MetafieldsSet($metafields: [MetafieldsSetInput!]!) {
+  metafieldsSet(metafields: $metafields) {
+    metafields { id }
+    userErrors { field message }
+  }
+}`;
+
+export const METAFIELDS_DELETE_MUTATION = `mutation MetafieldsDelete($metafields: [MetafieldIdentifierInput!]!) {
+  metafieldsDelete(metafields: $metafields) {
+    deletedMetafields { key }
+    userErrors { field message }
+  }
+}`;
+
+// An order rarely has more than a handful of fulfillment orders (one per
+// location); 1 + 2 + 50 × 2 points
+export const FULFILLMENT_ORDERS_QUERY = `query FulfillmentOrders($id: ID!) {
+  order(id: $id) {
+    fulfillmentOrders(first: 50) {
+      nodes { id supportedActions { action } }
+    }
+  }
+}`;
+
+export const FULFILLMENT_ORDER_HOLD_MUTATION = `mutation FulfillmentOrderHold($id: ID!, $fulfillmentHold: FulfillmentOrderHoldInput!) {
+  fulfillmentOrderHold(id: $id, fulfillmentHold: $fulfillmentHold) {
+    fulfillmentHold { id }
+    userErrors { field message }
+  }
+}`;
+
+export const FULFILLMENT_ORDER_RELEASE_HOLD_MUTATION = `mutation FulfillmentOrderReleaseHold($id: ID!) {
+  fulfillmentOrderReleaseHold(id: $id) {
+    fulfillmentOrder { id }
+    userErrors { field message }
+  }
+}`;
+
+export const SHOP_CONTACT_EMAIL_QUERY = `query ShopContactEmail {
+  shop { contactEmail email }
+}`;
+
+interface GraphqlMoney {
+  shopMoney: { amount: string };
+}
+
+export interface GraphqlMailingAddress {
+  firstName: string | null;
+  lastName: string | null;
+  name: string | null;
+  company: string | null;
+  address1: string | null;
+  address2: string | null;
+  city: string | null;
+  province: string | null;
+  provinceCode: string | null;
+  country: string | null;
+  countryCodeV2: string | null;
+  zip: string | null;
+  phone: string | null;
+}
+
+export interface GraphqlCustomer {
+  legacyResourceId: string;
+  firstName: string | null;
+  lastName: string | null;
+  defaultEmailAddress: { emailAddress: string | null } | null;
+  defaultPhoneNumber: { phoneNumber: string | null } | null;
+  tags: string[];
+}
+
+export interface GraphqlLineItem {
+  id: string;
+  sku: string | null;
+  title: string;
+  quantity: number;
+  originalUnitPriceSet: GraphqlMoney | null;
+}
+
+export interface GraphqlPageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+export interface GraphqlLineItemConnection {
+  nodes: GraphqlLineItem[];
+  // Absent for bulk exports, which always carry every line item
+  pageInfo?: GraphqlPageInfo;
+}
+
+export interface GraphqlOrder {
+  id: string;
+  legacyResourceId: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  createdAt: string;
+  cancelledAt: string | null;
+  displayFinancialStatus: string | null;
+  tags: string[];
+  currencyCode: string;
+  totalPriceSet: GraphqlMoney | null;
+  customer: GraphqlCustomer | null;
+  billingAddress: GraphqlMailingAddress | null;
+  shippingAddress: GraphqlMailingAddress | null;
+  lineItems: GraphqlLineItemConnection;
+}
+
+export interface OrderQueryData {
+  order: GraphqlOrder | null;
+}
+
+export interface OrderLineItemsData {
+  order: { lineItems: Required<GraphqlLineItemConnection> } | null;
+}
+
+export interface OrdersQueryData {
+  orders: {
+    nodes: GraphqlOrder[];
+    pageInfo: GraphqlPageInfo;
+  };
+}
+
+export interface OrdersCountData {
+  ordersCount: { count: number; precision: "EXACT" | "AT_LEAST" } | null;
+}
+
+export type ShopifyBulkOperationStatus =
+  | "CREATED"
+  | "RUNNING"
+  | "COMPLETED"
+  | "CANCELING"
+  | "CANCELED"
+  | "FAILED"
+  | "EXPIRED";
+
+export interface ShopifyBulkOperation {
+  id: string;
+  status: ShopifyBulkOperationStatus;
+  errorCode: string | null;
+  objectCount: string;
+  // Signed JSONL download; null when the export is empty or not finished
+  url: string | null;
+}
+
+export interface BulkOperationRunQueryData {
+  bulkOperationRunQuery: {
+    bulkOperation: { id: string; status: ShopifyBulkOperationStatus } | null;
+    userErrors: ShopifyUserError[];
+  } | null;
+}
+
+export interface BulkOperationQueryData {
+  node: ShopifyBulkOperation | null;
+}
+
+export interface CustomerQueryData {
+  customer: GraphqlCustomer | null;
+}
+
+export interface TagsAddData {
+  tagsAdd: { userErrors: ShopifyUserError[] } | null;
+}
+
+export interface TagsRemoveData {
+  tagsRemove: { userErrors: ShopifyUserError[] } | null;
+}
+
+export interface OrderNoteData {
+  order: { note: string | null } | null;
+}
+
+export interface OrderUpdateData {
+  orderUpdate: { userErrors: ShopifyUserError[] } | null;
+}
+
+export interface MetafieldsSetData {
+  metafieldsSet: {
+    metafields: Array<{ id: string }> | null;
+    userErrors: ShopifyUserError[];
+  } | null;
+}
+
+export interface MetafieldsDeleteData {
+  metafieldsDelete: { userErrors: ShopifyUserError[] } | null;
+}
+
+export interface FulfillmentOrdersData {
+  order: {
+    fulfillmentOrders: {
+      nodes: Array<{ id: string; supportedActions: Array<{ action: string }> }>;
+    };
+  } | null;
+}
+
+export interface FulfillmentOrderHoldData {
+  fulfillmentOrderHold: { userErrors: ShopifyUserError[] } | null;
+}
+
+export interface FulfillmentOrderReleaseHoldData {
+  fulfillmentOrderReleaseHold: { userErrors: ShopifyUserError[] } | null;
+}
+
+export interface ShopContactEmailData {
+  shop: { contactEmail: string | null; email: string | null };
+}
+
+export type ShopifyCustomerPayload = NonNullable<ShopifyOrderPayload["customer"]>;
+
+/** Search syntax for orders created in `[since, until]`. */
+export function buildCreatedAtQuery(since: Date, until: Date): string {
+  return `created_at:>='${since.toISOString()}' AND created_at:<='${until.toISOString()}'`;
+}
+
+/**
+ * Bulk query for orders created in `[since, until]`, oldest first. Bulk
+ * queries take no page sizes: each order is a JSONL line followed by one line
+ * per line item carrying the order's ID as `__parentId`.
+ */
+export function buildBulkOrdersQuery(since: Date, until: Date): string {
+  return `{
+    orders(query: ${JSON.stringify(buildCreatedAtQuery(since, until))}, sortKey: CREATED_AT) {
+      edges {
+        node {
+          ${ORDER_SCALAR_FIELDS}
+          lineItems { edges { node { ${LINE_ITEM_FIELDS} } } }
+        }
+      }
+    }
+  }`;
+}
+
+// REST's order_number is the name without the shop's prefix and suffix
+function parseOrderNumber(name: string): string | null {
+  return name.match(/(\d+)\D*$/)?.[1] ?? null;
+}
+
+function mapMailingAddress(
+  address: GraphqlMailingAddress | null
+): ShopifyOrderPayload["shipping_address"] {
+  if (!address) {
+    return undefined;
+  }
+  return {
+    first_name: address.firstName,
+    last_name: address.lastName,
+    name: address.name,
+    company: address.company,
+    address1: address.address1 ?? undefined,
+    address2: address.address2 ?? undefined,
+    city: address.city ?? undefined,
+    province: address.province ?? undefined,
+    province_code: address.provinceCode,
+    country: address.country ?? undefined,
+    country_code: address.countryCodeV2,
+    zip: address.zip ?? undefined,
+    phone: address.phone,
+  };
+}
+
+/** A GraphQL customer in the REST shape the order mapper reads. */
+export function mapGraphqlCustomer(customer: GraphqlCustomer): ShopifyCustomerPayload {
+  return {
+    id: customer.legacyResourceId,
+    first_name: customer.firstName,
+    last_name: customer.lastName,
+    email: customer.defaultEmailAddress?.emailAddress ?? null,
+    phone: customer.defaultPhoneNumber?.phoneNumber ?? null,
+    tags: customer.tags.join(", "),
+  };
+}
+
+/** A GraphQL order in the REST webhook shape, so one mapper handles both. */
+export function mapGraphqlOrder(order: GraphqlOrder): ShopifyOrderPayload {
+  return {
+    id: order.legacyResourceId,
+    order_number: parseOrderNumber(order.name),
+    name: order.name,
+    email: order.email,
+    phone: order.phone,
+    customer: order.customer ? mapGraphqlCustomer(order.customer) : null,
+    billing_address: mapMailingAddress(order.billingAddress),
+    shipping_address: mapMailingAddress(order.shippingAddress),
+    line_items: order.lineItems.nodes.map((item) => ({
+      id: fromShopifyGid(item.id),
+      sku: item.sku,
+      title: item.title,
+      quantity: item.quantity,
+      price: item.originalUnitPriceSet?.shopMoney.amount ?? null,
+    })),
+    total_price: order.totalPriceSet?.shopMoney.amount ?? null,
+    currency: order.currencyCode,
+    created_at: order.createdAt,
+    cancelled_at: order.cancelledAt,
+    financial_status: order.displayFinancialStatus?.toLowerCase() ?? null,
+    tags: order.tags.join(", "),
+  };
+}
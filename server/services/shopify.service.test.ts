@@ -10,6 +10,71 @@ vi.mock("../utils/logger", () => ({
 }));
 
 import { ShopifyService } from "./shopify.service";
+import { LINE_ITEMS_LIMIT, ORDERS_PAGE_SIZE } from "./shopify-order-queries";
+
+function graphqlResponse(data: unknown, extra: Record<string, unknown> = {}) {
+  return new Response(JSON.stringify({ data, ...extra }), { status: 200 });
+}
+
+function graphqlOrder(id: string) {
+  return {
+    id: `gid://shopify/Order/${id}`,
+    legacyResourceId: id,
+    name: `#${id}`,
+    email: "buyer@example.com",
+    phone: null,
+    createdAt: "2026-06-15T10:00:00Z",
+    cancelledAt: null,
+    displayFinancialStatus: "PAID",
+    tags: [],
+    currencyCode: "CAD",
+    totalPriceSet: { shopMoney: { amount: "19.00" } },
+    customer: {
+      legacyResourceId: "7",
+      firstName: "Ada",
+      lastName: "Lovelace",
+      defaultEmailAddress: { emailAddress: "buyer@example.com" },
+      defaultPhoneNumber: null,
+      tags: ["vip", "wholesale"],
+    },
+    billingAddress: null,
+    shippingAddress: {
+      firstName: "Ada",
+      lastName: "Lovelace",
+      name: "Ada Lovelace",
+      company: null,
+      address1: "1 Main St",
+      address2: null,
+      city: "Toronto",
+      province: "Ontario",
+      provinceCode: "ON",
+      country: "Canada",
+      countryCodeV2: "CA",
+      zip: "M5V 1A1",
+      phone: null,
+    },
+    lineItems: {
+      nodes: [
+        {
+          id: "gid://shopify/LineItem/55",
+          sku: "SKU-1",
+          title: "Widget",
+          quantity: 2,
+          originalUnitPriceSet: { shopMoney: { amount: "9.50" } },
+        },
+      ],
+    },
+  };
+}
+
+function ordersPage(ids: string[], endCursor: string | null = null) {
+  return {
+    orders: {
+      nodes: ids.map(graphqlOrder),
+      pageInfo: { hasNextPage: endCursor !== null, endCursor },
+    },
+  };
+}
 
 describe("ShopifyService.listOrdersCreatedSince", () => {
   const fetchMock = vi.fn();
@@ -25,10 +90,10 @@ describe("ShopifyService.listOrdersCreatedSince", () => {
     vi.unstubAllGlobals();
   });
 
+  const requestBody = (call: number) => JSON.parse(fetchMock.mock.calls[call][1].body);
+
   it("clamps the first request to 60 days before the frozen end time", async () => {
-    fetchMock.mockResolvedValue(
-      new Response(JSON.stringify({ orders: [] }), { status: 200 })
-    );
+    fetchMock.mockResolvedValue(graphqlResponse(ordersPage([])));
     const until = new Date("2026-07-01T12:00:00.000Z");
 
     await service.listOrdersCreatedSince(
@@ -38,32 +103,21 @@ describe("ShopifyService.listOrdersCreatedSince", () => {
       until
     );
 
-    const requestedUrl = new URL(fetchMock.mock.calls[0][0]);
-    expect(requestedUrl.searchParams.get("status")).toBe("any");
-    expect(requestedUrl.searchParams.get("limit")).toBe("250");
-    expect(requestedUrl.searchParams.get("created_at_min")).toBe(
-      "2026-05-02T12:00:00.000Z"
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      "https://test.myshopify.com/admin/api/2025-10/graphql.json"
     );
-    expect(requestedUrl.searchParams.get("created_at_max")).toBe(
-      until.toISOString()
+    const { variables } = requestBody(0);
+    expect(variables.first).toBe(ORDERS_PAGE_SIZE);
+    expect(variables.after).toBeNull();
+    expect(variables.query).toBe(
+      `created_at:>='2026-05-02T12:00:00.000Z' AND created_at:<='${until.toISOString()}'`
     );
   });
 
-  it("follows the next Link verbatim and removes duplicate order IDs", async () => {
-    const nextUrl =
-      "https://test.myshopify.com/admin/api/2025-10/orders.json?page_info=opaque&limit=250";
+  it("follows the page cursor and removes duplicate order IDs", async () => {
     fetchMock
-      .mockResolvedValueOnce(
-        new Response(JSON.stringify({ orders: [{ id: 1 }, { id: 2 }] }), {
-          status: 200,
-          headers: { Link: `<${nextUrl}>; rel="next"` },
-        })
-      )
-      .mockResolvedValueOnce(
-        new Response(JSON.stringify({ orders: [{ id: 2 }, { id: 3 }] }), {
-          status: 200,
-        })
-      );
+      .mockResolvedValueOnce(graphqlResponse(ordersPage(["1", "2"], "opaque")))
+      .mockResolvedValueOnce(graphqlResponse(ordersPage(["2", "3"])));
 
     const orders = await service.listOrdersCreatedSince(
       "test.myshopify.com",
@@ -72,8 +126,32 @@ describe("ShopifyService.listOrdersCreatedSince", () => {
       new Date("2026-07-01T00:00:00.000Z")
     );
 
-    expect(fetchMock.mock.calls[1][0]).toBe(nextUrl);
-    expect(orders.map((order) => order.id)).toEqual([1, 2, 3]);
+    expect(requestBody(1).variables.after).toBe("opaque");
+    expect(orders.map((order) => order.id)).toEqual(["1", "2", "3"]);
+  });
+
+  it("maps GraphQL orders to the REST payload shape", async () => {
+    fetchMock.mockResolvedValue(graphqlResponse(ordersPage(["1001"])));
+
+    const [order] = await service.listOrdersCreatedSince(
+      "test.myshopify.com",
+      "token",
+      new Date("2026-06-01T00:00:00.000Z"),
+      new Date("2026-07-01T00:00:00.000Z")
+    );
+
+    expect(order).toMatchObject({
+      id: "1001",
+      order_number: "1001",
+      name: "#1001",
+      email: "buyer@example.com",
+      customer: { id: "7", first_name: "Ada", email: "buyer@example.com", tags: "vip, wholesale" },
+      shipping_address: { address1: "1 Main St", province_code: "ON", country_code: "CA" },
+      line_items: [{ id: "55", sku: "SKU-1", title: "Widget", quantity: 2, price: "9.50" }],
+      total_price: "19.00",
+      currency: "CAD",
+      financial_status: "paid",
+    });
   });
 
   it("throws a safe error when Shopify rejects the request", async () => {
@@ -94,3 +172,239 @@ describe("ShopifyService.listOrdersCreatedSince", () => {
     ).rejects.toThrow("Shopify historical orders request failed (403 Forbidden)");
   });
 });
+
+describe("ShopifyService.getOrder", () => {
+  const fetchMock = vi.fn();
+  let service: ShopifyService;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    service = new ShopifyService();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const lineItem = (index: number) => ({
+    id: `gid://shopify/LineItem/${index}`,
+    sku: `SKU-${index}`,
+    title: `Item ${index}`,
+    quantity: 1,
+    originalUnitPriceSet: { shopMoney: { amount: "1.00" } },
+  });
+  const lineItems = (from: number, to: number) =>
+    Array.from({ length: to - from + 1 }, (_, offset) => lineItem(from + offset));
+
+  it("pages through line items beyond the first page", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        graphqlResponse({
+          order: {
+            ...graphqlOrder("1001"),
+            lineItems: {
+              nodes: lineItems(1, LINE_ITEMS_LIMIT),
+              pageInfo: { hasNextPage: true, endCursor: "first" },
+            },
+          },
+        })
+      )
+      .mockResolvedValueOnce(
+        graphqlResponse({
+          order: {
+            lineItems: {
+              nodes: lineItems(LINE_ITEMS_LIMIT + 1, 300),
+              pageInfo: { hasNextPage: true, endCursor: "second" },
+            },
+          },
+        })
+      )
+      .mockResolvedValueOnce(
+        graphqlResponse({
+          order: {
+            lineItems: {
+              nodes: lineItems(301, 320),
+              pageInfo: { hasNextPage: false, endCursor: "third" },
+            },
+          },
+        })
+      );
+
+    const order = await service.getOrder("test.myshopify.com", "token", 1001);
+
+    expect(order?.line_items).toHaveLength(320);
+    expect(order?.line_items?.[319]).toMatchObject({ id: "320", sku: "SKU-320" });
+    const followUps = fetchMock.mock.calls.slice(1).map(([, init]) => JSON.parse(init.body));
+    expect(followUps.map((body) => body.variables)).toEqual([
+      { id: "gid://shopify/Order/1001", after: "first" },
+      { id: "gid://shopify/Order/1001", after: "second" },
+    ]);
+  });
+});
+
+describe("ShopifyService order tags", () => {
+  const fetchMock = vi.fn();
+  let service: ShopifyService;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    service = new ShopifyService();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("adds tags with the tagsAdd mutation on the order's global ID", async () => {
+    fetchMock.mockResolvedValue(graphqlResponse({ tagsAdd: { userErrors: [] } }));
+
+    await service.tagOrder("test.myshopify.com", "token", "1002", ["DupGuard", "DupGuard-High"]);
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.query).toContain("tagsAdd(");
+    expect(body.variables).toEqual({
+      id: "gid://shopify/Order/1002",
+      tags: ["DupGuard", "DupGuard-High"],
+    });
+  });
+
+  it("throws when Shopify reports user errors", async () => {
+    fetchMock.mockResolvedValue(
+      graphqlResponse({ tagsRemove: { userErrors: [{ field: ["id"], message: "Order not found" }] } })
+    );
+
+    await expect(
+      service.removeOrderTags("test.myshopify.com", "token", "1002", ["DupGuard"])
+    ).rejects.toThrow("Order not found");
+  });
+});
+
+describe("ShopifyService match details and fulfillment holds", () => {
+  const fetchMock = vi.fn();
+  let service: ShopifyService;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    service = new ShopifyService();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const requestBody = (call: number) => JSON.parse(fetchMock.mock.calls[call][1].body);
+
+  it("sets the match metafield and appends the note line with GraphQL", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        graphqlResponse({
+          metafieldsSet: { metafields: [{ id: "gid://shopify/Metafield/77" }], userErrors: [] },
+        })
+      )
+      .mockResolvedValueOnce(graphqlResponse({ order: { note: "Gift wrap" } }))
+      .mockResolvedValueOnce(graphqlResponse({ orderUpdate: { order: { id: "x" }, userErrors: [] } }));
+
+    const details = await service.writeOrderMatchDetails(
+      "test.myshopify.com",
+      "token",
+      "1002",
+      { confidence: 90 },
+      "Possible duplicate of #1001"
+    );
+
+    expect(details).toEqual({ metafieldId: "77", note: "Possible duplicate of #1001" });
+    expect(requestBody(0).variables.metafields).toEqual([
+      {
+        ownerId: "gid://shopify/Order/1002",
+        namespace: "duplicate_guard",
+        key: "match",
+        type: "json",
+        value: JSON.stringify({ confidence: 90 }),
+      },
+    ]);
+    expect(requestBody(2).query).toContain("orderUpdate(");
+    expect(requestBody(2).variables.input).toEqual({
+      id: "gid://shopify/Order/1002",
+      note: "Gift wrap\n\nPossible duplicate of #1001",
+    });
+    expect(fetchMock.mock.calls.every(([url]) => url.endsWith("/graphql.json"))).toBe(true);
+  });
+
+  it("holds only fulfillment orders that support holds", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        graphqlResponse({
+          order: {
+            fulfillmentOrders: {
+              nodes: [
+                { id: "gid://shopify/FulfillmentOrder/501", supportedActions: [{ action: "HOLD" }] },
+                { id: "gid://shopify/FulfillmentOrder/502", supportedActions: [{ action: "MOVE" }] },
+              ],
+            },
+          },
+        })
+      )
+      .mockResolvedValueOnce(
+        graphqlResponse({ fulfillmentOrderHold: { fulfillmentHold: { id: "h" }, userErrors: [] } })
+      );
+
+    const result = await service.holdFulfillmentOrders(
+      "test.myshopify.com",
+      "token",
+      "1002",
+      "Possible duplicate"
+    );
+
+    expect(result).toEqual({ held: ["501"], failed: [] });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(requestBody(1).variables).toEqual({
+      id: "gid://shopify/FulfillmentOrder/501",
+      fulfillmentHold: { reason: "OTHER", reasonNotes: "Possible duplicate", notifyMerchant: false },
+    });
+  });
+});
+
+describe("ShopifyService.streamBulkOperationOrders", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("attaches line items to their order and emits orders in file order", async () => {
+    const { lineItems, ...first } = graphqlOrder("1");
+    const second = { ...graphqlOrder("2"), lineItems: undefined };
+    const lines = [
+      first,
+      { ...lineItems.nodes[0], __parentId: "gid://shopify/Order/1" },
+      second,
+      { ...lineItems.nodes[0], id: "gid://shopify/LineItem/56", __parentId: "gid://shopify/Order/2" },
+    ];
+    fetchMock.mockResolvedValue(
+      new Response(lines.map((line) => JSON.stringify(line)).join("\n"), { status: 200 })
+    );
+    const orders: Array<{ id: string | number; line_items?: Array<{ id: string | number }> }> = [];
+
+    const count = await new ShopifyService().streamBulkOperationOrders(
+      "https://storage.example.com/export.jsonl",
+      async (order) => {
+        orders.push(order);
+      }
+    );
+
+    expect(count).toBe(2);
+    expect(orders.map((order) => order.id)).toEqual(["1", "2"]);
+    expect(orders.map((order) => order.line_items?.map((item) => item.id))).toEqual([
+      ["55"],
+      ["56"],
+    ]);
+  });
+});
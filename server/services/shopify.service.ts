@@ -1,7 +1,65 @@
 import crypto from "crypto";
+import type { ShopifyMatchDetails } from "@shared/schema";
 import { logger } from "../utils/logger";
 import { fetchWithRetry } from "../utils/fetch-with-retry";
+import { readJsonLines } from "../utils/jsonl";
+import {
+  assertNoUserErrors,
+  shopifyGraphql,
+  fromShopifyGid,
+  ShopifyGraphqlError,
+  toShopifyGid,
+} from "../utils/shopify-graphql";
 import type { ShopifyOrderPayload } from "./order-mapper.service";
+import {
+  BULK_OPERATION_QUERY,
+  BULK_OPERATION_RUN_QUERY_MUTATION,
+  buildBulkOrdersQuery,
+  buildCreatedAtQuery,
+  CUSTOMER_QUERY,
+  FULFILLMENT_ORDER_HOLD_MUTATION,
+  FULFILLMENT_ORDER_RELEASE_HOLD_MUTATION,
+  FULFILLMENT_ORDERS_QUERY,
+  mapGraphqlCustomer,
+  mapGraphqlOrder,
+  METAFIELDS_DELETE_MUTATION,
+  METAFIELDS_SET_MUTATION,
+  ORDER_LINE_ITEMS_QUERY,
+  ORDER_NOTE_QUERY,
+  ORDER_QUERY,
+  ORDER_UPDATE_MUTATION,
+  ORDERS_COUNT_QUERY,
+  ORDERS_PAGE_SIZE,
+  ORDERS_QUERY,
+  SHOP_CONTACT_EMAIL_QUERY,
+  TAGS_ADD_MUTATION,
+  TAGS_REMOVE_MUTATION,
+  type BulkOperationQueryData,
+  type BulkOperationRunQueryData,
+  type CustomerQueryData,
+  type FulfillmentOrderHoldData,
+  type FulfillmentOrderReleaseHoldData,
+  type FulfillmentOrdersData,
+  type GraphqlLineItem,
+  type GraphqlOrder,
+  type MetafieldsDeleteData,
+  type MetafieldsSetData,
+  type OrderLineItemsData,
+  type OrderNoteData,
+  type OrderQueryData,
+  type OrdersCountData,
+  type OrdersQueryData,
+  type OrderUpdateData,
+  type ShopContactEmailData,
+  type ShopifyBulkOperation,
+  type ShopifyCustomerPayload,
+  type TagsAddData,
+  type TagsRemoveData,
+} from "./shopify-order-queries";
+
+// The app's order metafield holding the details of a duplicate match
+export const MATCH_METAFIELD_NAMESPACE = "duplicate_guard";
+export const MATCH_METAFIELD_KEY = "match";
 
 interface ShopifyWebhook {
   id: number;
@@ -19,6 +77,14 @@ interface WebhookRegistrationResult {
   message: string;
 }
 
+// Shopify reports missing protected customer data scopes as ACCESS_DENIED
+function isAccessDenied(error: unknown): boolean {
+  return (
+    error instanceof ShopifyGraphqlError &&
+    (error.status === 403 || error.codes.includes("ACCESS_DENIED"))
+  );
+}
+
 export class ShopifyService {
   private webhookSecret: string;
   private apiVersion: string = "2025-10";
@@ -71,6 +137,21 @@ export class ShopifyService {
     }
   }
 
+  // Shopify's read_orders scope exposes at most the 60 days before `until`
+  private getScanWindow(since: Date, until: Date): { effectiveSince: Date; untilTime: Date } {
+    const untilTime = new Date(until);
+    if (Number.isNaN(untilTime.getTime())) {
+      throw new Error("Invalid historical scan end time");
+    }
+    const requestedSince = new Date(since);
+    const scopeCutoff = new Date(untilTime.getTime() - 60 * 24 * 60 * 60 * 1000);
+    const effectiveSince =
+      !Number.isNaN(requestedSince.getTime()) && requestedSince > scopeCutoff
+        ? requestedSince
+        : scopeCutoff;
+    return { effectiveSince, untilTime };
+  }
+
   private getBaseApiUrl(shopDomain: string): string {
     return `https://${shopDomain}/admin/api/${this.apiVersion}`;
   }
@@ -456,79 +537,53 @@ export class ShopifyService {
   }
 
   /**
-   * Fetch full order details by order ID
+   * Fetch full order details by order ID, in the REST webhook shape
    */
   async getOrder(
     shopDomain: string,
     accessToken: string,
     orderId: number
-  ): Promise<any | null> {
+  ): Promise<ShopifyOrderPayload | null> {
     if (!this.validateCredentials(shopDomain, accessToken)) {
       return null;
     }
 
     try {
-      const url = `${this.getBaseApiUrl(shopDomain)}/orders/${orderId}.json`;
       logger.debug(`[Shopify] Fetching order ${orderId} via API`);
+      const data = await shopifyGraphql<OrderQueryData>(
+        shopDomain,
+        accessToken,
+        ORDER_QUERY,
+        { id: toShopifyGid("Order", orderId) },
+        { apiVersion: this.apiVersion, label: `getOrder(${shopDomain}, ${orderId})` }
+      );
 
-      const response = await fetchWithRetry(url, {
-        method: "GET",
-        headers: {
-          "X-Shopify-Access-Token": accessToken,
-          "Content-Type": "application/json",
-        },
-        label: `getOrder(${shopDomain}, ${orderId})`,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        logger.error(
-          `[Shopify] Failed to fetch order: ${response.status}`,
-          errorText
+      if (!data.order) {
+        logger.warn(
+          `[Shopify] ⚠️ Order API returned empty data for order ${orderId}`
         );
-        if (response.status === 403) {
-          logger.warn(
-            `[Shopify] ⚠️ Access denied (403) fetching order ${orderId}. Likely missing 'Protected Customer Data' access.`
-          );
-        }
         return null;
       }
 
-      const data = await response.json();
-      const order = data.order || null;
-      if (order) {
-        logger.debug(
-          `[Shopify] ✅ Successfully fetched order ${orderId} - Email: ${
-            order.email || order.contact_email || "N/A"
-          }`
-        );
-        // Log if customer data is present but empty (Protected Customer Data issue)
-        if (
-          order.customer &&
-          !order.customer.email &&
-          !order.email &&
-          !order.contact_email
-        ) {
-          logger.warn(
-            `[Shopify] ⚠️ Order has customer object but no email/name. Protected Customer Data access may not be enabled. Customer ID: ${order.customer.id}`
-          );
-          logger.debug(
-            `[Shopify] Order customer object keys: ${Object.keys(
-              order.customer || {}
-            ).join(", ")}`
-          );
-        }
-      } else {
+      const order = mapGraphqlOrder(
+        await this.completeLineItems(shopDomain, accessToken, data.order)
+      );
+      logger.debug(
+        `[Shopify] ✅ Successfully fetched order ${orderId} - Email: ${
+          order.email || "N/A"
+        }`
+      );
+      // Log if customer data is present but empty (Protected Customer Data issue)
+      if (order.customer && !order.customer.email && !order.email) {
         logger.warn(
-          `[Shopify] ⚠️ Order API returned empty data for order ${orderId}`
+          `[Shopify] ⚠️ Order has customer object but no email/name. Protected Customer Data access may not be enabled. Customer ID: ${order.customer.id}`
         );
       }
       return order;
-    } catch (error: any) {
-      // Handle 403 Forbidden specifically for Protected Customer Data
-      if (error.message && error.message.includes("403")) {
+    } catch (error) {
+      if (isAccessDenied(error)) {
         logger.warn(
-          `[Shopify] ⚠️ Access denied (403) fetching order ${orderId}. Likely missing 'Protected Customer Data' access.`
+          `[Shopify] ⚠️ Access denied fetching order ${orderId}. Likely missing 'Protected Customer Data' access.`
         );
         return null;
       }
@@ -547,150 +602,285 @@ export class ShopifyService {
     since: Date,
     until: Date
   ): Promise<ShopifyOrderPayload[]> {
+    const ordersById = new Map<string, ShopifyOrderPayload>();
+    let after: string | null = null;
+
+    do {
+      const page = await this.listOrdersCreatedSincePage(
+        shopDomain,
+        accessToken,
+        since,
+        until,
+        after
+      );
+      for (const order of page.orders) {
+        ordersById.set(String(order.id), order);
+      }
+      after = page.nextCursor;
+    } while (after);
+
+    return Array.from(ordersById.values());
+  }
+
+  /**
+   * One page of `listOrdersCreatedSince`, oldest first, starting at `after`
+   * (null for the first page). `nextCursor` is null on the last page.
+   */
+  async listOrdersCreatedSincePage(
+    shopDomain: string,
+    accessToken: string,
+    since: Date,
+    until: Date,
+    after: string | null
+  ): Promise<{ orders: ShopifyOrderPayload[]; nextCursor: string | null }> {
     if (!this.validateCredentials(shopDomain, accessToken)) {
       throw new Error("Shopify credentials not provided");
     }
+    const { effectiveSince, untilTime } = this.getScanWindow(since, until);
 
-    const untilTime = new Date(until);
-    if (Number.isNaN(untilTime.getTime())) {
-      throw new Error("Invalid historical scan end time");
+    let page: OrdersQueryData["orders"];
+    try {
+      ({ orders: page } = await shopifyGraphql<OrdersQueryData>(
+        shopDomain,
+        accessToken,
+        ORDERS_QUERY,
+        {
+          first: ORDERS_PAGE_SIZE,
+          after,
+          query: buildCreatedAtQuery(effectiveSince, untilTime),
+        },
+        { apiVersion: this.apiVersion, label: `listOrdersCreatedSince(${shopDomain})` }
+      ));
+    } catch (error) {
+      if (error instanceof ShopifyGraphqlError) {
+        throw new Error(`Shopify historical orders request failed (${error.detail})`);
+      }
+      throw error;
     }
-    const requestedSince = new Date(since);
-    const scopeCutoff = new Date(untilTime.getTime() - 60 * 24 * 60 * 60 * 1000);
-    const effectiveSince =
-      !Number.isNaN(requestedSince.getTime()) && requestedSince > scopeCutoff
-        ? requestedSince
-        : scopeCutoff;
 
-    const fields = [
-      "id",
-      "order_number",
-      "name",
-      "email",
-      "contact_email",
-      "phone",
-      "customer",
-      "billing_address",
-      "shipping_address",
-      "line_items",
-      "total_price",
-      "currency",
-      "created_at",
-    ].join(",");
-    const firstUrl = new URL(`${this.getBaseApiUrl(shopDomain)}/orders.json`);
-    firstUrl.searchParams.set("status", "any");
-    firstUrl.searchParams.set("limit", "250");
-    firstUrl.searchParams.set("created_at_min", effectiveSince.toISOString());
-    firstUrl.searchParams.set("created_at_max", untilTime.toISOString());
-    firstUrl.searchParams.set("fields", fields);
+    const orders: ShopifyOrderPayload[] = [];
+    for (const order of page.nodes) {
+      orders.push(mapGraphqlOrder(await this.completeLineItems(shopDomain, accessToken, order)));
+    }
+    return {
+      orders,
+      nextCursor: page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null,
+    };
+  }
 
-    const ordersById = new Map<string, ShopifyOrderPayload>();
-    let nextUrl: string | null = firstUrl.toString();
+  /**
+   * Fetch the line items an order query left out: order queries only select
+   * the first LINE_ITEMS_LIMIT, and a partial basket would corrupt SKU and
+   * basket matching.
+   */
+  private async completeLineItems(
+    shopDomain: string,
+    accessToken: string,
+    order: GraphqlOrder
+  ): Promise<GraphqlOrder> {
+    const nodes = order.lineItems.nodes.slice();
+    let pageInfo = order.lineItems.pageInfo;
 
-    while (nextUrl) {
-      const response = await fetchWithRetry(nextUrl, {
-        method: "GET",
-        headers: {
-          "X-Shopify-Access-Token": accessToken,
-          "Content-Type": "application/json",
-        },
-        label: `listOrdersCreatedSince(${shopDomain})`,
-      });
-      if (!response.ok) {
-        throw new Error(
-          `Shopify historical orders request failed (${response.status} ${response.statusText})`
-        );
+    while (pageInfo?.hasNextPage) {
+      const data: OrderLineItemsData = await shopifyGraphql<OrderLineItemsData>(
+        shopDomain,
+        accessToken,
+        ORDER_LINE_ITEMS_QUERY,
+        { id: order.id, after: pageInfo.endCursor },
+        {
+          apiVersion: this.apiVersion,
+          label: `getOrderLineItems(${shopDomain}, ${order.legacyResourceId})`,
+        }
+      );
+      if (!data.order) {
+        throw new ShopifyGraphqlError("order disappeared while reading its line items");
       }
+      nodes.push(...data.order.lineItems.nodes);
+      pageInfo = data.order.lineItems.pageInfo;
+    }
 
-      const body = (await response.json()) as { orders?: ShopifyOrderPayload[] };
-      for (const order of body.orders || []) {
-        ordersById.set(String(order.id), order);
+    return { ...order, lineItems: { nodes, pageInfo } };
+  }
+
+  /**
+   * Count the orders `listOrdersCreatedSince` would return, up to `limit`.
+   */
+  async countOrdersCreatedSince(
+    shopDomain: string,
+    accessToken: string,
+    since: Date,
+    until: Date,
+    limit: number
+  ): Promise<number> {
+    if (!this.validateCredentials(shopDomain, accessToken)) {
+      throw new Error("Shopify credentials not provided");
+    }
+    const { effectiveSince, untilTime } = this.getScanWindow(since, until);
+
+    const data = await shopifyGraphql<OrdersCountData>(
+      shopDomain,
+      accessToken,
+      ORDERS_COUNT_QUERY,
+      { query: buildCreatedAtQuery(effectiveSince, untilTime), limit },
+      { apiVersion: this.apiVersion, label: `countOrdersCreatedSince(${shopDomain})` }
+    );
+    return data.ordersCount?.count ?? 0;
+  }
+
+  /**
+   * Start a bulk operation exporting the orders `listOrdersCreatedSince` would
+   * return, oldest first. Returns the operation's ID to poll with
+   * `getBulkOperation`. Shopify runs one bulk query per shop at a time.
+   */
+  async startBulkOrdersQuery(
+    shopDomain: string,
+    accessToken: string,
+    since: Date,
+    until: Date
+  ): Promise<string> {
+    if (!this.validateCredentials(shopDomain, accessToken)) {
+      throw new Error("Shopify credentials not provided");
+    }
+    const { effectiveSince, untilTime } = this.getScanWindow(since, until);
+
+    const data = await shopifyGraphql<BulkOperationRunQueryData>(
+      shopDomain,
+      accessToken,
+      BULK_OPERATION_RUN_QUERY_MUTATION,
+      { query: buildBulkOrdersQuery(effectiveSince, untilTime) },
+      {
+        apiVersion: this.apiVersion,
+        label: `startBulkOrdersQuery(${shopDomain})`,
+        // A repeated request would fail while the first operation runs
+        idempotent: false,
       }
+    );
+    assertNoUserErrors(data.bulkOperationRunQuery?.userErrors, "bulkOperationRunQuery");
+    const operation = data.bulkOperationRunQuery?.bulkOperation;
+    if (!operation) {
+      throw new ShopifyGraphqlError("bulk operation was not created");
+    }
+    logger.info(`[Shopify] Started bulk order export ${operation.id} for ${shopDomain}`);
+    return operation.id;
+  }
 
-      const link = response.headers.get("Link");
-      const nextMatch = link?.match(/<([^>]+)>;\s*rel="next"/i);
-      nextUrl = nextMatch?.[1] ?? null;
+  /**
+   * Current state of a bulk operation, or null when Shopify no longer knows it.
+   */
+  async getBulkOperation(
+    shopDomain: string,
+    accessToken: string,
+    operationId: string
+  ): Promise<ShopifyBulkOperation | null> {
+    if (!this.validateCredentials(shopDomain, accessToken)) {
+      throw new Error("Shopify credentials not provided");
     }
 
-    return Array.from(ordersById.values());
+    const data = await shopifyGraphql<BulkOperationQueryData>(
+      shopDomain,
+      accessToken,
+      BULK_OPERATION_QUERY,
+      { id: operationId },
+      { apiVersion: this.apiVersion, label: `getBulkOperation(${shopDomain})` }
+    );
+    return data.node;
   }
 
   /**
-   * Fetch customer details by customer ID
+   * Download a completed bulk order export and hand each order to `onOrder`
+   * in file order, in the REST webhook shape. The file is read as it
+   * downloads, one order at a time. Returns the number of orders read.
+   */
+  async streamBulkOperationOrders(
+    url: string,
+    onOrder: (order: ShopifyOrderPayload) => Promise<void>
+  ): Promise<number> {
+    const response = await fetchWithRetry(url, {
+      method: "GET",
+      label: "streamBulkOperationOrders",
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(
+        `Shopify bulk export download failed (${response.status} ${response.statusText})`
+      );
+    }
+
+    // Line items follow the order they belong to, so an order is complete
+    // once the next order's line arrives
+    let current: GraphqlOrder | null = null;
+    let count = 0;
+    const flush = async () => {
+      if (current) {
+        const order = mapGraphqlOrder(current);
+        current = null;
+        count += 1;
+        await onOrder(order);
+      }
+    };
+
+    await readJsonLines<Record<string, any>>(response.body, async (record) => {
+      if (record.__parentId) {
+        if (current && record.__parentId === current.id) {
+          current.lineItems.nodes.push(record as GraphqlLineItem);
+        } else {
+          logger.warn(`[Shopify] Skipping bulk export line item without its order`);
+        }
+        return;
+      }
+      await flush();
+      current = { ...(record as GraphqlOrder), lineItems: { nodes: [] } };
+    });
+    await flush();
+
+    return count;
+  }
+
+  /**
+   * Fetch customer details by customer ID, in the REST webhook shape
    */
   async getCustomer(
     shopDomain: string,
     accessToken: string,
-    customerId: number
-  ): Promise<any | null> {
+    customerId: string | number
+  ): Promise<ShopifyCustomerPayload | null> {
     if (!this.validateCredentials(shopDomain, accessToken)) {
       return null;
     }
 
     try {
-      const url = `${this.getBaseApiUrl(
-        shopDomain
-      )}/customers/${customerId}.json`;
       logger.debug(`[Shopify] Fetching customer ${customerId} via API`);
+      const data = await shopifyGraphql<CustomerQueryData>(
+        shopDomain,
+        accessToken,
+        CUSTOMER_QUERY,
+        { id: toShopifyGid("Customer", customerId) },
+        { apiVersion: this.apiVersion, label: `getCustomer(${shopDomain}, ${customerId})` }
+      );
 
-      const response = await fetchWithRetry(url, {
-        method: "GET",
-        headers: {
-          "X-Shopify-Access-Token": accessToken,
-          "Content-Type": "application/json",
-        },
-        label: `getCustomer(${shopDomain}, ${customerId})`,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        logger.error(
-          `[Shopify] Failed to fetch customer: ${response.status}`,
-          errorText
+      if (!data.customer) {
+        logger.warn(
+          `[Shopify] ⚠️ Customer API returned empty data for customer ${customerId}`
         );
-        if (response.status === 403) {
-          logger.warn(
-            `[Shopify] ⚠️ Access denied (403) fetching customer ${customerId}. Likely missing 'Protected Customer Data' access.`
-          );
-        }
         return null;
       }
 
-      const data = await response.json();
-      const customer = data.customer || null;
-      if (customer) {
-        logger.debug(
-          `[Shopify] ✅ Successfully fetched customer ${customerId} - Email: ${
-            customer.email || "N/A"
-          }, Name: ${customer.first_name || ""} ${customer.last_name || ""}`
-        );
-        // Log if customer object exists but has no protected data
-        if (!customer.email && !customer.first_name && !customer.last_name) {
-          logger.warn(
-            `[Shopify] ⚠️ Customer object exists but has no email/name. Protected Customer Data access may not be enabled.`
-          );
-          logger.debug(
-            `[Shopify] Customer object keys: ${Object.keys(customer).join(
-              ", "
-            )}`
-          );
-          logger.debug(
-            `[Shopify] Customer object sample: ${JSON.stringify(
-              Object.fromEntries(Object.entries(customer).slice(0, 5))
-            )}`
-          );
-        }
-      } else {
+      const customer = mapGraphqlCustomer(data.customer);
+      logger.debug(
+        `[Shopify] ✅ Successfully fetched customer ${customerId} - Email: ${
+          customer.email || "N/A"
+        }, Name: ${customer.first_name || ""} ${customer.last_name || ""}`
+      );
+      // Log if customer object exists but has no protected data
+      if (!customer.email && !customer.first_name && !customer.last_name) {
         logger.warn(
-          `[Shopify] ⚠️ Customer API returned empty data for customer ${customerId}`
+          `[Shopify] ⚠️ Customer object exists but has no email/name. Protected Customer Data access may not be enabled.`
         );
       }
       return customer;
-    } catch (error: any) {
-      // Handle 403 Forbidden specifically for Protected Customer Data
-      if (error.message && error.message.includes("403")) {
+    } catch (error) {
+      if (isAccessDenied(error)) {
         logger.warn(
-          `[Shopify] ⚠️ Access denied (403) fetching customer ${customerId}. Likely missing 'Protected Customer Data' access.`
+          `[Shopify] ⚠️ Access denied fetching customer ${customerId}. Likely missing 'Protected Customer Data' access.`
         );
         return null;
       }
@@ -711,28 +901,16 @@ export class ShopifyService {
     }
 
     try {
-      const url = `${this.getBaseApiUrl(shopDomain)}/shop.json`;
-      const response = await fetchWithRetry(url, {
-        method: "GET",
-        headers: {
-          "X-Shopify-Access-Token": accessToken,
-          "Content-Type": "application/json",
-        },
-        label: `getShopContactEmail(${shopDomain})`,
-      });
-
-      if (!response.ok) {
-        logger.warn(
-          `[Shopify] Failed to fetch shop contact email: ${response.status}`
-        );
-        return null;
-      }
-
-      const data = await response.json();
-      const shop = data.shop;
-      // Prefer customer_email (Settings → Store contact details) over shop.email
+      const { shop } = await shopifyGraphql<ShopContactEmailData>(
+        shopDomain,
+        accessToken,
+        SHOP_CONTACT_EMAIL_QUERY,
+        {},
+        { apiVersion: this.apiVersion, label: `getShopContactEmail(${shopDomain})` }
+      );
+      // Prefer contactEmail (Settings → Store contact details) over shop.email
       // (owner account — often admin@example.com on dev stores).
-      const email = shop?.customer_email || shop?.email;
+      const email = shop.contactEmail || shop.email;
       return typeof email === "string" && email.trim() ? email.trim() : null;
     } catch (error) {
       logger.error("[Shopify] Error fetching shop contact email:", error);
@@ -786,7 +964,7 @@ export class ShopifyService {
   }
 
   /**
-   * Tag an order in Shopify as a duplicate
+   * Add tags to an order in Shopify, keeping the tags it already has
    */
   async tagOrder(
     shopDomain: string,
@@ -799,28 +977,15 @@ export class ShopifyService {
       return;
     }
 
-    const url = `${this.getBaseApiUrl(shopDomain)}/orders/${orderId}.json`;
-
     try {
-      const response = await fetchWithRetry(url, {
-        method: "PUT",
-        headers: {
-          "X-Shopify-Access-Token": accessToken,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          order: {
-            id: orderId,
-            tags: tags.join(", "),
-          },
-        }),
-        idempotent: true,
-        label: `tagOrder(${shopDomain}, ${orderId})`,
-      });
-
-      if (!response.ok) {
-        throw new Error(`Shopify API error: ${response.statusText}`);
-      }
+      const data = await shopifyGraphql<TagsAddData>(
+        shopDomain,
+        accessToken,
+        TAGS_ADD_MUTATION,
+        { id: toShopifyGid("Order", orderId), tags },
+        { apiVersion: this.apiVersion, label: `tagOrder(${shopDomain}, ${orderId})` }
+      );
+      assertNoUserErrors(data.tagsAdd?.userErrors, "tagsAdd");
     } catch (error) {
       logger.error("Failed to tag order in Shopify:", error);
       throw error;
@@ -828,13 +993,13 @@ export class ShopifyService {
   }
 
   /**
-   * Remove a specific tag from an order in Shopify
+   * Remove specific tags from an order in Shopify
    */
-  async removeOrderTag(
+  async removeOrderTags(
     shopDomain: string,
     accessToken: string,
     orderId: string,
-    tagToRemove: string
+    tagsToRemove: string[]
   ): Promise<void> {
     if (!this.validateCredentials(shopDomain, accessToken)) {
       logger.warn("Shopify credentials not configured, skipping tag removal");
@@ -842,61 +1007,278 @@ export class ShopifyService {
     }
 
     try {
-      // First, get the current order to see existing tags
-      const url = `${this.getBaseApiUrl(shopDomain)}/orders/${orderId}.json`;
-      const getResponse = await fetchWithRetry(url, {
-        method: "GET",
-        headers: {
-          "X-Shopify-Access-Token": accessToken,
-          "Content-Type": "application/json",
-        },
-        label: `removeOrderTag:get(${shopDomain}, ${orderId})`,
-      });
+      const removed = tagsToRemove.map((tag) => tag.trim());
+      const data = await shopifyGraphql<TagsRemoveData>(
+        shopDomain,
+        accessToken,
+        TAGS_REMOVE_MUTATION,
+        { id: toShopifyGid("Order", orderId), tags: removed },
+        { apiVersion: this.apiVersion, label: `removeOrderTags(${shopDomain}, ${orderId})` }
+      );
+      assertNoUserErrors(data.tagsRemove?.userErrors, "tagsRemove");
 
-      if (!getResponse.ok) {
-        throw new Error(`Failed to fetch order: ${getResponse.statusText}`);
+      logger.info(
+        `[Shopify] Removed tags "${removed.join(", ")}" from order ${orderId}`
+      );
+    } catch (error) {
+      logger.error("Failed to remove tag from order in Shopify:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Place a fulfillment hold on each of an order's fulfillment orders that
+   * can be held. A failure on one fulfillment order does not stop the others.
+   */
+  async holdFulfillmentOrders(
+    shopDomain: string,
+    accessToken: string,
+    orderId: string,
+    reasonNotes: string
+  ): Promise<{ held: string[]; failed: string[] }> {
+    if (!this.validateCredentials(shopDomain, accessToken)) {
+      logger.warn("Shopify credentials not configured, skipping fulfillment hold");
+      return { held: [], failed: [] };
+    }
+
+    const data = await shopifyGraphql<FulfillmentOrdersData>(
+      shopDomain,
+      accessToken,
+      FULFILLMENT_ORDERS_QUERY,
+      { id: toShopifyGid("Order", orderId) },
+      { apiVersion: this.apiVersion, label: `holdFulfillmentOrders:list(${shopDomain}, ${orderId})` }
+    );
+    const holdable = (data.order?.fulfillmentOrders.nodes ?? []).filter((fulfillmentOrder) =>
+      fulfillmentOrder.supportedActions.some(({ action }) => action === "HOLD")
+    );
+
+    const held: string[] = [];
+    const failed: string[] = [];
+    for (const fulfillmentOrder of holdable) {
+      const id = fromShopifyGid(fulfillmentOrder.id);
+      try {
+        const result = await shopifyGraphql<FulfillmentOrderHoldData>(
+          shopDomain,
+          accessToken,
+          FULFILLMENT_ORDER_HOLD_MUTATION,
+          {
+            id: fulfillmentOrder.id,
+            fulfillmentHold: { reason: "OTHER", reasonNotes, notifyMerchant: false },
+          },
+          {
+            apiVersion: this.apiVersion,
+            label: `holdFulfillmentOrders:hold(${shopDomain}, ${id})`,
+            // Holding twice stacks a second hold
+            idempotent: false,
+          }
+        );
+        assertNoUserErrors(result.fulfillmentOrderHold?.userErrors, "fulfillmentOrderHold");
+        held.push(id);
+      } catch (error) {
+        logger.error(`[Shopify] Failed to hold fulfillment order ${id}:`, error);
+        failed.push(id);
       }
+    }
 
-      const data = await getResponse.json();
-      const order = data.order;
-      const currentTags = order.tags
-        ? order.tags.split(", ").filter((t: string) => t.trim())
-        : [];
+    return { held, failed };
+  }
 
-      // Remove the specified tag
-      const updatedTags = currentTags.filter(
-        (tag: string) => tag.trim() !== tagToRemove.trim()
-      );
+  /**
+   * Release the holds on the given fulfillment orders. Returns the IDs whose
+   * release failed, so they can be retried.
+   */
+  async releaseFulfillmentHolds(
+    shopDomain: string,
+    accessToken: string,
+    fulfillmentOrderIds: string[]
+  ): Promise<string[]> {
+    if (!this.validateCredentials(shopDomain, accessToken)) {
+      logger.warn("Shopify credentials not configured, skipping fulfillment hold release");
+      return fulfillmentOrderIds;
+    }
 
-      // Update the order with the new tags
-      const updateResponse = await fetchWithRetry(url, {
-        method: "PUT",
-        headers: {
-          "X-Shopify-Access-Token": accessToken,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          order: {
-            id: orderId,
-            tags: updatedTags.join(", "),
+    const failed: string[] = [];
+    for (const id of fulfillmentOrderIds) {
+      try {
+        const result = await shopifyGraphql<FulfillmentOrderReleaseHoldData>(
+          shopDomain,
+          accessToken,
+          FULFILLMENT_ORDER_RELEASE_HOLD_MUTATION,
+          { id: toShopifyGid("FulfillmentOrder", id) },
+          { apiVersion: this.apiVersion, label: `releaseFulfillmentHolds(${shopDomain}, ${id})` }
+        );
+        assertNoUserErrors(
+          result.fulfillmentOrderReleaseHold?.userErrors,
+          "fulfillmentOrderReleaseHold"
+        );
+      } catch (error) {
+        logger.error(`[Shopify] Failed to release fulfillment order ${id}:`, error);
+        failed.push(id);
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * Write a flag's match details to an order: the JSON match metafield
+   * (created, or updated in place when it already exists) and, when given, a
+   * line appended to the order note. Returns what was written so it can be
+   * cleared later.
+   */
+  async writeOrderMatchDetails(
+    shopDomain: string,
+    accessToken: string,
+    orderId: string,
+    value: Record<string, unknown> | null,
+    noteLine: string | null
+  ): Promise<ShopifyMatchDetails> {
+    if (!this.validateCredentials(shopDomain, accessToken)) {
+      logger.warn("Shopify credentials not configured, skipping match details");
+      return { metafieldId: null, note: null };
+    }
+
+    try {
+      let metafieldId: string | null = null;
+      if (value) {
+        // metafieldsSet creates the metafield or updates it in place
+        const data = await shopifyGraphql<MetafieldsSetData>(
+          shopDomain,
+          accessToken,
+          METAFIELDS_SET_MUTATION,
+          {
+            metafields: [
+              {
+                ownerId: toShopifyGid("Order", orderId),
+                namespace: MATCH_METAFIELD_NAMESPACE,
+                key: MATCH_METAFIELD_KEY,
+                type: "json",
+                value: JSON.stringify(value),
+              },
+            ],
           },
-        }),
-        idempotent: true,
-        label: `removeOrderTag:put(${shopDomain}, ${orderId})`,
-      });
+          {
+            apiVersion: this.apiVersion,
+            label: `writeOrderMatchDetails:metafield(${shopDomain}, ${orderId})`,
+          }
+        );
+        assertNoUserErrors(data.metafieldsSet?.userErrors, "metafieldsSet");
+        const [metafield] = data.metafieldsSet?.metafields ?? [];
+        if (!metafield) {
+          throw new ShopifyGraphqlError("metafield was not saved");
+        }
+        metafieldId = fromShopifyGid(metafield.id);
+      }
 
-      if (!updateResponse.ok) {
-        throw new Error(`Shopify API error: ${updateResponse.statusText}`);
+      if (noteLine) {
+        await this.updateOrderNote(
+          shopDomain,
+          accessToken,
+          orderId,
+          "writeOrderMatchDetails:note",
+          (note) =>
+            note?.includes(noteLine)
+              ? note
+              : [note?.trim(), noteLine].filter(Boolean).join("\n\n")
+        );
       }
 
-      logger.info(
-        `[Shopify] Removed tag "${tagToRemove}" from order ${orderId}`
-      );
+      return { metafieldId, note: noteLine };
     } catch (error) {
-      logger.error("Failed to remove tag from order in Shopify:", error);
+      logger.error("Failed to write match details to order in Shopify:", error);
       throw error;
     }
   }
+
+  /**
+   * Remove match details written by `writeOrderMatchDetails`: delete the
+   * metafield and take the appended line back out of the order note.
+   */
+  async clearOrderMatchDetails(
+    shopDomain: string,
+    accessToken: string,
+    orderId: string,
+    details: ShopifyMatchDetails
+  ): Promise<void> {
+    if (!this.validateCredentials(shopDomain, accessToken)) {
+      logger.warn("Shopify credentials not configured, skipping match details removal");
+      return;
+    }
+
+    try {
+      if (details.metafieldId) {
+        // Deleting a metafield that is already gone, e.g. removed by the
+        // merchant, succeeds without deleting anything
+        const data = await shopifyGraphql<MetafieldsDeleteData>(
+          shopDomain,
+          accessToken,
+          METAFIELDS_DELETE_MUTATION,
+          {
+            metafields: [
+              {
+                ownerId: toShopifyGid("Order", orderId),
+                namespace: MATCH_METAFIELD_NAMESPACE,
+                key: MATCH_METAFIELD_KEY,
+              },
+            ],
+          },
+          {
+            apiVersion: this.apiVersion,
+            label: `clearOrderMatchDetails:metafield(${shopDomain}, ${orderId})`,
+          }
+        );
+        assertNoUserErrors(data.metafieldsDelete?.userErrors, "metafieldsDelete");
+      }
+
+      const noteLine = details.note;
+      if (noteLine) {
+        await this.updateOrderNote(
+          shopDomain,
+          accessToken,
+          orderId,
+          "clearOrderMatchDetails:note",
+          (note) =>
+            (note ?? "")
+              .replace(noteLine, "")
+              .replace(/\n{3,}/g, "\n\n")
+              .trim()
+        );
+      }
+    } catch (error) {
+      logger.error("Failed to clear match details from order in Shopify:", error);
+      throw error;
+    }
+  }
+
+  // The order note can only be replaced as a whole, so read the current note
+  // and write back what `update` derives from it
+  private async updateOrderNote(
+    shopDomain: string,
+    accessToken: string,
+    orderId: string,
+    label: string,
+    update: (note: string | null) => string
+  ): Promise<void> {
+    const id = toShopifyGid("Order", orderId);
+    const { order } = await shopifyGraphql<OrderNoteData>(
+      shopDomain,
+      accessToken,
+      ORDER_NOTE_QUERY,
+      { id },
+      { apiVersion: this.apiVersion, label: `${label}:get(${shopDomain}, ${orderId})` }
+    );
+    if (!order) {
+      throw new ShopifyGraphqlError(`order ${orderId} not found`);
+    }
+
+    const data = await shopifyGraphql<OrderUpdateData>(
+      shopDomain,
+      accessToken,
+      ORDER_UPDATE_MUTATION,
+      { input: { id, note: update(order.note) } },
+      { apiVersion: this.apiVersion, label: `${label}:update(${shopDomain}, ${orderId})` }
+    );
+    assertNoUserErrors(data.orderUpdate?.userErrors, "orderUpdate");
+  }
 }
 
 export const shopifyService = new ShopifyService();
@@ -9,17 +9,26 @@ const mocks = vi.hoisted(() => ({
     markWebhookDeliveryProcessed: vi.fn(),
     markWebhookDeliveryFailed: vi.fn(),
     getOrderByShopifyId: vi.fn(),
+    getOrder: vi.fn(),
     createOrder: vi.fn(),
+    replaceOrderMatches: vi.fn(),
     getSettings: vi.fn(),
+    resolveOrder: vi.fn(),
+    getFlaggedDuplicatesOf: vi.fn(),
+    createAuditLog: vi.fn(),
   },
   shopifyService: {
     getOrder: vi.fn(),
     getCustomer: vi.fn(),
     tagOrder: vi.fn(),
+    removeOrderTags: vi.fn(),
   },
   duplicateDetectionService: {
     findDuplicates: vi.fn(),
   },
+  exclusionService: {
+    findForOrder: vi.fn(),
+  },
   notificationService: {
     sendNotifications: vi.fn(),
     sendQuotaExceededNotification: vi.fn(),
@@ -59,6 +68,10 @@ vi.mock("./duplicate-detection.service", () => ({
   duplicateDetectionService: mocks.duplicateDetectionService,
 }));
 
+vi.mock("./exclusion.service", () => ({
+  exclusionService: mocks.exclusionService,
+}));
+
 vi.mock("./notification.service", () => ({
   notificationService: mocks.notificationService,
 }));
@@ -79,6 +92,8 @@ vi.mock("../utils/logger", () => ({
 import {
   buildOrderCreateDeliveryId,
   buildOrderCreateJobKey,
+  buildOrderClosedJobKey,
+  getClosedShopifyOrderId,
   webhookProcessor,
 } from "./webhook-processor.service";
 
@@ -153,7 +168,8 @@ describe("WebhookProcessorService.processOrderCreate idempotency", () => {
       orderLimit: -1,
       monthlyOrderCount: 1,
     });
-    mocks.duplicateDetectionService.findDuplicates.mockResolvedValue(null);
+    mocks.duplicateDetectionService.findDuplicates.mockResolvedValue([]);
+    mocks.exclusionService.findForOrder.mockResolvedValue(null);
     mocks.shopify.session.getOfflineId.mockReturnValue("offline_test.myshopify.com");
     mocks.shopify.config.sessionStorage.loadSession.mockResolvedValue({
       accessToken: "shpat_loaded_token",
@@ -282,3 +298,207 @@ describe("WebhookProcessorService.processOrderCreate idempotency", () => {
     expect(mocks.storage.createOrder).not.toHaveBeenCalled();
   });
 });
+
+describe("WebhookProcessorService.processOrderUpdated", () => {
+  const trackedOrder = {
+    id: "order-row-id",
+    shopDomain: "test.myshopify.com",
+    shopifyOrderId: "123",
+    isFlagged: true,
+    flagSource: "live",
+  };
+  const jobData = {
+    shopDomain: "test.myshopify.com",
+    deliveryId: "delivery-6",
+    payload: { id: 123, tags: "" },
+  };
+  const deliveryRecord = {
+    shopDomain: "test.myshopify.com",
+    deliveryId: "delivery-6",
+    topic: "orders/updated",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.getOfflineAccessToken.mockResolvedValue("shpat_loaded_token");
+    mocks.shopifyService.getOrder.mockResolvedValue(null);
+    mocks.storage.getFlaggedDuplicatesOf.mockResolvedValue([]);
+    mocks.storage.resolveOrder.mockImplementation(
+      async (_shop: string, id: string) => ({ id, resolvedAt: new Date() })
+    );
+  });
+
+  it("applies the order's current state from Shopify", async () => {
+    mocks.storage.getOrderByShopifyId.mockResolvedValue(trackedOrder);
+    mocks.shopifyService.getOrder.mockResolvedValue({
+      id: 123,
+      cancelled_at: "2026-05-10T10:00:00.000Z",
+      tags: "",
+    });
+
+    await webhookProcessor.processOrderUpdated(jobData);
+
+    expect(mocks.shopifyService.getOrder).toHaveBeenCalledWith(
+      "test.myshopify.com",
+      "shpat_loaded_token",
+      123
+    );
+    expect(mocks.storage.resolveOrder).toHaveBeenCalledWith(
+      "test.myshopify.com",
+      "order-row-id",
+      "shopify_cancelled"
+    );
+    expect(mocks.storage.markWebhookDeliveryProcessed).toHaveBeenCalledWith(deliveryRecord);
+  });
+
+  it("records the delivery only after processing succeeds so failures are retried", async () => {
+    mocks.storage.getOrderByShopifyId.mockRejectedValue(new Error("db down"));
+
+    await expect(webhookProcessor.processOrderUpdated(jobData)).rejects.toThrow("db down");
+
+    expect(mocks.storage.markWebhookDeliveryProcessing).toHaveBeenCalledWith(deliveryRecord);
+    expect(mocks.storage.markWebhookDeliveryProcessed).not.toHaveBeenCalled();
+    expect(mocks.storage.markWebhookDeliveryFailed).toHaveBeenCalledWith(
+      deliveryRecord,
+      expect.any(Error)
+    );
+  });
+});
+
+describe("getClosedShopifyOrderId", () => {
+  it("reads the order ID from cancellations and the parent order from refunds", () => {
+    expect(getClosedShopifyOrderId("orders/cancelled", { id: 123 })).toBe("123");
+    expect(
+      getClosedShopifyOrderId("refunds/create", { id: 987, order_id: 123 })
+    ).toBe("123");
+  });
+});
+
+describe("buildOrderClosedJobKey", () => {
+  it("keys cancellations by order and refunds by refund", () => {
+    expect(buildOrderClosedJobKey("test.myshopify.com", "orders/cancelled", { id: 123 })).toBe(
+      "orders/cancelled:test.myshopify.com:123"
+    );
+    expect(
+      buildOrderClosedJobKey("test.myshopify.com", "refunds/create", { id: 987, order_id: 123 })
+    ).not.toBe(
+      buildOrderClosedJobKey("test.myshopify.com", "refunds/create", { id: 988, order_id: 123 })
+    );
+  });
+});
+
+describe("WebhookProcessorService.processOrderClosed", () => {
+  const flaggedOrder = {
+    id: "order-row-id",
+    shopDomain: "test.myshopify.com",
+    shopifyOrderId: "123",
+    isFlagged: true,
+    flagSource: "live",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.getOfflineAccessToken.mockResolvedValue("shpat_loaded_token");
+    mocks.storage.getOrderByShopifyId.mockResolvedValue(flaggedOrder);
+    mocks.storage.getFlaggedDuplicatesOf.mockResolvedValue([]);
+    mocks.storage.resolveOrder.mockImplementation(
+      async (_shop: string, id: string) => ({ id, resolvedAt: new Date() })
+    );
+    mocks.shopifyService.getOrder.mockResolvedValue({
+      id: 123,
+      financial_status: "refunded",
+    });
+  });
+
+  it.each([
+    ["orders/cancelled", { id: 123 }, "shopify_cancelled"],
+    ["refunds/create", { id: 987, order_id: 123 }, "shopify_refunded"],
+  ] as const)("resolves the flagged order for %s", async (topic, payload, resolvedBy) => {
+    await webhookProcessor.processOrderClosed({
+      shopDomain: "test.myshopify.com",
+      deliveryId: "delivery-2",
+      webhookTopic: topic,
+      payload,
+    });
+
+    expect(mocks.storage.getOrderByShopifyId).toHaveBeenCalledWith(
+      "test.myshopify.com",
+      "123"
+    );
+    expect(mocks.storage.resolveOrder).toHaveBeenCalledWith(
+      "test.myshopify.com",
+      "order-row-id",
+      resolvedBy
+    );
+    expect(mocks.storage.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "resolved",
+        details: expect.objectContaining({ resolvedBy }),
+      })
+    );
+    expect(mocks.shopifyService.removeOrderTags).toHaveBeenCalledWith(
+      "test.myshopify.com",
+      "shpat_loaded_token",
+      "123",
+      ["Merge_Review_Candidate"]
+    );
+    expect(mocks.storage.markWebhookDeliveryProcessed).toHaveBeenCalledWith({
+      shopDomain: "test.myshopify.com",
+      deliveryId: "delivery-2",
+      topic,
+    });
+  });
+
+  it("leaves the flag open after a partial refund", async () => {
+    mocks.shopifyService.getOrder.mockResolvedValue({
+      id: 123,
+      financial_status: "partially_refunded",
+    });
+
+    await webhookProcessor.processOrderClosed({
+      shopDomain: "test.myshopify.com",
+      deliveryId: "delivery-4",
+      webhookTopic: "refunds/create",
+      payload: { id: 987, order_id: 123 },
+    });
+
+    expect(mocks.shopifyService.getOrder).toHaveBeenCalledWith(
+      "test.myshopify.com",
+      "shpat_loaded_token",
+      123
+    );
+    expect(mocks.storage.resolveOrder).not.toHaveBeenCalled();
+    expect(mocks.shopifyService.removeOrderTags).not.toHaveBeenCalled();
+    expect(mocks.storage.markWebhookDeliveryProcessed).toHaveBeenCalled();
+  });
+
+  it("retries a refund when the order cannot be fetched", async () => {
+    mocks.shopifyService.getOrder.mockResolvedValue(null);
+
+    await expect(
+      webhookProcessor.processOrderClosed({
+        shopDomain: "test.myshopify.com",
+        deliveryId: "delivery-5",
+        webhookTopic: "refunds/create",
+        payload: { id: 987, order_id: 123 },
+      })
+    ).rejects.toThrow("Could not fetch order 123");
+
+    expect(mocks.storage.resolveOrder).not.toHaveBeenCalled();
+    expect(mocks.storage.markWebhookDeliveryFailed).toHaveBeenCalled();
+  });
+
+  it("acknowledges closures of untracked orders", async () => {
+    mocks.storage.getOrderByShopifyId.mockResolvedValue(undefined);
+
+    await webhookProcessor.processOrderClosed({
+      shopDomain: "test.myshopify.com",
+      deliveryId: "delivery-3",
+      webhookTopic: "orders/cancelled",
+      payload: { id: 456 },
+    });
+
+    expect(mocks.storage.resolveOrder).not.toHaveBeenCalled();
+    expect(mocks.storage.markWebhookDeliveryProcessed).toHaveBeenCalled();
+  });
+});
@@ -5,6 +5,12 @@ import { storage } from "../storage";
 import { getOfflineAccessToken } from "../shopify-auth";
 import { mapShopifyOrder } from "./order-mapper.service";
 import { processOrder } from "./order-processing.service";
+import {
+  getClosedResolution,
+  orderUpdateService,
+  resolveClosedOrder,
+  type OrderClosedResolution,
+} from "./order-update.service";
 
 interface OrderCreateJobData {
   shopDomain: string;
@@ -14,6 +20,53 @@ interface OrderCreateJobData {
   webhookTopic: string;
 }
 
+interface OrderUpdatedJobData {
+  shopDomain: string;
+  payload: any;
+  deliveryId: string;
+}
+
+export type OrderClosedTopic = "orders/cancelled" | "refunds/create";
+
+interface OrderClosedJobData {
+  shopDomain: string;
+  payload: any;
+  deliveryId: string;
+  webhookTopic: OrderClosedTopic;
+}
+
+/**
+ * Shopify order ID a closing webhook refers to: `orders/cancelled` sends the
+ * order itself, `refunds/create` sends a refund carrying `order_id`.
+ */
+export function getClosedShopifyOrderId(
+  topic: OrderClosedTopic,
+  payload: { id?: string | number; order_id?: string | number }
+): string {
+  const orderId = topic === "refunds/create" ? payload.order_id : payload.id;
+  return orderId != null ? String(orderId) : "";
+}
+
+/**
+ * Queue key for a closing webhook: the webhook's own resource ID, i.e. the
+ * order for a cancellation and the refund for `refunds/create`, since one
+ * order can be refunded several times and each refund needs its own job.
+ */
+export function buildOrderClosedJobKey(
+  shopDomain: string,
+  topic: OrderClosedTopic,
+  payload: { id?: string | number; order_id?: string | number }
+): string {
+  return `${topic}:${shopDomain}:${payload.id ?? getClosedShopifyOrderId(topic, payload)}`;
+}
+
+export function buildOrderUpdatedJobKey(
+  shopDomain: string,
+  orderId: string | number
+): string {
+  return `orders/updated:${shopDomain}:${orderId}`;
+}
+
 export function buildOrderCreateDeliveryId(
   shopDomain: string,
   orderId: string | number,
@@ -170,6 +223,166 @@ export class WebhookProcessorService {
       throw error;
     }
   }
+
+  /**
+   * Process an `orders/updated` webhook. Only one job per order waits in the
+   * queue, so later updates that arrived meanwhile were acknowledged without a
+   * job of their own: the order is fetched again and its current state used,
+   * falling back to the queued payload when it cannot be fetched.
+   */
+  public async processOrderUpdated(data: OrderUpdatedJobData): Promise<void> {
+    const { shopDomain, payload, deliveryId } = data;
+    const deliveryRecord = {
+      shopDomain,
+      deliveryId,
+      topic: "orders/updated",
+    };
+
+    logger.info(
+      `[WebhookProcessor] Processing orders/updated for order ${payload.id} (shop ${shopDomain})`
+    );
+
+    try {
+      if (deliveryId) {
+        await storage.markWebhookDeliveryProcessing(deliveryRecord);
+      }
+
+      // Tag removal is best-effort, so a missing token does not block the update
+      let accessToken = "";
+      try {
+        accessToken = (await getOfflineAccessToken(shopDomain)) ?? "";
+      } catch (error) {
+        logger.warn(
+          `[WebhookProcessor] Failed to load/refresh session for ${shopDomain}:`,
+          error
+        );
+      }
+
+      const currentOrder = accessToken
+        ? await shopifyService.getOrder(shopDomain, accessToken, payload.id)
+        : null;
+
+      const result = await orderUpdateService.handleOrderUpdated(
+        shopDomain,
+        currentOrder ?? payload,
+        accessToken
+      );
+      logger.info(
+        `[WebhookProcessor] orders/updated for order ${payload.id}: ${result.outcome}`
+      );
+
+      if (deliveryId) {
+        await storage.markWebhookDeliveryProcessed(deliveryRecord);
+      }
+    } catch (error) {
+      if (deliveryId) {
+        try {
+          await storage.markWebhookDeliveryFailed(deliveryRecord, error);
+        } catch (deliveryError) {
+          logger.error(
+            `[WebhookProcessor] Failed to mark delivery ${deliveryId} as failed:`,
+            deliveryError
+          );
+        }
+      }
+      logger.error(
+        `[WebhookProcessor] Critical error processing orders/updated for order ${payload.id}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Process an `orders/cancelled` or `refunds/create` webhook: resolve the
+   * order's flag and the flags of orders that were matched against it. A
+   * refund only closes the order once it is fully refunded, so the order is
+   * fetched to read its financial status; partial refunds leave the flag open.
+   */
+  public async processOrderClosed(data: OrderClosedJobData): Promise<void> {
+    const { shopDomain, payload, deliveryId, webhookTopic } = data;
+    const deliveryRecord = {
+      shopDomain,
+      deliveryId,
+      topic: webhookTopic,
+    };
+    const shopifyOrderId = getClosedShopifyOrderId(webhookTopic, payload);
+
+    logger.info(
+      `[WebhookProcessor] Processing ${webhookTopic} for order ${shopifyOrderId} (shop ${shopDomain})`
+    );
+
+    try {
+      if (deliveryId) {
+        await storage.markWebhookDeliveryProcessing(deliveryRecord);
+      }
+
+      const order = shopifyOrderId
+        ? await storage.getOrderByShopifyId(shopDomain, shopifyOrderId)
+        : undefined;
+
+      if (order) {
+        // Tag removal is best-effort, so a missing token does not block resolution
+        let accessToken = "";
+        try {
+          accessToken = (await getOfflineAccessToken(shopDomain)) ?? "";
+        } catch (error) {
+          logger.warn(
+            `[WebhookProcessor] Failed to load/refresh session for ${shopDomain}:`,
+            error
+          );
+        }
+
+        let resolution: OrderClosedResolution | null = "shopify_cancelled";
+        if (webhookTopic === "refunds/create") {
+          const shopifyOrder = accessToken
+            ? await shopifyService.getOrder(shopDomain, accessToken, Number(shopifyOrderId))
+            : null;
+          if (!shopifyOrder) {
+            throw new Error(
+              `[WebhookProcessor] Could not fetch order ${shopifyOrderId} for shop ${shopDomain}. Retrying processing.`
+            );
+          }
+          resolution = getClosedResolution(shopifyOrder);
+        }
+
+        if (resolution) {
+          const resolvedOrderIds = await resolveClosedOrder(order, accessToken, resolution);
+          logger.info(
+            `[WebhookProcessor] Resolved ${resolvedOrderIds.length} flag(s) after ${webhookTopic} for order ${shopifyOrderId}`
+          );
+        } else {
+          logger.info(
+            `[WebhookProcessor] Order ${shopifyOrderId} is only partially refunded, leaving its flag open`
+          );
+        }
+      } else {
+        logger.debug(
+          `[WebhookProcessor] Order ${shopifyOrderId} is not tracked, skipping ${webhookTopic}`
+        );
+      }
+
+      if (deliveryId) {
+        await storage.markWebhookDeliveryProcessed(deliveryRecord);
+      }
+    } catch (error) {
+      if (deliveryId) {
+        try {
+          await storage.markWebhookDeliveryFailed(deliveryRecord, error);
+        } catch (deliveryError) {
+          logger.error(
+            `[WebhookProcessor] Failed to mark delivery ${deliveryId} as failed:`,
+            deliveryError
+          );
+        }
+      }
+      logger.error(
+        `[WebhookProcessor] Critical error processing ${webhookTopic} for order ${shopifyOrderId}:`,
+        error
+      );
+      throw error;
+    }
+  }
 }
 
 export const webhookProcessor = WebhookProcessorService.getInstance();
@@ -46,6 +46,14 @@ shopify.webhooks.addHandlers({
     deliveryMethod: DeliveryMethod.Http,
     callbackUrl: "/api/webhooks/shopify/orders/updated",
   },
+  "orders/cancelled": {
+    deliveryMethod: DeliveryMethod.Http,
+    callbackUrl: "/api/webhooks/shopify/orders/cancelled",
+  },
+  "refunds/create": {
+    deliveryMethod: DeliveryMethod.Http,
+    callbackUrl: "/api/webhooks/shopify/refunds/create",
+  },
   "app/uninstalled": {
     deliveryMethod: DeliveryMethod.Http,
     callbackUrl: "/api/webhooks/shopify/app/uninstalled",
@@ -619,6 +627,39 @@ export async function authCallback(req: Request, res: Response) {
         );
       }
 
+      // Check orders/cancelled and refunds/create webhooks (try both formats)
+      for (const [topic, key] of [
+        ["orders/cancelled", "ORDERS_CANCELLED"],
+        ["refunds/create", "REFUNDS_CREATE"],
+      ]) {
+        const topicResult = response[key] || response[topic];
+        const result =
+          Array.isArray(topicResult) && topicResult.length > 0
+            ? topicResult[0]
+            : null;
+        if (!result) {
+          logger.warn(
+            `[AuthCallback] ⚠️ ${topic} webhook registration response is missing or invalid:`,
+            JSON.stringify(topicResult, null, 2)
+          );
+        } else if (result.success) {
+          logger.info(`[AuthCallback] ✅ Successfully registered ${topic} webhook`);
+        } else {
+          const resultData = result.result as any;
+          const errorMessage =
+            resultData?.data?.webhookSubscriptionCreate?.userErrors?.[0]
+              ?.message ||
+            resultData?.errors?.[0]?.message ||
+            "Unknown error";
+          logger.warn(
+            `[AuthCallback] ⚠️ Failed to register ${topic} webhook: ${errorMessage}`
+          );
+          logger.info(
+            `[AuthCallback] 💡 This is non-blocking. The app will still function, but cancelled or refunded duplicates will not be resolved automatically.`
+          );
+        }
+      }
+
       // Check customers/data_request webhook
       const customersDataRequestResult =
         response["CUSTOMERS_DATA_REQUEST"] ||
@@ -931,10 +972,12 @@ export async function verifyRequest(
       `[Auth] Session found for shop ${shop}, authentication successful. Token type: ${tokenPrefix}, length: ${tokenLength}`
     );
 
-    // Store shop and accessToken in res.locals for downstream use
+    // Store shop and accessToken in res.locals for downstream use. The token's
+    // subject is the staff user using the embedded app.
     res.locals.shopify = {
       shop,
       accessToken: sessionAccessToken,
+      userId: typeof payload.sub === "string" && payload.sub ? payload.sub : undefined,
     };
 
     next();
@@ -25,6 +25,8 @@ vi.mock("./db", () => ({
 
 // Import AFTER mock is set up
 import { DatabaseStorage, FREE_TIER_ORDER_LIMIT } from "./storage";
+import { InvalidCursorError } from "./utils/cursor";
+import { flaggedOrdersQuerySchema } from "@shared/schema";
 
 // ---------------------------------------------------------------------------
 // Helper: build a chainable query builder stub that resolves to `rows`
@@ -32,6 +34,7 @@ import { DatabaseStorage, FREE_TIER_ORDER_LIMIT } from "./storage";
 function buildQueryStub(rows: any[]) {
   const stub: any = {
     from: vi.fn().mockReturnThis(),
+    leftJoin: vi.fn().mockReturnThis(),
     where: vi.fn().mockReturnThis(),
     orderBy: vi.fn().mockReturnThis(),
     limit: vi.fn().mockReturnThis(),
@@ -125,6 +128,192 @@ describe("DatabaseStorage.getDashboardStats — averageResolutionTime regression
   });
 });
 
+describe("DatabaseStorage.getFlaggedOrders — cursor pagination", () => {
+  let storage: DatabaseStorage;
+  const query = flaggedOrdersQuerySchema.parse({ sort: "confidence", limit: "2" });
+
+  function flaggedOrder(id: string, matchConfidence: number) {
+    return {
+      id,
+      matchConfidence,
+      totalPrice: "10.00",
+      createdAt: new Date("2026-05-01T00:00:00.000Z"),
+      flaggedAt: new Date("2026-05-02T00:00:00.000Z"),
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = new DatabaseStorage();
+  });
+
+  it("fetches one extra row and returns a cursor for the last row on the page", async () => {
+    const pageStub = buildQueryStub([
+      flaggedOrder("a", 95),
+      flaggedOrder("b", 90),
+      flaggedOrder("c", 80),
+    ]);
+    mockSelect
+      .mockReturnValueOnce(buildQueryStub([{ total: 3 }]))
+      .mockReturnValueOnce(pageStub);
+
+    const page = await storage.getFlaggedOrders("shop.myshopify.com", query);
+
+    expect(pageStub.limit).toHaveBeenCalledWith(3);
+    expect(page.orders.map((order) => order.id)).toEqual(["a", "b"]);
+    expect(page.total).toBe(3);
+    expect(page.nextCursor).not.toBeNull();
+    expect(JSON.parse(Buffer.from(page.nextCursor!, "base64url").toString())).toEqual({
+      sort: "confidence",
+      direction: "desc",
+      value: 90,
+      id: "b",
+    });
+  });
+
+  it("returns a null cursor on the last page", async () => {
+    mockSelect
+      .mockReturnValueOnce(buildQueryStub([{ total: 1 }]))
+      .mockReturnValueOnce(buildQueryStub([flaggedOrder("a", 95)]));
+
+    const page = await storage.getFlaggedOrders("shop.myshopify.com", query);
+
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it("rejects a cursor issued for a different sort order", async () => {
+    mockSelect.mockReturnValueOnce(buildQueryStub([{ total: 3 }]));
+    const cursor = Buffer.from(
+      JSON.stringify({ sort: "total", direction: "desc", value: "10.00", id: "b" })
+    ).toString("base64url");
+
+    await expect(
+      storage.getFlaggedOrders("shop.myshopify.com", { ...query, cursor })
+    ).rejects.toThrow(InvalidCursorError);
+  });
+});
+
+describe("DatabaseStorage.getAuditLogs — cursor pagination", () => {
+  let storage: DatabaseStorage;
+
+  function entry(id: string, performedAtKey: string) {
+    return {
+      id,
+      action: "dismissed",
+      orderId: `order-${id}`,
+      orderNumber: `#${id}`,
+      performedAt: new Date(`${performedAtKey}Z`),
+      performedAtKey,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = new DatabaseStorage();
+  });
+
+  it("keeps the full timestamp precision in the cursor", async () => {
+    const pageStub = buildQueryStub([
+      entry("b", "2026-05-02 10:00:00.123456"),
+      entry("a", "2026-05-01 09:00:00.654321"),
+    ]);
+    mockSelect.mockReturnValueOnce(pageStub);
+
+    const page = await storage.getAuditLogs("shop.myshopify.com", {}, { limit: 1 });
+
+    expect(pageStub.limit).toHaveBeenCalledWith(2);
+    expect(page.entries).toEqual([
+      expect.not.objectContaining({ performedAtKey: expect.anything() }),
+    ]);
+    expect(page.entries[0].id).toBe("b");
+    expect(JSON.parse(Buffer.from(page.nextCursor!, "base64url").toString())).toEqual({
+      performedAt: "2026-05-02 10:00:00.123456",
+      id: "b",
+    });
+  });
+
+  it("returns a null cursor on the last page", async () => {
+    mockSelect.mockReturnValueOnce(buildQueryStub([entry("a", "2026-05-01 09:00:00")]));
+
+    const page = await storage.getAuditLogs("shop.myshopify.com", {}, { limit: 1 });
+
+    expect(page.nextCursor).toBeNull();
+  });
+});
+
+describe("DatabaseStorage.getStaffMember", () => {
+  let storage: DatabaseStorage;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = new DatabaseStorage();
+  });
+
+  it("names the staff user from their stored online session", async () => {
+    mockSelect.mockReturnValueOnce(
+      buildQueryStub([{ firstName: "Grace", lastName: " Hopper ", email: "grace@example.com" }])
+    );
+
+    await expect(storage.getStaffMember("shop.myshopify.com", "42")).resolves.toEqual({
+      userId: "42",
+      name: "Grace Hopper",
+      email: "grace@example.com",
+    });
+  });
+
+  it("falls back to the user ID when no session is stored", async () => {
+    mockSelect.mockReturnValueOnce(buildQueryStub([]));
+
+    await expect(storage.getStaffMember("shop.myshopify.com", "42")).resolves.toEqual({
+      userId: "42",
+      name: null,
+      email: null,
+    });
+  });
+});
+
+describe("DatabaseStorage.resolveOrder — resolution outcomes", () => {
+  let storage: DatabaseStorage;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    storage = new DatabaseStorage();
+    vi.spyOn(storage, "getOrder").mockResolvedValue({ id: "order-1", isFlagged: true } as any);
+  });
+
+  it("stores the reviewer's outcome and note", async () => {
+    const updateOrder = vi.spyOn(storage, "updateOrder").mockResolvedValue({} as any);
+
+    await storage.resolveOrder("shop.myshopify.com", "order-1", "manual_dashboard", {
+      outcome: "false_positive",
+      note: "Different households",
+    });
+
+    expect(updateOrder).toHaveBeenCalledWith(
+      "shop.myshopify.com",
+      "order-1",
+      expect.objectContaining({
+        isFlagged: false,
+        resolvedBy: "manual_dashboard",
+        resolutionOutcome: "false_positive",
+        resolutionNote: "Different households",
+      })
+    );
+  });
+
+  it("leaves the outcome unset for automatic resolutions", async () => {
+    const updateOrder = vi.spyOn(storage, "updateOrder").mockResolvedValue({} as any);
+
+    await storage.resolveOrder("shop.myshopify.com", "order-1", "shopify_cancelled");
+
+    expect(updateOrder).toHaveBeenCalledWith(
+      "shop.myshopify.com",
+      "order-1",
+      expect.objectContaining({ resolutionOutcome: null, resolutionNote: null })
+    );
+  });
+});
+
 describe("FREE_TIER_ORDER_LIMIT constant", () => {
   it("is exported from storage as 50", () => {
     expect(FREE_TIER_ORDER_LIMIT).toBe(50);
@@ -1,17 +1,31 @@
 import {
   orders,
+  orderMatches,
+  orderSkus,
   detectionSettings,
+  detectionExclusions,
+  detectionSettingsVersions,
   auditLogs,
   subscriptions,
   webhookDeliveries,
   historicalScanRuns,
+  bulkActionRuns,
   shopifySessions,
   type Order,
   type InsertOrder,
+  type InsertOrderMatch,
+  type OrderMatchWithOrder,
   type DetectionSettings,
   type InsertDetectionSettings,
   type UpdateDetectionSettings,
+  type DetectionSettingsVersion,
+  type SettingsVersionSource,
+  type DetectionExclusion,
+  type InsertDetectionExclusion,
+  type UpdateDetectionExclusion,
   type AuditLog,
+  type AuditLogFilter,
+  type AuditLogsPage,
   type InsertAuditLog,
   type DashboardStats,
   type Subscription,
@@ -20,10 +34,20 @@ import {
   type InsertWebhookDelivery,
   type HistoricalScanRun,
   type InsertHistoricalScanRun,
+  type BulkActionRun,
+  type InsertBulkActionRun,
+  type FlaggedOrderFilter,
+  type OrderResolution,
+  type FlaggedOrdersPage,
+  type FlaggedOrdersQuery,
+  type FlaggedOrderSortField,
+  type FlaggedOrderStatus,
+  type StaffMember,
 } from "@shared/schema";
 import { db } from "./db";
 import {
   eq,
+  asc,
   desc,
   gte,
   sql,
@@ -34,8 +58,143 @@ import {
   isNotNull,
   count,
   lt,
+  lte,
+  ilike,
+  getTableColumns,
+  type SQL,
 } from "drizzle-orm";
+import { z } from "zod";
 import { normalizePhoneNumber } from "./utils/phone";
+import { canonicalizeEmail } from "./utils/email";
+import { buildAddressKey } from "./utils/address";
+import { extractSkus } from "./services/detection-rules";
+import { decodeCursor, encodeCursor, InvalidCursorError } from "./utils/cursor";
+import { diffSettingsSnapshots, toSettingsSnapshot } from "./utils/settings-diff";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Rewrite the SKU blocking keys for an order so they mirror its line items.
+ */
+async function replaceOrderSkus(tx: Transaction, order: Order): Promise<void> {
+  await tx.delete(orderSkus).where(eq(orderSkus.orderId, order.id));
+
+  const skus = Array.from(new Set(extractSkus(order.lineItems)));
+  if (skus.length > 0) {
+    await tx.insert(orderSkus).values(
+      skus.map((sku) => ({
+        shopDomain: order.shopDomain,
+        orderId: order.id,
+        sku,
+        orderCreatedAt: order.createdAt,
+      }))
+    );
+  }
+}
+
+// Sort keys for the flagged orders list. Nullable columns are coalesced so
+// keyset comparisons never meet a NULL.
+const FLAGGED_ORDER_SORTS: Record<
+  FlaggedOrderSortField,
+  { expression: SQL; type: string; valueOf: (order: Order) => string | number }
+> = {
+  flaggedAt: {
+    expression: sql`coalesce(${orders.flaggedAt}, ${orders.createdAt})`,
+    type: "timestamp",
+    valueOf: (order) => (order.flaggedAt ?? order.createdAt).toISOString(),
+  },
+  confidence: {
+    expression: sql`coalesce(${orders.matchConfidence}, 0)`,
+    type: "integer",
+    valueOf: (order) => order.matchConfidence ?? 0,
+  },
+  total: {
+    expression: sql`${orders.totalPrice}`,
+    type: "numeric",
+    valueOf: (order) => order.totalPrice,
+  },
+};
+
+const auditLogsCursorSchema = z.object({
+  performedAt: z.string(),
+  id: z.string(),
+});
+
+const flaggedOrdersCursorSchema = z.object({
+  sort: z.enum(["flaggedAt", "confidence", "total"]),
+  direction: z.enum(["asc", "desc"]),
+  value: z.union([z.string(), z.number()]),
+  id: z.string(),
+});
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * WHERE conditions for a shop's flagged orders. "open" orders are still
+ * flagged, "resolved" ones were flagged and later resolved or dismissed.
+ */
+function flaggedOrderConditions(
+  shopDomain: string,
+  filter: FlaggedOrderFilter,
+  status: FlaggedOrderStatus = "open"
+): SQL[] {
+  const conditions: SQL[] = [eq(orders.shopDomain, shopDomain)];
+
+  if (status === "open") {
+    conditions.push(eq(orders.isFlagged, true));
+  } else if (status === "resolved") {
+    conditions.push(eq(orders.isFlagged, false), isNotNull(orders.resolvedAt));
+  } else {
+    conditions.push(or(eq(orders.isFlagged, true), isNotNull(orders.resolvedAt))!);
+  }
+
+  if (filter.flagSource) {
+    conditions.push(eq(orders.flagSource, filter.flagSource));
+  }
+  if (filter.minConfidence !== undefined) {
+    conditions.push(gte(orders.matchConfidence, filter.minConfidence));
+  }
+  if (filter.maxConfidence !== undefined) {
+    conditions.push(lte(orders.matchConfidence, filter.maxConfidence));
+  }
+  if (filter.matchReason) {
+    conditions.push(ilike(orders.matchReason, `%${escapeLikePattern(filter.matchReason)}%`));
+  }
+  if (filter.flaggedFrom) {
+    conditions.push(gte(orders.flaggedAt, filter.flaggedFrom));
+  }
+  if (filter.flaggedTo) {
+    conditions.push(lte(orders.flaggedAt, filter.flaggedTo));
+  }
+  if (filter.currency) {
+    conditions.push(eq(orders.currency, filter.currency));
+  }
+  if (filter.search) {
+    const pattern = `%${escapeLikePattern(filter.search.replace(/^#/, ""))}%`;
+    conditions.push(
+      or(
+        ilike(orders.orderNumber, pattern),
+        ilike(orders.customerName, pattern),
+        ilike(orders.customerEmail, pattern)
+      )!
+    );
+  }
+
+  return conditions;
+}
+
+export type LabeledResolution = Pick<
+  Order,
+  "matchConfidence" | "matchReason" | "totalPrice" | "currency"
+> & {
+  resolutionOutcome: NonNullable<Order["resolutionOutcome"]>;
+  resolvedAt: Date;
+};
+
+// Most recent audit entries returned for one order's history
+const ORDER_HISTORY_LIMIT = 100;
 
 /** Single source of truth for the free-tier duplicate order cap */
 export const FREE_TIER_ORDER_LIMIT = 50;
@@ -49,14 +208,36 @@ export interface IStorage {
   ): Promise<Order | undefined>;
   getFlaggedOrders(
     shopDomain: string,
-    options?: { limit?: number; offset?: number }
-  ): Promise<{ orders: Order[]; total: number; limit: number; offset: number }>;
+    query: FlaggedOrdersQuery
+  ): Promise<FlaggedOrdersPage>;
+  getFlaggedOrderIds(
+    shopDomain: string,
+    filter: FlaggedOrderFilter,
+    limit: number
+  ): Promise<string[]>;
+  getOrdersByIds(shopDomain: string, ids: string[]): Promise<Order[]>;
+  getLabeledResolutions(shopDomain: string, since: Date): Promise<LabeledResolution[]>;
+  getOrdersCreatedBetween(
+    shopDomain: string,
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<Order[]>;
   createOrder(order: InsertOrder): Promise<Order>;
   updateOrder(
     shopDomain: string,
     id: string,
     updates: Partial<Order>
   ): Promise<Order>;
+  replaceOrderMatches(
+    shopDomain: string,
+    orderId: string,
+    matches: Omit<InsertOrderMatch, "shopDomain" | "orderId">[]
+  ): Promise<void>;
+  getOrderMatches(
+    shopDomain: string,
+    orderId: string
+  ): Promise<OrderMatchWithOrder[]>;
   getHistoricalScanRun(shopDomain: string): Promise<HistoricalScanRun | undefined>;
   getHistoricalScanRunById(id: string): Promise<HistoricalScanRun | undefined>;
   createHistoricalScanRun(run: InsertHistoricalScanRun): Promise<HistoricalScanRun>;
@@ -67,6 +248,17 @@ export interface IStorage {
   retryHistoricalScanRun(id: string): Promise<HistoricalScanRun | undefined>;
   getStaleHistoricalScanRuns(cutoff: Date): Promise<HistoricalScanRun[]>;
   getFlaggedOrdersForScan(runId: string): Promise<Order[]>;
+  getBulkActionRun(
+    shopDomain: string,
+    id: string
+  ): Promise<BulkActionRun | undefined>;
+  getBulkActionRunById(id: string): Promise<BulkActionRun | undefined>;
+  createBulkActionRun(run: InsertBulkActionRun): Promise<BulkActionRun>;
+  updateBulkActionRun(
+    id: string,
+    updates: Partial<BulkActionRun>
+  ): Promise<BulkActionRun>;
+  getFlaggedDuplicatesOf(shopDomain: string, orderId: string): Promise<Order[]>;
   getDashboardStats(shopDomain: string): Promise<DashboardStats>;
 
   getSettings(shopDomain: string): Promise<DetectionSettings | undefined>;
@@ -75,8 +267,44 @@ export interface IStorage {
     updates: UpdateDetectionSettings
   ): Promise<DetectionSettings>;
   initializeSettings(shopDomain: string): Promise<DetectionSettings>;
+  updateSettingsVersioned(
+    shopDomain: string,
+    updates: UpdateDetectionSettings,
+    meta: {
+      source: Exclude<SettingsVersionSource, "initial">;
+      changedBy: StaffMember | null;
+      restoredFromVersion?: number;
+    }
+  ): Promise<{ settings: DetectionSettings; version: DetectionSettingsVersion | null }>;
+  getSettingsVersions(shopDomain: string, limit: number): Promise<DetectionSettingsVersion[]>;
+  getSettingsVersion(
+    shopDomain: string,
+    version: number
+  ): Promise<DetectionSettingsVersion | undefined>;
+
+  getExclusions(shopDomain: string): Promise<DetectionExclusion[]>;
+  getExclusion(
+    shopDomain: string,
+    id: string
+  ): Promise<DetectionExclusion | undefined>;
+  createExclusion(
+    exclusion: InsertDetectionExclusion
+  ): Promise<DetectionExclusion>;
+  updateExclusion(
+    shopDomain: string,
+    id: string,
+    updates: UpdateDetectionExclusion
+  ): Promise<DetectionExclusion | undefined>;
+  deleteExclusion(shopDomain: string, id: string): Promise<boolean>;
 
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
+  createAuditLogs(logs: InsertAuditLog[]): Promise<void>;
+  getOrderAuditLogs(shopDomain: string, orderId: string): Promise<AuditLog[]>;
+  getAuditLogs(
+    shopDomain: string,
+    filter: AuditLogFilter,
+    page: { limit: number; cursor?: string }
+  ): Promise<AuditLogsPage>;
 
   getSubscription(shopDomain: string): Promise<Subscription | undefined>;
   createSubscription(subscription: InsertSubscription): Promise<Subscription>;
@@ -92,13 +320,17 @@ export interface IStorage {
     hasDetectedDuplicate: boolean;
   }>;
 
-  dismissOrder(shopDomain: string, orderId: string): Promise<Order>;
+  dismissOrder(shopDomain: string, orderId: string, staff?: StaffMember | null): Promise<Order>;
   resolveOrder(
     shopDomain: string,
     orderId: string,
-    resolvedBy: string
+    resolvedBy: string,
+    resolution?: OrderResolution,
+    staff?: StaffMember | null
   ): Promise<Order>;
 
+  getStaffMember(shopDomain: string, userId: string): Promise<StaffMember>;
+
   // Webhook delivery tracking
   hasWebhookDelivery(shopDomain: string, deliveryId: string): Promise<boolean>;
   recordWebhookDelivery(delivery: InsertWebhookDelivery): Promise<void>;
@@ -154,54 +386,153 @@ export class DatabaseStorage implements IStorage {
     return order || undefined;
   }
 
+  /**
+   * One page of flagged orders matching the query, using keyset pagination
+   * on the sort key with the order ID as tie-breaker.
+   */
   async getFlaggedOrders(
     shopDomain: string,
-    options: { limit?: number; offset?: number } = {}
-  ): Promise<{ orders: Order[]; total: number; limit: number; offset: number }> {
-    const requestedLimit = Number.isFinite(options.limit) ? options.limit! : 50;
-    const requestedOffset = Number.isFinite(options.offset) ? options.offset! : 0;
-    const limit = Math.min(Math.max(Math.trunc(requestedLimit), 1), 200);
-    const offset = Math.max(Math.trunc(requestedOffset), 0);
-
-    const whereClause = and(
-      eq(orders.isFlagged, true),
-      eq(orders.shopDomain, shopDomain)
-    );
+    query: FlaggedOrdersQuery
+  ): Promise<FlaggedOrdersPage> {
+    const { sort, direction, limit } = query;
+    const sortKey = FLAGGED_ORDER_SORTS[sort];
+    const conditions = flaggedOrderConditions(shopDomain, query, query.status);
 
     const [totalResult] = await db
       .select({ total: count() })
       .from(orders)
-      .where(whereClause);
+      .where(and(...conditions));
+
+    const pageConditions = [...conditions];
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, flaggedOrdersCursorSchema);
+      if (cursor.sort !== sort || cursor.direction !== direction) {
+        throw new InvalidCursorError("Cursor does not match the requested sort order");
+      }
+      const comparison = direction === "desc" ? sql`<` : sql`>`;
+      pageConditions.push(
+        sql`(${sortKey.expression}, ${orders.id}) ${comparison} (cast(${cursor.value} as ${sql.raw(sortKey.type)}), ${cursor.id})`
+      );
+    }
 
-    const flaggedOrders = await db
+    const order = direction === "desc" ? desc : asc;
+    const rows = await db
       .select()
       .from(orders)
-      .where(whereClause)
-      .orderBy(desc(orders.flaggedAt))
-      .limit(limit)
-      .offset(offset);
+      .where(and(...pageConditions))
+      .orderBy(order(sortKey.expression), order(orders.id))
+      .limit(limit + 1);
 
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
     return {
-      orders: flaggedOrders,
+      orders: page,
       total: Number(totalResult?.total ?? 0),
       limit,
-      offset,
+      nextCursor:
+        rows.length > limit && last
+          ? encodeCursor({ sort, direction, value: sortKey.valueOf(last), id: last.id })
+          : null,
     };
   }
 
+  /**
+   * IDs of open flagged orders matching a bulk-action filter, newest flag first.
+   */
+  async getFlaggedOrderIds(
+    shopDomain: string,
+    filter: FlaggedOrderFilter,
+    limit: number
+  ): Promise<string[]> {
+    const rows = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(and(...flaggedOrderConditions(shopDomain, filter)))
+      .orderBy(desc(orders.flaggedAt))
+      .limit(limit);
+    return rows.map((row) => row.id);
+  }
+
+  async getOrdersByIds(shopDomain: string, ids: string[]): Promise<Order[]> {
+    if (ids.length === 0) return [];
+    return db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.shopDomain, shopDomain), inArray(orders.id, ids)));
+  }
+
+  /**
+   * Orders resolved with a reviewer outcome since the given date.
+   */
+  async getLabeledResolutions(
+    shopDomain: string,
+    since: Date
+  ): Promise<LabeledResolution[]> {
+    const rows = await db
+      .select({
+        matchConfidence: orders.matchConfidence,
+        matchReason: orders.matchReason,
+        resolutionOutcome: orders.resolutionOutcome,
+        totalPrice: orders.totalPrice,
+        currency: orders.currency,
+        resolvedAt: orders.resolvedAt,
+      })
+      .from(orders)
+      .where(
+        and(
+          eq(orders.shopDomain, shopDomain),
+          isNotNull(orders.resolutionOutcome),
+          gte(orders.resolvedAt, since)
+        )
+      );
+    return rows as LabeledResolution[];
+  }
+
+  /**
+   * Orders created in [from, to], newest first so a limit keeps the most
+   * recent ones.
+   */
+  async getOrdersCreatedBetween(
+    shopDomain: string,
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<Order[]> {
+    return db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          eq(orders.shopDomain, shopDomain),
+          gte(orders.createdAt, from),
+          lte(orders.createdAt, to)
+        )
+      )
+      .orderBy(desc(orders.createdAt), desc(orders.id))
+      .limit(limit);
+  }
+
   async createOrder(insertOrder: InsertOrder): Promise<Order> {
     const customerPhoneNormalized = insertOrder.customerPhone
       ? normalizePhoneNumber(insertOrder.customerPhone) || null
       : null;
+    const customerEmailCanonical = insertOrder.customerEmail
+      ? canonicalizeEmail(insertOrder.customerEmail) || null
+      : null;
 
-    const [order] = await db
-      .insert(orders)
-      .values({
-        ...insertOrder,
-        customerPhoneNormalized,
-      })
-      .returning();
-    return order;
+    return db.transaction(async (tx) => {
+      const [order] = await tx
+        .insert(orders)
+        .values({
+          ...insertOrder,
+          customerPhoneNormalized,
+          customerEmailCanonical,
+          shippingAddressKey: buildAddressKey(insertOrder.shippingAddress),
+        })
+        .returning();
+      await replaceOrderSkus(tx, order);
+      return order;
+    });
   }
 
   async updateOrder(
@@ -209,12 +540,82 @@ export class DatabaseStorage implements IStorage {
     id: string,
     updates: Partial<Order>
   ): Promise<Order> {
-    const [order] = await db
-      .update(orders)
-      .set(updates)
-      .where(and(eq(orders.id, id), eq(orders.shopDomain, shopDomain)))
-      .returning();
-    return order;
+    const derivedValues: Partial<Order> = {};
+    if (updates.customerPhone !== undefined) {
+      derivedValues.customerPhoneNormalized = updates.customerPhone
+        ? normalizePhoneNumber(updates.customerPhone) || null
+        : null;
+    }
+    if (updates.shippingAddress !== undefined) {
+      derivedValues.shippingAddressKey = buildAddressKey(updates.shippingAddress);
+    }
+    if (updates.customerEmail !== undefined) {
+      derivedValues.customerEmailCanonical = updates.customerEmail
+        ? canonicalizeEmail(updates.customerEmail) || null
+        : null;
+    }
+
+    return db.transaction(async (tx) => {
+      const [order] = await tx
+        .update(orders)
+        .set({ ...updates, ...derivedValues })
+        .where(and(eq(orders.id, id), eq(orders.shopDomain, shopDomain)))
+        .returning();
+      if (
+        order &&
+        (updates.lineItems !== undefined || updates.createdAt !== undefined)
+      ) {
+        await replaceOrderSkus(tx, order);
+      }
+      return order;
+    });
+  }
+
+  /**
+   * Replace the ranked duplicate candidates recorded for an order.
+   */
+  async replaceOrderMatches(
+    shopDomain: string,
+    orderId: string,
+    matches: Omit<InsertOrderMatch, "shopDomain" | "orderId">[]
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(orderMatches)
+        .where(
+          and(
+            eq(orderMatches.shopDomain, shopDomain),
+            eq(orderMatches.orderId, orderId)
+          )
+        );
+
+      if (matches.length > 0) {
+        await tx
+          .insert(orderMatches)
+          .values(
+            matches.map((match) => ({ ...match, shopDomain, orderId }))
+          );
+      }
+    });
+  }
+
+  async getOrderMatches(
+    shopDomain: string,
+    orderId: string
+  ): Promise<OrderMatchWithOrder[]> {
+    const rows = await db
+      .select({ match: orderMatches, matchedOrder: orders })
+      .from(orderMatches)
+      .innerJoin(orders, eq(orders.id, orderMatches.matchedOrderId))
+      .where(
+        and(
+          eq(orderMatches.shopDomain, shopDomain),
+          eq(orderMatches.orderId, orderId)
+        )
+      )
+      .orderBy(orderMatches.rank);
+
+    return rows.map(({ match, matchedOrder }) => ({ ...match, matchedOrder }));
   }
 
   async getHistoricalScanRun(
@@ -310,6 +711,65 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
+  async getBulkActionRun(
+    shopDomain: string,
+    id: string
+  ): Promise<BulkActionRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(bulkActionRuns)
+      .where(
+        and(eq(bulkActionRuns.shopDomain, shopDomain), eq(bulkActionRuns.id, id))
+      )
+      .limit(1);
+    return run || undefined;
+  }
+
+  async getBulkActionRunById(id: string): Promise<BulkActionRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(bulkActionRuns)
+      .where(eq(bulkActionRuns.id, id))
+      .limit(1);
+    return run || undefined;
+  }
+
+  async createBulkActionRun(run: InsertBulkActionRun): Promise<BulkActionRun> {
+    const [created] = await db.insert(bulkActionRuns).values(run).returning();
+    return created;
+  }
+
+  async updateBulkActionRun(
+    id: string,
+    updates: Partial<BulkActionRun>
+  ): Promise<BulkActionRun> {
+    const [updated] = await db
+      .update(bulkActionRuns)
+      .set(updates)
+      .where(eq(bulkActionRuns.id, id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Unresolved flagged orders whose strongest match is the given order.
+   */
+  async getFlaggedDuplicatesOf(
+    shopDomain: string,
+    orderId: string
+  ): Promise<Order[]> {
+    return db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          eq(orders.shopDomain, shopDomain),
+          eq(orders.duplicateOfOrderId, orderId),
+          eq(orders.isFlagged, true)
+        )
+      );
+  }
+
   async getDashboardStats(shopDomain: string): Promise<DashboardStats> {
     const [totalFlaggedResult] = await db
       .select({ count: sql<number>`count(*)::int` })
@@ -453,11 +913,247 @@ export class DatabaseStorage implements IStorage {
     return settings;
   }
 
+  /**
+   * Apply a settings update and record it as a new version in one
+   * transaction, with the settings row locked so concurrent saves get
+   * consecutive versions. The first recorded change also stores the settings
+   * it replaced. Returns a null version when nothing changed.
+   */
+  async updateSettingsVersioned(
+    shopDomain: string,
+    updates: UpdateDetectionSettings,
+    meta: {
+      source: Exclude<SettingsVersionSource, "initial">;
+      changedBy: StaffMember | null;
+      restoredFromVersion?: number;
+    }
+  ): Promise<{ settings: DetectionSettings; version: DetectionSettingsVersion | null }> {
+    await this.initializeSettings(shopDomain);
+
+    return db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(detectionSettings)
+        .where(eq(detectionSettings.shopDomain, shopDomain))
+        .for("update");
+      const [updated] = await tx
+        .update(detectionSettings)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(detectionSettings.id, existing.id))
+        .returning();
+
+      const previousSnapshot = toSettingsSnapshot(existing);
+      const snapshot = toSettingsSnapshot(updated);
+      const changes = diffSettingsSnapshots(previousSnapshot, snapshot);
+      if (Object.keys(changes).length === 0) {
+        return { settings: updated, version: null };
+      }
+
+      let [latest] = await tx
+        .select({ version: detectionSettingsVersions.version })
+        .from(detectionSettingsVersions)
+        .where(eq(detectionSettingsVersions.shopDomain, shopDomain))
+        .orderBy(desc(detectionSettingsVersions.version))
+        .limit(1);
+      if (!latest) {
+        [latest] = await tx
+          .insert(detectionSettingsVersions)
+          .values({
+            shopDomain,
+            version: 1,
+            source: "initial",
+            settings: previousSnapshot,
+            changes: {},
+            createdAt: existing.updatedAt,
+          })
+          .returning({ version: detectionSettingsVersions.version });
+      }
+
+      const [version] = await tx
+        .insert(detectionSettingsVersions)
+        .values({
+          shopDomain,
+          version: latest.version + 1,
+          source: meta.source,
+          settings: snapshot,
+          changes,
+          changedBy: meta.changedBy,
+          restoredFromVersion: meta.restoredFromVersion ?? null,
+        })
+        .returning();
+      return { settings: updated, version };
+    });
+  }
+
+  async getSettingsVersions(
+    shopDomain: string,
+    limit: number
+  ): Promise<DetectionSettingsVersion[]> {
+    return db
+      .select()
+      .from(detectionSettingsVersions)
+      .where(eq(detectionSettingsVersions.shopDomain, shopDomain))
+      .orderBy(desc(detectionSettingsVersions.version))
+      .limit(limit);
+  }
+
+  async getSettingsVersion(
+    shopDomain: string,
+    version: number
+  ): Promise<DetectionSettingsVersion | undefined> {
+    const [row] = await db
+      .select()
+      .from(detectionSettingsVersions)
+      .where(
+        and(
+          eq(detectionSettingsVersions.shopDomain, shopDomain),
+          eq(detectionSettingsVersions.version, version)
+        )
+      )
+      .limit(1);
+    return row;
+  }
+
+  async getExclusions(shopDomain: string): Promise<DetectionExclusion[]> {
+    return db
+      .select()
+      .from(detectionExclusions)
+      .where(eq(detectionExclusions.shopDomain, shopDomain))
+      .orderBy(desc(detectionExclusions.createdAt));
+  }
+
+  async getExclusion(
+    shopDomain: string,
+    id: string
+  ): Promise<DetectionExclusion | undefined> {
+    const [exclusion] = await db
+      .select()
+      .from(detectionExclusions)
+      .where(
+        and(
+          eq(detectionExclusions.id, id),
+          eq(detectionExclusions.shopDomain, shopDomain)
+        )
+      )
+      .limit(1);
+    return exclusion || undefined;
+  }
+
+  async createExclusion(
+    exclusion: InsertDetectionExclusion
+  ): Promise<DetectionExclusion> {
+    const [created] = await db
+      .insert(detectionExclusions)
+      .values(exclusion)
+      .returning();
+    return created;
+  }
+
+  async updateExclusion(
+    shopDomain: string,
+    id: string,
+    updates: UpdateDetectionExclusion
+  ): Promise<DetectionExclusion | undefined> {
+    const [updated] = await db
+      .update(detectionExclusions)
+      .set(updates)
+      .where(
+        and(
+          eq(detectionExclusions.id, id),
+          eq(detectionExclusions.shopDomain, shopDomain)
+        )
+      )
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteExclusion(shopDomain: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(detectionExclusions)
+      .where(
+        and(
+          eq(detectionExclusions.id, id),
+          eq(detectionExclusions.shopDomain, shopDomain)
+        )
+      )
+      .returning({ id: detectionExclusions.id });
+    return deleted.length > 0;
+  }
+
   async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
     const [log] = await db.insert(auditLogs).values(insertLog).returning();
     return log;
   }
 
+  /**
+   * Write several audit entries in one insert.
+   */
+  async createAuditLogs(insertLogs: InsertAuditLog[]): Promise<void> {
+    if (insertLogs.length === 0) {
+      return;
+    }
+    await db.insert(auditLogs).values(insertLogs);
+  }
+
+  /**
+   * An order's audit trail, newest first.
+   */
+  async getOrderAuditLogs(shopDomain: string, orderId: string): Promise<AuditLog[]> {
+    return db
+      .select()
+      .from(auditLogs)
+      .where(and(eq(auditLogs.shopDomain, shopDomain), eq(auditLogs.orderId, orderId)))
+      .orderBy(desc(auditLogs.performedAt))
+      .limit(ORDER_HISTORY_LIMIT);
+  }
+
+  /**
+   * One page of the shop's audit log, newest first, with each entry's order
+   * number. Keyset-paginated on (performedAt, id).
+   */
+  async getAuditLogs(
+    shopDomain: string,
+    filter: AuditLogFilter,
+    page: { limit: number; cursor?: string }
+  ): Promise<AuditLogsPage> {
+    const conditions: SQL[] = [eq(auditLogs.shopDomain, shopDomain)];
+    if (filter.action) conditions.push(eq(auditLogs.action, filter.action));
+    if (filter.actor) conditions.push(eq(auditLogs.actor, filter.actor));
+    if (filter.orderId) conditions.push(eq(auditLogs.orderId, filter.orderId));
+    if (filter.from) conditions.push(gte(auditLogs.performedAt, filter.from));
+    if (filter.to) conditions.push(lte(auditLogs.performedAt, filter.to));
+    if (page.cursor) {
+      const cursor = decodeCursor(page.cursor, auditLogsCursorSchema);
+      conditions.push(
+        sql`(${auditLogs.performedAt}, ${auditLogs.id}) < (cast(${cursor.performedAt} as timestamp), ${cursor.id})`
+      );
+    }
+
+    // performed_at defaults to now() with microseconds, which a JS Date would
+    // truncate, so the cursor carries the timestamp as text
+    const rows = await db
+      .select({
+        ...getTableColumns(auditLogs),
+        orderNumber: orders.orderNumber,
+        performedAtKey: sql<string>`${auditLogs.performedAt}::text`,
+      })
+      .from(auditLogs)
+      .leftJoin(orders, eq(orders.id, auditLogs.orderId))
+      .where(and(...conditions))
+      .orderBy(desc(auditLogs.performedAt), desc(auditLogs.id))
+      .limit(page.limit + 1);
+
+    const pageRows = rows.slice(0, page.limit);
+    const last = pageRows[pageRows.length - 1];
+    return {
+      entries: pageRows.map(({ performedAtKey, ...entry }) => entry),
+      nextCursor:
+        rows.length > page.limit && last
+          ? encodeCursor({ performedAt: last.performedAtKey, id: last.id })
+          : null,
+    };
+  }
+
   async getSubscription(shopDomain: string): Promise<Subscription | undefined> {
     const [subscription] = await db
       .select()
@@ -569,14 +1265,24 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async dismissOrder(shopDomain: string, orderId: string): Promise<Order> {
-    return this.resolveOrder(shopDomain, orderId, "manual_dashboard");
+  async dismissOrder(
+    shopDomain: string,
+    orderId: string,
+    staff: StaffMember | null = null
+  ): Promise<Order> {
+    return this.resolveOrder(shopDomain, orderId, "manual_dashboard", undefined, staff);
   }
 
+  /**
+   * Clear an order's flag. A resolution records how the reviewer classified
+   * the flag and `staff` who made it; automatic resolutions leave both unset.
+   */
   async resolveOrder(
     shopDomain: string,
     orderId: string,
-    resolvedBy: string
+    resolvedBy: string,
+    resolution?: OrderResolution,
+    staff: StaffMember | null = null
   ): Promise<Order> {
     const order = await this.getOrder(shopDomain, orderId);
     if (!order) {
@@ -593,10 +1299,38 @@ export class DatabaseStorage implements IStorage {
       resolvedBy: resolvedBy as
         | "manual_dashboard"
         | "shopify_tag_removed"
+        | "shopify_cancelled"
+        | "shopify_refunded"
         | "auto_merged",
+      resolutionOutcome: resolution?.outcome ?? null,
+      resolutionNote: resolution?.note || null,
+      resolvedByStaff: staff,
     });
   }
 
+  /**
+   * Identify a staff user by their Shopify user ID. Name and email come from
+   * the most recent online session stored for them, if any.
+   */
+  async getStaffMember(shopDomain: string, userId: string): Promise<StaffMember> {
+    const [session] = await db
+      .select({
+        firstName: shopifySessions.firstName,
+        lastName: shopifySessions.lastName,
+        email: shopifySessions.email,
+      })
+      .from(shopifySessions)
+      .where(and(eq(shopifySessions.shop, shopDomain), eq(shopifySessions.userId, userId)))
+      .orderBy(desc(shopifySessions.expires))
+      .limit(1);
+
+    const name = [session?.firstName, session?.lastName]
+      .map((part) => part?.trim())
+      .filter(Boolean)
+      .join(" ");
+    return { userId, name: name || null, email: session?.email || null };
+  }
+
   async hasWebhookDelivery(
     shopDomain: string,
     deliveryId: string
@@ -754,12 +1488,20 @@ export class DatabaseStorage implements IStorage {
     await db
       .delete(historicalScanRuns)
       .where(eq(historicalScanRuns.shopDomain, shopDomain));
+    await db
+      .delete(bulkActionRuns)
+      .where(eq(bulkActionRuns.shopDomain, shopDomain));
 
-    // 1. Delete audit logs (references orders)
+    // 1. Delete audit logs, recorded matches and SKU keys (reference orders)
     await db.delete(auditLogs).where(eq(auditLogs.shopDomain, shopDomain));
+    await db.delete(orderMatches).where(eq(orderMatches.shopDomain, shopDomain));
+    await db.delete(orderSkus).where(eq(orderSkus.shopDomain, shopDomain));
 
     // 2. Delete orders
     await db.delete(orders).where(eq(orders.shopDomain, shopDomain));
+    await db
+      .delete(detectionExclusions)
+      .where(eq(detectionExclusions.shopDomain, shopDomain));
 
     // 3. Delete webhook deliveries (excluding the current delivery ID to preserve idempotency)
     // Explicitly check for non-empty string to handle empty string edge case
@@ -778,7 +1520,10 @@ export class DatabaseStorage implements IStorage {
         .where(eq(webhookDeliveries.shopDomain, shopDomain));
     }
 
-    // 4. Delete detection settings
+    // 4. Delete detection settings and their history
+    await db
+      .delete(detectionSettingsVersions)
+      .where(eq(detectionSettingsVersions.shopDomain, shopDomain));
     await db
       .delete(detectionSettings)
       .where(eq(detectionSettings.shopDomain, shopDomain));
@@ -802,19 +1547,22 @@ export class DatabaseStorage implements IStorage {
     customerEmail: string,
     customerId?: number
   ): Promise<Order[]> {
-    // Find orders by email
+    // Find orders by email, or by Shopify customer ID when provided
     const ordersByEmail = await db
       .select()
       .from(orders)
       .where(
         and(
           eq(orders.shopDomain, shopDomain),
-          eq(orders.customerEmail, customerEmail)
+          customerId != null
+            ? or(
+                eq(orders.customerEmail, customerEmail),
+                eq(orders.shopifyCustomerId, String(customerId))
+              )
+            : eq(orders.customerEmail, customerEmail)
         )
       );
 
-    // If customerId is provided, we could also search by it, but we don't store customerId
-    // So we just return orders by email
     return ordersByEmail;
   }
 
@@ -858,10 +1606,13 @@ export class DatabaseStorage implements IStorage {
       .update(orders)
       .set({
         customerEmail: "redacted@example.com",
+        customerEmailCanonical: null,
         customerName: "Redacted",
         customerPhone: null,
         customerPhoneNormalized: null,
         shippingAddress: null, // Remove shipping address data
+        shippingAddressKey: null,
+        customerTags: null,
       })
       .where(and(...conditions));
 
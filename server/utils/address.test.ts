@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { buildAddressKey, normalizeAddress, normalizePostcode } from "./address";
+
+describe("normalizeAddress", () => {
+  it("abbreviates street suffixes and directionals and extracts the unit", () => {
+    expect(
+      normalizeAddress({
+        address1: "123 North Main Street Apt 4",
+        city: "New York",
+        zip: "10001-1234",
+        country: "United States",
+      })
+    ).toEqual({
+      street: "123 n main st",
+      unit: "4",
+      city: "newyork",
+      province: "",
+      postcode: "10001",
+      country: "US",
+    });
+  });
+
+  it("reads the unit from address2 when address1 has none", () => {
+    expect(normalizeAddress({ address1: "123 Main St", address2: "Suite 200" })?.unit).toBe("200");
+    expect(normalizeAddress({ address1: "123 Main St", address2: "4B" })?.unit).toBe("4b");
+  });
+
+  it("returns null without a street line", () => {
+    expect(normalizeAddress({})).toBeNull();
+    expect(normalizeAddress(null)).toBeNull();
+  });
+});
+
+describe("normalizePostcode", () => {
+  it("formats postcodes per country", () => {
+    expect(normalizePostcode("sw1a1aa", "GB")).toBe("SW1A 1AA");
+    expect(normalizePostcode("k1a 0b1", "CA")).toBe("K1A 0B1");
+    expect(normalizePostcode("1234 ab", "NL")).toBe("1234AB");
+  });
+});
+
+describe("buildAddressKey", () => {
+  it("gives equivalent street spellings the same key", () => {
+    const first = buildAddressKey({
+      address1: "123 Main Street Apt 4",
+      city: "New York",
+      country_code: "US",
+    } as any);
+    const second = buildAddressKey({
+      address1: "123 Main St #4",
+      city: "New York",
+      country: "US",
+    });
+
+    expect(first).toBe("US|123 main st");
+    expect(second).toBe(first);
+  });
+});
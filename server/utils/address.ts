@@ -0,0 +1,208 @@
+import type { Order } from "@shared/schema";
+
+export type ShippingAddress = NonNullable<Order["shippingAddress"]> & {
+  country_code?: string;
+  province_code?: string;
+};
+
+export interface NormalizedAddress {
+  street: string;
+  unit: string;
+  city: string;
+  province: string;
+  postcode: string;
+  country: string;
+}
+
+const STREET_SUFFIXES: Record<string, string> = {
+  alley: "aly",
+  avenue: "ave",
+  av: "ave",
+  boulevard: "blvd",
+  circle: "cir",
+  close: "cl",
+  court: "ct",
+  crescent: "cres",
+  drive: "dr",
+  expressway: "expy",
+  freeway: "fwy",
+  highway: "hwy",
+  lane: "ln",
+  parkway: "pkwy",
+  place: "pl",
+  plaza: "plz",
+  road: "rd",
+  square: "sq",
+  street: "st",
+  str: "st",
+  terrace: "ter",
+  trail: "trl",
+};
+
+const DIRECTIONALS: Record<string, string> = {
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+  northeast: "ne",
+  northwest: "nw",
+  southeast: "se",
+  southwest: "sw",
+};
+
+const UNIT_DESIGNATORS = [
+  "apartment",
+  "apt",
+  "building",
+  "bldg",
+  "floor",
+  "fl",
+  "flat",
+  "no",
+  "number",
+  "rm",
+  "room",
+  "ste",
+  "suite",
+  "unit",
+];
+
+const UNIT_PATTERN = new RegExp(
+  `(?:^|\\s)(?:(?:${UNIT_DESIGNATORS.join("|")})\\.?\\s*#?|#)\\s*([a-z0-9-]+)\\s*$`,
+  "i"
+);
+
+const COUNTRY_CODES: Record<string, string> = {
+  "united states": "US",
+  "united states of america": "US",
+  usa: "US",
+  canada: "CA",
+  "united kingdom": "GB",
+  "great britain": "GB",
+  uk: "GB",
+  australia: "AU",
+  germany: "DE",
+  france: "FR",
+  netherlands: "NL",
+  ireland: "IE",
+  "new zealand": "NZ",
+};
+
+function collapse(value: string | undefined): string {
+  return (value || "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9#\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function normalizeCountry(address: ShippingAddress): string {
+  const code = address.country_code?.trim().toUpperCase();
+  if (code) return code;
+
+  const name = collapse(address.country);
+  if (!name) return "";
+  if (/^[a-z]{2}$/.test(name)) return name.toUpperCase();
+  return COUNTRY_CODES[name] ?? name.toUpperCase();
+}
+
+/**
+ * Format a postcode the way the destination country writes it so that
+ * "10001-1234" and "10001", or "sw1a1aa" and "SW1A 1AA", compare equal.
+ */
+export function normalizePostcode(
+  postcode: string | undefined,
+  country: string
+): string {
+  const compact = (postcode || "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+  if (!compact) return "";
+
+  switch (country) {
+    case "US":
+      return compact.slice(0, 5);
+    case "GB":
+    case "CA":
+      return compact.length > 3
+        ? `${compact.slice(0, -3)} ${compact.slice(-3)}`
+        : compact;
+    case "":
+      // Country unknown: still fold ZIP+4 down to the 5-digit ZIP
+      return /^\d{9}$/.test(compact) ? compact.slice(0, 5) : compact;
+    default:
+      return compact;
+  }
+}
+
+function normalizeUnit(value: string): string {
+  return value.replace(/^0+(?=\w)/, "").replace(/-/g, "");
+}
+
+function extractUnit(line: string): { rest: string; unit: string } {
+  const match = line.match(UNIT_PATTERN);
+  if (!match) {
+    return { rest: line, unit: "" };
+  }
+  return {
+    rest: line.slice(0, match.index).trim(),
+    unit: normalizeUnit(match[1]),
+  };
+}
+
+function abbreviateStreet(street: string): string {
+  return street
+    .replace(/#/g, " ")
+    .split(" ")
+    .filter(Boolean)
+    .map((token) => STREET_SUFFIXES[token] ?? DIRECTIONALS[token] ?? token)
+    .join(" ");
+}
+
+/**
+ * Break a Shopify shipping address into comparable components: street with
+ * suffixes/directionals abbreviated, unit pulled from address1 or address2,
+ * and a country-formatted postcode. Returns null when there is no street.
+ */
+export function normalizeAddress(
+  address: ShippingAddress | null | undefined
+): NormalizedAddress | null {
+  if (!address) return null;
+
+  const { rest, unit: inlineUnit } = extractUnit(collapse(address.address1));
+  const street = abbreviateStreet(rest);
+  if (!street) return null;
+
+  let unit = inlineUnit;
+  const address2 = collapse(address.address2);
+  if (!unit && address2) {
+    const { rest: address2Rest, unit: address2Unit } = extractUnit(address2);
+    unit =
+      address2Unit ||
+      (/^[a-z0-9-]+$/.test(address2Rest) ? normalizeUnit(address2Rest) : "");
+  }
+
+  const country = normalizeCountry(address);
+
+  return {
+    street,
+    unit,
+    city: collapse(address.city).replace(/[\s-]/g, ""),
+    province: collapse(address.province_code || address.province).replace(/\s/g, ""),
+    postcode: normalizePostcode(address.zip, country),
+    country,
+  };
+}
+
+/**
+ * Indexed blocking key for address lookups: country plus normalized street.
+ * City, postcode and unit are compared after retrieval so partial matches
+ * (street + city, or street + zip) still surface as candidates.
+ */
+export function buildAddressKey(
+  address: ShippingAddress | null | undefined
+): string | null {
+  const normalized = normalizeAddress(address);
+  if (!normalized) return null;
+  return `${normalized.country}|${normalized.street}`;
+}
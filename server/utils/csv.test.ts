@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { formatCsvValue, toCsv } from "./csv";
+
+describe("formatCsvValue", () => {
+  it("quotes delimiters and escapes quotes", () => {
+    expect(formatCsvValue('Same email, "Same name"')).toBe(
+      '"Same email, ""Same name"""'
+    );
+  });
+
+  it("neutralizes spreadsheet formulas", () => {
+    expect(formatCsvValue("=HYPERLINK(\"x\")")).toBe("\"'=HYPERLINK(\"\"x\"\")\"");
+    expect(formatCsvValue("-12")).toBe("'-12");
+    expect(formatCsvValue(-12)).toBe("-12");
+  });
+
+  it("formats dates and empty values", () => {
+    expect(formatCsvValue(new Date("2026-05-01T12:00:00.000Z"))).toBe(
+      "2026-05-01T12:00:00.000Z"
+    );
+    expect(formatCsvValue(null)).toBe("");
+  });
+});
+
+describe("toCsv", () => {
+  it("joins a header row and data rows with CRLF", () => {
+    expect(toCsv(["a", "b"], [[1, "x"]])).toBe("a,b\r\n1,x");
+  });
+});
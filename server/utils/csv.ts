@@ -0,0 +1,24 @@
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Spreadsheet apps evaluate cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Format one CSV cell: dates as ISO strings, formula-like text prefixed with
+ * a quote, and quoting whenever the value contains a delimiter or quote.
+ */
+export function formatCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map((row) => row.map(formatCsvValue).join(","))
+    .join("\r\n");
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { decodeCursor, encodeCursor, InvalidCursorError } from "./cursor";
+
+const positionSchema = z.object({ value: z.number(), id: z.string() });
+
+describe("cursor", () => {
+  it("round-trips a position through an opaque token", () => {
+    const token = encodeCursor({ value: 92, id: "order-1" });
+    expect(token).not.toContain("order-1");
+    expect(decodeCursor(token, positionSchema)).toEqual({ value: 92, id: "order-1" });
+  });
+
+  it("rejects tokens that are not valid JSON", () => {
+    expect(() => decodeCursor("not-a-cursor", positionSchema)).toThrow(InvalidCursorError);
+  });
+
+  it("rejects tokens whose shape does not match the schema", () => {
+    const token = encodeCursor({ value: "92" });
+    expect(() => decodeCursor(token, positionSchema)).toThrow(InvalidCursorError);
+  });
+});
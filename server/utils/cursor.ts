@@ -0,0 +1,29 @@
+import type { z } from "zod";
+
+export class InvalidCursorError extends Error {}
+
+/**
+ * Encode a keyset pagination position as an opaque, URL-safe token.
+ */
+export function encodeCursor(position: unknown): string {
+  return Buffer.from(JSON.stringify(position), "utf8").toString("base64url");
+}
+
+/**
+ * Decode a token produced by encodeCursor, validating its shape so a
+ * tampered or stale cursor is rejected instead of reaching the query.
+ */
+export function decodeCursor<T>(token: string, schema: z.ZodType<T>): T {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError("Malformed pagination cursor");
+  }
+
+  const parsed = schema.safeParse(decoded);
+  if (!parsed.success) {
+    throw new InvalidCursorError("Malformed pagination cursor");
+  }
+  return parsed.data;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { canonicalizeEmail } from "./email";
+
+describe("canonicalizeEmail", () => {
+  it("strips Gmail dots and plus tags", () => {
+    expect(canonicalizeEmail("Jane.Doe+promo@gmail.com")).toBe("janedoe@gmail.com");
+    expect(canonicalizeEmail("jane.doe@googlemail.com")).toBe("janedoe@gmail.com");
+  });
+
+  it("strips plus tags but keeps dots for other plus-addressing providers", () => {
+    expect(canonicalizeEmail("jane.doe+shop@outlook.com")).toBe("jane.doe@outlook.com");
+  });
+
+  it("only lowercases addresses on unknown domains", () => {
+    expect(canonicalizeEmail(" Jane.Doe+vip@Example.com ")).toBe("jane.doe+vip@example.com");
+  });
+
+  it("returns empty string for missing values", () => {
+    expect(canonicalizeEmail(null)).toBe("");
+    expect(canonicalizeEmail(undefined)).toBe("");
+  });
+});
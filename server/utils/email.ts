@@ -0,0 +1,58 @@
+/**
+ * Providers that deliver `local+tag@domain` to `local@domain`.
+ */
+const PLUS_ADDRESSING_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "icloud.com",
+  "me.com",
+  "mac.com",
+  "fastmail.com",
+  "protonmail.com",
+  "proton.me",
+  "pm.me",
+]);
+
+/**
+ * Providers that ignore dots in the local part.
+ */
+const DOT_INSENSITIVE_DOMAINS = new Set(["gmail.com", "googlemail.com"]);
+
+const DOMAIN_ALIASES: Record<string, string> = {
+  "googlemail.com": "gmail.com",
+};
+
+/**
+ * Canonicalize an email address for comparison and indexed lookups.
+ * Lowercases the address, then applies provider-aware rules: Gmail ignores
+ * dots, and most large providers drop `+tag` suffixes.
+ */
+export function canonicalizeEmail(email: string | null | undefined): string {
+  if (!email) return "";
+
+  const trimmed = email.trim().toLowerCase();
+  const atIndex = trimmed.lastIndexOf("@");
+  if (atIndex <= 0 || atIndex === trimmed.length - 1) {
+    return trimmed;
+  }
+
+  let local = trimmed.slice(0, atIndex);
+  const domain = trimmed.slice(atIndex + 1);
+
+  if (PLUS_ADDRESSING_DOMAINS.has(domain)) {
+    const plusIndex = local.indexOf("+");
+    if (plusIndex > 0) {
+      local = local.slice(0, plusIndex);
+    }
+  }
+
+  if (DOT_INSENSITIVE_DOMAINS.has(domain)) {
+    local = local.replace(/\./g, "");
+  }
+
+  return `${local}@${DOMAIN_ALIASES[domain] ?? domain}`;
+}
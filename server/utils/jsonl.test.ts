@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { readJsonLines } from "./jsonl";
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+describe("readJsonLines", () => {
+  it("joins records split across chunks and reads a final line without a newline", async () => {
+    const records: unknown[] = [];
+
+    await readJsonLines(streamOf(['{"id":1}\n{"id"', ':2}\n\n{"id":3}']), async (record) => {
+      records.push(record);
+    });
+
+    expect(records).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+  });
+
+  it("stops at the first record the callback rejects", async () => {
+    const records: unknown[] = [];
+
+    await expect(
+      readJsonLines(streamOf(['{"id":1}\n{"id":2}\n']), async (record) => {
+        records.push(record);
+        throw new Error("processing failed");
+      })
+    ).rejects.toThrow("processing failed");
+    expect(records).toEqual([{ id: 1 }]);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Read a JSON Lines body one record at a time, waiting for `onRecord` before
+ * reading further so a large download never sits in memory as a whole.
+ * Blank lines are skipped.
+ */
+export async function readJsonLines<T = unknown>(
+  body: ReadableStream<Uint8Array>,
+  onRecord: (record: T) => Promise<void>
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  const emitLines = async (text: string) => {
+    const lines = text.split("\n");
+    buffered = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) {
+        await onRecord(JSON.parse(line) as T);
+      }
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      await emitLines(buffered + decoder.decode(value, { stream: true }));
+    }
+    const rest = buffered + decoder.decode();
+    if (rest.trim()) {
+      await onRecord(JSON.parse(rest) as T);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  NAME_SIMILARITY_THRESHOLD,
+  levenshteinDistance,
+  nameSimilarity,
+  normalizeCustomerName,
+  soundex,
+} from "./name";
+
+describe("normalizeCustomerName", () => {
+  it("strips diacritics, punctuation and extra whitespace", () => {
+    expect(normalizeCustomerName("  José  O'Brien ")).toBe("jose o brien");
+  });
+});
+
+describe("levenshteinDistance", () => {
+  it("counts single-character edits", () => {
+    expect(levenshteinDistance("jon", "john")).toBe(1);
+    expect(levenshteinDistance("kitten", "sitting")).toBe(3);
+  });
+});
+
+describe("soundex", () => {
+  it("encodes phonetic variants identically", () => {
+    expect(soundex("John")).toBe("J500");
+    expect(soundex("Jon")).toBe("J500");
+    expect(soundex("Ashcraft")).toBe("A261");
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("treats typos and phonetic variants as similar", () => {
+    expect(nameSimilarity("Jon Smith", "John Smith")).toBeGreaterThanOrEqual(
+      NAME_SIMILARITY_THRESHOLD
+    );
+    expect(nameSimilarity("Catherine Smyth", "Katherine Smith")).toBeGreaterThanOrEqual(
+      NAME_SIMILARITY_THRESHOLD
+    );
+  });
+
+  it("keeps different people below the threshold", () => {
+    expect(nameSimilarity("Ada Lovelace", "Grace Hopper")).toBeLessThan(
+      NAME_SIMILARITY_THRESHOLD
+    );
+    expect(nameSimilarity("A. Lovelace", "Ada Lovelace")).toBeLessThan(
+      NAME_SIMILARITY_THRESHOLD
+    );
+  });
+
+  it("returns 0 when either name is missing", () => {
+    expect(nameSimilarity("", "Ada")).toBe(0);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Minimum similarity for two different customer names to count as a match.
+ */
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Similarity assigned when every name token sounds alike but spelling differs.
+ */
+const PHONETIC_MATCH_SIMILARITY = 0.9;
+
+/**
+ * Lowercase, strip diacritics and punctuation, and collapse whitespace.
+ */
+export function normalizeCustomerName(name: string | null | undefined): string {
+  if (!name) return "";
+
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function levenshteinDistance(first: string, second: string): number {
+  if (first === second) return 0;
+  if (!first.length) return second.length;
+  if (!second.length) return first.length;
+
+  let previousRow = Array.from({ length: second.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= first.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= second.length; j++) {
+      const substitutionCost = first[i - 1] === second[j - 1] ? 0 : 1;
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + substitutionCost
+      );
+    }
+    previousRow = currentRow;
+  }
+
+  return previousRow[second.length];
+}
+
+/**
+ * American Soundex code for a single word (e.g. "John" and "Jon" -> "J500").
+ */
+export function soundex(word: string): string {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!letters) return "";
+
+  const codes: Record<string, string> = {
+    b: "1", f: "1", p: "1", v: "1",
+    c: "2", g: "2", j: "2", k: "2", q: "2", s: "2", x: "2", z: "2",
+    d: "3", t: "3",
+    l: "4",
+    m: "5", n: "5",
+    r: "6",
+  };
+
+  let result = letters[0].toUpperCase();
+  let previousCode = codes[letters[0]] ?? "";
+  for (const letter of letters.slice(1)) {
+    const code = codes[letter] ?? "";
+    if (code && code !== previousCode) {
+      result += code;
+    }
+    // "h" and "w" do not separate letters with the same code; vowels do
+    if (letter !== "h" && letter !== "w") {
+      previousCode = code;
+    }
+  }
+
+  return (result + "000").slice(0, 4);
+}
+
+/**
+ * Score how alike two customer names are, from 0 (unrelated) to 1 (identical
+ * after normalization). Combines edit distance with a token-wise Soundex check
+ * so typos ("Jhon") and phonetic variants ("Jon") both score highly.
+ */
+export function nameSimilarity(
+  first: string | null | undefined,
+  second: string | null | undefined
+): number {
+  const normalizedFirst = normalizeCustomerName(first);
+  const normalizedSecond = normalizeCustomerName(second);
+  if (!normalizedFirst || !normalizedSecond) return 0;
+  if (normalizedFirst === normalizedSecond) return 1;
+
+  const maxLength = Math.max(normalizedFirst.length, normalizedSecond.length);
+  const editSimilarity =
+    1 - levenshteinDistance(normalizedFirst, normalizedSecond) / maxLength;
+
+  const firstTokens = normalizedFirst.split(" ");
+  const secondTokens = normalizedSecond.split(" ");
+  const phoneticMatch =
+    firstTokens.length === secondTokens.length &&
+    firstTokens.every(
+      (token, index) =>
+        token.length > 1 &&
+        secondTokens[index].length > 1 &&
+        soundex(token) === soundex(secondTokens[index])
+    );
+
+  return Math.max(editSimilarity, phoneticMatch ? PHONETIC_MATCH_SIMILARITY : 0);
+}
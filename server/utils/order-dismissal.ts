@@ -1,3 +0,0 @@
-export function shouldRemoveShopifyTag(flagSource: string | null): boolean {
-  return flagSource !== "historical";
-}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { DetectionSettings } from "@shared/schema";
+import { diffSettingsSnapshots, toSettingsSnapshot } from "./settings-diff";
+
+const settings = {
+  id: "settings-1",
+  shopDomain: "test-shop.myshopify.com",
+  timeWindowHours: 24,
+  matchEmail: true,
+  matchPhone: false,
+  matchAddress: true,
+  matchSku: false,
+  enableNotifications: false,
+  notificationEmail: null,
+  slackWebhookUrl: null,
+  notificationThreshold: 80,
+  flagThreshold: 70,
+  totalPriceTolerancePercent: 0,
+  ruleWeights: { email: 50, phone: 40 },
+  updatedAt: new Date("2026-05-01T00:00:00.000Z"),
+} as DetectionSettings;
+
+describe("toSettingsSnapshot", () => {
+  it("drops the row's identity and timestamp", () => {
+    const snapshot = toSettingsSnapshot(settings);
+
+    expect(snapshot).not.toHaveProperty("id");
+    expect(snapshot).not.toHaveProperty("shopDomain");
+    expect(snapshot).not.toHaveProperty("updatedAt");
+    expect(snapshot.flagThreshold).toBe(70);
+  });
+});
+
+describe("diffSettingsSnapshots", () => {
+  it("lists changed fields with their old and new values", () => {
+    const before = toSettingsSnapshot(settings);
+
+    expect(
+      diffSettingsSnapshots(before, { ...before, flagThreshold: 85, matchPhone: true })
+    ).toEqual({
+      flagThreshold: { from: 70, to: 85 },
+      matchPhone: { from: false, to: true },
+    });
+  });
+
+  it("ignores key order in rule weights", () => {
+    const before = toSettingsSnapshot(settings);
+
+    expect(diffSettingsSnapshots(before, { ...before, ruleWeights: { phone: 40, email: 50 } })).toEqual({});
+  });
+
+  it("treats a field missing from an older snapshot as null", () => {
+    const { totalPriceTolerancePercent: _omitted, ...older } = toSettingsSnapshot(settings);
+
+    expect(diffSettingsSnapshots(older, toSettingsSnapshot(settings))).toEqual({
+      totalPriceTolerancePercent: { from: null, to: 0 },
+    });
+  });
+});
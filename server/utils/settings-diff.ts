@@ -0,0 +1,49 @@
+import type {
+  DetectionSettings,
+  DetectionSettingsChanges,
+  DetectionSettingsSnapshot,
+} from "@shared/schema";
+
+/**
+ * The versioned part of a settings row.
+ */
+export function toSettingsSnapshot(settings: DetectionSettings): DetectionSettingsSnapshot {
+  const { id: _id, shopDomain: _shopDomain, updatedAt: _updatedAt, ...snapshot } = settings;
+  return snapshot;
+}
+
+// JSON with object keys sorted, so rule weights saved in a different key
+// order compare equal
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Fields whose value differs between two snapshots. A field missing from one
+ * side (e.g. added after an old version was recorded) counts as null.
+ */
+export function diffSettingsSnapshots(
+  from: Partial<DetectionSettingsSnapshot>,
+  to: Partial<DetectionSettingsSnapshot>
+): DetectionSettingsChanges {
+  const fields = Array.from(
+    new Set([...Object.keys(from), ...Object.keys(to)])
+  ) as Array<keyof DetectionSettingsSnapshot>;
+
+  const changes: DetectionSettingsChanges = {};
+  fields.forEach((field) => {
+    if (canonicalJson(from[field]) !== canonicalJson(to[field])) {
+      changes[field] = { from: from[field] ?? null, to: to[field] ?? null };
+    }
+  });
+  return changes;
+}
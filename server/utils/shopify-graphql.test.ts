@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { getThrottleDelayMs, shopifyGraphql, ShopifyGraphqlError } from "./shopify-graphql";
+
+function cost(requestedQueryCost: number, currentlyAvailable: number) {
+  return {
+    requestedQueryCost,
+    actualQueryCost: null,
+    throttleStatus: { maximumAvailable: 2000, currentlyAvailable, restoreRate: 100 },
+  };
+}
+
+function respond(body: unknown) {
+  return new Response(JSON.stringify(body), { status: 200 });
+}
+
+const options = { apiVersion: "2025-10", label: "test" };
+
+describe("getThrottleDelayMs", () => {
+  it("waits for the missing points at the restore rate", () => {
+    expect(getThrottleDelayMs(cost(400, 150))).toBe(2500);
+    expect(getThrottleDelayMs(cost(400, 1500))).toBe(0);
+    expect(getThrottleDelayMs(undefined)).toBe(0);
+  });
+});
+
+describe("shopifyGraphql", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("retries a throttled request once the bucket has refilled", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        respond({
+          errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }],
+          extensions: { cost: cost(300, 100) },
+        })
+      )
+      .mockResolvedValueOnce(respond({ data: { shop: { name: "Test" } } }));
+
+    const result = shopifyGraphql("test.myshopify.com", "token", "{ shop { name } }", {}, options);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toEqual({ shop: { name: "Test" } });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns partial data but throws errors without data", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        respond({
+          data: { order: { email: null } },
+          errors: [{ message: "Access denied", extensions: { code: "ACCESS_DENIED" } }],
+        })
+      )
+      .mockResolvedValueOnce(
+        respond({ errors: [{ message: "Access denied", extensions: { code: "ACCESS_DENIED" } }] })
+      );
+
+    await expect(
+      shopifyGraphql("test.myshopify.com", "token", "query", {}, options)
+    ).resolves.toEqual({ order: { email: null } });
+
+    const error = await shopifyGraphql("test.myshopify.com", "token", "query", {}, options).catch(
+      (caught) => caught
+    );
+    expect(error).toBeInstanceOf(ShopifyGraphqlError);
+    expect(error.codes).toEqual(["ACCESS_DENIED"]);
+  });
+});
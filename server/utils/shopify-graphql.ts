@@ -0,0 +1,159 @@
+import { fetchWithRetry } from "./fetch-with-retry";
+import { logger } from "./logger";
+
+// Throttled requests are retried this many times once enough cost points
+// have been restored
+const MAX_THROTTLE_RETRIES = 5;
+
+/** Query cost Shopify reports in `extensions.cost` of every Admin API response. */
+export interface ShopifyQueryCost {
+  requestedQueryCost: number;
+  actualQueryCost: number | null;
+  throttleStatus: {
+    maximumAvailable: number;
+    currentlyAvailable: number;
+    restoreRate: number;
+  };
+}
+
+export interface ShopifyUserError {
+  field?: string[] | null;
+  message: string;
+}
+
+interface ShopifyGraphqlPayload<TData> {
+  data?: TData | null;
+  errors?: Array<{ message: string; extensions?: { code?: string } }>;
+  extensions?: { cost?: ShopifyQueryCost };
+}
+
+export interface ShopifyGraphqlOptions {
+  apiVersion: string;
+  /** Label for log messages */
+  label: string;
+  /** Whether transient failures may be retried. Queries and set-like mutations are. */
+  idempotent?: boolean;
+}
+
+/**
+ * A failed Admin API GraphQL request. `detail` is safe to show or store: the
+ * HTTP status, or the GraphQL error codes, never the response body.
+ */
+export class ShopifyGraphqlError extends Error {
+  constructor(
+    readonly detail: string,
+    readonly status?: number,
+    readonly codes: string[] = []
+  ) {
+    super(`Shopify GraphQL request failed (${detail})`);
+    this.name = "ShopifyGraphqlError";
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Milliseconds until the bucket has restored enough points to run a query of
+ * the requested cost again, or 0 when it can run now.
+ */
+export function getThrottleDelayMs(cost: ShopifyQueryCost | undefined): number {
+  if (!cost || cost.throttleStatus.restoreRate <= 0) {
+    return 0;
+  }
+  const missing = cost.requestedQueryCost - cost.throttleStatus.currentlyAvailable;
+  return missing > 0 ? Math.ceil((missing / cost.throttleStatus.restoreRate) * 1000) : 0;
+}
+
+/**
+ * Run an Admin API GraphQL query or mutation and return its `data`.
+ *
+ * Throttled requests wait for the cost bucket to refill and are retried; after
+ * a successful request that left too few points for another of the same cost,
+ * the call waits before returning so paginated callers stay under the limit.
+ * Errors alongside data (e.g. fields hidden by protected customer data rules)
+ * are logged and the partial data returned; errors without data throw.
+ */
+export async function shopifyGraphql<TData, TVariables = Record<string, unknown>>(
+  shopDomain: string,
+  accessToken: string,
+  query: string,
+  variables: TVariables,
+  options: ShopifyGraphqlOptions
+): Promise<TData> {
+  const { apiVersion, label, idempotent = true } = options;
+  const url = `https://${shopDomain}/admin/api/${apiVersion}/graphql.json`;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetchWithRetry(url, {
+      method: "POST",
+      headers: {
+        "X-Shopify-Access-Token": accessToken,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ query, variables }),
+      idempotent,
+      label,
+    });
+    if (!response.ok) {
+      throw new ShopifyGraphqlError(
+        `${response.status} ${response.statusText}`.trim(),
+        response.status
+      );
+    }
+
+    const payload = (await response.json()) as ShopifyGraphqlPayload<TData>;
+    const cost = payload.extensions?.cost;
+    const codes = (payload.errors || []).map((error) => error.extensions?.code || "UNKNOWN");
+
+    if (codes.includes("THROTTLED") && attempt < MAX_THROTTLE_RETRIES) {
+      const delayMs = Math.max(getThrottleDelayMs(cost), 1000);
+      logger.warn(`[ShopifyGraphql] ${label} throttled, retrying in ${delayMs}ms`);
+      await sleep(delayMs);
+      continue;
+    }
+
+    if (codes.length > 0) {
+      if (!payload.data) {
+        throw new ShopifyGraphqlError(codes.join(", "), response.status, codes);
+      }
+      logger.warn(`[ShopifyGraphql] ${label} returned partial data (${codes.join(", ")})`);
+    }
+    if (!payload.data) {
+      throw new ShopifyGraphqlError("empty response", response.status);
+    }
+
+    const delayMs = getThrottleDelayMs(cost);
+    if (delayMs > 0) {
+      logger.debug(`[ShopifyGraphql] ${label} used the cost bucket, pausing ${delayMs}ms`);
+      await sleep(delayMs);
+    }
+    return payload.data;
+  }
+}
+
+/**
+ * Throw when a mutation reported user errors, which Shopify returns with a
+ * successful status.
+ */
+export function assertNoUserErrors(
+  userErrors: ShopifyUserError[] | null | undefined,
+  label: string
+): void {
+  if (userErrors && userErrors.length > 0) {
+    throw new ShopifyGraphqlError(
+      `${label}: ${userErrors.map((error) => error.message).join("; ")}`
+    );
+  }
+}
+
+/** Admin API global ID for a REST resource ID, e.g. `gid://shopify/Order/123`. */
+export function toShopifyGid(resource: string, id: string | number): string {
+  return `gid://shopify/${resource}/${id}`;
+}
+
+/** The numeric REST ID at the end of a global ID. */
+export function fromShopifyGid(gid: string): string {
+  return gid.slice(gid.lastIndexOf("/") + 1);
+}
@@ -0,0 +1,51 @@
+import { Writable } from "stream";
+import { describe, expect, it } from "vitest";
+import { StreamClosedError, writeChunk } from "./stream";
+
+function slowWritable(): { stream: Writable; finishWrite: () => void; written: string[] } {
+  const written: string[] = [];
+  let pending: (() => void) | null = null;
+  const stream = new Writable({
+    highWaterMark: 4,
+    write(chunk, _encoding, callback) {
+      written.push(String(chunk));
+      pending = callback;
+    },
+  });
+  return { stream, written, finishWrite: () => pending?.() };
+}
+
+describe("writeChunk", () => {
+  it("resolves immediately while the buffer has room", async () => {
+    const { stream, written } = slowWritable();
+
+    await writeChunk(stream, "ab");
+
+    expect(written).toEqual(["ab"]);
+  });
+
+  it("waits for drain when the buffer is full", async () => {
+    const { stream, finishWrite } = slowWritable();
+    let settled = false;
+
+    const write = writeChunk(stream, "abcdef").then(() => {
+      settled = true;
+    });
+    await Promise.resolve();
+    expect(settled).toBe(false);
+
+    finishWrite();
+    await write;
+    expect(settled).toBe(true);
+  });
+
+  it("rejects when the stream closes before draining", async () => {
+    const { stream } = slowWritable();
+
+    const write = writeChunk(stream, "abcdef");
+    stream.destroy();
+
+    await expect(write).rejects.toBeInstanceOf(StreamClosedError);
+    await expect(writeChunk(stream, "x")).rejects.toBeInstanceOf(StreamClosedError);
+  });
+});
@@ -0,0 +1,34 @@
+import type { Writable } from "stream";
+
+export class StreamClosedError extends Error {}
+
+/**
+ * Write a chunk and, when the stream's buffer is full, wait for it to drain
+ * so a large export never piles up in memory. Rejects if the stream closes
+ * first (e.g. the client disconnected).
+ */
+export function writeChunk(stream: Writable, chunk: string): Promise<void> {
+  if (stream.destroyed || stream.writableEnded) {
+    return Promise.reject(new StreamClosedError("Stream closed before the write"));
+  }
+  if (stream.write(chunk)) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      stream.off("drain", onDrain);
+      stream.off("close", onClose);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new StreamClosedError("Stream closed while waiting to drain"));
+    };
+    stream.on("drain", onDrain);
+    stream.on("close", onClose);
+  });
+}
@@ -0,0 +1,18 @@
+import { bulkActionService } from "../services/bulk-action.service";
+import { queueService, QUEUES } from "../services/queue.service";
+import { logger } from "../utils/logger";
+
+export class BulkActionWorker {
+  async start(): Promise<void> {
+    await queueService.process(
+      QUEUES.BULK_ACTIONS,
+      async (job) => {
+        await bulkActionService.executeRun(job.data.runId);
+      },
+      { teamSize: 1, teamConcurrency: 1, includeMetadata: true }
+    );
+    logger.info("[BulkActionWorker] Started");
+  }
+}
+
+export const bulkActionWorker = new BulkActionWorker();
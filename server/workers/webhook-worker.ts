@@ -43,6 +43,30 @@ export class WebhookWorker {
         }
       );
 
+      await queueService.process(
+        QUEUES.ORDERS_UPDATED,
+        async (job) => {
+          const { data } = job;
+          await webhookProcessor.processOrderUpdated(data);
+        },
+        {
+          teamSize: concurrency,
+          teamConcurrency: concurrency,
+        }
+      );
+
+      await queueService.process(
+        QUEUES.ORDERS_CLOSED,
+        async (job) => {
+          const { data } = job;
+          await webhookProcessor.processOrderClosed(data);
+        },
+        {
+          teamSize: concurrency,
+          teamConcurrency: concurrency,
+        }
+      );
+
       logger.info("[Worker] Webhook worker started successfully");
     } catch (error) {
       logger.error("[Worker] Failed to start webhook worker:", error);
@@ -14,6 +14,64 @@ import {
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// How a reviewer classified a flag when resolving it. These labels are the
+// ground truth for tuning detection weights and thresholds.
+export const RESOLUTION_OUTCOMES = [
+  "confirmed_duplicate",
+  "false_positive",
+  "merged_manually",
+  "customer_intended",
+] as const;
+export type ResolutionOutcome = (typeof RESOLUTION_OUTCOMES)[number];
+
+// Outcomes that confirm the flag was a real duplicate; the others count as
+// false positives in accuracy analytics
+export const DUPLICATE_RESOLUTION_OUTCOMES: readonly ResolutionOutcome[] = [
+  "confirmed_duplicate",
+  "merged_manually",
+];
+
+export const RESOLUTION_NOTE_MAX_LENGTH = 1000;
+
+// Snapshot of the Shopify staff user behind a dashboard action. The user ID
+// comes from the session token; name and email are filled in when an online
+// session for that user has been stored.
+export type StaffMember = {
+  userId: string;
+  name: string | null;
+  email: string | null;
+};
+
+/** Tag added to flagged orders in Shopify unless the shop configures another */
+export const DEFAULT_REVIEW_TAG = "Merge_Review_Candidate";
+
+/** Confidence at or above which the high-confidence tag is used instead of the low one */
+export const DEFAULT_HIGH_CONFIDENCE_TAG_THRESHOLD = 90;
+
+// Shopify tags the app added for a flag: on the flagged order itself and on
+// the order it duplicates. Recorded so they can be removed (and their removal
+// detected) even after the shop renames its tags.
+export type ShopifyReviewTags = {
+  order: string[];
+  original: string | null;
+};
+
+// Match details the app wrote to a flagged order in Shopify, recorded so they
+// can be cleared even after the shop turns the setting off
+export type ShopifyMatchDetails = {
+  metafieldId: string | null;
+  note: string | null; // Line appended to the order note
+};
+
+/** Confidence at or above which fulfillment is held, when holds are enabled */
+export const DEFAULT_FULFILLMENT_HOLD_THRESHOLD = 90;
+
+// held: a fulfillment hold was placed on the order's fulfillment orders;
+// released: the hold was lifted after the flag was cleared;
+// failed: no fulfillment order could be held
+export const FULFILLMENT_HOLD_STATUSES = ["held", "released", "failed"] as const;
+export type FulfillmentHoldStatus = (typeof FULFILLMENT_HOLD_STATUSES)[number];
+
 // Orders table - stores order data from Shopify webhooks
 export const orders = pgTable(
   "orders",
@@ -25,6 +83,7 @@ export const orders = pgTable(
     shopifyOrderId: varchar("shopify_order_id").notNull(),
     orderNumber: varchar("order_number").notNull(),
     customerEmail: text("customer_email"),
+    customerEmailCanonical: text("customer_email_canonical"),
     customerName: text("customer_name"),
     customerPhone: text("customer_phone"),
     customerPhoneNormalized: text("customer_phone_normalized"),
@@ -36,6 +95,9 @@ export const orders = pgTable(
       country?: string;
       zip?: string;
     }>(),
+    shippingAddressKey: text("shipping_address_key"), // Normalized country|street blocking key
+    shopifyCustomerId: varchar("shopify_customer_id"),
+    customerTags: jsonb("customer_tags").$type<string[]>(),
     totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
     currency: varchar("currency", { length: 3 }).notNull(),
     createdAt: timestamp("created_at").notNull(),
@@ -47,7 +109,14 @@ export const orders = pgTable(
     matchReason: text("match_reason"),
     matchConfidence: integer("match_confidence"), // 0-100 percentage
     resolvedAt: timestamp("resolved_at"),
-    resolvedBy: varchar("resolved_by", { length: 50 }), // 'manual_dashboard', 'shopify_tag_removed', 'auto_merged'
+    resolvedBy: varchar("resolved_by", { length: 50 }), // 'manual_dashboard', 'shopify_tag_removed', 'shopify_cancelled', 'shopify_refunded', 'auto_merged'
+    resolutionOutcome: varchar("resolution_outcome", { length: 30 }).$type<ResolutionOutcome>(),
+    resolutionNote: text("resolution_note"),
+    resolvedByStaff: jsonb("resolved_by_staff").$type<StaffMember>(),
+    reviewTags: jsonb("review_tags").$type<ShopifyReviewTags>(), // null = untagged, or a live flag from before tags were recorded
+    fulfillmentHoldStatus: varchar("fulfillment_hold_status", { length: 20 }).$type<FulfillmentHoldStatus>(), // null = never held
+    fulfillmentHoldIds: jsonb("fulfillment_hold_ids").$type<string[]>(), // Shopify fulfillment orders still on hold
+    shopifyMatchDetails: jsonb("shopify_match_details").$type<ShopifyMatchDetails>(), // null = nothing written
     lineItems: jsonb("line_items").$type<
       Array<{
         id: string;
@@ -72,6 +141,12 @@ export const orders = pgTable(
       table.shopDomain,
       table.createdAt
     ),
+    shopEmailCanonicalCreatedAtIdx: index(
+      "orders_shop_email_canonical_created_at_idx"
+    ).on(table.shopDomain, table.customerEmailCanonical, table.createdAt),
+    shopAddressKeyCreatedAtIdx: index(
+      "orders_shop_address_key_created_at_idx"
+    ).on(table.shopDomain, table.shippingAddressKey, table.createdAt),
     shopPhoneNormalizedCreatedAtIdx: index(
       "orders_shop_phone_norm_created_at_idx"
     ).on(table.shopDomain, table.customerPhoneNormalized, table.createdAt),
@@ -83,6 +158,138 @@ export const orders = pgTable(
   })
 );
 
+// Order matches table - ranked duplicate candidates recorded for each analyzed order
+export const orderMatches = pgTable(
+  "order_matches",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    shopDomain: varchar("shop_domain").notNull(),
+    orderId: varchar("order_id")
+      .notNull()
+      .references(() => orders.id),
+    matchedOrderId: varchar("matched_order_id")
+      .notNull()
+      .references(() => orders.id),
+    rank: integer("rank").notNull(), // 1 = strongest match (the linked duplicateOfOrderId)
+    confidence: integer("confidence").notNull(), // 0-100 percentage
+    matchReason: text("match_reason").notNull(),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`now()`),
+  },
+  (table) => ({
+    orderMatchedUnique: uniqueIndex("order_matches_order_matched_idx").on(
+      table.orderId,
+      table.matchedOrderId
+    ),
+    shopOrderRankIdx: index("order_matches_shop_order_rank_idx").on(
+      table.shopDomain,
+      table.orderId,
+      table.rank
+    ),
+    matchedOrderIdx: index("order_matches_matched_order_idx").on(
+      table.matchedOrderId
+    ),
+  })
+);
+
+// SKU blocking keys - one row per distinct SKU on an order, so SKU candidates
+// are retrieved with an indexed lookup instead of scanning recent line items
+export const orderSkus = pgTable(
+  "order_skus",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    shopDomain: varchar("shop_domain").notNull(),
+    orderId: varchar("order_id")
+      .notNull()
+      .references(() => orders.id),
+    sku: text("sku").notNull(),
+    orderCreatedAt: timestamp("order_created_at").notNull(), // Copied from orders.created_at for windowed lookups
+  },
+  (table) => ({
+    orderSkuUnique: uniqueIndex("order_skus_order_sku_idx").on(
+      table.orderId,
+      table.sku
+    ),
+    shopSkuCreatedAtIdx: index("order_skus_shop_sku_created_at_idx").on(
+      table.shopDomain,
+      table.sku,
+      table.orderCreatedAt
+    ),
+  })
+);
+
+// Scoring signals that contribute to a duplicate match's confidence.
+// Weights are merchant-tunable per shop; defaults reproduce the original
+// hard-coded scoring.
+export const DETECTION_RULE_IDS = [
+  "email",
+  "phone",
+  "addressExact",
+  "addressPartial",
+  "name",
+  "sku",
+  "totalPrice",
+  "basket",
+  "basketMismatch",
+] as const;
+
+export type DetectionRuleId = (typeof DETECTION_RULE_IDS)[number];
+export type DetectionRuleWeights = Record<DetectionRuleId, number>;
+
+export const DEFAULT_DETECTION_RULE_WEIGHTS: DetectionRuleWeights = {
+  email: 50,
+  phone: 50,
+  addressExact: 50,
+  addressPartial: 25,
+  name: 20,
+  sku: 50,
+  totalPrice: 0,
+  basket: 0,
+  basketMismatch: 0, // Subtracted when baskets barely overlap
+};
+
+// Signals with an indexed candidate lookup. Detection reports how many
+// candidate orders each lookup returned.
+export const DETECTION_CANDIDATE_SIGNALS = [
+  "email",
+  "phone",
+  "address",
+  "sku",
+] as const;
+
+export type DetectionCandidateSignal =
+  (typeof DETECTION_CANDIDATE_SIGNALS)[number];
+export type DetectionCandidateCounts = Record<DetectionCandidateSignal, number>;
+
+export const EMPTY_DETECTION_CANDIDATE_COUNTS: DetectionCandidateCounts = {
+  email: 0,
+  phone: 0,
+  address: 0,
+  sku: 0,
+};
+
+/** Confidence at or above which an order is flagged as a duplicate */
+export const DEFAULT_FLAG_THRESHOLD = 70;
+
+/** How far apart two order totals may be (percent) and still count as the same */
+export const DEFAULT_TOTAL_PRICE_TOLERANCE_PERCENT = 0;
+
+export const detectionRuleWeightsSchema = z
+  .object(
+    Object.fromEntries(
+      DETECTION_RULE_IDS.map((ruleId) => [
+        ruleId,
+        z.number().int().min(0).max(100),
+      ])
+    ) as Record<DetectionRuleId, z.ZodNumber>
+  )
+  .partial();
+
 // Detection settings table - stores configuration for duplicate detection
 export const detectionSettings = pgTable("detection_settings", {
   id: varchar("id")
@@ -100,26 +307,146 @@ export const detectionSettings = pgTable("detection_settings", {
   notificationThreshold: integer("notification_threshold")
     .notNull()
     .default(80), // Only notify if confidence >= this
+  flagThreshold: integer("flag_threshold").notNull().default(70), // Flag if confidence >= this
+  totalPriceTolerancePercent: integer("total_price_tolerance_percent")
+    .notNull()
+    .default(0), // Totals within this percent count as the same
+  ruleWeights: jsonb("rule_weights").$type<Partial<DetectionRuleWeights>>(), // null = default weights
+  reviewTag: text("review_tag").notNull().default(DEFAULT_REVIEW_TAG), // Added to every flagged order
+  highConfidenceTag: text("high_confidence_tag"), // Added when confidence >= highConfidenceTagThreshold
+  lowConfidenceTag: text("low_confidence_tag"), // Added below highConfidenceTagThreshold
+  highConfidenceTagThreshold: integer("high_confidence_tag_threshold")
+    .notNull()
+    .default(DEFAULT_HIGH_CONFIDENCE_TAG_THRESHOLD),
+  originalOrderTag: text("original_order_tag"), // Added to the order a flagged order duplicates
+  holdFulfillment: boolean("hold_fulfillment").notNull().default(false), // Hold fulfillment of live flags
+  fulfillmentHoldThreshold: integer("fulfillment_hold_threshold")
+    .notNull()
+    .default(DEFAULT_FULFILLMENT_HOLD_THRESHOLD), // Only hold if confidence >= this
+  writeMatchMetafield: boolean("write_match_metafield").notNull().default(false), // Match details metafield on live flags
+  appendMatchNote: boolean("append_match_note").notNull().default(false), // Match summary appended to the order note
   updatedAt: timestamp("updated_at")
     .notNull()
     .default(sql`now()`),
 });
 
+// Every change to a shop's detection settings, newest version highest. The
+// first recorded change also stores the settings it replaced as version 1
+// ("initial") so they can be restored.
+export const SETTINGS_VERSION_SOURCES = ["initial", "update", "restore"] as const;
+
+export type SettingsVersionSource = (typeof SETTINGS_VERSION_SOURCES)[number];
+
+export const detectionSettingsVersions = pgTable(
+  "detection_settings_versions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    shopDomain: varchar("shop_domain").notNull(),
+    version: integer("version").notNull(),
+    source: varchar("source", { length: 20 }).$type<SettingsVersionSource>().notNull(),
+    settings: jsonb("settings").$type<DetectionSettingsSnapshot>().notNull(), // Settings after this version
+    changes: jsonb("changes").$type<DetectionSettingsChanges>().notNull(), // Compared with the previous version
+    changedBy: jsonb("changed_by").$type<StaffMember>(),
+    restoredFromVersion: integer("restored_from_version"),
+    createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  },
+  (table) => ({
+    shopVersionUnique: uniqueIndex("detection_settings_versions_shop_version_idx").on(
+      table.shopDomain,
+      table.version
+    ),
+  })
+);
+
+// Exclusion rules - orders matching any entry skip duplicate detection
+// (known repeat buyers, wholesale accounts, staff test accounts, subscriptions)
+export const EXCLUSION_TYPES = [
+  "email",
+  "phone",
+  "customerId",
+  "customerTag",
+  "addressKey",
+  "sku",
+] as const;
+
+export type ExclusionType = (typeof EXCLUSION_TYPES)[number];
+
+export const detectionExclusions = pgTable(
+  "detection_exclusions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    shopDomain: varchar("shop_domain").notNull(),
+    type: varchar("type", { length: 20 }).$type<ExclusionType>().notNull(),
+    value: text("value").notNull(), // Normalized the same way as the order field it is compared to
+    note: text("note"),
+    createdAt: timestamp("created_at")
+      .notNull()
+      .default(sql`now()`),
+  },
+  (table) => ({
+    shopTypeValueUnique: uniqueIndex("detection_exclusions_shop_type_value_idx").on(
+      table.shopDomain,
+      table.type,
+      table.value
+    ),
+  })
+);
+
 // Audit logs table - tracks all duplicate detection events
-export const auditLogs = pgTable("audit_logs", {
-  id: varchar("id")
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  shopDomain: varchar("shop_domain").notNull(),
-  orderId: varchar("order_id")
-    .notNull()
-    .references(() => orders.id),
-  action: varchar("action", { length: 50 }).notNull(), // 'flagged', 'tagged', 'reviewed', 'dismissed', 'resolved'
-  details: jsonb("details").$type<Record<string, any>>(),
-  performedAt: timestamp("performed_at")
-    .notNull()
-    .default(sql`now()`),
-});
+export const AUDIT_LOG_ACTIONS = [
+  "flagged",
+  "tagged",
+  "reviewed",
+  "dismissed",
+  "resolved",
+  "excluded",
+  "reevaluated",
+  "exported",
+  "settings_updated",
+  "scan_started",
+  "fulfillment_held",
+  "fulfillment_released",
+] as const;
+
+export type AuditLogAction = (typeof AUDIT_LOG_ACTIONS)[number];
+
+// Who performed an audited action: a merchant in the dashboard, Shopify (tag
+// removed, order cancelled or refunded) or the app itself
+export const AUDIT_LOG_ACTORS = ["dashboard", "shopify", "system"] as const;
+
+export type AuditLogActor = (typeof AUDIT_LOG_ACTORS)[number];
+
+export const auditLogs = pgTable(
+  "audit_logs",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    shopDomain: varchar("shop_domain").notNull(),
+    orderId: varchar("order_id").references(() => orders.id), // Null for shop-wide actions (settings, scans)
+    action: varchar("action", { length: 50 }).$type<AuditLogAction>().notNull(),
+    actor: varchar("actor", { length: 20 }).$type<AuditLogActor>().notNull().default("system"),
+    performedBy: jsonb("performed_by").$type<StaffMember>(), // Set for dashboard actions
+    details: jsonb("details").$type<Record<string, any>>(),
+    performedAt: timestamp("performed_at")
+      .notNull()
+      .default(sql`now()`),
+  },
+  (table) => ({
+    orderPerformedAtIdx: index("audit_logs_order_performed_at_idx").on(
+      table.orderId,
+      table.performedAt
+    ),
+    shopPerformedAtIdx: index("audit_logs_shop_performed_at_idx").on(
+      table.shopDomain,
+      table.performedAt
+    ),
+  })
+);
 
 // Shopify Sessions table - stores OAuth sessions
 export const shopifySessions = pgTable("shopify_sessions", {
@@ -209,6 +536,21 @@ export const webhookDeliveries = pgTable(
   })
 );
 
+// How a historical scan fetches orders: GraphQL pages for most shops, or a
+// Shopify bulk operation export when the window holds many orders
+export const HISTORICAL_SCAN_FETCH_MODES = ["paged", "bulk"] as const;
+export type HistoricalScanFetchMode = (typeof HISTORICAL_SCAN_FETCH_MODES)[number];
+
+// Progress of a historical scan, saved with its counters after each page so a
+// retried scan resumes instead of starting over
+export type HistoricalScanCheckpoint = {
+  // Paged fetches only: the next page to fetch, null once every page is done
+  cursor: string | null;
+  // Orders up to and including this one have been processed
+  lastOrderCreatedAt: string | null;
+  lastOrderId: string | null;
+};
+
 export const historicalScanRuns = pgTable("historical_scan_runs", {
   id: varchar("id")
     .primaryKey()
@@ -227,33 +569,137 @@ export const historicalScanRuns = pgTable("historical_scan_runs", {
   ordersFetched: integer("orders_fetched").notNull().default(0),
   ordersImported: integer("orders_imported").notNull().default(0),
   matchesFound: integer("matches_found").notNull().default(0),
-  candidateCapExceeded: boolean("candidate_cap_exceeded")
+  candidateCounts: jsonb("candidate_counts")
+    .$type<DetectionCandidateCounts>()
     .notNull()
-    .default(false),
+    .default(EMPTY_DETECTION_CANDIDATE_COUNTS), // Summed over the orders processed so far, across resumed attempts
   queueJobId: varchar("queue_job_id"),
   errorMessage: text("error_message"),
+  fetchMode: varchar("fetch_mode", { length: 10 }).$type<HistoricalScanFetchMode>(),
+  // Kept across retries so a retry picks up the export already running in
+  // Shopify, which allows one bulk query per shop at a time
+  bulkOperationId: varchar("bulk_operation_id"),
+  checkpoint: jsonb("checkpoint").$type<HistoricalScanCheckpoint>(),
 });
 
+export const BULK_ORDER_ACTIONS = ["dismiss", "resolve", "retag"] as const;
+export type BulkOrderAction = (typeof BULK_ORDER_ACTIONS)[number];
+
+// Bulk actions on flagged orders. The selection is resolved to order IDs when
+// the run is created so a queued run is unaffected by later flag changes.
+export const bulkActionRuns = pgTable(
+  "bulk_action_runs",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    shopDomain: varchar("shop_domain").notNull(),
+    action: varchar("action", { length: 20 }).$type<BulkOrderAction>().notNull(),
+    status: varchar("status", { length: 20 })
+      .$type<"queued" | "running" | "completed" | "failed">()
+      .notNull()
+      .default("queued"),
+    orderIds: jsonb("order_ids").$type<string[]>().notNull(),
+    resolution: jsonb("resolution").$type<OrderResolution>(), // Outcome and note for "resolve" runs
+    requestedBy: jsonb("requested_by").$type<StaffMember>(),
+    totalCount: integer("total_count").notNull().default(0),
+    processedCount: integer("processed_count").notNull().default(0),
+    succeededCount: integer("succeeded_count").notNull().default(0),
+    skippedCount: integer("skipped_count").notNull().default(0), // No longer flagged when the run reached them
+    failedCount: integer("failed_count").notNull().default(0),
+    requestedAt: timestamp("requested_at").notNull().default(sql`now()`),
+    statusUpdatedAt: timestamp("status_updated_at").notNull().default(sql`now()`),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    queueJobId: varchar("queue_job_id"),
+    errorMessage: text("error_message"),
+  },
+  (table) => ({
+    shopRequestedIdx: index("bulk_action_runs_shop_requested_idx").on(
+      table.shopDomain,
+      table.requestedAt
+    ),
+  })
+);
+
 // Insert schemas for validation
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
   resolvedAt: true,
   resolvedBy: true,
+  resolutionOutcome: true,
+  resolutionNote: true,
+  resolvedByStaff: true,
+  fulfillmentHoldStatus: true,
+  fulfillmentHoldIds: true,
+  shopifyMatchDetails: true,
   customerPhoneNormalized: true,
+  customerEmailCanonical: true,
+  shippingAddressKey: true,
 });
 
-export const insertDetectionSettingsSchema = createInsertSchema(
-  detectionSettings
-).omit({
+export const insertOrderMatchSchema = createInsertSchema(orderMatches).omit({
   id: true,
-  updatedAt: true,
+  createdAt: true,
 });
 
-export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
-  id: true,
-  performedAt: true,
+// Shopify tags are at most 40 characters and are separated by commas
+export const shopifyTagSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(40)
+  .regex(/^[^,]+$/, "Tags cannot contain commas");
+
+export const insertDetectionSettingsSchema = createInsertSchema(
+  detectionSettings
+)
+  .omit({
+    id: true,
+    updatedAt: true,
+  })
+  .extend({
+    flagThreshold: z.number().int().min(1).max(100).optional(),
+    totalPriceTolerancePercent: z.number().int().min(0).max(50).optional(),
+    ruleWeights: detectionRuleWeightsSchema.nullable().optional(),
+    reviewTag: shopifyTagSchema.optional(),
+    highConfidenceTag: shopifyTagSchema.nullable().optional(),
+    lowConfidenceTag: shopifyTagSchema.nullable().optional(),
+    highConfidenceTagThreshold: z.number().int().min(1).max(100).optional(),
+    originalOrderTag: shopifyTagSchema.nullable().optional(),
+    fulfillmentHoldThreshold: z.number().int().min(1).max(100).optional(),
+  });
+
+export const insertDetectionExclusionSchema = createInsertSchema(
+  detectionExclusions
+)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    type: z.enum(EXCLUSION_TYPES),
+    value: z.string().trim().min(1).max(255),
+    note: z.string().trim().max(255).nullable().optional(),
+  });
+
+export const detectionExclusionInputSchema = insertDetectionExclusionSchema.omit({
+  shopDomain: true,
 });
 
+export const updateDetectionExclusionSchema =
+  detectionExclusionInputSchema.partial();
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs)
+  .omit({
+    id: true,
+    performedAt: true,
+  })
+  .extend({
+    action: z.enum(AUDIT_LOG_ACTIONS),
+    actor: z.enum(AUDIT_LOG_ACTORS).optional(),
+  });
+
 export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
   id: true,
   createdAt: true,
@@ -286,23 +732,203 @@ export const insertHistoricalScanRunSchema = createInsertSchema(
   completedAt: true,
 });
 
+export const FLAGGED_ORDER_STATUSES = ["open", "resolved", "all"] as const;
+export type FlaggedOrderStatus = (typeof FLAGGED_ORDER_STATUSES)[number];
+
+export const FLAGGED_ORDER_SORT_FIELDS = ["flaggedAt", "confidence", "total"] as const;
+export type FlaggedOrderSortField = (typeof FLAGGED_ORDER_SORT_FIELDS)[number];
+
+export const FLAGGED_ORDERS_DEFAULT_LIMIT = 50;
+export const FLAGGED_ORDERS_MAX_LIMIT = 200;
+
+// Filters over flagged orders, shared by the dashboard list and bulk selections.
+// Values are coerced so the same schema accepts query strings and JSON bodies.
+export const flaggedOrderFilterSchema = z.object({
+  flagSource: z.enum(["live", "historical"]).optional(),
+  minConfidence: z.coerce.number().int().min(0).max(100).optional(),
+  maxConfidence: z.coerce.number().int().min(0).max(100).optional(),
+  matchReason: z.string().trim().min(1).max(200).optional(),
+  flaggedFrom: z.coerce.date().optional(),
+  flaggedTo: z.coerce.date().optional(),
+  currency: z
+    .string()
+    .trim()
+    .length(3)
+    .transform((value) => value.toUpperCase())
+    .optional(),
+  search: z.string().trim().min(1).max(200).optional(),
+});
+
+// Query string for GET /api/orders/flagged
+export const flaggedOrdersQuerySchema = flaggedOrderFilterSchema.extend({
+  status: z.enum(FLAGGED_ORDER_STATUSES).default("open"),
+  sort: z.enum(FLAGGED_ORDER_SORT_FIELDS).default("flaggedAt"),
+  direction: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(FLAGGED_ORDERS_MAX_LIMIT)
+    .default(FLAGGED_ORDERS_DEFAULT_LIMIT),
+  cursor: z.string().min(1).optional(),
+});
+
+// Body for POST /api/orders/:orderId/resolve
+export const resolveOrderSchema = z.object({
+  outcome: z.enum(RESOLUTION_OUTCOMES),
+  note: z.string().trim().max(RESOLUTION_NOTE_MAX_LENGTH).optional(),
+});
+
+// Query string for GET /api/analytics/accuracy
+export const accuracyAnalyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(90),
+});
+
+export const AUDIT_LOGS_DEFAULT_LIMIT = 50;
+export const AUDIT_LOGS_MAX_LIMIT = 200;
+
+export const EXPORT_FORMATS = ["csv", "ndjson"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Query string for GET /api/orders/flagged/export: the flagged orders list
+// filters without pagination
+export const flaggedOrdersExportQuerySchema = flaggedOrdersQuerySchema
+  .omit({ limit: true, cursor: true })
+  .extend({ format: z.enum(EXPORT_FORMATS).default("csv") });
+
+export const auditLogFilterSchema = z.object({
+  action: z.enum(AUDIT_LOG_ACTIONS).optional(),
+  actor: z.enum(AUDIT_LOG_ACTORS).optional(),
+  orderId: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Query string for GET /api/audit-logs
+export const auditLogsQuerySchema = auditLogFilterSchema.extend({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(AUDIT_LOGS_MAX_LIMIT)
+    .default(AUDIT_LOGS_DEFAULT_LIMIT),
+  cursor: z.string().min(1).optional(),
+});
+
+// Query string for GET /api/audit-logs/export
+export const auditLogExportQuerySchema = auditLogFilterSchema.extend({
+  format: z.enum(EXPORT_FORMATS).default("csv"),
+});
+
+export const SETTINGS_SIMULATION_MAX_DAYS = 90;
+export const SETTINGS_SIMULATION_MAX_ORDERS = 10000;
+
+export const BULK_SELECTION_MAX_ORDERS = 5000;
+
+// Either explicit order IDs or a filter over the shop's flagged orders
+export const bulkOrderSelectionSchema = z
+  .object({
+    orderIds: z
+      .array(z.string().min(1))
+      .min(1)
+      .max(BULK_SELECTION_MAX_ORDERS)
+      .optional(),
+    filter: flaggedOrderFilterSchema.optional(),
+  })
+  .refine((selection) => Boolean(selection.orderIds) !== Boolean(selection.filter), {
+    message: "Provide either orderIds or filter",
+  });
+
+// A resolution outcome and note only apply to the "resolve" action
+export const bulkOrderActionSchema = z
+  .object({
+    action: z.enum(BULK_ORDER_ACTIONS),
+    resolution: resolveOrderSchema.optional(),
+  })
+  .refine((body) => !body.resolution || body.action === "resolve", {
+    message: "A resolution only applies to the resolve action",
+  })
+  .and(bulkOrderSelectionSchema);
+
 // Update schema for settings
 export const updateDetectionSettingsSchema =
   insertDetectionSettingsSchema.partial();
 
+// Body for POST /api/settings/simulate
+export const settingsSimulationSchema = z.object({
+  settings: updateDetectionSettingsSchema,
+  days: z.coerce.number().int().min(1).max(SETTINGS_SIMULATION_MAX_DAYS).default(30),
+});
+
+export const SETTINGS_VERSIONS_DEFAULT_LIMIT = 50;
+export const SETTINGS_VERSIONS_MAX_LIMIT = 200;
+
+// Query string for GET /api/settings/versions
+export const settingsVersionsQuerySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(SETTINGS_VERSIONS_MAX_LIMIT)
+    .default(SETTINGS_VERSIONS_DEFAULT_LIMIT),
+});
+
+// Query string for GET /api/settings/versions/diff
+export const settingsVersionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
 export const updateSubscriptionSchema = insertSubscriptionSchema.partial();
 
 // Types
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type OrderMatch = typeof orderMatches.$inferSelect;
+export type InsertOrderMatch = z.infer<typeof insertOrderMatchSchema>;
+export type OrderMatchWithOrder = OrderMatch & { matchedOrder: Order };
+export type OrderSku = typeof orderSkus.$inferSelect;
 export type DetectionSettings = typeof detectionSettings.$inferSelect;
 export type InsertDetectionSettings = z.infer<
   typeof insertDetectionSettingsSchema
 >;
+// The detection settings a version records: everything but the row's identity
+export type DetectionSettingsSnapshot = Omit<DetectionSettings, "id" | "shopDomain" | "updatedAt">;
+
+export type DetectionSettingsChanges = Partial<
+  Record<keyof DetectionSettingsSnapshot, { from: unknown; to: unknown }>
+>;
+
+export type DetectionSettingsVersion = typeof detectionSettingsVersions.$inferSelect;
+export type InsertDetectionSettingsVersion = typeof detectionSettingsVersions.$inferInsert;
+
+// Comparison of two versions for GET /api/settings/versions/diff
+export type SettingsVersionDiff = {
+  from: number;
+  to: number;
+  changes: DetectionSettingsChanges;
+};
+
 export type UpdateDetectionSettings = z.infer<
   typeof updateDetectionSettingsSchema
 >;
+export type DetectionExclusion = typeof detectionExclusions.$inferSelect;
+export type InsertDetectionExclusion = z.infer<
+  typeof insertDetectionExclusionSchema
+>;
+export type DetectionExclusionInput = z.infer<
+  typeof detectionExclusionInputSchema
+>;
+export type UpdateDetectionExclusion = z.infer<
+  typeof updateDetectionExclusionSchema
+>;
 export type AuditLog = typeof auditLogs.$inferSelect;
+export type AuditLogFilter = z.infer<typeof auditLogFilterSchema>;
+export type AuditLogEntry = AuditLog & { orderNumber: string | null };
+export type AuditLogsPage = {
+  entries: AuditLogEntry[];
+  nextCursor: string | null;
+};
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type Subscription = typeof subscriptions.$inferSelect;
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
@@ -312,6 +938,111 @@ export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
 export type HistoricalScanRun = typeof historicalScanRuns.$inferSelect;
 export type InsertHistoricalScanRun = typeof historicalScanRuns.$inferInsert;
 export type ShopifySession = typeof shopifySessions.$inferSelect;
+export type BulkActionRun = typeof bulkActionRuns.$inferSelect;
+export type InsertBulkActionRun = typeof bulkActionRuns.$inferInsert;
+export type OrderResolution = z.infer<typeof resolveOrderSchema>;
+export type FlaggedOrderFilter = z.infer<typeof flaggedOrderFilterSchema>;
+export type FlaggedOrdersQuery = z.infer<typeof flaggedOrdersQuerySchema>;
+export type BulkOrderSelection = z.infer<typeof bulkOrderSelectionSchema>;
+export type BulkOrderActionInput = z.infer<typeof bulkOrderActionSchema>;
+
+// One page of GET /api/orders/flagged; nextCursor is null on the last page
+export type FlaggedOrdersPage = {
+  orders: Order[];
+  total: number;
+  limit: number;
+  nextCursor: string | null;
+};
+
+// Side-by-side comparison of a flagged order and the order it duplicates.
+// "similar" means the values differ as written but match once normalized
+// (or fall within a tolerance).
+export type OrderComparisonFieldStatus = "match" | "similar" | "different" | "missing";
+
+export type OrderComparisonField = {
+  field: string;
+  label: string;
+  group: "customer" | "shippingAddress" | "totals";
+  flaggedValue: string | null;
+  originalValue: string | null;
+  status: OrderComparisonFieldStatus;
+  signals: DetectionRuleId[]; // Rules that scored on this field
+};
+
+export type OrderComparisonLineItem = {
+  key: string;
+  sku: string | null;
+  title: string;
+  flaggedQuantity: number;
+  originalQuantity: number;
+  status: "match" | "quantity" | "flaggedOnly" | "originalOnly";
+};
+
+export type OrderComparison = {
+  order: Order;
+  duplicateOf: Order;
+  // Confidence recomputed with the shop's current settings; may differ from
+  // order.matchConfidence if settings changed since the order was flagged
+  confidence: number;
+  signals: Array<{ ruleId: DetectionRuleId; reason: string; score: number }>;
+  fields: OrderComparisonField[];
+  lineItems: OrderComparisonLineItem[];
+  lineItemSignals: DetectionRuleId[];
+  basketSimilarity: number | null;
+};
+
+// Detection accuracy measured against resolution outcomes. Only flagged
+// orders get labeled, so recall is relative to the labeled duplicates.
+export type AccuracyCounts = {
+  labeled: number;
+  confirmed: number;
+  falsePositives: number;
+  falsePositiveRate: number | null; // null when nothing is labeled
+};
+
+export type DetectionAccuracyReport = {
+  periodDays: number;
+  totals: AccuracyCounts;
+  bySignal: Array<AccuracyCounts & { ruleId: DetectionRuleId }>;
+  byConfidence: Array<AccuracyCounts & { minConfidence: number; maxConfidence: number }>;
+  // Order totals are only summed within a currency: amounts are keyed by
+  // currency code
+  valueSaved: Array<{ weekStart: string; orders: number; values: Record<string, number> }>;
+  totalValueSaved: Array<{ currency: string; orders: number; value: number }>;
+  thresholds: Array<{
+    threshold: number;
+    flagged: number;
+    precision: number | null;
+    recall: number | null;
+  }>;
+  currentThreshold: number;
+  suggestedThreshold: number | null;
+  minimumLabeledForSuggestion: number;
+};
+
+// One order whose flag would change under draft settings. "current" is the
+// replay with the saved settings, not the stored flag.
+export type SettingsSimulationChange = {
+  orderId: string;
+  orderNumber: string;
+  customerName: string | null;
+  customerEmail: string | null;
+  totalPrice: string;
+  currency: string;
+  createdAt: string;
+  change: "flagged" | "unflagged";
+  current: { confidence: number; matchReason: string; duplicateOfOrderNumber: string } | null;
+  draft: { confidence: number; matchReason: string; duplicateOfOrderNumber: string } | null;
+};
+
+export type SettingsSimulationResult = {
+  days: number;
+  ordersReplayed: number;
+  truncated: boolean; // More orders than SETTINGS_SIMULATION_MAX_ORDERS in the period
+  currentFlagged: number;
+  draftFlagged: number;
+  changes: SettingsSimulationChange[];
+};
 
 // Dashboard stats type
 export type DashboardStats = {